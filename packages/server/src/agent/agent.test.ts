@@ -1,5 +1,11 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { Agent } from "./agent.js";
+import { z } from "zod";
+import { nanoid } from "nanoid";
+import { Agent, MAX_TOOL_ITERATIONS } from "./agent.js";
+import { ToolRegistry } from "../tools/registry.js";
+import { createToolRegistry } from "../tools/index.js";
+import { ConfirmationGate } from "./confirmation.js";
+import { InMemoryWorkItemClient } from "../services/in-memory-devops.js";
 import type { WorkItemSession } from "@azure-boards-ai/shared";
 
 // Mock ClaudeService
@@ -75,36 +81,621 @@ describe("Agent", () => {
       expect(chunks.length).toBeGreaterThan(0);
     });
 
-    it("should handle tool use events", async () => {
-      const mockClaudeWithTools = {
-        chat: vi.fn().mockImplementation(async function* () {
-          yield {
-            type: "tool_use",
-            toolUse: {
-              id: "tool_123",
-              name: "search",
-              input: { query: "test" },
+    it("should include linked work items in the system prompt", async () => {
+      mockSession.context.parentItem = {
+        id: 1,
+        fields: { "System.Title": "Epic", "System.WorkItemType": "Epic", "System.State": "Active" },
+      };
+      mockSession.context.childItems = [
+        {
+          id: 124,
+          fields: { "System.Title": "Task", "System.WorkItemType": "Task", "System.State": "New" },
+        },
+      ];
+
+      // eslint-disable-next-line sonarjs/no-unused-vars
+      for await (const _chunk of agent.chat("Summarize")) {
+        // Continue consuming
+      }
+
+      const request = mockClaude.chat.mock.calls[0][0];
+      expect(request.promptCache).toBe(true);
+      expect(request.systemPrompt).toHaveLength(2);
+      const systemPrompt = request.systemPrompt.join("\n\n");
+      expect(systemPrompt).toContain("Parent:\n- #1 [Epic] Epic (Active)");
+      expect(systemPrompt).toContain("Children:\n- #124 [Task] Task (New)");
+    });
+
+    it("should list only the tools the run can call", async () => {
+      const tools = createToolRegistry(new InMemoryWorkItemClient());
+      const readOnlyAgent = new Agent(mockSession, mockClaude as never, tools.readOnly());
+
+      // eslint-disable-next-line sonarjs/no-unused-vars
+      for await (const _chunk of readOnlyAgent.chat("Hi")) {
+        // Continue consuming
+      }
+      const gatedAgent = new Agent(mockSession, mockClaude as never, tools, {
+        confirmations: new ConfirmationGate(),
+      });
+      // eslint-disable-next-line sonarjs/no-unused-vars
+      for await (const _chunk of gatedAgent.chat("Hi")) {
+        // Continue consuming
+      }
+
+      const [readOnlyPrompt] = mockClaude.chat.mock.calls[0][0].systemPrompt;
+      expect(readOnlyPrompt).toContain("- read_work_item: Get the details of a work item by ID");
+      expect(readOnlyPrompt).not.toContain("create_work_item");
+      expect(readOnlyPrompt).not.toContain("shown to the user for approval before");
+      const [gatedPrompt] = mockClaude.chat.mock.calls[1][0].systemPrompt;
+      expect(gatedPrompt).toContain("- create_work_item:");
+      expect(gatedPrompt).toContain("shown to the user for approval before");
+    });
+
+    it("should include comments, recent changes and markdown descriptions in the prompt", async () => {
+      mockSession.context.workItem.fields["System.Description"] =
+        "<p>Pay with <b>saved</b> cards</p>";
+      mockSession.context.comments = [
+        {
+          id: 7,
+          text: "Needs a\nsecurity review",
+          author: "Dana Smith",
+          createdAt: "2025-03-02T10:00:00.000Z",
+        },
+      ];
+      mockSession.context.commentCount = 12;
+      mockSession.context.history = [
+        {
+          rev: 3,
+          changedBy: "Dana Smith",
+          changes: [{ field: "System.State", from: "New", to: "Active" }],
+        },
+      ];
+
+      // eslint-disable-next-line sonarjs/no-unused-vars
+      for await (const _chunk of agent.chat("Summarize")) {
+        // Continue consuming
+      }
+
+      const systemPrompt = mockClaude.chat.mock.calls[0][0].systemPrompt[1];
+      expect(systemPrompt).toContain("Description:\nPay with **saved** cards");
+      expect(systemPrompt).toContain(
+        "Comments (latest 1 of 12, use get_work_item_comments for older ones):\n" +
+          "- Dana Smith, 2025-03-02: Needs a\n  security review"
+      );
+      expect(systemPrompt).toContain(
+        "Recent Changes:\n- Rev 3 (Dana Smith): System.State: New -> Active"
+      );
+    });
+
+    it("should include the project's work item types in the prompt", async () => {
+      mockSession.context.workItemTypes = [
+        {
+          name: "User Story",
+          states: ["New", "Active"],
+          fields: [
+            { referenceName: "System.Title", name: "Title", type: "string", required: true },
+            {
+              referenceName: "System.Id",
+              name: "ID",
+              type: "integer",
+              required: false,
+              readOnly: true,
             },
-          };
-          yield { type: "done" };
-        }),
+            {
+              referenceName: "Microsoft.VSTS.Common.Priority",
+              name: "Priority",
+              type: "integer",
+              required: false,
+              allowedValues: ["1", "2"],
+            },
+          ],
+        },
+        { name: "Task", states: ["To Do", "Done"], fields: [] },
+      ];
+
+      // eslint-disable-next-line sonarjs/no-unused-vars
+      for await (const _chunk of agent.chat("Summarize")) {
+        // Continue consuming
+      }
+
+      const systemPrompt = mockClaude.chat.mock.calls[0][0].systemPrompt[1];
+      expect(systemPrompt).toContain(
+        "User Story states: New, Active\nUser Story fields:\n" +
+          "- System.Title (Title, string, required)\n" +
+          "- Microsoft.VSTS.Common.Priority (Priority, integer): 1, 2\n\n" +
+          "Other types:\n- Task (states: To Do, Done)"
+      );
+    });
+
+    it("should include the pending spec in the prompt", async () => {
+      mockSession.spec = {
+        id: "spec-1",
+        status: "draft",
+        description: "Pay with saved cards",
+        acceptanceCriteria: [{ given: "a saved card", when: "paying", then: "it is charged" }],
+        openQuestions: ["Which card brands?"],
+        risks: [],
+        createdAt: new Date(),
+        updatedAt: new Date(),
       };
 
-      const agentWithTools = new Agent(mockSession, mockClaudeWithTools as never);
+      // eslint-disable-next-line sonarjs/no-unused-vars
+      for await (const _chunk of agent.chat("Refine the spec")) {
+        // Continue consuming
+      }
+
+      const systemPrompt = mockClaude.chat.mock.calls[0][0].systemPrompt[1];
+      expect(systemPrompt).toContain(
+        "## Pending Spec (draft)\n\nPay with saved cards\n\n" +
+          "Acceptance Criteria:\n- Given a saved card, when paying, then it is charged\n\n" +
+          "Open Questions:\n- Which card brands?\n"
+      );
+    });
+
+    it("should execute tool calls and send results back to Claude", async () => {
+      const mockClaudeWithTools = {
+        chat: vi
+          .fn()
+          .mockImplementationOnce(async function* () {
+            yield {
+              type: "tool_use",
+              toolUse: {
+                id: "tool_123",
+                name: "search",
+                input: { query: "test" },
+              },
+            };
+            yield { type: "done", stopReason: "tool_use" };
+          })
+          .mockImplementationOnce(async function* () {
+            yield { type: "text", text: "Found it" };
+            yield { type: "done", stopReason: "end_turn" };
+          }),
+      };
+      const execute = vi.fn().mockResolvedValue({ results: [1, 2] });
+      const tools = new ToolRegistry([
+        {
+          definition: {
+            name: "search",
+            description: "Search",
+            input_schema: { type: "object" },
+          },
+          schema: z.object({ query: z.string() }),
+          execute,
+        },
+      ]);
+
+      const agentWithTools = new Agent(mockSession, mockClaudeWithTools as never, tools);
       const chunks = [];
 
       for await (const chunk of agentWithTools.chat("Search for something")) {
         chunks.push(chunk);
       }
 
-      expect(chunks.length).toBe(2);
-      expect(chunks[0].type).toBe("tool_call");
+      expect(chunks.map((chunk) => chunk.type)).toEqual([
+        "tool_call",
+        "tool_result",
+        "text",
+        "done",
+      ]);
       expect(chunks[0].toolCall).toEqual({
         id: "tool_123",
         name: "search",
         input: { query: "test" },
       });
-      expect(chunks[1].type).toBe("done");
+      expect(execute).toHaveBeenCalledWith(
+        { query: "test" },
+        expect.objectContaining({ session: mockSession })
+      );
+      expect(chunks[1].toolResult).toMatchObject({ toolCallId: "tool_123", name: "search" });
+      expect(mockClaudeWithTools.chat).toHaveBeenCalledTimes(2);
+
+      const [user, toolUse, toolResult, answer] = mockSession.transcript;
+      expect(user.content).toBe("Search for something");
+      expect(toolUse.toolCalls?.[0].id).toBe("tool_123");
+      expect(toolResult.role).toBe("user");
+      expect(toolResult.toolResults?.[0].toolCallId).toBe("tool_123");
+      expect(answer.content).toBe("Found it");
+    });
+
+    it("should accumulate streamed tool input", async () => {
+      const mockClaudeWithDeltas = {
+        chat: vi
+          .fn()
+          .mockImplementationOnce(async function* () {
+            yield { type: "tool_use", toolUse: { id: "tool_1", name: "unknown", input: {} } };
+            yield {
+              type: "tool_input_delta",
+              inputDelta: { toolUseId: "tool_1", partialJson: '{"id":' },
+            };
+            yield {
+              type: "tool_input_delta",
+              inputDelta: { toolUseId: "tool_1", partialJson: " 42}" },
+            };
+            yield { type: "done", stopReason: "tool_use" };
+          })
+          .mockImplementationOnce(async function* () {
+            yield { type: "done", stopReason: "end_turn" };
+          }),
+      };
+
+      const agentWithDeltas = new Agent(mockSession, mockClaudeWithDeltas as never);
+      const chunks = [];
+
+      for await (const chunk of agentWithDeltas.chat("Read 42")) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks[0].toolCall?.input).toEqual({ id: 42 });
+      expect(chunks[1].toolResult).toMatchObject({
+        isError: true,
+        content: "Unknown tool: unknown",
+      });
+    });
+
+    it("should not run tool calls cut off at the output token limit", async () => {
+      const execute = vi.fn();
+      const tools = new ToolRegistry([
+        {
+          definition: {
+            name: "update_title",
+            description: "Update the title",
+            input_schema: { type: "object" },
+          },
+          schema: z.object({ title: z.string().optional() }),
+          execute,
+        },
+      ]);
+      const truncatedClaude = {
+        chat: vi.fn().mockImplementation(async function* () {
+          yield { type: "text", text: "Updating the title" };
+          yield { type: "tool_use", toolUse: { id: "tool_1", name: "update_title", input: {} } };
+          yield {
+            type: "tool_input_delta",
+            inputDelta: { toolUseId: "tool_1", partialJson: '{"title": "Pay with sa' },
+          };
+          yield { type: "done", stopReason: "max_tokens" };
+        }),
+      };
+
+      const truncatedAgent = new Agent(mockSession, truncatedClaude as never, tools);
+      const chunks = [];
+
+      for await (const chunk of truncatedAgent.chat("Rename it")) {
+        chunks.push(chunk);
+      }
+
+      expect(execute).not.toHaveBeenCalled();
+      expect(truncatedClaude.chat).toHaveBeenCalledTimes(1);
+      expect(chunks.map((chunk) => chunk.type)).toEqual(["text", "error"]);
+      expect(chunks[1].error).toContain("output token limit");
+      const answer = mockSession.transcript[mockSession.transcript.length - 1];
+      expect(answer).toMatchObject({ content: "Updating the title", interrupted: true });
+      expect(answer.toolCalls).toBeUndefined();
+    });
+
+    it("should switch flow prompts and emit state changes", async () => {
+      const flowClaude = {
+        chat: vi
+          .fn()
+          .mockImplementationOnce(async function* () {
+            yield {
+              type: "tool_use",
+              toolUse: { id: "tool_1", name: "set_flow_state", input: { state: "plan" } },
+            };
+            yield { type: "done", stopReason: "tool_use" };
+          })
+          .mockImplementationOnce(async function* () {
+            yield { type: "text", text: "Here is a plan" };
+            yield { type: "done", stopReason: "end_turn" };
+          }),
+      };
+
+      const flowAgent = new Agent(mockSession, flowClaude as never, createToolRegistry());
+      const chunks = [];
+
+      for await (const chunk of flowAgent.chat("Break this down")) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks.find((chunk) => chunk.type === "state_changed")?.stateChange).toEqual({
+        from: "idle",
+        to: "plan",
+      });
+      expect(mockSession.state).toBe("plan");
+      expect(flowClaude.chat.mock.calls[0][0].systemPrompt[1]).toContain("Current Stage: Idle");
+      expect(flowClaude.chat.mock.calls[1][0].systemPrompt[1]).toContain("Current Stage: Plan");
+    });
+
+    it("should forward chunks emitted by tools before their result", async () => {
+      const progressClaude = {
+        chat: vi
+          .fn()
+          .mockImplementationOnce(async function* () {
+            yield { type: "tool_use", toolUse: { id: "tool_1", name: "progress", input: {} } };
+            yield { type: "done", stopReason: "tool_use" };
+          })
+          .mockImplementationOnce(async function* () {
+            yield { type: "done", stopReason: "end_turn" };
+          }),
+      };
+      const tools = new ToolRegistry([
+        {
+          definition: { name: "progress", input_schema: { type: "object" } },
+          schema: z.object({}),
+          execute: async (_input, { session, emit }) => {
+            session.state = "plan";
+            emit?.({ type: "state_changed", stateChange: { from: "idle", to: "plan" } });
+            return "ok";
+          },
+        },
+      ]);
+
+      const progressAgent = new Agent(mockSession, progressClaude as never, tools);
+      const chunks = [];
+
+      for await (const chunk of progressAgent.chat("Go")) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks.map((chunk) => chunk.type)).toEqual([
+        "tool_call",
+        "state_changed",
+        "tool_result",
+        "done",
+      ]);
+    });
+
+    describe("with confirmations", () => {
+      let gate: ConfirmationGate;
+      let execute: ReturnType<typeof vi.fn<() => Promise<string>>>;
+      let confirmingAgent: Agent;
+      let confirmingClaude: { chat: ReturnType<typeof vi.fn> };
+
+      beforeEach(() => {
+        gate = new ConfirmationGate();
+        execute = vi.fn(async () => "created");
+        confirmingClaude = {
+          chat: vi
+            .fn()
+            .mockImplementationOnce(async function* () {
+              yield { type: "tool_use", toolUse: { id: "tool_1", name: "create", input: {} } };
+              yield { type: "tool_use", toolUse: { id: "tool_2", name: "create", input: {} } };
+              yield { type: "done", stopReason: "tool_use" };
+            })
+            .mockImplementationOnce(async function* () {
+              yield { type: "done", stopReason: "end_turn" };
+            }),
+        };
+        const tools = new ToolRegistry([
+          {
+            definition: { name: "create", input_schema: { type: "object" } },
+            schema: z.object({}),
+            mutating: true,
+            preview: async () => ({ summary: "Create a task", changes: [] }),
+            execute,
+          },
+        ]);
+        confirmingAgent = new Agent(mockSession, confirmingClaude as never, tools, {
+          confirmations: gate,
+        });
+      });
+
+      it("should run mutating tools once approved", async () => {
+        for await (const chunk of confirmingAgent.chat("Create tasks")) {
+          if (chunk.type === "confirmation_required") {
+            expect(chunk.confirmation).toMatchObject({ name: "create", summary: "Create a task" });
+            gate.resolve(chunk.confirmation!.toolCallId, true);
+          }
+        }
+
+        expect(execute).toHaveBeenCalledTimes(2);
+        expect(confirmingClaude.chat).toHaveBeenCalledTimes(2);
+      });
+
+      it("should end the run when a change is rejected", async () => {
+        const chunks = [];
+
+        for await (const chunk of confirmingAgent.chat("Create tasks")) {
+          chunks.push(chunk);
+          if (chunk.type === "confirmation_required") {
+            gate.resolve(chunk.confirmation!.toolCallId, false);
+          }
+        }
+
+        expect(execute).not.toHaveBeenCalled();
+        expect(confirmingClaude.chat).toHaveBeenCalledTimes(1);
+        expect(chunks.map((chunk) => chunk.type)).toEqual([
+          "tool_call",
+          "confirmation_required",
+          "tool_result",
+          "tool_call",
+          "tool_result",
+          "done",
+        ]);
+        expect(mockSession.transcript.at(-1)?.toolResults).toEqual([
+          { toolCallId: "tool_1", content: "The user rejected this change", isError: true },
+          {
+            toolCallId: "tool_2",
+            content: "Skipped because an earlier tool call did not run",
+            isError: true,
+          },
+        ]);
+      });
+    });
+
+    describe("when cancelled", () => {
+      it("should keep the streamed text marked as interrupted", async () => {
+        const controller = new AbortController();
+        const streamingClaude = {
+          chat: vi.fn().mockImplementation(async function* () {
+            yield { type: "text", text: "Partial" };
+            controller.abort();
+            yield { type: "text", text: " answer" };
+            yield { type: "tool_use", toolUse: { id: "tool_1", name: "noop", input: {} } };
+            yield { type: "done", stopReason: "tool_use" };
+          }),
+        };
+        const cancelledAgent = new Agent(mockSession, streamingClaude as never);
+        const chunks = [];
+
+        for await (const chunk of cancelledAgent.chat("Hi", { signal: controller.signal })) {
+          chunks.push(chunk);
+        }
+
+        expect(chunks).toEqual([{ type: "text", content: "Partial" }, { type: "cancelled" }]);
+        expect(streamingClaude.chat.mock.calls[0][0].signal).toBe(controller.signal);
+        expect(mockSession.transcript.at(-1)).toMatchObject({
+          role: "assistant",
+          content: "Partial",
+          interrupted: true,
+        });
+        expect(mockSession.transcript.at(-1)?.toolCalls).toBeUndefined();
+      });
+
+      it("should treat an aborted request as a cancellation", async () => {
+        const controller = new AbortController();
+        const abortingClaude = {
+          chat: vi.fn().mockImplementation(async function* () {
+            controller.abort();
+            yield* [];
+            throw new Error("Request was aborted.");
+          }),
+        };
+        const cancelledAgent = new Agent(mockSession, abortingClaude as never);
+        const chunks = [];
+
+        for await (const chunk of cancelledAgent.chat("Hi", { signal: controller.signal })) {
+          chunks.push(chunk);
+        }
+
+        expect(chunks).toEqual([{ type: "cancelled" }]);
+        expect(mockSession.transcript.at(-1)?.role).toBe("user");
+      });
+
+      it("should answer the remaining tool calls with cancelled results", async () => {
+        const controller = new AbortController();
+        const toolClaude = {
+          chat: vi.fn().mockImplementation(async function* () {
+            yield { type: "tool_use", toolUse: { id: "tool_1", name: "stop", input: {} } };
+            yield { type: "tool_use", toolUse: { id: "tool_2", name: "stop", input: {} } };
+            yield { type: "done", stopReason: "tool_use" };
+          }),
+        };
+        const execute = vi.fn(async (_input: unknown, { signal }: { signal?: AbortSignal }) => {
+          controller.abort();
+          return { aborted: signal?.aborted };
+        });
+        const tools = new ToolRegistry([
+          {
+            definition: { name: "stop", input_schema: { type: "object" } },
+            schema: z.object({}),
+            execute,
+          },
+        ]);
+        const cancelledAgent = new Agent(mockSession, toolClaude as never, tools);
+        const chunks = [];
+
+        for await (const chunk of cancelledAgent.chat("Hi", { signal: controller.signal })) {
+          chunks.push(chunk);
+        }
+
+        expect(execute).toHaveBeenCalledTimes(1);
+        expect(toolClaude.chat).toHaveBeenCalledTimes(1);
+        expect(chunks.at(-1)).toEqual({ type: "cancelled" });
+        expect(mockSession.transcript.at(-1)?.toolResults).toEqual([
+          { toolCallId: "tool_1", content: expect.stringContaining('"aborted": true') },
+          { toolCallId: "tool_2", content: "Cancelled by the user", isError: true },
+        ]);
+      });
+    });
+
+    it("should stop after the maximum number of tool iterations", async () => {
+      const loopingClaude = {
+        chat: vi.fn().mockImplementation(async function* () {
+          yield { type: "tool_use", toolUse: { id: nanoid(), name: "noop", input: {} } };
+          yield { type: "done", stopReason: "tool_use" };
+        }),
+      };
+
+      const loopingAgent = new Agent(mockSession, loopingClaude as never);
+      const chunks = [];
+
+      for await (const chunk of loopingAgent.chat("Loop forever")) {
+        chunks.push(chunk);
+      }
+
+      expect(loopingClaude.chat).toHaveBeenCalledTimes(MAX_TOOL_ITERATIONS);
+      expect(chunks[chunks.length - 1].type).toBe("error");
+    });
+
+    it("should record token usage on the message and the session", async () => {
+      const usage = {
+        inputTokens: 1000,
+        outputTokens: 200,
+        cacheCreationInputTokens: 0,
+        cacheReadInputTokens: 0,
+      };
+      mockClaude.chat.mockImplementation(async function* () {
+        yield { type: "text", text: "Hello" };
+        yield { type: "usage", usage, model: "claude-sonnet-4-5-20250929" };
+        yield { type: "done" };
+      });
+
+      const chunks = [];
+      for await (const chunk of agent.chat("Hello")) {
+        chunks.push(chunk);
+      }
+
+      const expectedTotals = { ...usage, costUsd: 0.006, requests: 1 };
+      expect(chunks.slice(-2)).toEqual([
+        { type: "usage", usage: expectedTotals },
+        { type: "done" },
+      ]);
+      expect(mockSession.transcript[1]).toMatchObject({
+        usage,
+        model: "claude-sonnet-4-5-20250929",
+      });
+      expect(mockSession.usage?.total).toEqual(expectedTotals);
+    });
+
+    it("should use the session's model settings", async () => {
+      mockSession.modelSettings = { model: "claude-haiku-4-5", temperature: 0 };
+
+      // eslint-disable-next-line sonarjs/no-unused-vars
+      for await (const _chunk of agent.chat("Hello")) {
+        // Continue consuming
+      }
+
+      expect(mockClaude.chat).toHaveBeenCalledWith(
+        expect.objectContaining({ model: "claude-haiku-4-5", temperature: 0 })
+      );
+    });
+
+    it("should compact a long transcript before calling Claude", async () => {
+      const earlier = "Earlier discussion ".repeat(100);
+      mockSession.transcript.push(
+        { id: "m1", role: "user", content: earlier, createdAt: new Date() },
+        { id: "m2", role: "assistant", content: earlier, createdAt: new Date() }
+      );
+      const compactingAgent = new Agent(mockSession, mockClaude as never, undefined, {
+        compaction: { compactAtTokens: 100, keepRecentTokens: 100 },
+      });
+
+      // eslint-disable-next-line sonarjs/no-unused-vars
+      for await (const _chunk of compactingAgent.chat("Next question")) {
+        // Continue consuming
+      }
+
+      // One call summarizes, the next answers from the compacted transcript
+      expect(mockClaude.chat).toHaveBeenCalledTimes(2);
+      const [answerRequest] = mockClaude.chat.mock.calls[1];
+      expect(answerRequest.messages.map((msg: { content: string }) => msg.content)).toEqual([
+        "Summary of the earlier conversation:\n\nHello",
+        "Next question",
+        "Hello",
+      ]);
+      expect(mockSession.compactions).toHaveLength(1);
     });
 
     it("should add messages to transcript", async () => {
@@ -1,18 +1,96 @@
-import type { WorkItemSession, Message, StreamChunk } from "@azure-boards-ai/shared";
-import { ClaudeService } from "../services/claude.js";
-import { SYSTEM_PROMPT } from "./prompt.js";
+import type {
+  WorkItemSession,
+  Message,
+  StreamChunk,
+  TokenUsage,
+  ToolCall,
+  ToolResult,
+  UsageTotals,
+  WorkItem,
+  WorkItemContext,
+  WorkItemFieldMetadata,
+  WorkItemRevision,
+  WorkItemTypeMetadata,
+  Plan,
+  SpecProposal,
+} from "@azure-boards-ai/shared";
+import type { ChatChunk, LlmProvider } from "../services/llm.js";
+import { listValues } from "../services/field-validation.js";
+import { htmlToMarkdown, truncate } from "../services/markdown.js";
+import { ToolRegistry } from "../tools/registry.js";
+import { addTotals, emptyTotals, meterUsage, recordUsage } from "../usage/usage.js";
+import { AsyncQueue } from "./async-queue.js";
+import { TranscriptCompactor, estimateTokens, estimateToolTokens } from "./compaction.js";
+import type { CompactionOptions } from "./compaction.js";
+import type { ConfirmationDecision, ConfirmationGate } from "./confirmation.js";
+import { FLOW_PROMPTS, buildSystemPrompt } from "./prompt.js";
 import { nanoid } from "nanoid";
 
+// Upper bound on model → tool → model round-trips for a single user message
+export const MAX_TOOL_ITERATIONS = 10;
+
+interface PendingToolCall extends ToolCall {
+  partialJson: string;
+}
+
+interface Turn {
+  text: string;
+  toolCalls: PendingToolCall[];
+  usage?: TokenUsage;
+  model?: string;
+  stopReason?: ChatChunk["stopReason"];
+}
+
+export interface AgentOptions {
+  // Mutating tool calls wait for approval here; without a gate they run directly
+  confirmations?: ConfirmationGate;
+  compaction?: CompactionOptions;
+}
+
+export interface ChatRunOptions {
+  // Aborting stops the model stream and skips the tool calls not yet run
+  signal?: AbortSignal;
+}
+
+const CANCELLED_MESSAGE = "Cancelled by the user";
+const SKIPPED_MESSAGE = "Skipped because an earlier tool call did not run";
+const TRUNCATED_MESSAGE =
+  "The response reached the output token limit before its tool call was complete; raise maxTokens or ask for a smaller change";
+
+const DECLINED_MESSAGES: Record<Exclude<ConfirmationDecision, "approved">, string> = {
+  rejected: "The user rejected this change",
+  timeout: "The user did not confirm this change in time",
+};
+
 export class Agent {
   private session: WorkItemSession;
-  private claude: ClaudeService;
+  private llm: LlmProvider;
+  private tools: ToolRegistry;
+  private confirmations?: ConfirmationGate;
+  private compactor: TranscriptCompactor;
+  // Tokens used by the current chat() call
+  private runUsage: UsageTotals = emptyTotals();
 
-  constructor(session: WorkItemSession, claude?: ClaudeService) {
+  constructor(
+    session: WorkItemSession,
+    llm: LlmProvider,
+    tools?: ToolRegistry,
+    options: AgentOptions = {}
+  ) {
     this.session = session;
-    this.claude = claude || new ClaudeService();
+    // Every model call is billed to the session and the current run
+    this.llm = meterUsage(llm, (usage, model) => {
+      addTotals(this.runUsage, recordUsage(this.session, usage, model));
+    });
+    this.tools = tools || new ToolRegistry();
+    this.confirmations = options.confirmations;
+    this.compactor = new TranscriptCompactor(this.llm, options.compaction);
   }
 
-  async *chat(userMessage: string): AsyncGenerator<StreamChunk> {
+  async *chat(userMessage: string, options: ChatRunOptions = {}): AsyncGenerator<StreamChunk> {
+    const { signal } = options;
+    this.runUsage = emptyTotals();
+
     // Add user message to transcript
     const userMsg: Message = {
       id: nanoid(),
@@ -23,49 +101,280 @@ export class Agent {
 
     this.session.transcript.push(userMsg);
 
-    // Build context-aware prompt
-    const contextPrompt = this.buildContextPrompt();
-    const fullSystemPrompt = `${SYSTEM_PROMPT}\n\n${contextPrompt}`;
-
-    // Stream response from Claude
-    let assistantMessage = "";
-
-    for await (const chunk of this.claude.chat({
-      messages: this.session.transcript,
-      systemPrompt: fullSystemPrompt,
-    })) {
-      if (chunk.type === "text" && chunk.text) {
-        assistantMessage += chunk.text;
-        yield {
-          type: "text",
-          content: chunk.text,
-        };
-      } else if (chunk.type === "tool_use" && chunk.toolUse) {
-        yield {
-          type: "tool_call",
-          toolCall: {
-            id: chunk.toolUse.id,
-            name: chunk.toolUse.name,
-            input: chunk.toolUse.input,
-          },
-        };
-      } else if (chunk.type === "done") {
-        // Add assistant message to transcript
-        const assistantMsg: Message = {
-          id: nanoid(),
-          role: "assistant",
-          content: assistantMessage,
-          createdAt: new Date(),
-        };
-        this.session.transcript.push(assistantMsg);
-
-        yield { type: "done" };
+    for (let iteration = 0; iteration < MAX_TOOL_ITERATIONS; iteration++) {
+      const turn: Turn = { text: "", toolCalls: [] };
+
+      yield* this.streamTurn(turn, signal);
+
+      if (signal?.aborted) {
+        this.pushInterruptedTurn(turn);
+        yield { type: "cancelled" };
+        return;
+      }
+
+      // A response cut off at max_tokens has incomplete tool input, so its calls are not run
+      if (turn.stopReason === "max_tokens" && turn.toolCalls.length > 0) {
+        this.pushInterruptedTurn(turn);
+        yield { type: "error", error: TRUNCATED_MESSAGE };
+        return;
+      }
+
+      const toolCalls = turn.toolCalls.map(finalizeToolCall);
+
+      // Add assistant message to transcript
+      this.session.transcript.push({
+        id: nanoid(),
+        role: "assistant",
+        content: turn.text,
+        ...(toolCalls.length > 0 && { toolCalls }),
+        ...(turn.usage && { usage: turn.usage, model: turn.model }),
+        createdAt: new Date(),
+      });
+
+      if (toolCalls.length === 0) {
+        yield* this.done();
+        return;
+      }
+
+      const completed = yield* this.runTools(toolCalls, signal);
+      if (signal?.aborted) {
+        yield { type: "cancelled" };
+        return;
+      }
+      if (!completed) {
+        // A declined change ends the run; the user replies with a new message
+        yield* this.done();
+        return;
+      }
+    }
+
+    yield {
+      type: "error",
+      error: `Stopped after ${MAX_TOOL_ITERATIONS} tool iterations without a final answer`,
+    };
+  }
+
+  private *done(): Generator<StreamChunk> {
+    if (this.runUsage.requests > 0) {
+      yield { type: "usage", usage: { ...this.runUsage } };
+    }
+    yield { type: "done" };
+  }
+
+  /**
+   * Stream one model response into `turn`. The prompt is rebuilt each time
+   * because a tool may have moved the session to another flow, and the
+   * transcript is compacted first if tool results have grown it too large.
+   */
+  private async *streamTurn(turn: Turn, signal?: AbortSignal): AsyncGenerator<StreamChunk> {
+    const systemPrompt = this.buildSystemPrompt();
+    const tools = this.tools.definitions();
+
+    try {
+      await this.compactor.compact(
+        this.session,
+        estimateTokens(systemPrompt.join("\n\n")) + estimateToolTokens(tools),
+        signal
+      );
+
+      for await (const chunk of this.llm.chat({
+        ...this.session.modelSettings,
+        messages: this.session.transcript,
+        systemPrompt,
+        tools,
+        promptCache: true,
+        sessionId: this.session.id,
+        signal,
+      })) {
+        if (signal?.aborted) {
+          return;
+        }
+        const streamed = this.applyChunk(turn, chunk);
+        if (streamed) {
+          yield streamed;
+        }
+      }
+    } catch (error) {
+      // The aborted request rejects; the caller reports the cancellation
+      if (!signal?.aborted) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Keep the text streamed before a cancellation or truncation. Tool calls are
+   * dropped since they never ran and would have no results to pair with.
+   */
+  private pushInterruptedTurn(turn: Turn): void {
+    if (!turn.text) {
+      return;
+    }
+    this.session.transcript.push({
+      id: nanoid(),
+      role: "assistant",
+      content: turn.text,
+      interrupted: true,
+      createdAt: new Date(),
+    });
+  }
+
+  private applyChunk(turn: Turn, chunk: ChatChunk): StreamChunk | undefined {
+    if (chunk.type === "text" && chunk.text) {
+      turn.text += chunk.text;
+      return { type: "text", content: chunk.text };
+    }
+
+    if (chunk.type === "usage") {
+      turn.usage = chunk.usage;
+      turn.model = chunk.model;
+    } else if (chunk.type === "done") {
+      turn.stopReason = chunk.stopReason;
+    } else if (chunk.type === "tool_use" && chunk.toolUse) {
+      turn.toolCalls.push({ ...chunk.toolUse, partialJson: "" });
+    } else if (chunk.type === "tool_input_delta" && chunk.inputDelta) {
+      const { toolUseId, partialJson } = chunk.inputDelta;
+      const pending = turn.toolCalls.find((call) => call.id === toolUseId);
+      if (pending) {
+        pending.partialJson += partialJson;
       }
     }
+
+    return undefined;
+  }
+
+  /**
+   * Run the tool calls of a turn in order. Returns false when the user declined
+   * a mutating call or cancelled the run; that call and the remaining ones get
+   * error results so every tool_use in the transcript has a matching tool_result.
+   */
+  private async *runTools(
+    toolCalls: ToolCall[],
+    signal?: AbortSignal
+  ): AsyncGenerator<StreamChunk, boolean> {
+    const toolResults: ToolResult[] = [];
+    let declined: string | undefined;
+
+    for (const toolCall of toolCalls) {
+      yield { type: "tool_call", toolCall };
+
+      declined =
+        declined === undefined ? yield* this.checkToolCall(toolCall, signal) : SKIPPED_MESSAGE;
+
+      if (declined !== undefined) {
+        const result = { toolCallId: toolCall.id, content: declined, isError: true };
+        toolResults.push(result);
+        yield { type: "tool_result", toolResult: { ...result, name: toolCall.name } };
+        continue;
+      }
+
+      let state = this.session.state;
+      const progress = new AsyncQueue<StreamChunk>();
+      const execution = this.tools
+        .execute(toolCall, {
+          session: this.session,
+          emit: (chunk) => progress.push(chunk),
+          signal,
+        })
+        .finally(() => progress.close());
+
+      for await (const chunk of progress) {
+        // Tools that report their own state changes are not reported twice
+        state = chunk.stateChange?.to ?? state;
+        yield chunk;
+      }
+
+      const result = await execution;
+      toolResults.push(result);
+
+      yield { type: "tool_result", toolResult: { ...result, name: toolCall.name } };
+
+      if (this.session.state !== state) {
+        yield { type: "state_changed", stateChange: { from: state, to: this.session.state } };
+      }
+    }
+
+    // Tool results go back to Claude as the next user turn
+    this.session.transcript.push({
+      id: nanoid(),
+      role: "user",
+      content: "",
+      toolResults,
+      createdAt: new Date(),
+    });
+
+    return declined === undefined;
+  }
+
+  // Reason to skip a tool call, or undefined when it may run
+  private async *checkToolCall(
+    toolCall: ToolCall,
+    signal?: AbortSignal
+  ): AsyncGenerator<StreamChunk, string | undefined> {
+    if (signal?.aborted) {
+      return CANCELLED_MESSAGE;
+    }
+    const decision = yield* this.confirm(toolCall, signal);
+    if (signal?.aborted) {
+      return CANCELLED_MESSAGE;
+    }
+    return decision === "approved" ? undefined : DECLINED_MESSAGES[decision];
+  }
+
+  private async *confirm(
+    toolCall: ToolCall,
+    signal?: AbortSignal
+  ): AsyncGenerator<StreamChunk, ConfirmationDecision> {
+    const confirmations = this.confirmations;
+    if (!confirmations) {
+      return "approved";
+    }
+
+    const preview = await this.tools.preview(toolCall, { session: this.session });
+    if (!preview) {
+      return "approved";
+    }
+
+    const { expiresAt, decision } = confirmations.open(toolCall.id);
+    yield {
+      type: "confirmation_required",
+      confirmation: {
+        toolCallId: toolCall.id,
+        name: toolCall.name,
+        input: toolCall.input,
+        ...preview,
+        expiresAt,
+      },
+    };
+
+    // Cancelling the run answers the pending confirmation
+    const onAbort = () => confirmations.resolve(toolCall.id, false);
+    signal?.addEventListener("abort", onAbort, { once: true });
+    if (signal?.aborted) {
+      onAbort();
+    }
+    try {
+      return await decision;
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  /**
+   * The static prompt and the session-specific part are cached separately, so
+   * a flow change or context refresh only invalidates the second one.
+   */
+  private buildSystemPrompt(): string[] {
+    return [
+      buildSystemPrompt(this.tools.definitions(), this.confirmations !== undefined),
+      `${FLOW_PROMPTS[this.session.state]}\n\n${this.buildContextPrompt()}`,
+    ];
   }
 
   private buildContextPrompt(): string {
-    const { workItem } = this.session.context;
+    const { workItem, parentItem, childItems, relatedItems, history, workItemTypes } =
+      this.session.context;
+    const { plan, spec } = this.session;
 
     return `## Current Work Item
 
@@ -74,12 +383,160 @@ Title: ${workItem.fields["System.Title"]}
 Type: ${workItem.fields["System.WorkItemType"]}
 State: ${workItem.fields["System.State"]}
 
-${workItem.fields["System.Description"] ? `Description:\n${workItem.fields["System.Description"]}` : ""}
+${formatRichText("Description", workItem.fields["System.Description"])}
+
+${formatRichText("Acceptance Criteria", workItem.fields["Microsoft.VSTS.Common.AcceptanceCriteria"])}
+${formatLinkedItems("Parent", parentItem ? [parentItem] : [])}
+${formatLinkedItems("Children", childItems)}
+${formatLinkedItems("Related", relatedItems)}
+${formatComments(this.session.context)}
+${formatHistory(history ?? [])}
+${formatProcess(workItemTypes ?? [], workItem.fields["System.WorkItemType"]?.toString())}
+${spec ? formatSpec(spec) : ""}
+${plan ? formatPlan(plan) : ""}`;
+  }
+}
+
+// Rich text fields are HTML; long ones are cut to keep the context prompt bounded
+const RICH_TEXT_MAX_CHARS = 4_000;
+
+function formatRichText(label: string, value: string | number | undefined): string {
+  if (value === undefined || value === "") {
+    return "";
+  }
+  return `${label}:\n${truncate(htmlToMarkdown(String(value)), RICH_TEXT_MAX_CHARS)}`;
+}
+
+function formatComments({ comments = [], commentCount }: WorkItemContext): string {
+  if (comments.length === 0) {
+    return "";
+  }
+
+  const total = commentCount ?? comments.length;
+  const heading =
+    total > comments.length
+      ? `Comments (latest ${comments.length} of ${total}, use get_work_item_comments for older ones)`
+      : "Comments";
+  const lines = comments.map((comment) => {
+    const byline = [comment.author, comment.createdAt?.slice(0, 10)].filter(Boolean).join(", ");
+    return `- ${byline || "Unknown"}: ${comment.text.replace(/\n/g, "\n  ")}`;
+  });
+  return `${heading}:\n${lines.join("\n")}\n`;
+}
+
+function formatHistory(history: WorkItemRevision[]): string {
+  if (history.length === 0) {
+    return "";
+  }
+
+  const value = (field: string | number | undefined) =>
+    field === undefined ? "(empty)" : String(field).replace(/\s+/g, " ");
+  const lines = history.map((revision) => {
+    const byline = [revision.changedBy, revision.changedAt?.slice(0, 10)].filter(Boolean);
+    const heading = byline.length
+      ? `Rev ${revision.rev} (${byline.join(", ")})`
+      : `Rev ${revision.rev}`;
+    const changes = revision.changes.map(
+      (change) => `${change.field}: ${value(change.from)} -> ${value(change.to)}`
+    );
+    return `- ${heading}: ${changes.join("; ")}`;
+  });
+  return `Recent Changes:\n${lines.join("\n")}\n`;
+}
+
+/**
+ * The work item types of the project's process, so the agent uses the field
+ * reference names, states and picklist values that exist rather than guessing.
+ * Only the current type lists all its writable fields.
+ */
+function formatProcess(types: WorkItemTypeMetadata[], current: string | undefined): string {
+  if (types.length === 0) {
+    return "";
+  }
+
+  const own = types.find((type) => type.name === current);
+  const others = types
+    .filter((type) => type !== own)
+    .map((type) => {
+      const required = type.fields.map((field) => field.referenceName);
+      const requires = required.length ? `; requires ${required.join(", ")}` : "";
+      return `- ${type.name} (states: ${type.states.join(", ")}${requires})`;
+    });
+
+  const sections = [
+    "## Process\n\nUse only these work item types, states and field reference names.",
+  ];
+  if (own) {
+    const fields = own.fields.filter((field) => !field.readOnly).map(formatField);
+    sections.push(
+      `${own.name} states: ${own.states.join(", ")}\n${own.name} fields:\n${fields.join("\n")}`
+    );
+  }
+  if (others.length > 0) {
+    sections.push(`Other types:\n${others.join("\n")}`);
+  }
+  return `${sections.join("\n\n")}\n`;
+}
+
+function formatField(field: WorkItemFieldMetadata): string {
+  const details = [field.name, field.type, ...(field.required ? ["required"] : [])];
+  const values = field.allowedValues?.length ? `: ${listValues(field.allowedValues)}` : "";
+  return `- ${field.referenceName} (${details.join(", ")})${values}`;
+}
+
+function formatLinkedItems(heading: string, items: WorkItem[]): string {
+  if (items.length === 0) {
+    return "";
+  }
+
+  const lines = items.map(
+    (item) =>
+      `- #${item.id} [${item.fields["System.WorkItemType"]}] ${item.fields["System.Title"]} (${item.fields["System.State"]})`
+  );
+  return `${heading}:\n${lines.join("\n")}\n`;
+}
+
+function formatSpec(spec: SpecProposal): string {
+  const list = (items: string[]) => items.map((item) => `- ${item}`).join("\n");
+  const criteria = spec.acceptanceCriteria.map((criterion) => {
+    const scenario = criterion.scenario ? `${criterion.scenario}: ` : "";
+    return `${scenario}Given ${criterion.given}, when ${criterion.when}, then ${criterion.then}`;
+  });
+  const sections = [`## Pending Spec (${spec.status})`, spec.description];
+  if (criteria.length > 0) {
+    sections.push(`Acceptance Criteria:\n${list(criteria)}`);
+  }
+  if (spec.openQuestions.length > 0) {
+    sections.push(`Open Questions:\n${list(spec.openQuestions)}`);
+  }
+  if (spec.risks.length > 0) {
+    sections.push(`Risks:\n${list(spec.risks)}`);
+  }
+  return `${sections.join("\n\n")}\n`;
+}
+
+function formatPlan(plan: Plan): string {
+  const lines = plan.subtasks.map((subtask) => {
+    const dependsOn = subtask.dependsOn.length ? ` (after ${subtask.dependsOn.join(", ")})` : "";
+    const estimate = subtask.estimate === undefined ? "" : ` ~${subtask.estimate}h`;
+    return `- ${subtask.id}: [${subtask.type}] ${subtask.title}${estimate}${dependsOn}`;
+  });
+  return `## Pending Plan (${plan.status})\n\n${plan.summary ?? ""}\n${lines.join("\n")}\n`;
+}
+
+/**
+ * Resolve the final tool input: streamed input_json_delta fragments take
+ * precedence over the (usually empty) input sent with content_block_start.
+ */
+function finalizeToolCall(pending: PendingToolCall): ToolCall {
+  const { partialJson, ...call } = pending;
+  if (!partialJson) {
+    return call;
+  }
 
-${
-  workItem.fields["Microsoft.VSTS.Common.AcceptanceCriteria"]
-    ? `Acceptance Criteria:\n${workItem.fields["Microsoft.VSTS.Common.AcceptanceCriteria"]}`
-    : ""
-}`;
+  try {
+    return { ...call, input: JSON.parse(partialJson) as Record<string, unknown> };
+  } catch {
+    return { ...call, input: {} };
   }
 }
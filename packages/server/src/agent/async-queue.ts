@@ -0,0 +1,43 @@
+/**
+ * Minimal push-based async iterable: producers push values while a single
+ * consumer iterates with for await, until close() is called.
+ */
+export class AsyncQueue<T> implements AsyncIterable<T> {
+  private items: T[] = [];
+  private waiting?: () => void;
+  private closed = false;
+
+  push(item: T): void {
+    if (this.closed) {
+      return;
+    }
+    this.items.push(item);
+    this.wake();
+  }
+
+  close(): void {
+    this.closed = true;
+    this.wake();
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    for (;;) {
+      const item = this.items.shift();
+      if (item !== undefined) {
+        yield item;
+      } else if (this.closed) {
+        return;
+      } else {
+        await new Promise<void>((resolve) => {
+          this.waiting = resolve;
+        });
+      }
+    }
+  }
+
+  private wake(): void {
+    const waiting = this.waiting;
+    this.waiting = undefined;
+    waiting?.();
+  }
+}
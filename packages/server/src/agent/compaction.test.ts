@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { Message, WorkItemSession } from "@azure-boards-ai/shared";
+import {
+  TranscriptCompactor,
+  estimateMessageTokens,
+  estimateTokens,
+  estimateTranscriptTokens,
+} from "./compaction.js";
+
+function message(role: Message["role"], content: string, extra: Partial<Message> = {}): Message {
+  return { id: `${role}-${content.slice(0, 8)}`, role, content, createdAt: new Date(), ...extra };
+}
+
+// A user question answered through one tool call, ~100 tokens per message
+function toolTurn(index: number): Message[] {
+  const padding = "x".repeat(400);
+  return [
+    message("user", `Question ${index} ${padding}`),
+    message("assistant", "", {
+      toolCalls: [{ id: `call-${index}`, name: "read_work_item", input: { id: index } }],
+    }),
+    message("user", "", {
+      toolResults: [{ toolCallId: `call-${index}`, content: `Result ${index} ${padding}` }],
+    }),
+    message("assistant", `Answer ${index} ${padding}`),
+  ];
+}
+
+describe("token estimation", () => {
+  it("should estimate about four characters per token", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("abcd")).toBe(1);
+    expect(estimateTokens("abcde")).toBe(2);
+  });
+
+  it("should count tool calls and results", () => {
+    const plain = message("assistant", "Done");
+    const withTools = message("assistant", "Done", {
+      toolCalls: [{ id: "call-1", name: "read_work_item", input: { id: 42 } }],
+    });
+
+    expect(estimateMessageTokens(withTools)).toBeGreaterThan(estimateMessageTokens(plain));
+    expect(estimateTranscriptTokens([plain, withTools])).toBe(
+      estimateMessageTokens(plain) + estimateMessageTokens(withTools)
+    );
+  });
+});
+
+describe("TranscriptCompactor", () => {
+  let session: WorkItemSession;
+  let mockClaude: { chat: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    mockClaude = {
+      chat: vi.fn().mockImplementation(async function* () {
+        yield { type: "text", text: "The user asked about " };
+        yield { type: "text", text: "work items 1 and 2." };
+        yield { type: "done" };
+      }),
+    };
+    session = {
+      id: "session-1",
+      workItemId: 1,
+      projectId: "Project",
+      organizationUrl: "https://dev.azure.com/test",
+      state: "idle",
+      transcript: [...toolTurn(1), ...toolTurn(2), ...toolTurn(3)],
+      context: { workItem: { id: 1, fields: {} } as never, relatedItems: [], childItems: [] },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+  });
+
+  it("should leave a transcript within the budget alone", async () => {
+    const compactor = new TranscriptCompactor(mockClaude as never);
+
+    const event = await compactor.compact(session, 1000);
+
+    expect(event).toBeUndefined();
+    expect(session.transcript).toHaveLength(12);
+    expect(mockClaude.chat).not.toHaveBeenCalled();
+  });
+
+  it("should replace older turns with a pinned summary", async () => {
+    const compactor = new TranscriptCompactor(mockClaude as never, {
+      compactAtTokens: 500,
+      keepRecentTokens: 500,
+    });
+    const recent = session.transcript.slice(8);
+
+    const event = await compactor.compact(session, 100);
+
+    expect(session.transcript).toHaveLength(5);
+    expect(session.transcript[0]).toMatchObject({
+      role: "user",
+      summary: true,
+      content: expect.stringContaining("The user asked about work items 1 and 2."),
+    });
+    expect(session.transcript.slice(1)).toEqual(recent);
+    expect(event).toMatchObject({
+      summaryMessageId: session.transcript[0].id,
+      compactedMessages: 8,
+    });
+    expect(event!.tokensAfter).toBeLessThan(event!.tokensBefore);
+    expect(session.compactions).toEqual([event]);
+
+    const [request] = mockClaude.chat.mock.calls[0];
+    expect(request.messages[0].content).toContain("Question 1");
+    expect(request.messages[0].content).toContain("read_work_item returned: Result 2");
+    expect(request.messages[0].content).not.toContain("Question 3");
+  });
+
+  it("should only split where the user started a turn", async () => {
+    const compactor = new TranscriptCompactor(mockClaude as never, {
+      compactAtTokens: 500,
+      keepRecentTokens: 150,
+    });
+
+    await compactor.compact(session, 0);
+
+    // The last turn is kept whole even though it exceeds keepRecentTokens
+    const [summary, first, ...rest] = session.transcript;
+    expect(summary.summary).toBe(true);
+    expect(first).toMatchObject({ role: "user", content: expect.stringContaining("Question 3") });
+    const callIds = rest.flatMap((msg) => msg.toolCalls?.map((call) => call.id) ?? []);
+    const resultIds = rest.flatMap((msg) => msg.toolResults?.map((r) => r.toolCallId) ?? []);
+    expect(resultIds).toEqual(callIds);
+  });
+
+  it("should fold the previous summary into the next one", async () => {
+    const compactor = new TranscriptCompactor(mockClaude as never, {
+      compactAtTokens: 500,
+      keepRecentTokens: 500,
+    });
+    await compactor.compact(session, 0);
+    session.transcript.push(...toolTurn(4), ...toolTurn(5));
+
+    await compactor.compact(session, 0);
+
+    const [request] = mockClaude.chat.mock.calls[1];
+    expect(request.messages[0].content).toContain("Summary of the earlier conversation:");
+    expect(session.transcript.filter((msg) => msg.summary)).toHaveLength(1);
+    expect(session.compactions).toHaveLength(2);
+  });
+
+  it("should not compact when only the current turn remains", async () => {
+    session.transcript = toolTurn(1);
+    const compactor = new TranscriptCompactor(mockClaude as never, { compactAtTokens: 10 });
+
+    const event = await compactor.compact(session, 0);
+
+    expect(event).toBeUndefined();
+    expect(mockClaude.chat).not.toHaveBeenCalled();
+  });
+});
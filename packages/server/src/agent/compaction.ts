@@ -0,0 +1,190 @@
+import type Anthropic from "@anthropic-ai/sdk";
+import type { CompactionEvent, Message, WorkItemSession } from "@azure-boards-ai/shared";
+import { nanoid } from "nanoid";
+import type { LlmProvider } from "../services/llm.js";
+import { SUMMARY_PROMPT } from "./prompt.js";
+
+// Rough average for English text and JSON; an estimate errs on the safe side
+const CHARS_PER_TOKEN = 4;
+
+// Role and content block framing added to every message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Compaction starts once the estimated prompt passes this, well below Claude's
+// 200k window so estimation errors and the response still fit
+export const COMPACT_AT_TOKENS = 120_000;
+
+// Most recent turns kept verbatim after a compaction
+export const KEEP_RECENT_TOKENS = 20_000;
+
+// Tool results are cut to this in the text sent for summarization
+const MAX_SUMMARIZED_RESULT_CHARS = 2000;
+
+const SUMMARY_MAX_TOKENS = 2048;
+
+const SUMMARY_HEADING = "Summary of the earlier conversation:";
+
+export interface CompactionOptions {
+  compactAtTokens?: number;
+  keepRecentTokens?: number;
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateMessageTokens(message: Message): number {
+  let tokens = MESSAGE_OVERHEAD_TOKENS + estimateTokens(message.content);
+  for (const call of message.toolCalls ?? []) {
+    tokens += estimateTokens(call.name) + estimateTokens(JSON.stringify(call.input));
+  }
+  for (const result of message.toolResults ?? []) {
+    tokens += estimateTokens(result.content);
+  }
+  return tokens;
+}
+
+export function estimateTranscriptTokens(messages: Message[]): number {
+  return messages.reduce((total, message) => total + estimateMessageTokens(message), 0);
+}
+
+export function estimateToolTokens(tools: Anthropic.Tool[]): number {
+  return estimateTokens(JSON.stringify(tools));
+}
+
+/**
+ * Keeps a session's transcript within the context window by replacing older
+ * turns with a summary. The summary is pinned as the first message and folded
+ * into the next summary when the transcript grows again.
+ */
+export class TranscriptCompactor {
+  private llm: LlmProvider;
+  private compactAtTokens: number;
+  private keepRecentTokens: number;
+
+  constructor(llm: LlmProvider, options: CompactionOptions = {}) {
+    this.llm = llm;
+    this.compactAtTokens = options.compactAtTokens ?? COMPACT_AT_TOKENS;
+    this.keepRecentTokens = options.keepRecentTokens ?? KEEP_RECENT_TOKENS;
+  }
+
+  /**
+   * Compact the transcript if it and `promptTokens` (system prompt and tools)
+   * exceed the budget. Returns the event recorded on the session, or undefined
+   * when there was nothing to compact.
+   */
+  async compact(
+    session: WorkItemSession,
+    promptTokens: number,
+    signal?: AbortSignal
+  ): Promise<CompactionEvent | undefined> {
+    const { transcript } = session;
+    const tokensBefore = promptTokens + estimateTranscriptTokens(transcript);
+    if (tokensBefore <= this.compactAtTokens) {
+      return undefined;
+    }
+
+    const split = findSplit(transcript, this.keepRecentTokens);
+    const older = transcript.slice(0, split);
+    if (older.every((message) => message.summary)) {
+      return undefined;
+    }
+
+    const summaryText = await this.summarize(older, signal);
+    if (!summaryText) {
+      return undefined;
+    }
+
+    const summary: Message = {
+      id: nanoid(),
+      role: "user",
+      content: `${SUMMARY_HEADING}\n\n${summaryText}`,
+      summary: true,
+      createdAt: new Date(),
+    };
+    transcript.splice(0, split, summary);
+
+    const event: CompactionEvent = {
+      summaryMessageId: summary.id,
+      compactedMessages: older.length,
+      tokensBefore,
+      tokensAfter: promptTokens + estimateTranscriptTokens(transcript),
+      createdAt: new Date(),
+    };
+    session.compactions = [...(session.compactions ?? []), event];
+    return event;
+  }
+
+  private async summarize(messages: Message[], signal?: AbortSignal): Promise<string> {
+    let text = "";
+    for await (const chunk of this.llm.chat({
+      messages: [
+        { id: nanoid(), role: "user", content: renderTranscript(messages), createdAt: new Date() },
+      ],
+      systemPrompt: SUMMARY_PROMPT,
+      maxTokens: SUMMARY_MAX_TOKENS,
+      signal,
+    })) {
+      if (chunk.type === "text" && chunk.text) {
+        text += chunk.text;
+      }
+    }
+    return text.trim();
+  }
+}
+
+/**
+ * Index of the first message to keep. Turns are only split where the user
+ * started a new one, so every kept tool_result still follows its tool_use.
+ * The current turn is always kept, even when it alone exceeds `keepTokens`.
+ */
+function findSplit(transcript: Message[], keepTokens: number): number {
+  let split = 0;
+  let kept = 0;
+
+  for (let index = transcript.length - 1; index > 0; index--) {
+    kept += estimateMessageTokens(transcript[index]);
+    if (!startsTurn(transcript[index])) {
+      continue;
+    }
+    if (split > 0 && kept > keepTokens) {
+      break;
+    }
+    split = index;
+  }
+  return split;
+}
+
+function startsTurn(message: Message): boolean {
+  return message.role === "user" && !message.toolResults?.length && !message.summary;
+}
+
+// Plain-text rendering of the turns to summarize; tool blocks would need the tool definitions
+function renderTranscript(messages: Message[]): string {
+  const toolNames = new Map<string, string>();
+  const lines: string[] = [];
+
+  for (const message of messages) {
+    if (message.summary) {
+      lines.push(message.content);
+      continue;
+    }
+    if (message.content) {
+      lines.push(`${message.role === "user" ? "User" : "Assistant"}: ${message.content}`);
+    }
+    for (const call of message.toolCalls ?? []) {
+      toolNames.set(call.id, call.name);
+      lines.push(`Assistant called ${call.name} with ${JSON.stringify(call.input)}`);
+    }
+    for (const result of message.toolResults ?? []) {
+      const name = toolNames.get(result.toolCallId) ?? "tool";
+      const outcome = result.isError ? "failed" : "returned";
+      lines.push(`${name} ${outcome}: ${truncate(result.content, MAX_SUMMARIZED_RESULT_CHARS)}`);
+    }
+  }
+  return lines.join("\n\n");
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength)}…` : text;
+}
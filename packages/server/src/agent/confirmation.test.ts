@@ -0,0 +1,40 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { ConfirmationGate } from "./confirmation.js";
+
+describe("ConfirmationGate", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should resolve with the client's answer", async () => {
+    const gate = new ConfirmationGate();
+    const approved = gate.open("call_1");
+    const rejected = gate.open("call_2");
+
+    expect(gate.resolve("call_1", true)).toBe(true);
+    expect(gate.resolve("call_2", false)).toBe(true);
+
+    await expect(approved.decision).resolves.toBe("approved");
+    await expect(rejected.decision).resolves.toBe("rejected");
+  });
+
+  it("should report unknown or already answered calls", () => {
+    const gate = new ConfirmationGate();
+    gate.open("call_1");
+    gate.resolve("call_1", true);
+
+    expect(gate.resolve("call_1", true)).toBe(false);
+    expect(gate.resolve("unknown", true)).toBe(false);
+  });
+
+  it("should time out unanswered confirmations", async () => {
+    vi.useFakeTimers();
+    const gate = new ConfirmationGate(1000);
+    const pending = gate.open("call_1");
+
+    vi.advanceTimersByTime(1000);
+
+    await expect(pending.decision).resolves.toBe("timeout");
+    expect(gate.resolve("call_1", true)).toBe(false);
+  });
+});
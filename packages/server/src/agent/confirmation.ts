@@ -0,0 +1,54 @@
+export type ConfirmationDecision = "approved" | "rejected" | "timeout";
+
+export const DEFAULT_CONFIRMATION_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface PendingConfirmation {
+  expiresAt: Date;
+  decision: Promise<ConfirmationDecision>;
+}
+
+interface Waiter {
+  resolve: (decision: ConfirmationDecision) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Pauses tool calls until a client approves or rejects them. Each session has
+ * its own gate, answered from any connection following the session; calls
+ * nobody answers time out.
+ */
+export class ConfirmationGate {
+  private waiters: Map<string, Waiter> = new Map();
+  private timeoutMs: number;
+
+  constructor(timeoutMs = DEFAULT_CONFIRMATION_TIMEOUT_MS) {
+    this.timeoutMs = timeoutMs;
+  }
+
+  open(toolCallId: string): PendingConfirmation {
+    const decision = new Promise<ConfirmationDecision>((resolve) => {
+      const timer = setTimeout(() => this.settle(toolCallId, "timeout"), this.timeoutMs);
+      this.waiters.set(toolCallId, { resolve, timer });
+    });
+    return { expiresAt: new Date(Date.now() + this.timeoutMs), decision };
+  }
+
+  /**
+   * Answer a pending confirmation. Returns false when nothing is waiting for
+   * the call, e.g. because it already timed out.
+   */
+  resolve(toolCallId: string, approved: boolean): boolean {
+    return this.settle(toolCallId, approved ? "approved" : "rejected");
+  }
+
+  private settle(toolCallId: string, decision: ConfirmationDecision): boolean {
+    const waiter = this.waiters.get(toolCallId);
+    if (!waiter) {
+      return false;
+    }
+    clearTimeout(waiter.timer);
+    this.waiters.delete(toolCallId);
+    waiter.resolve(decision);
+    return true;
+  }
+}
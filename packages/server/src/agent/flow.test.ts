@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import type { WorkItemSession } from "@azure-boards-ai/shared";
+import { InvalidTransitionError, canTransition, transition } from "./flow.js";
+
+describe("flow", () => {
+  it("should allow moving forward through specify, plan and execute", () => {
+    expect(canTransition("idle", "specify")).toBe(true);
+    expect(canTransition("specify", "plan")).toBe(true);
+    expect(canTransition("plan", "execute")).toBe(true);
+    expect(canTransition("execute", "idle")).toBe(true);
+  });
+
+  it("should not allow executing without a plan", () => {
+    expect(canTransition("idle", "execute")).toBe(false);
+    expect(canTransition("specify", "execute")).toBe(false);
+  });
+
+  it("should transition the session and report the change", () => {
+    const session = { state: "idle" } as WorkItemSession;
+
+    expect(transition(session, "plan")).toEqual({ from: "idle", to: "plan" });
+    expect(session.state).toBe("plan");
+    expect(transition(session, "plan")).toBeUndefined();
+  });
+
+  it("should throw on disallowed transitions", () => {
+    const session = { state: "idle" } as WorkItemSession;
+
+    expect(() => transition(session, "execute")).toThrow(InvalidTransitionError);
+    expect(session.state).toBe("idle");
+  });
+});
@@ -0,0 +1,46 @@
+import type { SessionState, StateChange, WorkItemSession } from "@azure-boards-ai/shared";
+
+// Specify → Plan → Execute, with the option to step back or abandon to idle
+export const FLOW_TRANSITIONS: Record<SessionState, readonly SessionState[]> = {
+  idle: ["specify", "plan"],
+  specify: ["idle", "plan"],
+  plan: ["idle", "specify", "execute"],
+  execute: ["idle", "plan"],
+};
+
+export const SESSION_STATES = Object.keys(FLOW_TRANSITIONS) as [SessionState, ...SessionState[]];
+
+export class InvalidTransitionError extends Error {
+  readonly statusCode = 409;
+
+  constructor(
+    readonly from: SessionState,
+    readonly to: SessionState
+  ) {
+    super(
+      `Cannot move from "${from}" to "${to}". Allowed: ${FLOW_TRANSITIONS[from].join(", ") || "none"}`
+    );
+    this.name = "InvalidTransitionError";
+  }
+}
+
+export function canTransition(from: SessionState, to: SessionState): boolean {
+  return from === to || FLOW_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Move the session to a new flow state in place. Returns the change, or
+ * undefined when the session is already in that state.
+ */
+export function transition(session: WorkItemSession, to: SessionState): StateChange | undefined {
+  const from = session.state;
+  if (!canTransition(from, to)) {
+    throw new InvalidTransitionError(from, to);
+  }
+  if (from === to) {
+    return undefined;
+  }
+
+  session.state = to;
+  return { from, to };
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import { buildApp } from "./app.js";
+import { loadConfig } from "./config.js";
+import { FieldMetadataService } from "./services/field-metadata.js";
+import { ValidatingWorkItemClient } from "./services/field-validation.js";
+import { InMemoryWorkItemClient } from "./services/in-memory-devops.js";
+import { SessionManager } from "./sessions/session-manager.js";
+
+const TEST_ORG_URL = "https://dev.azure.com/test";
+
+describe("buildApp", () => {
+  it("should decorate the instance with the injected services", async () => {
+    const sessions = new SessionManager();
+    const llm = {} as never;
+    const devOps = () => undefined;
+
+    const app = await buildApp({ logger: false, sessions, llm, devOps });
+
+    expect(app.sessions).toBe(sessions);
+    expect(app.llm).toBe(llm);
+    expect(app.devOps(TEST_ORG_URL)).toBeUndefined();
+    await app.close();
+  });
+
+  it("should check the payloads of every Azure DevOps client against the process", async () => {
+    const fieldMetadata = new FieldMetadataService();
+    const devOps = () => new InMemoryWorkItemClient();
+
+    const app = await buildApp({ logger: false, llm: {} as never, devOps, fieldMetadata });
+
+    expect(app.fieldMetadata).toBe(fieldMetadata);
+    expect(app.devOps(TEST_ORG_URL)).toBeInstanceOf(ValidatingWorkItemClient);
+    await app.close();
+  });
+
+  it("should refuse to send the server's PAT to another organization", async () => {
+    const config = loadConfig({
+      LLM_PROVIDER: "scripted",
+      AZURE_DEVOPS_ORG_URL: TEST_ORG_URL,
+      AZURE_DEVOPS_PAT: "pat",
+    });
+    const app = await buildApp({ logger: false, config, auth: false });
+
+    const response = await app.inject({
+      method: "POST",
+      url: "/api/sessions",
+      payload: {
+        workItemId: 1,
+        projectId: "Other",
+        organizationUrl: "https://dev.azure.com/other",
+      },
+    });
+
+    expect(response.statusCode).toBe(403);
+    await app.close();
+  });
+
+  it("should refuse to send a caller's token outside Azure DevOps", async () => {
+    const config = loadConfig({ LLM_PROVIDER: "scripted" });
+    const user = {
+      id: "alice-id",
+      displayName: "Alice",
+      credentials: { scheme: "bearer" as const, token: "alice" },
+    };
+    const app = await buildApp({
+      logger: false,
+      config,
+      auth: { authenticate: async () => user },
+    });
+
+    const response = await app.inject({
+      method: "POST",
+      url: "/api/sessions",
+      headers: { authorization: "Bearer alice" },
+      payload: {
+        workItemId: 1,
+        projectId: "Other",
+        organizationUrl: "https://attacker.example/org",
+      },
+    });
+
+    expect(response.statusCode).toBe(403);
+    await app.close();
+  });
+
+  it("should keep access tokens out of the request log", async () => {
+    const lines: string[] = [];
+    const stream = { write: (line: string) => lines.push(line) };
+    const app = await buildApp({ logger: { stream }, llm: {} as never, auth: false });
+
+    await app.inject({ method: "GET", url: "/api/sessions?access_token=SECRET-TOKEN-123" });
+
+    expect(lines.join("")).toContain("access_token=[REDACTED]");
+    expect(lines.join("")).not.toContain("SECRET-TOKEN-123");
+    await app.close();
+  });
+
+  it("should expose a health check", async () => {
+    const app = await buildApp({ logger: false, llm: {} as never });
+
+    const response = await app.inject({ method: "GET", url: "/health" });
+
+    expect(response.json()).toEqual({ status: "ok" });
+    await app.close();
+  });
+});
@@ -0,0 +1,192 @@
+import Fastify from "fastify";
+import type { FastifyInstance, FastifyRequest, FastifyServerOptions } from "fastify";
+import websocket from "@fastify/websocket";
+import cors from "@fastify/cors";
+import { chatRoutes } from "./routes/chat.js";
+import { sessionRoutes } from "./routes/sessions.js";
+import { planRoutes } from "./routes/plans.js";
+import { specRoutes } from "./routes/specs.js";
+import { operationRoutes } from "./routes/operations.js";
+import { usageRoutes } from "./routes/usage.js";
+import { loadConfig } from "./config.js";
+import type { ServerConfig } from "./config.js";
+import { createLlmProvider } from "./services/llm.js";
+import type { LlmProvider } from "./services/llm.js";
+import { createCallerWorkItemClient, createServerWorkItemClient } from "./services/azure-devops.js";
+import type { WorkItemTrackingClient } from "./services/azure-devops.js";
+import { FieldMetadataService } from "./services/field-metadata.js";
+import { ValidatingWorkItemClient } from "./services/field-validation.js";
+import { SessionManager } from "./sessions/session-manager.js";
+import { SessionStreams } from "./sessions/session-streams.js";
+import { createEmbedder } from "./similarity/embedder.js";
+import { SimilarityService } from "./similarity/similarity.js";
+import { EstimationService } from "./estimation/estimation.js";
+import {
+  AuthenticationError,
+  createAuthenticator,
+  redactAccessToken,
+  requestCredentials,
+} from "./auth/authenticator.js";
+import type { AuthUser, Authenticator } from "./auth/authenticator.js";
+import { createSessionStore } from "./sessions/store-config.js";
+
+// Plan, spec and operation routes hang off their session
+const SESSIONS_PREFIX = "/api/sessions";
+
+// Clients act as the signed-in user when there is one
+export type DevOpsClientFactory = (
+  organizationUrl: string,
+  user?: AuthUser
+) => WorkItemTrackingClient | undefined;
+
+export interface AppOptions {
+  logger?: FastifyServerOptions["logger"];
+  // Defaults to the environment; only read for services not passed in
+  config?: ServerConfig;
+  sessions?: SessionManager;
+  llm?: LlmProvider;
+  devOps?: DevOpsClientFactory;
+  similarity?: SimilarityService;
+  fieldMetadata?: FieldMetadataService;
+  estimation?: EstimationService;
+  // Defaults to AUTH_MODE; false turns authentication off
+  auth?: Authenticator | false;
+}
+
+declare module "fastify" {
+  interface FastifyInstance {
+    sessions: SessionManager;
+    llm: LlmProvider;
+    devOps: DevOpsClientFactory;
+    similarity: SimilarityService;
+    fieldMetadata: FieldMetadataService;
+    estimation: EstimationService;
+    streams: SessionStreams;
+  }
+
+  interface FastifyRequest {
+    user?: AuthUser;
+    // Set instead of rejecting a WebSocket upgrade, so the socket can report it
+    authError?: AuthenticationError;
+  }
+}
+
+// Fastify's request log fields, with tokens passed in the query string masked
+function serializeRequest(request: FastifyRequest) {
+  return {
+    method: request.method,
+    url: redactAccessToken(request.url),
+    host: request.host,
+    remoteAddress: request.ip,
+    remotePort: request.socket?.remotePort,
+  };
+}
+
+function loggerOptions(logger: FastifyServerOptions["logger"]): FastifyServerOptions["logger"] {
+  if (!logger) {
+    return false;
+  }
+  const options = logger === true ? {} : logger;
+  return { ...options, serializers: { ...options.serializers, req: serializeRequest } };
+}
+
+/**
+ * Composition root: creates the shared services once and exposes them to all
+ * routes as Fastify decorations. Tests pass fakes through the options.
+ */
+export async function buildApp(options: AppOptions = {}): Promise<FastifyInstance> {
+  const app = Fastify({
+    logger: loggerOptions(options.logger ?? true),
+  });
+
+  let config = options.config;
+  const getConfig = () => {
+    config ??= loadConfig();
+    return config;
+  };
+
+  app.decorate(
+    "sessions",
+    options.sessions ?? new SessionManager(createSessionStore(getConfig().sessionStore))
+  );
+  app.decorate("llm", options.llm ?? (await createLlmProvider(getConfig().llm)));
+  app.decorate("fieldMetadata", options.fieldMetadata ?? new FieldMetadataService());
+
+  // Every client checks its create and update payloads against the project's process
+  const createClient =
+    options.devOps ??
+    ((url: string, user?: AuthUser) =>
+      user
+        ? createCallerWorkItemClient(url, user.credentials, getConfig().devOps)
+        : createServerWorkItemClient(url, getConfig().devOps));
+  app.decorate("devOps", (url: string, user?: AuthUser) => {
+    const client = createClient(url, user);
+    return client && new ValidatingWorkItemClient(client, app.fieldMetadata, url);
+  });
+
+  app.decorate(
+    "similarity",
+    options.similarity ?? new SimilarityService(createEmbedder(getConfig().embeddings))
+  );
+
+  app.decorate("estimation", options.estimation ?? new EstimationService());
+
+  // Chunk streams of the sessions' agent runs, also consulted before other changes to a session
+  app.decorate("streams", new SessionStreams());
+
+  // Every API request, including WebSocket upgrades, must carry a valid token
+  const authenticator =
+    options.auth === undefined ? createAuthenticator(getConfig().auth) : options.auth;
+  app.decorateRequest("user", undefined);
+  app.decorateRequest("authError", undefined);
+  if (authenticator) {
+    app.addHook("onRequest", async (request) => {
+      if (!request.url.startsWith("/api/")) {
+        return;
+      }
+      try {
+        const credentials = requestCredentials(request);
+        if (!credentials) {
+          throw new AuthenticationError();
+        }
+        request.user = await authenticator.authenticate(credentials);
+      } catch (error) {
+        if (!(error instanceof AuthenticationError && isWebSocketUpgrade(request))) {
+          throw error;
+        }
+        request.authError = error;
+      }
+    });
+  }
+
+  // Domain errors carry a 4xx statusCode; report them as { error } like the routes do
+  app.setErrorHandler((error: Error & { statusCode?: number }, _request, reply) => {
+    if (error.statusCode && error.statusCode < 500) {
+      return reply.status(error.statusCode).send({ error: error.message });
+    }
+    return reply.send(error);
+  });
+
+  await app.register(cors, {
+    origin: true,
+  });
+
+  await app.register(websocket);
+
+  // Routes
+  await app.register(chatRoutes, { prefix: "/api/chat" });
+  await app.register(sessionRoutes, { prefix: SESSIONS_PREFIX });
+  await app.register(planRoutes, { prefix: SESSIONS_PREFIX });
+  await app.register(specRoutes, { prefix: SESSIONS_PREFIX });
+  await app.register(operationRoutes, { prefix: SESSIONS_PREFIX });
+  await app.register(usageRoutes, { prefix: "/api/usage" });
+
+  // Health check
+  app.get("/health", async () => ({ status: "ok" }));
+
+  return app;
+}
+
+function isWebSocketUpgrade(request: FastifyRequest): boolean {
+  return request.headers.upgrade?.toLowerCase() === "websocket";
+}
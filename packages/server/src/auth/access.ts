@@ -0,0 +1,25 @@
+import type { WorkItemSession } from "@azure-boards-ai/shared";
+import type { AuthUser } from "./authenticator.js";
+
+export class SessionAccessError extends Error {
+  readonly statusCode = 403;
+
+  constructor(sessionId: string) {
+    super(`Session ${sessionId} belongs to another user`);
+    this.name = "SessionAccessError";
+  }
+}
+
+/**
+ * Sessions are private to the user who created them. Without authentication
+ * there is no user, and sessions created that way have no owner.
+ */
+export function canAccessSession(session: WorkItemSession, user: AuthUser | undefined): boolean {
+  return !user || !session.ownerId || session.ownerId === user.id;
+}
+
+export function assertSessionAccess(session: WorkItemSession, user: AuthUser | undefined): void {
+  if (!canAccessSession(session, user)) {
+    throw new SessionAccessError(session.id);
+  }
+}
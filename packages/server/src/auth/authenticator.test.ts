@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  AUTH_CACHE_TTL_MS,
+  AuthenticationError,
+  AzureDevOpsAuthenticator,
+  createAuthenticator,
+  parseAuthorization,
+  redactAccessToken,
+  requestCredentials,
+} from "./authenticator.js";
+
+const TEST_ORG_URL = "https://dev.azure.com/test";
+
+const connect = vi.fn();
+
+vi.mock("azure-devops-node-api", () => ({
+  getPersonalAccessTokenHandler: vi.fn(),
+  getBearerHandler: vi.fn(),
+  WebApi: vi.fn().mockImplementation(function () {
+    return { connect };
+  }),
+}));
+
+describe("parseAuthorization", () => {
+  it("should read bearer tokens", () => {
+    expect(parseAuthorization("Bearer abc")).toEqual({ scheme: "bearer", token: "abc" });
+  });
+
+  it("should read PATs from basic auth", () => {
+    const header = `Basic ${Buffer.from(":my-pat").toString("base64")}`;
+
+    expect(parseAuthorization(header)).toEqual({ scheme: "pat", token: "my-pat" });
+  });
+
+  it("should ignore missing or unsupported headers", () => {
+    expect(parseAuthorization(undefined)).toBeUndefined();
+    expect(parseAuthorization("Bearer")).toBeUndefined();
+    expect(parseAuthorization("Digest abc")).toBeUndefined();
+  });
+});
+
+describe("requestCredentials", () => {
+  it("should fall back to the access_token query parameter", () => {
+    expect(requestCredentials({ headers: {}, query: { access_token: "abc" } })).toEqual({
+      scheme: "bearer",
+      token: "abc",
+    });
+    expect(requestCredentials({ headers: {}, query: {} })).toBeUndefined();
+  });
+});
+
+describe("redactAccessToken", () => {
+  it("should mask the access_token query parameter only", () => {
+    expect(redactAccessToken("/api/chat/ws?sessionId=s1&access_token=abc&x=1")).toBe(
+      "/api/chat/ws?sessionId=s1&access_token=[REDACTED]&x=1"
+    );
+    expect(redactAccessToken("/health")).toBe("/health");
+  });
+});
+
+describe("AzureDevOpsAuthenticator", () => {
+  beforeEach(() => {
+    connect.mockReset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should resolve the user the token belongs to and cache it", async () => {
+    connect.mockResolvedValue({ authenticatedUser: { id: "user-1", providerDisplayName: "Ada" } });
+    const authenticator = new AzureDevOpsAuthenticator(TEST_ORG_URL);
+    const credentials = { scheme: "bearer" as const, token: "abc" };
+
+    const user = await authenticator.authenticate(credentials);
+    await authenticator.authenticate(credentials);
+
+    expect(user).toEqual({ id: "user-1", displayName: "Ada", credentials });
+    expect(connect).toHaveBeenCalledTimes(1);
+  });
+
+  it("should validate a token again once its cached user expired", async () => {
+    vi.useFakeTimers();
+    connect.mockResolvedValue({ authenticatedUser: { id: "user-1" } });
+    const authenticator = new AzureDevOpsAuthenticator(TEST_ORG_URL);
+    const credentials = { scheme: "bearer" as const, token: "abc" };
+
+    await authenticator.authenticate(credentials);
+    vi.advanceTimersByTime(AUTH_CACHE_TTL_MS);
+    await authenticator.authenticate(credentials);
+
+    expect(connect).toHaveBeenCalledTimes(2);
+  });
+
+  it("should evict the least recently used token when the cache is full", async () => {
+    connect.mockResolvedValue({ authenticatedUser: { id: "user-1" } });
+    const authenticator = new AzureDevOpsAuthenticator(TEST_ORG_URL, 2);
+    const token = (value: string) => ({ scheme: "bearer" as const, token: value });
+
+    await authenticator.authenticate(token("a"));
+    await authenticator.authenticate(token("b"));
+    await authenticator.authenticate(token("a"));
+    await authenticator.authenticate(token("c"));
+    expect(connect).toHaveBeenCalledTimes(3);
+
+    await authenticator.authenticate(token("a"));
+    expect(connect).toHaveBeenCalledTimes(3);
+    await authenticator.authenticate(token("b"));
+    expect(connect).toHaveBeenCalledTimes(4);
+  });
+
+  it("should reject tokens Azure DevOps does not accept", async () => {
+    connect.mockRejectedValue(Object.assign(new Error("Unauthorized"), { statusCode: 401 }));
+    const authenticator = new AzureDevOpsAuthenticator(TEST_ORG_URL);
+
+    await expect(authenticator.authenticate({ scheme: "pat", token: "bad" })).rejects.toThrow(
+      AuthenticationError
+    );
+  });
+});
+
+describe("createAuthenticator", () => {
+  it("should select the authenticator from the auth mode", () => {
+    expect(createAuthenticator({ mode: "azure-devops" })).toBeInstanceOf(AzureDevOpsAuthenticator);
+    expect(createAuthenticator({ mode: "none" })).toBeUndefined();
+  });
+});
@@ -0,0 +1,164 @@
+import { createHash } from "node:crypto";
+import * as azdev from "azure-devops-node-api";
+import { errorStatusCode, requestHandler } from "../services/azure-devops.js";
+import type { DevOpsCredentials } from "../services/azure-devops.js";
+
+// Validating a token costs a round-trip to Azure DevOps, so results are reused briefly
+export const AUTH_CACHE_TTL_MS = 5 * 60 * 1000;
+
+// Users of the most recently seen tokens kept; older ones are validated again when they return
+export const AUTH_CACHE_MAX_ENTRIES = 1000;
+
+// connectionData is served by every organization and by the account service
+const DEFAULT_AUTH_URL = "https://app.vssps.visualstudio.com";
+
+export interface AuthUser {
+  id: string;
+  displayName: string;
+  // Passed through to Azure DevOps so tools run with the user's own permissions
+  credentials: DevOpsCredentials;
+}
+
+export interface Authenticator {
+  authenticate(credentials: DevOpsCredentials): Promise<AuthUser>;
+}
+
+export interface AuthConfig {
+  mode: "azure-devops" | "none";
+  // Tokens are validated against this organization when set
+  organizationUrl?: string;
+}
+
+export class AuthenticationError extends Error {
+  readonly statusCode = 401;
+
+  constructor(message = "Authentication required") {
+    super(message);
+    this.name = "AuthenticationError";
+  }
+}
+
+/**
+ * Read credentials from an Authorization header. Bearer tokens are OAuth or
+ * Entra access tokens; PATs use Basic auth with an empty user name, the same
+ * way Azure DevOps accepts them.
+ */
+export function parseAuthorization(header: string | undefined): DevOpsCredentials | undefined {
+  const [scheme, value] = header?.trim().split(/\s+/, 2) ?? [];
+  if (!value) {
+    return undefined;
+  }
+
+  if (scheme.toLowerCase() === "bearer") {
+    return { scheme: "bearer", token: value };
+  }
+  if (scheme.toLowerCase() === "basic") {
+    const decoded = Buffer.from(value, "base64").toString("utf8");
+    const token = decoded.slice(decoded.indexOf(":") + 1);
+    return token ? { scheme: "pat", token } : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Credentials of an API request. Browsers cannot set headers on a WebSocket
+ * upgrade, so a bearer token may also be passed as the access_token query
+ * parameter.
+ */
+export function requestCredentials(request: {
+  headers: { authorization?: string };
+  query: unknown;
+}): DevOpsCredentials | undefined {
+  const fromHeader = parseAuthorization(request.headers.authorization);
+  if (fromHeader) {
+    return fromHeader;
+  }
+  const token = (request.query as { access_token?: unknown } | undefined)?.access_token;
+  return typeof token === "string" && token ? { scheme: "bearer", token } : undefined;
+}
+
+// The URL with the access_token query parameter masked, so tokens stay out of the logs
+export function redactAccessToken(url: string): string {
+  return url.replace(/([?&]access_token=)[^&#]*/gi, "$1[REDACTED]");
+}
+
+/**
+ * Validates tokens by asking Azure DevOps who they belong to
+ */
+export class AzureDevOpsAuthenticator implements Authenticator {
+  private organizationUrl: string;
+  // In least recently used order, so the first entry is evicted when the cache is full
+  private cache: Map<string, { user: AuthUser; expiresAt: number }> = new Map();
+  private maxCacheEntries: number;
+
+  constructor(organizationUrl = DEFAULT_AUTH_URL, maxCacheEntries = AUTH_CACHE_MAX_ENTRIES) {
+    this.organizationUrl = organizationUrl;
+    this.maxCacheEntries = maxCacheEntries;
+  }
+
+  async authenticate(credentials: DevOpsCredentials): Promise<AuthUser> {
+    const key = createHash("sha256")
+      .update(`${credentials.scheme}:${credentials.token}`)
+      .digest("hex");
+    const cached = this.cache.get(key);
+    if (cached) {
+      this.cache.delete(key);
+      if (cached.expiresAt > Date.now()) {
+        this.cache.set(key, cached);
+        return cached.user;
+      }
+    }
+
+    const user = await this.lookup(credentials);
+    this.remember(key, user);
+    return user;
+  }
+
+  private remember(key: string, user: AuthUser): void {
+    const now = Date.now();
+    for (const [cachedKey, entry] of this.cache) {
+      if (entry.expiresAt <= now) {
+        this.cache.delete(cachedKey);
+      }
+    }
+    this.cache.set(key, { user, expiresAt: now + AUTH_CACHE_TTL_MS });
+    for (const oldest of this.cache.keys()) {
+      if (this.cache.size <= this.maxCacheEntries) {
+        break;
+      }
+      this.cache.delete(oldest);
+    }
+  }
+
+  private async lookup(credentials: DevOpsCredentials): Promise<AuthUser> {
+    const connection = new azdev.WebApi(this.organizationUrl, requestHandler(credentials));
+
+    let identity;
+    try {
+      identity = (await connection.connect()).authenticatedUser;
+    } catch (error) {
+      const statusCode = errorStatusCode(error);
+      if (statusCode === 401 || statusCode === 403) {
+        throw new AuthenticationError("Azure DevOps rejected the token");
+      }
+      throw error;
+    }
+
+    if (!identity?.id) {
+      throw new AuthenticationError("Azure DevOps rejected the token");
+    }
+    return {
+      id: identity.id,
+      displayName: identity.providerDisplayName ?? identity.id,
+      credentials,
+    };
+  }
+}
+
+/**
+ * Authenticator selected by AUTH_MODE: "azure-devops" (default) validates
+ * callers' tokens; "none" turns authentication off for local development.
+ */
+export function createAuthenticator(config: AuthConfig): Authenticator | undefined {
+  return config.mode === "none" ? undefined : new AzureDevOpsAuthenticator(config.organizationUrl);
+}
@@ -0,0 +1,121 @@
+import { describe, it, expect } from "vitest";
+import { ConfigError, loadConfig } from "./config.js";
+
+const TEST_ORG_URL = "https://dev.azure.com/test";
+
+describe("loadConfig", () => {
+  it("should apply defaults", () => {
+    const config = loadConfig({ ANTHROPIC_API_KEY: "sk-test" });
+
+    expect(config).toEqual({
+      port: 3001,
+      host: "0.0.0.0",
+      llm: { provider: "anthropic", apiKey: "sk-test" },
+      embeddings: { provider: "hashing" },
+      auth: { mode: "azure-devops" },
+      devOps: {},
+      sessionStore: { kind: "memory" },
+    });
+  });
+
+  it("should read model settings and a base URL", () => {
+    const config = loadConfig({
+      PORT: "8080",
+      ANTHROPIC_API_KEY: "sk-test",
+      ANTHROPIC_BASE_URL: "http://localhost:4000",
+      LLM_MODEL: "claude-haiku-4-5",
+      LLM_TEMPERATURE: "0.3",
+      LLM_MAX_TOKENS: "4096",
+    });
+
+    expect(config.port).toBe(8080);
+    expect(config.llm).toMatchObject({
+      baseURL: "http://localhost:4000",
+      model: "claude-haiku-4-5",
+      temperature: 0.3,
+      maxTokens: 4096,
+    });
+  });
+
+  it("should not require an API key for the scripted provider", () => {
+    const config = loadConfig({ LLM_PROVIDER: "scripted", ANTHROPIC_API_KEY: "" });
+
+    expect(config.llm).toMatchObject({ provider: "scripted", apiKey: undefined });
+  });
+
+  it("should list every invalid variable", () => {
+    const load = () =>
+      loadConfig({ ANTHROPIC_API_KEY: "sk-test", PORT: "http", LLM_TEMPERATURE: "2" });
+
+    expect(load).toThrow(ConfigError);
+    expect(load).toThrow(/PORT:[\s\S]*LLM_TEMPERATURE:/);
+  });
+
+  it("should require an API key for the anthropic provider", () => {
+    expect(() => loadConfig({})).toThrow(
+      "ANTHROPIC_API_KEY: Required when LLM_PROVIDER is anthropic"
+    );
+  });
+
+  it("should read the Azure DevOps organization and PAT", () => {
+    const config = loadConfig({
+      ANTHROPIC_API_KEY: "sk-test",
+      AUTH_MODE: "none",
+      AZURE_DEVOPS_ORG_URL: TEST_ORG_URL,
+      AZURE_DEVOPS_PAT: "pat",
+    });
+
+    expect(config.auth).toEqual({ mode: "none", organizationUrl: TEST_ORG_URL });
+    expect(config.devOps).toEqual({ organizationUrl: TEST_ORG_URL, pat: "pat" });
+    expect(() => loadConfig({ ANTHROPIC_API_KEY: "sk-test", AZURE_DEVOPS_PAT: "pat" })).toThrow(
+      "AZURE_DEVOPS_ORG_URL: Required when AZURE_DEVOPS_PAT is set"
+    );
+    expect(() => loadConfig({ ANTHROPIC_API_KEY: "sk-test", AUTH_MODE: "other" })).toThrow(
+      /AUTH_MODE:/
+    );
+  });
+
+  it("should read the allowed Azure DevOps organizations", () => {
+    const config = loadConfig({
+      ANTHROPIC_API_KEY: "sk-test",
+      AZURE_DEVOPS_ALLOWED_ORGS: `${TEST_ORG_URL}, https://tfs.contoso.test/DefaultCollection`,
+    });
+
+    expect(config.devOps.allowedOrganizationUrls).toEqual([
+      TEST_ORG_URL,
+      "https://tfs.contoso.test/DefaultCollection",
+    ]);
+    expect(() =>
+      loadConfig({ ANTHROPIC_API_KEY: "sk-test", AZURE_DEVOPS_ALLOWED_ORGS: "dev.azure.com/org" })
+    ).toThrow(/AZURE_DEVOPS_ALLOWED_ORGS/);
+  });
+
+  it("should select the file session store when only a path is set", () => {
+    const config = loadConfig({
+      ANTHROPIC_API_KEY: "sk-test",
+      SESSION_STORAGE_PATH: "./data/sessions",
+    });
+
+    expect(config.sessionStore).toEqual({ kind: "file", path: "./data/sessions" });
+    expect(() => loadConfig({ ANTHROPIC_API_KEY: "sk-test", SESSION_STORE: "redis" })).toThrow(
+      /SESSION_STORE:/
+    );
+  });
+
+  it("should use an embeddings endpoint when one is configured", () => {
+    const config = loadConfig({
+      ANTHROPIC_API_KEY: "sk-test",
+      EMBEDDING_URL: "http://localhost:11434/v1/embeddings",
+      EMBEDDING_MODEL: "nomic-embed-text",
+    });
+
+    expect(config.embeddings).toEqual({
+      provider: "http",
+      url: "http://localhost:11434/v1/embeddings",
+      model: "nomic-embed-text",
+    });
+    expect(() =>
+      loadConfig({ ANTHROPIC_API_KEY: "sk-test", EMBEDDING_URL: "http://localhost:11434" })
+    ).toThrow("EMBEDDING_MODEL: Required when EMBEDDING_URL is set");
+  });
+});
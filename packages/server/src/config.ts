@@ -0,0 +1,134 @@
+import { z } from "zod";
+import type { AuthConfig } from "./auth/authenticator.js";
+import type { DevOpsConfig } from "./services/azure-devops.js";
+import type { LlmConfig } from "./services/llm.js";
+import type { SessionStoreConfig } from "./sessions/store-config.js";
+import type { EmbeddingConfig } from "./similarity/embedder.js";
+
+export interface ServerConfig {
+  port: number;
+  host: string;
+  llm: LlmConfig;
+  embeddings: EmbeddingConfig;
+  auth: AuthConfig;
+  devOps: DevOpsConfig;
+  sessionStore: SessionStoreConfig;
+}
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+// Empty variables, as left by a copied .env.example, count as unset
+function optional<T extends z.ZodTypeAny>(schema: T) {
+  return z.preprocess((value) => (value === "" ? undefined : value), schema.optional());
+}
+
+const envSchema = z
+  .object({
+    PORT: optional(z.coerce.number().int().min(1).max(65535)),
+    HOST: optional(z.string()),
+    LLM_PROVIDER: optional(z.enum(["anthropic", "scripted"])),
+    ANTHROPIC_API_KEY: optional(z.string()),
+    ANTHROPIC_BASE_URL: optional(z.string().url()),
+    LLM_MODEL: optional(z.string()),
+    LLM_TEMPERATURE: optional(z.coerce.number().min(0).max(1)),
+    LLM_MAX_TOKENS: optional(z.coerce.number().int().positive()),
+    LLM_SCRIPT_PATH: optional(z.string()),
+    EMBEDDING_URL: optional(z.string().url()),
+    EMBEDDING_MODEL: optional(z.string()),
+    EMBEDDING_API_KEY: optional(z.string()),
+    AUTH_MODE: optional(z.enum(["azure-devops", "none"])),
+    AZURE_DEVOPS_ORG_URL: optional(z.string().url()),
+    AZURE_DEVOPS_PAT: optional(z.string()),
+    AZURE_DEVOPS_ALLOWED_ORGS: optional(
+      z
+        .string()
+        .transform((urls) =>
+          urls
+            .split(",")
+            .map((url) => url.trim())
+            .filter(Boolean)
+        )
+        .pipe(z.array(z.string().url()))
+    ),
+    SESSION_STORE: optional(z.enum(["memory", "file", "sqlite"])),
+    SESSION_STORAGE_PATH: optional(z.string()),
+  })
+  .superRefine((env, ctx) => {
+    if ((env.LLM_PROVIDER ?? "anthropic") === "anthropic" && !env.ANTHROPIC_API_KEY) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["ANTHROPIC_API_KEY"],
+        message: "Required when LLM_PROVIDER is anthropic",
+      });
+    }
+    if (env.AZURE_DEVOPS_PAT && !env.AZURE_DEVOPS_ORG_URL) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["AZURE_DEVOPS_ORG_URL"],
+        message: "Required when AZURE_DEVOPS_PAT is set",
+      });
+    }
+    if (env.EMBEDDING_URL && !env.EMBEDDING_MODEL) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["EMBEDDING_MODEL"],
+        message: "Required when EMBEDDING_URL is set",
+      });
+    }
+  });
+
+/**
+ * Read and validate the server's environment. Throws a ConfigError listing
+ * every invalid variable, so a misconfigured server fails at startup rather
+ * than on the first chat message.
+ */
+export function loadConfig(env = process.env): ServerConfig {
+  const parsed = envSchema.safeParse(env);
+  if (!parsed.success) {
+    const problems = parsed.error.issues.map(
+      (issue) => `${issue.path.join(".")}: ${issue.message}`
+    );
+    throw new ConfigError(`Invalid configuration:\n${problems.join("\n")}`);
+  }
+
+  const vars = parsed.data;
+  return {
+    port: vars.PORT ?? 3001,
+    host: vars.HOST ?? "0.0.0.0",
+    llm: {
+      provider: vars.LLM_PROVIDER ?? "anthropic",
+      apiKey: vars.ANTHROPIC_API_KEY,
+      baseURL: vars.ANTHROPIC_BASE_URL,
+      model: vars.LLM_MODEL,
+      temperature: vars.LLM_TEMPERATURE,
+      maxTokens: vars.LLM_MAX_TOKENS,
+      scriptPath: vars.LLM_SCRIPT_PATH,
+    },
+    // Without an embeddings endpoint, work items are embedded locally
+    embeddings: {
+      provider: vars.EMBEDDING_URL ? "http" : "hashing",
+      url: vars.EMBEDDING_URL,
+      model: vars.EMBEDDING_MODEL,
+      apiKey: vars.EMBEDDING_API_KEY,
+    },
+    auth: {
+      mode: vars.AUTH_MODE ?? "azure-devops",
+      organizationUrl: vars.AZURE_DEVOPS_ORG_URL,
+    },
+    devOps: {
+      organizationUrl: vars.AZURE_DEVOPS_ORG_URL,
+      pat: vars.AZURE_DEVOPS_PAT,
+      allowedOrganizationUrls: vars.AZURE_DEVOPS_ALLOWED_ORGS,
+    },
+    // Setting only a storage path selects the file backend, matching the original .env.example hint
+    sessionStore: {
+      kind: vars.SESSION_STORE ?? (vars.SESSION_STORAGE_PATH ? "file" : "memory"),
+      path: vars.SESSION_STORAGE_PATH,
+    },
+  };
+}
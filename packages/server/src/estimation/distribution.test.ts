@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { estimateConfidence, estimateRange, percentile } from "./distribution.js";
+
+describe("distribution", () => {
+  describe("percentile", () => {
+    it("should interpolate between ranks", () => {
+      expect(percentile([1, 2, 4, 8], 0.5)).toBe(3);
+      expect(percentile([1, 2, 4, 8], 0.25)).toBe(1.75);
+      expect(percentile([5], 0.75)).toBe(5);
+    });
+  });
+
+  describe("estimateRange", () => {
+    it("should return the interquartile range and median", () => {
+      expect(estimateRange([8, 1, 3, 2, 5])).toEqual({ low: 2, median: 3, high: 5, sampleSize: 5 });
+    });
+
+    it("should need a minimum sample", () => {
+      expect(estimateRange([1, 2, 3, 4])).toBeUndefined();
+    });
+  });
+
+  describe("estimateConfidence", () => {
+    const range = { low: 4, median: 5, high: 8, sampleSize: 20 };
+
+    it("should be high only for a large, narrow team sample", () => {
+      expect(estimateConfidence(range, "team")).toBe("high");
+      expect(estimateConfidence(range, "project")).toBe("medium");
+      expect(estimateConfidence({ ...range, sampleSize: 6 }, "team")).toBe("medium");
+    });
+
+    it("should be low for a wide range or no range", () => {
+      expect(estimateConfidence({ ...range, low: 1, high: 10 }, "team")).toBe("low");
+      expect(estimateConfidence(undefined, "team")).toBe("low");
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import type { EstimateConfidence, EstimateRange, WorkItemEstimate } from "@azure-boards-ai/shared";
+
+// Fewer past values than this say little about the next item
+export const MIN_SAMPLE_SIZE = 5;
+
+// Samples this large from the team itself can support a high confidence estimate
+const HIGH_CONFIDENCE_SAMPLE_SIZE = 15;
+
+// Past effort does not support more precision than a tenth
+export function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+// Linear interpolation between the closest ranks of sorted values
+export function percentile(sorted: number[], p: number): number {
+  const rank = (sorted.length - 1) * p;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+// The interquartile range and median, or undefined without enough values
+export function estimateRange(values: number[]): EstimateRange | undefined {
+  if (values.length < MIN_SAMPLE_SIZE) {
+    return undefined;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    low: round(percentile(sorted, 0.25)),
+    median: round(percentile(sorted, 0.5)),
+    high: round(percentile(sorted, 0.75)),
+    sampleSize: values.length,
+  };
+}
+
+/**
+ * How far an estimate can be trusted, from the size and spread of its sample.
+ * A range wider than its median is never better than medium, and an estimate
+ * borrowed from the whole project is never high.
+ */
+export function estimateConfidence(
+  range: EstimateRange | undefined,
+  basis: WorkItemEstimate["basis"]
+): EstimateConfidence {
+  if (!range) {
+    return "low";
+  }
+  const spread = range.median > 0 ? (range.high - range.low) / range.median : Infinity;
+  if (basis === "team" && range.sampleSize >= HIGH_CONFIDENCE_SAMPLE_SIZE && spread <= 1) {
+    return "high";
+  }
+  return spread <= 1.5 ? "medium" : "low";
+}
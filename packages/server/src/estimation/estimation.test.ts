@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { ComparableWorkItem, WorkItem } from "@azure-boards-ai/shared";
+import { InMemoryWorkItemClient } from "../services/in-memory-devops.js";
+import {
+  EstimationFields,
+  EstimationService,
+  estimateFromHistory,
+  historyQuery,
+  toComparableItem,
+} from "./estimation.js";
+
+const ORG_URL = "https://dev.azure.com/test";
+const PROJECT = "Shop";
+const PAYMENTS = "Shop\\Payments";
+
+function completed(id: number, areaPath: string, completedWork: number): ComparableWorkItem {
+  return { id, title: `Task ${id}`, areaPath, completedWork, cycleTimeDays: completedWork / 4 };
+}
+
+// Five payments tasks and five others, the payments ones taking longer
+const HISTORY = [
+  ...[4, 6, 8, 10, 12].map((hours, i) => completed(i + 1, PAYMENTS, hours)),
+  ...[1, 1, 2, 2, 3].map((hours, i) => completed(i + 11, "Shop\\Catalog", hours)),
+];
+
+describe("toComparableItem", () => {
+  it("should read the size, hours and cycle time of a completed item", () => {
+    const item: WorkItem = {
+      id: 7,
+      fields: {
+        "System.Title": "Card vault",
+        "Microsoft.VSTS.Scheduling.Effort": 5,
+        [EstimationFields.OriginalEstimate]: 0,
+        [EstimationFields.CompletedWork]: "6.5",
+        [EstimationFields.ActivatedDate]: "2026-03-02T09:00:00Z",
+        [EstimationFields.ClosedDate]: "2026-03-05T21:00:00Z",
+      },
+    };
+
+    expect(toComparableItem(item)).toEqual({
+      id: 7,
+      title: "Card vault",
+      areaPath: undefined,
+      storyPoints: 5,
+      originalEstimate: undefined,
+      completedWork: 6.5,
+      cycleTimeDays: 3.5,
+    });
+  });
+});
+
+describe("historyQuery", () => {
+  it("should select recently closed items of the type", () => {
+    expect(historyQuery("Task", 90)).toBe(
+      "SELECT [System.Id] FROM WorkItems WHERE [System.TeamProject] = @project" +
+        " AND [System.WorkItemType] = 'Task' AND [System.State] <> 'Removed'" +
+        " AND [Microsoft.VSTS.Common.ClosedDate] >= @Today - 90" +
+        " ORDER BY [Microsoft.VSTS.Common.ClosedDate] DESC"
+    );
+  });
+});
+
+describe("estimateFromHistory", () => {
+  it("should use the team's own items when there are enough", () => {
+    const estimate = estimateFromHistory(HISTORY, { type: "Task", areaPath: "shop\\payments" });
+
+    expect(estimate).toMatchObject({
+      basis: "team",
+      sampleSize: 5,
+      hours: { low: 6, median: 8, high: 10, sampleSize: 5 },
+      hoursFrom: "completedWork",
+      cycleTimeDays: { median: 2 },
+      confidence: "medium",
+    });
+    expect(estimate.storyPoints).toBeUndefined();
+  });
+
+  it("should fall back to the project when the team has too few items", () => {
+    const estimate = estimateFromHistory(HISTORY, {
+      type: "Task",
+      areaPath: PAYMENTS,
+      excludeIds: [1],
+    });
+
+    expect(estimate).toMatchObject({ basis: "project", sampleSize: 9 });
+  });
+
+  it("should use original estimates where completed work is not tracked", () => {
+    const history = [2, 3, 4, 5, 6].map((hours, id) => ({ id, originalEstimate: hours }));
+
+    const estimate = estimateFromHistory(history, { type: "Task" });
+
+    expect(estimate).toMatchObject({ hours: { median: 4 }, hoursFrom: "originalEstimate" });
+  });
+
+  it("should rank comparable items by shared title words", () => {
+    const history = [
+      ...HISTORY,
+      { ...completed(21, PAYMENTS, 5), title: "Refund a saved card payment" },
+    ];
+
+    const estimate = estimateFromHistory(history, {
+      type: "Task",
+      areaPath: PAYMENTS,
+      title: "Delete a saved card",
+    });
+
+    expect(estimate.comparableItems.map(({ id }) => id)).toEqual([21, 1, 2, 3, 4]);
+  });
+});
+
+describe("EstimationService", () => {
+  let client: InMemoryWorkItemClient;
+  let now: number;
+  let estimation: EstimationService;
+
+  beforeEach(() => {
+    client = new InMemoryWorkItemClient({
+      items: [2, 4, 6, 8, 10].map((hours, i) => ({
+        id: i + 1,
+        fields: {
+          "System.TeamProject": PROJECT,
+          "System.AreaPath": PAYMENTS,
+          [EstimationFields.CompletedWork]: hours,
+        },
+      })),
+    });
+    now = 0;
+    estimation = new EstimationService({ ttlMs: 1000, now: () => now });
+  });
+
+  it("should read a project's history of a type once per TTL", async () => {
+    const query = vi.spyOn(client, "queryByWiql");
+    const request = { organizationUrl: ORG_URL, projectId: PROJECT, type: "Task" };
+
+    const [estimate] = await Promise.all([
+      estimation.estimate(client, request),
+      estimation.estimate(client, { ...request, type: "task", areaPath: PAYMENTS }),
+    ]);
+    now = 1000;
+    await estimation.estimate(client, request);
+
+    expect(estimate.hours).toEqual({ low: 4, median: 6, high: 8, sampleSize: 5 });
+    expect(query).toHaveBeenCalledTimes(2);
+  });
+
+  it("should only estimate from items the caller can read", async () => {
+    const request = { organizationUrl: ORG_URL, projectId: PROJECT, type: "Task" };
+    await estimation.estimate(client, request);
+    const getWorkItems = client.getWorkItems.bind(client);
+    vi.spyOn(client, "getWorkItems").mockImplementation(async (ids, fields) =>
+      (await getWorkItems(ids, fields)).filter((item) => item.id !== 2)
+    );
+
+    const estimate = await estimation.estimate(client, request);
+
+    expect(estimate.sampleSize).toBe(4);
+    expect(estimate.comparableItems.map((item) => item.id)).toEqual([1, 3, 4, 5]);
+  });
+
+  it("should not cache a failed load", async () => {
+    const request = { organizationUrl: ORG_URL, projectId: PROJECT, type: "Task" };
+    vi.spyOn(client, "queryByWiql").mockRejectedValueOnce(new Error("Unavailable"));
+
+    await expect(estimation.estimate(client, request)).rejects.toThrow("Unavailable");
+    await expect(estimation.estimate(client, request)).resolves.toMatchObject({ sampleSize: 5 });
+  });
+});
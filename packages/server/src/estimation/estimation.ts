@@ -0,0 +1,246 @@
+import type { ComparableWorkItem, WorkItem, WorkItemEstimate } from "@azure-boards-ai/shared";
+import type { WorkItemTrackingClient } from "../services/azure-devops.js";
+import { WorkItemFields } from "../services/azure-devops.js";
+import { buildWiql, macro, where } from "../services/wiql.js";
+import { MIN_SAMPLE_SIZE, estimateConfidence, estimateRange, round } from "./distribution.js";
+
+export const EstimationFields = {
+  OriginalEstimate: "Microsoft.VSTS.Scheduling.OriginalEstimate",
+  CompletedWork: "Microsoft.VSTS.Scheduling.CompletedWork",
+  ActivatedDate: "Microsoft.VSTS.Common.ActivatedDate",
+  ClosedDate: "Microsoft.VSTS.Common.ClosedDate",
+} as const;
+
+// The size field of the Agile, Scrum and CMMI processes
+const STORY_POINT_FIELDS = [
+  "Microsoft.VSTS.Scheduling.StoryPoints",
+  "Microsoft.VSTS.Scheduling.Effort",
+  "Microsoft.VSTS.Scheduling.Size",
+];
+
+const HISTORY_FIELDS = [
+  WorkItemFields.Title,
+  WorkItemFields.AreaPath,
+  ...STORY_POINT_FIELDS,
+  ...Object.values(EstimationFields),
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const COMPARABLE_ITEMS = 5;
+
+export interface EstimationOptions {
+  // Only items closed within this many days are used, at most maxItems of the latest
+  lookbackDays?: number;
+  maxItems?: number;
+  // How long the history of a project's type is used before it is read again
+  ttlMs?: number;
+  now?: () => number;
+}
+
+export interface EstimateRequest {
+  organizationUrl: string;
+  projectId: string;
+  type: string;
+  // The team's area; its sub-areas are included
+  areaPath?: string;
+  // Comparable items are ranked by the words their titles share with it
+  title?: string;
+  excludeIds?: number[];
+}
+
+interface CachedHistory {
+  loadedAt: number;
+  items: Promise<ComparableWorkItem[]>;
+}
+
+export function historyQuery(type: string, lookbackDays: number): string {
+  return buildWiql({
+    where: [
+      where.equals(WorkItemFields.TeamProject, macro("@project")),
+      where.equals(WorkItemFields.WorkItemType, type),
+      where.notEquals(WorkItemFields.State, "Removed"),
+      where.atLeast(EstimationFields.ClosedDate, macro("@Today", -lookbackDays)),
+    ],
+    orderBy: [{ field: EstimationFields.ClosedDate, descending: true }],
+  });
+}
+
+// Zero means a field was never filled in, so only positive numbers count
+function positiveNumber(value: string | number | undefined): number | undefined {
+  const number = Number(value);
+  return value !== undefined && value !== "" && number > 0 ? number : undefined;
+}
+
+function dateValue(value: string | number | undefined): number | undefined {
+  const time = value === undefined ? NaN : new Date(value).getTime();
+  return Number.isNaN(time) ? undefined : time;
+}
+
+// Days from activation to closing; items closed without being activated have none
+function cycleTimeDays(item: WorkItem): number | undefined {
+  const activated = dateValue(item.fields[EstimationFields.ActivatedDate]);
+  const closed = dateValue(item.fields[EstimationFields.ClosedDate]);
+  if (activated === undefined || closed === undefined || closed < activated) {
+    return undefined;
+  }
+  return round((closed - activated) / DAY_MS);
+}
+
+export function toComparableItem(item: WorkItem): ComparableWorkItem {
+  const storyPoints = STORY_POINT_FIELDS.map((field) => positiveNumber(item.fields[field])).find(
+    (value) => value !== undefined
+  );
+  return {
+    id: item.id,
+    title: item.fields[WorkItemFields.Title]?.toString(),
+    areaPath: item.fields[WorkItemFields.AreaPath]?.toString(),
+    storyPoints,
+    originalEstimate: positiveNumber(item.fields[EstimationFields.OriginalEstimate]),
+    completedWork: positiveNumber(item.fields[EstimationFields.CompletedWork]),
+    cycleTimeDays: cycleTimeDays(item),
+  };
+}
+
+// Area paths are matched case-insensitively, like Azure DevOps does
+function inArea(item: ComparableWorkItem, areaPath: string): boolean {
+  const area = item.areaPath?.toLowerCase();
+  const team = areaPath.toLowerCase();
+  return area === team || Boolean(area?.startsWith(`${team}\\`));
+}
+
+function titleWords(title: string): Set<string> {
+  return new Set(
+    title
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((word) => word.length > 2)
+  );
+}
+
+// Most shared title words first; ties and items without a title keep the latest closed first
+function comparableItems(items: ComparableWorkItem[], title?: string): ComparableWorkItem[] {
+  if (!title) {
+    return items.slice(0, COMPARABLE_ITEMS);
+  }
+  const words = titleWords(title);
+  const shared = (item: ComparableWorkItem) =>
+    [...titleWords(item.title ?? "")].filter((word) => words.has(word)).length;
+  return items
+    .map((item) => ({ item, shared: shared(item) }))
+    .sort((a, b) => b.shared - a.shared)
+    .slice(0, COMPARABLE_ITEMS)
+    .map(({ item }) => item);
+}
+
+function values(items: ComparableWorkItem[], key: keyof ComparableWorkItem): number[] {
+  return items.flatMap((item) => {
+    const value = item[key];
+    return typeof value === "number" ? [value] : [];
+  });
+}
+
+/**
+ * Estimate from completed items of the same type, latest closed first. The
+ * team's area is used when it has enough items of its own, the whole project
+ * otherwise.
+ */
+export function estimateFromHistory(
+  history: ComparableWorkItem[],
+  request: Omit<EstimateRequest, "organizationUrl" | "projectId">
+): WorkItemEstimate {
+  const excluded = new Set(request.excludeIds);
+  const projectItems = history.filter((item) => !excluded.has(item.id));
+  const { areaPath } = request;
+  const teamItems = areaPath ? projectItems.filter((item) => inArea(item, areaPath)) : [];
+  const basis = teamItems.length >= MIN_SAMPLE_SIZE ? "team" : "project";
+  const items = basis === "team" ? teamItems : projectItems;
+
+  const completedWork = estimateRange(values(items, "completedWork"));
+  const hours = completedWork ?? estimateRange(values(items, "originalEstimate"));
+  const storyPoints = estimateRange(values(items, "storyPoints"));
+  const cycleTime = estimateRange(values(items, "cycleTimeDays"));
+
+  return {
+    type: request.type,
+    areaPath,
+    basis,
+    sampleSize: items.length,
+    confidence: estimateConfidence(hours ?? storyPoints ?? cycleTime, basis),
+    hours,
+    hoursFrom: hours && (completedWork ? "completedWork" : "originalEstimate"),
+    storyPoints,
+    cycleTimeDays: cycleTime,
+    comparableItems: comparableItems(items, request.title),
+  };
+}
+
+/**
+ * Effort estimates grounded in a team's velocity: the story points, hours and
+ * cycle times of recently completed items of the same type. The history of a
+ * project's type is read once per TTL and shared by every session; each caller
+ * is only estimated from the items they can read.
+ */
+export class EstimationService {
+  private lookbackDays: number;
+  private maxItems: number;
+  private ttlMs: number;
+  private now: () => number;
+  private cache: Map<string, CachedHistory> = new Map();
+
+  constructor(options: EstimationOptions = {}) {
+    this.lookbackDays = options.lookbackDays ?? 180;
+    this.maxItems = options.maxItems ?? 500;
+    this.ttlMs = options.ttlMs ?? 60 * 60 * 1000;
+    this.now = options.now ?? Date.now;
+  }
+
+  async estimate(
+    client: WorkItemTrackingClient,
+    request: EstimateRequest
+  ): Promise<WorkItemEstimate> {
+    const history = await this.getHistory(client, request);
+
+    // The history may have been read by another user; leave out items the caller cannot open
+    const ids = history.map((item) => item.id);
+    const readable = ids.length ? await client.getWorkItems(ids, [WorkItemFields.Title]) : [];
+    const readableIds = new Set(readable.map((item) => item.id));
+    return estimateFromHistory(
+      history.filter((item) => readableIds.has(item.id)),
+      request
+    );
+  }
+
+  // Concurrent callers share one load; a failed load is not cached
+  private getHistory(
+    client: WorkItemTrackingClient,
+    { organizationUrl, projectId, type }: EstimateRequest
+  ): Promise<ComparableWorkItem[]> {
+    const key = `${organizationUrl}|${projectId.toLowerCase()}|${type.toLowerCase()}`;
+    const cached = this.cache.get(key);
+    if (cached && this.now() - cached.loadedAt < this.ttlMs) {
+      return cached.items;
+    }
+
+    const items = this.loadHistory(client, projectId, type);
+    const entry = { loadedAt: this.now(), items };
+    this.cache.set(key, entry);
+    items.catch(() => {
+      if (this.cache.get(key) === entry) {
+        this.cache.delete(key);
+      }
+    });
+    return items;
+  }
+
+  private async loadHistory(
+    client: WorkItemTrackingClient,
+    project: string,
+    type: string
+  ): Promise<ComparableWorkItem[]> {
+    const query = historyQuery(type, this.lookbackDays);
+    const ids = await client.queryByWiql(query, project, this.maxItems);
+    const items = await client.getWorkItems(ids, HISTORY_FIELDS);
+    return items.map(toComparableItem);
+  }
+}
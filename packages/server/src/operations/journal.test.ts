@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { WorkItemSession } from "@azure-boards-ai/shared";
+import { InMemoryWorkItemClient } from "../services/in-memory-devops.js";
+import { LinkTypes, workItemUrl } from "../services/azure-devops.js";
+import { JournalingWorkItemClient } from "./journal.js";
+
+const ORG_URL = "https://dev.azure.com/test";
+const TITLE = "System.Title";
+const TASK_TITLE = "Card vault";
+
+describe("JournalingWorkItemClient", () => {
+  let client: InMemoryWorkItemClient;
+  let session: WorkItemSession;
+  let journaled: JournalingWorkItemClient;
+
+  beforeEach(() => {
+    client = new InMemoryWorkItemClient({
+      organizationUrl: ORG_URL,
+      items: [{ id: 1, fields: { [TITLE]: "Checkout", "System.State": "New" } }],
+    });
+    session = { workItemId: 1 } as Partial<WorkItemSession> as WorkItemSession;
+    journaled = new JournalingWorkItemClient(client, session);
+  });
+
+  it("should record created items with their fields and links", async () => {
+    const parent = { rel: LinkTypes.parent, url: workItemUrl(ORG_URL, 1) };
+
+    const item = await journaled.createWorkItem("Shop", "Task", [
+      { op: "add", path: `/fields/${TITLE}`, value: TASK_TITLE },
+      { op: "add", path: "/relations/-", value: { ...parent, attributes: { comment: "x" } } },
+    ]);
+
+    expect(session.operations).toEqual([
+      {
+        id: expect.any(String),
+        kind: "create",
+        workItemId: item.id,
+        title: TASK_TITLE,
+        changes: [{ field: TITLE, from: undefined, to: TASK_TITLE }],
+        addedLinks: [parent],
+        performedAt: expect.any(Date),
+      },
+    ]);
+  });
+
+  it("should record the values an update replaced", async () => {
+    await journaled.updateWorkItem(1, [
+      { op: "test", path: "/rev", value: 0 },
+      { op: "add", path: "/fields/System.State", value: "Active" },
+      { op: "add", path: `/fields/${TITLE}`, value: "Checkout" },
+    ]);
+
+    expect(session.operations?.[0]).toMatchObject({
+      kind: "update",
+      title: "Checkout",
+      changes: [{ field: "System.State", from: "New", to: "Active" }],
+    });
+  });
+
+  it("should not record updates that changed nothing", async () => {
+    await journaled.updateWorkItem(1, [{ op: "add", path: `/fields/${TITLE}`, value: "Checkout" }]);
+
+    expect(session.operations).toBeUndefined();
+  });
+});
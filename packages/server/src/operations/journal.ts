@@ -0,0 +1,116 @@
+import { nanoid } from "nanoid";
+import type {
+  FieldChange,
+  WorkItem,
+  WorkItemOperation,
+  WorkItemRelation,
+  WorkItemRevision,
+  WorkItemSession,
+  WorkItemTypeMetadata,
+} from "@azure-boards-ai/shared";
+import type {
+  PatchOperation,
+  WorkItemCommentPage,
+  WorkItemTrackingClient,
+} from "../services/azure-devops.js";
+import { WorkItemFields } from "../services/azure-devops.js";
+import { patchedFields } from "../services/field-validation.js";
+
+// The fields a patch set or cleared, with their values before and after it
+function fieldChanges(patch: PatchOperation[], before: WorkItem | undefined, after: WorkItem) {
+  return Object.keys(patchedFields(patch)).flatMap((field): FieldChange[] => {
+    const from = before?.fields[field];
+    const to = after.fields[field];
+    return from === to ? [] : [{ field, from, to }];
+  });
+}
+
+function addedLinks(patch: PatchOperation[]): WorkItemRelation[] {
+  return patch
+    .filter(({ op, path }) => op === "add" && path === "/relations/-")
+    .map(({ value }) => {
+      const { rel, url } = value as WorkItemRelation;
+      return { rel, url };
+    });
+}
+
+/**
+ * Records every create and update made through the client in the session's
+ * operation journal, so a bad change can be reverted later. Updates read the
+ * work item first to know the values they replace.
+ */
+export class JournalingWorkItemClient implements WorkItemTrackingClient {
+  constructor(
+    private readonly client: WorkItemTrackingClient,
+    private readonly session: WorkItemSession
+  ) {}
+
+  getWorkItem(id: number): Promise<WorkItem | undefined> {
+    return this.client.getWorkItem(id);
+  }
+
+  getWorkItems(ids: number[], fields?: string[]): Promise<WorkItem[]> {
+    return this.client.getWorkItems(ids, fields);
+  }
+
+  getComments(project: string, id: number, top?: number): Promise<WorkItemCommentPage> {
+    return this.client.getComments(project, id, top);
+  }
+
+  getRevisions(id: number, since?: number): Promise<WorkItemRevision[]> {
+    return this.client.getRevisions(id, since);
+  }
+
+  queryByWiql(query: string, project: string, top?: number): Promise<number[]> {
+    return this.client.queryByWiql(query, project, top);
+  }
+
+  getWorkItemTypes(project: string): Promise<WorkItemTypeMetadata[]> {
+    return this.client.getWorkItemTypes(project);
+  }
+
+  async createWorkItem(project: string, type: string, patch: PatchOperation[]): Promise<WorkItem> {
+    const item = await this.client.createWorkItem(project, type, patch);
+    this.record("create", patch, undefined, item);
+    return item;
+  }
+
+  async updateWorkItem(id: number, patch: PatchOperation[]): Promise<WorkItem> {
+    const before = await this.client.getWorkItem(id);
+    const item = await this.client.updateWorkItem(id, patch);
+    this.record("update", patch, before, item);
+    return item;
+  }
+
+  private record(
+    kind: WorkItemOperation["kind"],
+    patch: PatchOperation[],
+    before: WorkItem | undefined,
+    after: WorkItem
+  ): void {
+    const changes = fieldChanges(patch, before, after);
+    const links = addedLinks(patch);
+    if (kind === "update" && changes.length === 0 && links.length === 0) {
+      return;
+    }
+
+    this.session.operations ??= [];
+    this.session.operations.push({
+      id: nanoid(),
+      kind,
+      workItemId: after.id,
+      title: after.fields[WorkItemFields.Title]?.toString(),
+      changes,
+      addedLinks: links,
+      performedAt: new Date(),
+    });
+  }
+}
+
+// Without Azure DevOps there is no client to journal
+export function journaled(
+  client: WorkItemTrackingClient | undefined,
+  session: WorkItemSession
+): WorkItemTrackingClient | undefined {
+  return client && new JournalingWorkItemClient(client, session);
+}
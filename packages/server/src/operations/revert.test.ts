@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import type { WorkItemSession } from "@azure-boards-ai/shared";
+import { InMemoryWorkItemClient } from "../services/in-memory-devops.js";
+import { LinkTypes, workItemUrl } from "../services/azure-devops.js";
+import { JournalingWorkItemClient } from "./journal.js";
+import { OperationNotFoundError, OperationStateError, revertOperation } from "./revert.js";
+
+const ORG_URL = "https://dev.azure.com/test";
+const STATE = "System.State";
+const RELATED = { rel: LinkTypes.related, url: workItemUrl(ORG_URL, 2) };
+
+describe("revertOperation", () => {
+  let client: InMemoryWorkItemClient;
+  let session: WorkItemSession;
+  let journaled: JournalingWorkItemClient;
+
+  beforeEach(async () => {
+    client = new InMemoryWorkItemClient({
+      organizationUrl: ORG_URL,
+      items: [
+        { id: 1, rev: 1, fields: { "System.Title": "Checkout", [STATE]: "New" }, relations: [] },
+        { id: 2, rev: 1, fields: { "System.Title": "Payments" } },
+      ],
+      workItemTypes: [
+        { name: "Task", states: ["New", "Done", "Cut"], removedState: "Cut", fields: [] },
+        { name: "Issue", states: ["New", "Done"], fields: [] },
+      ],
+    });
+    session = {
+      workItemId: 1,
+      context: { workItem: (await client.getWorkItem(1))!, relatedItems: [], childItems: [] },
+    } as Partial<WorkItemSession> as WorkItemSession;
+    journaled = new JournalingWorkItemClient(client, session);
+  });
+
+  it("should restore the fields and remove the links an update added", async () => {
+    await journaled.updateWorkItem(1, [
+      { op: "add", path: `/fields/${STATE}`, value: "Active" },
+      { op: "add", path: "/fields/System.Tags", value: "payments" },
+      { op: "add", path: "/relations/-", value: RELATED },
+    ]);
+    const [operation] = session.operations!;
+
+    await revertOperation(client, session, operation.id);
+
+    const item = await client.getWorkItem(1);
+    expect(item?.fields).toEqual({ "System.Title": "Checkout", [STATE]: "New" });
+    expect(item?.relations).toEqual([]);
+    expect(session.context.workItem.fields[STATE]).toBe("New");
+    expect(operation.revertedAt).toBeInstanceOf(Date);
+    await expect(revertOperation(client, session, operation.id)).rejects.toThrow(
+      OperationStateError
+    );
+  });
+
+  it("should move created items to the removed state of their type", async () => {
+    const created = await journaled.createWorkItem("Shop", "Task", [
+      { op: "add", path: "/fields/System.Title", value: "Card vault" },
+    ]);
+    const update = vi.spyOn(client, "updateWorkItem");
+
+    await revertOperation(client, session, session.operations![0].id);
+
+    expect(update).toHaveBeenCalledWith(created.id, [
+      { op: "test", path: "/rev", value: 1 },
+      { op: "add", path: `/fields/${STATE}`, value: "Cut" },
+    ]);
+  });
+
+  it("should explain why a created item without a removed state cannot be reverted", async () => {
+    await journaled.createWorkItem("Shop", "Issue", [
+      { op: "add", path: "/fields/System.Title", value: "Card vault" },
+    ]);
+
+    await expect(revertOperation(client, session, session.operations![0].id)).rejects.toThrow(
+      "type Issue has no state in the Removed category"
+    );
+  });
+
+  it("should not overwrite fields changed again since", async () => {
+    await journaled.updateWorkItem(1, [{ op: "add", path: `/fields/${STATE}`, value: "Active" }]);
+    await journaled.updateWorkItem(1, [{ op: "add", path: `/fields/${STATE}`, value: "Closed" }]);
+    const [first, second] = session.operations!;
+
+    await expect(revertOperation(client, session, first.id)).rejects.toThrow(
+      "Revert the later changes first"
+    );
+    await revertOperation(client, session, second.id);
+    await revertOperation(client, session, first.id);
+
+    expect((await client.getWorkItem(1))?.fields[STATE]).toBe("New");
+  });
+
+  it("should reject unknown operations", async () => {
+    await expect(revertOperation(client, session, "missing")).rejects.toThrow(
+      OperationNotFoundError
+    );
+  });
+});
@@ -0,0 +1,130 @@
+import type {
+  WorkItem,
+  WorkItemOperation,
+  WorkItemRelation,
+  WorkItemSession,
+} from "@azure-boards-ai/shared";
+import type { PatchOperation, WorkItemTrackingClient } from "../services/azure-devops.js";
+import { WorkItemFields } from "../services/azure-devops.js";
+import { WorkItemNotFoundError } from "../sessions/context-loader.js";
+
+export class OperationNotFoundError extends Error {
+  readonly statusCode = 404;
+
+  constructor(id: string) {
+    super(`Operation ${id} not found`);
+    this.name = "OperationNotFoundError";
+  }
+}
+
+export class OperationStateError extends Error {
+  readonly statusCode = 409;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "OperationStateError";
+  }
+}
+
+function sameLink(a: WorkItemRelation, b: WorkItemRelation): boolean {
+  return a.rel === b.rel && a.url.toLowerCase() === b.url.toLowerCase();
+}
+
+// Fields changed again after the operation; reverting would overwrite those changes
+function changedSince(operation: WorkItemOperation, item: WorkItem): string[] {
+  return operation.changes
+    .filter(({ field, to }) => item.fields[field] !== to)
+    .map(({ field }) => field);
+}
+
+// Created items are not deleted but moved to the removed state of their type
+async function removedState(client: WorkItemTrackingClient, item: WorkItem): Promise<string> {
+  const project = String(item.fields[WorkItemFields.TeamProject] ?? "");
+  const name = String(item.fields[WorkItemFields.WorkItemType] ?? "");
+  const types = await client.getWorkItemTypes(project);
+  const type = types.find((candidate) => candidate.name.toLowerCase() === name.toLowerCase());
+  if (!type?.removedState) {
+    throw new OperationStateError(
+      `Work item ${item.id} cannot be removed: its type ${name} has no state in the Removed category. Delete it in Azure DevOps instead.`
+    );
+  }
+  return type.removedState;
+}
+
+/**
+ * The patch undoing an operation on the item as it is now: created items are
+ * moved to `removed`, updated fields get their previous values and added links
+ * that are still there are removed.
+ */
+export function revertPatch(
+  operation: WorkItemOperation,
+  item: WorkItem,
+  removed?: string
+): PatchOperation[] {
+  const patch: PatchOperation[] =
+    item.rev === undefined ? [] : [{ op: "test", path: "/rev", value: item.rev }];
+
+  if (operation.kind === "create") {
+    patch.push({ op: "add", path: `/fields/${WorkItemFields.State}`, value: removed });
+    return patch;
+  }
+
+  for (const { field, from } of operation.changes) {
+    patch.push(
+      from === undefined
+        ? { op: "remove", path: `/fields/${field}` }
+        : { op: "add", path: `/fields/${field}`, value: from }
+    );
+  }
+
+  // Highest index first, so each removal leaves the indexes still to remove in place
+  const relations = item.relations ?? [];
+  const indexes = operation.addedLinks
+    .map((link) => relations.findIndex((relation) => sameLink(relation, link)))
+    .filter((index) => index >= 0)
+    .sort((a, b) => b - a);
+  for (const index of new Set(indexes)) {
+    patch.push({ op: "remove", path: `/relations/${index}` });
+  }
+  return patch;
+}
+
+/**
+ * Revert an operation from the session's journal. Updated fields that were
+ * changed again since are not overwritten; later operations on them have to be
+ * reverted first.
+ */
+export async function revertOperation(
+  client: WorkItemTrackingClient,
+  session: WorkItemSession,
+  operationId: string
+): Promise<WorkItemOperation> {
+  const operation = session.operations?.find(({ id }) => id === operationId);
+  if (!operation) {
+    throw new OperationNotFoundError(operationId);
+  }
+  if (operation.revertedAt) {
+    throw new OperationStateError(`Operation ${operationId} was already reverted`);
+  }
+
+  const item = await client.getWorkItem(operation.workItemId);
+  if (!item) {
+    throw new WorkItemNotFoundError(operation.workItemId);
+  }
+  if (operation.kind === "update") {
+    const changed = changedSince(operation, item);
+    if (changed.length > 0) {
+      throw new OperationStateError(
+        `Work item ${item.id} was changed again since the operation: ${changed.join(", ")}. Revert the later changes first.`
+      );
+    }
+  }
+
+  const removed = operation.kind === "create" ? await removedState(client, item) : undefined;
+  const updated = await client.updateWorkItem(item.id, revertPatch(operation, item, removed));
+  if (updated.id === session.workItemId) {
+    session.context.workItem = { ...session.context.workItem, ...updated };
+  }
+  operation.revertedAt = new Date();
+  return operation;
+}
@@ -0,0 +1,227 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { Plan, StreamChunk, WorkItemSession } from "@azure-boards-ai/shared";
+import { InMemoryWorkItemClient } from "../services/in-memory-devops.js";
+import { LinkTypes, WorkItemFields, workItemUrl } from "../services/azure-devops.js";
+import { PlanExecutor } from "./executor.js";
+import type { ExecuteOptions, ExecutionResult } from "./executor.js";
+
+const TEST_ORG_URL = "https://dev.azure.com/test";
+
+function createPlan(status: Plan["status"]): Plan {
+  return {
+    id: "plan-1",
+    status,
+    subtasks: [
+      { id: "t2", title: "Build UI", type: "Task", tags: ["ui"], dependsOn: ["t1"] },
+      { id: "t1", title: "Build API", type: "Task", tags: [], estimate: 4, dependsOn: [] },
+    ],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+function createSession(plan: Plan): WorkItemSession {
+  return {
+    id: "session-1",
+    workItemId: 1,
+    projectId: "TestProject",
+    organizationUrl: TEST_ORG_URL,
+    state: "plan",
+    transcript: [],
+    context: { workItem: { id: 1, fields: {} }, relatedItems: [], childItems: [] },
+    plan,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+async function run(
+  executor: PlanExecutor,
+  session: WorkItemSession,
+  options: ExecuteOptions = {}
+): Promise<{ chunks: StreamChunk[]; result: ExecutionResult }> {
+  const generator = executor.execute(session, options);
+  const chunks: StreamChunk[] = [];
+  for (;;) {
+    const next = await generator.next();
+    if (next.done) {
+      return { chunks, result: next.value };
+    }
+    chunks.push(next.value);
+  }
+}
+
+describe("PlanExecutor", () => {
+  let client: InMemoryWorkItemClient;
+
+  beforeEach(() => {
+    client = new InMemoryWorkItemClient({
+      organizationUrl: TEST_ORG_URL,
+      items: [
+        {
+          id: 1,
+          fields: {
+            [WorkItemFields.Title]: "Checkout",
+            [WorkItemFields.AreaPath]: "TestProject\\Web",
+            [WorkItemFields.IterationPath]: "TestProject\\Sprint 1",
+            [WorkItemFields.Tags]: "checkout",
+          },
+        },
+      ],
+    });
+  });
+
+  it("should preview patch documents without creating anything", async () => {
+    const session = createSession(createPlan("draft"));
+
+    const { chunks, result } = await run(new PlanExecutor(client), session, { dryRun: true });
+
+    expect(result.documents.map((document) => document.subtaskId)).toEqual(["t1", "t2"]);
+    expect(result.documents[1].patch).toContainEqual({
+      op: "add",
+      path: "/relations/-",
+      value: { rel: LinkTypes.predecessor, url: "{t1}" },
+    });
+    expect(chunks.map((chunk) => chunk.progress?.status)).toEqual(["planned", "planned"]);
+    expect(await client.getWorkItem(2)).toBeUndefined();
+    expect(session.state).toBe("plan");
+    expect(session.plan?.status).toBe("draft");
+  });
+
+  it("should create subtasks in dependency order with inherited fields and links", async () => {
+    const session = createSession(createPlan("approved"));
+
+    const { chunks, result } = await run(new PlanExecutor(client), session);
+
+    expect(result.created).toEqual([
+      { subtaskId: "t1", workItemId: 2 },
+      { subtaskId: "t2", workItemId: 3 },
+    ]);
+
+    const api = await client.getWorkItem(2);
+    expect(api?.fields).toMatchObject({
+      [WorkItemFields.AreaPath]: "TestProject\\Web",
+      [WorkItemFields.IterationPath]: "TestProject\\Sprint 1",
+      [WorkItemFields.Tags]: "checkout",
+      "Microsoft.VSTS.Scheduling.OriginalEstimate": 4,
+    });
+    expect(api?.relations).toContainEqual({
+      rel: LinkTypes.parent,
+      url: workItemUrl(TEST_ORG_URL, 1),
+    });
+
+    const ui = await client.getWorkItem(3);
+    expect(ui?.fields[WorkItemFields.Tags]).toBe("checkout; ui");
+    expect(ui?.relations).toContainEqual({
+      rel: LinkTypes.predecessor,
+      url: workItemUrl(TEST_ORG_URL, 2),
+    });
+
+    expect(chunks.filter((chunk) => chunk.type === "state_changed")).toEqual([
+      { type: "state_changed", stateChange: { from: "plan", to: "execute" } },
+      { type: "state_changed", stateChange: { from: "execute", to: "idle" } },
+    ]);
+    expect(session.plan?.status).toBe("completed");
+    expect(session.plan?.execution?.finishedAt).toBeInstanceOf(Date);
+    expect(session.state).toBe("idle");
+  });
+
+  it("should set the estimate field the subtask's type has", async () => {
+    const scrum = new InMemoryWorkItemClient({
+      organizationUrl: TEST_ORG_URL,
+      items: [{ id: 1, fields: { [WorkItemFields.Title]: "Checkout" } }],
+      workItemTypes: [
+        {
+          name: "Task",
+          states: ["To Do"],
+          fields: [
+            {
+              referenceName: "Microsoft.VSTS.Scheduling.RemainingWork",
+              name: "Remaining Work",
+              type: "double",
+              required: false,
+            },
+          ],
+        },
+      ],
+    });
+
+    await run(new PlanExecutor(scrum), createSession(createPlan("approved")));
+
+    expect((await scrum.getWorkItem(2))?.fields).toMatchObject({
+      "Microsoft.VSTS.Scheduling.RemainingWork": 4,
+    });
+  });
+
+  it("should resume with the remaining subtasks after a failure", async () => {
+    const session = createSession(createPlan("approved"));
+    const saved: Array<number | undefined> = [];
+    const executor = new PlanExecutor(client, {
+      persist: async (updated) => {
+        saved.push(updated.plan?.subtasks.find((subtask) => subtask.id === "t1")?.workItemId);
+      },
+    });
+    const createWorkItem = client.createWorkItem.bind(client);
+    let calls = 0;
+    client.createWorkItem = async (...args) => {
+      calls++;
+      if (calls === 2) {
+        throw new Error("Service unavailable");
+      }
+      return createWorkItem(...args);
+    };
+
+    const failed = await run(executor, session);
+
+    expect(failed.result.error).toBe("Service unavailable");
+    expect(failed.chunks.at(-1)?.progress).toMatchObject({ subtaskId: "t2", status: "failed" });
+    expect(session.plan?.status).toBe("failed");
+    expect(session.state).toBe("execute");
+    expect(saved).toContain(2);
+
+    const resumed = await run(executor, session);
+
+    expect(resumed.result.skipped).toEqual(["t1"]);
+    expect(resumed.result.created).toEqual([{ subtaskId: "t2", workItemId: 3 }]);
+    expect(session.plan?.status).toBe("completed");
+  });
+
+  it("should resume a plan left executing by a restart", async () => {
+    const plan = createPlan("executing");
+    plan.subtasks[1].workItemId = 7;
+    const session = createSession(plan);
+    session.state = "execute";
+
+    const { result } = await run(new PlanExecutor(client), session);
+
+    expect(result.skipped).toEqual(["t1"]);
+    expect(result.created).toEqual([{ subtaskId: "t2", workItemId: 2 }]);
+    expect(session.plan?.status).toBe("completed");
+  });
+
+  it("should stop between subtasks when cancelled", async () => {
+    const session = createSession(createPlan("approved"));
+    const controller = new AbortController();
+    const executor = new PlanExecutor(client, {
+      persist: async () => {
+        if (session.plan?.subtasks.some((subtask) => subtask.workItemId !== undefined)) {
+          controller.abort();
+        }
+      },
+    });
+
+    const { result } = await run(executor, session, { signal: controller.signal });
+
+    expect(result.created).toEqual([{ subtaskId: "t1", workItemId: 2 }]);
+    expect(result.error).toBe("Execution cancelled");
+    expect(session.plan?.status).toBe("failed");
+  });
+
+  it("should refuse to execute a plan that is not approved", async () => {
+    const session = createSession(createPlan("draft"));
+
+    await expect(run(new PlanExecutor(client), session)).rejects.toThrow(
+      "Plan must be approved before execution"
+    );
+  });
+});
@@ -0,0 +1,307 @@
+import type {
+  ExecutionProgress,
+  Plan,
+  PlanSubtask,
+  SessionState,
+  StreamChunk,
+  WorkItem,
+  WorkItemSession,
+  WorkItemTypeMetadata,
+} from "@azure-boards-ai/shared";
+import type { PatchOperation, WorkItemTrackingClient } from "../services/azure-devops.js";
+import { LinkTypes, WorkItemFields, workItemUrl } from "../services/azure-devops.js";
+import { findType } from "../services/field-metadata.js";
+import { WorkItemNotFoundError } from "../sessions/context-loader.js";
+import { transition } from "../agent/flow.js";
+import { fieldPatch } from "../tools/create-work-item.js";
+import { parseTags } from "../tools/read-work-item.js";
+import { PlanStateError, orderSubtasks } from "./plan.js";
+
+// Scrum tasks only track remaining work, other processes an original estimate
+const ESTIMATE_FIELDS = [
+  "Microsoft.VSTS.Scheduling.OriginalEstimate",
+  "Microsoft.VSTS.Scheduling.RemainingWork",
+];
+
+export interface ExecuteOptions {
+  // Return the JSON Patch documents without creating anything
+  dryRun?: boolean;
+  // Checked between subtasks; a cancelled run can be resumed like a failed one
+  signal?: AbortSignal;
+}
+
+export interface PlannedDocument {
+  subtaskId: string;
+  type: string;
+  patch: PatchOperation[];
+}
+
+export interface ExecutionResult {
+  planId: string;
+  dryRun: boolean;
+  created: Array<{ subtaskId: string; workItemId: number }>;
+  skipped: string[];
+  documents: PlannedDocument[];
+  error?: string;
+}
+
+interface InheritedFields {
+  areaPath?: string | number;
+  iterationPath?: string | number;
+  tags: string[];
+}
+
+export interface PlanExecutorOptions {
+  // Called after every change to the plan so a crash mid-batch keeps created IDs
+  persist?: (session: WorkItemSession) => Promise<void>;
+}
+
+/**
+ * Creates the subtasks of an approved plan as children of the session's work
+ * item. Created IDs are recorded on the subtasks, so running the executor
+ * again after a failure resumes with the remaining subtasks.
+ */
+export class PlanExecutor {
+  private client: WorkItemTrackingClient;
+  private persist: (session: WorkItemSession) => Promise<void>;
+
+  constructor(client: WorkItemTrackingClient, options: PlanExecutorOptions = {}) {
+    this.client = client;
+    this.persist = options.persist ?? (async () => undefined);
+  }
+
+  /**
+   * Create the plan's subtasks, or only prepare them with dryRun. Real runs
+   * hold the session's lock, so a plan found executing was interrupted, e.g.
+   * by a restart, and is resumed.
+   */
+  async *execute(
+    session: WorkItemSession,
+    options: ExecuteOptions = {}
+  ): AsyncGenerator<StreamChunk, ExecutionResult> {
+    const dryRun = options.dryRun ?? false;
+    const plan = session.plan;
+    if (!plan) {
+      throw new PlanStateError("Session has no plan");
+    }
+    assertExecutable(plan.status, dryRun);
+
+    const parent = await this.client.getWorkItem(session.workItemId);
+    if (!parent) {
+      throw new WorkItemNotFoundError(session.workItemId);
+    }
+
+    const result: ExecutionResult = {
+      planId: plan.id,
+      dryRun,
+      created: [],
+      skipped: [],
+      documents: [],
+    };
+    const subtasks = orderSubtasks(plan.subtasks);
+    const inherited = inheritFields(parent);
+    const types = await this.client.getWorkItemTypes(session.projectId);
+
+    if (!dryRun) {
+      yield* this.start(session, plan);
+    }
+
+    for (const [index, subtask] of subtasks.entries()) {
+      const progress = { subtaskId: subtask.id, title: subtask.title, total: subtasks.length };
+
+      if (subtask.workItemId !== undefined) {
+        result.skipped.push(subtask.id);
+        yield progressChunk({
+          ...progress,
+          status: "skipped",
+          workItemId: subtask.workItemId,
+          completed: index + 1,
+        });
+        continue;
+      }
+
+      const patch = buildSubtaskPatch(subtask, session, inherited, plan.subtasks, types);
+
+      if (dryRun) {
+        result.documents.push({ subtaskId: subtask.id, type: subtask.type, patch });
+        yield progressChunk({ ...progress, status: "planned", completed: index + 1 });
+        continue;
+      }
+
+      if (options.signal?.aborted) {
+        result.error = "Execution cancelled";
+      } else {
+        yield* this.createSubtask(
+          session,
+          subtask,
+          patch,
+          { ...progress, completed: index },
+          result
+        );
+      }
+      if (result.error) {
+        yield* this.finish(session, plan, "failed", result.error);
+        return result;
+      }
+    }
+
+    if (!dryRun) {
+      yield* this.finish(session, plan, "completed");
+    }
+    return result;
+  }
+
+  // Records the created ID, or the error on the result
+  private async *createSubtask(
+    session: WorkItemSession,
+    subtask: PlanSubtask,
+    patch: PatchOperation[],
+    progress: Omit<ExecutionProgress, "status">,
+    result: ExecutionResult
+  ): AsyncGenerator<StreamChunk> {
+    try {
+      const item = await this.client.createWorkItem(session.projectId, subtask.type, patch);
+      subtask.workItemId = item.id;
+      result.created.push({ subtaskId: subtask.id, workItemId: item.id });
+      await this.persist(session);
+      yield progressChunk({
+        ...progress,
+        status: "created",
+        workItemId: item.id,
+        completed: progress.completed + 1,
+      });
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : "Failed to create work item";
+      yield progressChunk({ ...progress, status: "failed", error: result.error });
+    }
+  }
+
+  private async *start(session: WorkItemSession, plan: Plan): AsyncGenerator<StreamChunk> {
+    // Execution is only reachable through plan, so step through it if needed
+    if (session.state !== "plan" && session.state !== "execute") {
+      yield* moveTo(session, "plan");
+    }
+    yield* moveTo(session, "execute");
+
+    plan.status = "executing";
+    plan.execution = { startedAt: new Date() };
+    plan.updatedAt = new Date();
+    await this.persist(session);
+  }
+
+  private async *finish(
+    session: WorkItemSession,
+    plan: Plan,
+    status: "completed" | "failed",
+    error?: string
+  ): AsyncGenerator<StreamChunk> {
+    plan.status = status;
+    plan.execution = {
+      startedAt: plan.execution?.startedAt ?? new Date(),
+      finishedAt: new Date(),
+      error,
+    };
+    plan.updatedAt = new Date();
+
+    if (status === "completed") {
+      yield* moveTo(session, "idle");
+    }
+    await this.persist(session);
+  }
+}
+
+function assertExecutable(status: string, dryRun: boolean): void {
+  // Failed plans, and plans whose run was interrupted by a restart, can be re-run
+  // to resume; drafts can only be previewed
+  const allowed = dryRun ? ["draft", "approved", "failed"] : ["approved", "executing", "failed"];
+  if (!allowed.includes(status)) {
+    throw new PlanStateError(
+      dryRun
+        ? `Cannot preview a ${status} plan`
+        : `Plan must be approved before execution; plan is ${status}`
+    );
+  }
+}
+
+function* moveTo(session: WorkItemSession, state: SessionState): Generator<StreamChunk> {
+  const change = transition(session, state);
+  if (change) {
+    yield { type: "state_changed", stateChange: change };
+  }
+}
+
+function progressChunk(progress: ExecutionProgress): StreamChunk {
+  return { type: "execution_progress", progress };
+}
+
+function inheritFields(parent: WorkItem): InheritedFields {
+  return {
+    areaPath: parent.fields[WorkItemFields.AreaPath],
+    iterationPath: parent.fields[WorkItemFields.IterationPath],
+    tags: parseTags(parent.fields[WorkItemFields.Tags]?.toString()),
+  };
+}
+
+// The first estimate field the subtask's type has; without metadata the original estimate
+function estimateField(types: WorkItemTypeMetadata[], type: string): string | undefined {
+  const metadata = findType(types, type);
+  if (!metadata) {
+    return ESTIMATE_FIELDS[0];
+  }
+  return ESTIMATE_FIELDS.find((name) =>
+    metadata.fields.some((field) => field.referenceName === name)
+  );
+}
+
+/**
+ * JSON Patch document for one subtask: fields inherited from the parent, a
+ * parent link, and predecessor links for its dependencies. Dependencies not
+ * created yet (dry-run only) are referenced by a placeholder URL.
+ */
+export function buildSubtaskPatch(
+  subtask: PlanSubtask,
+  session: WorkItemSession,
+  inherited: InheritedFields,
+  allSubtasks: PlanSubtask[],
+  types: WorkItemTypeMetadata[] = []
+): PatchOperation[] {
+  const patch = [fieldPatch(WorkItemFields.Title, subtask.title)];
+
+  if (subtask.description) {
+    patch.push(fieldPatch(WorkItemFields.Description, subtask.description));
+  }
+  if (inherited.areaPath !== undefined) {
+    patch.push(fieldPatch(WorkItemFields.AreaPath, inherited.areaPath));
+  }
+  if (inherited.iterationPath !== undefined) {
+    patch.push(fieldPatch(WorkItemFields.IterationPath, inherited.iterationPath));
+  }
+
+  const tags = [...new Set([...inherited.tags, ...subtask.tags])];
+  if (tags.length > 0) {
+    patch.push(fieldPatch(WorkItemFields.Tags, tags.join("; ")));
+  }
+  const estimate = estimateField(types, subtask.type);
+  if (subtask.estimate !== undefined && estimate) {
+    patch.push(fieldPatch(estimate, subtask.estimate));
+  }
+
+  patch.push(
+    relationPatch(LinkTypes.parent, workItemUrl(session.organizationUrl, session.workItemId))
+  );
+
+  for (const dependencyId of subtask.dependsOn) {
+    const dependency = allSubtasks.find((candidate) => candidate.id === dependencyId);
+    const url =
+      dependency?.workItemId === undefined
+        ? `{${dependencyId}}`
+        : workItemUrl(session.organizationUrl, dependency.workItemId);
+    patch.push(relationPatch(LinkTypes.predecessor, url));
+  }
+
+  return patch;
+}
+
+function relationPatch(rel: string, url: string): PatchOperation {
+  return { op: "add", path: "/relations/-", value: { rel, url } };
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import type { PlanSubtask } from "@azure-boards-ai/shared";
+import {
+  PlanStateError,
+  PlanValidationError,
+  approvePlan,
+  orderSubtasks,
+  parsePlanUpdate,
+  upsertPlan,
+  validateSubtasks,
+} from "./plan.js";
+
+function subtask(id: string, dependsOn: string[] = []): PlanSubtask {
+  return { id, title: `Subtask ${id}`, type: "Task", tags: [], dependsOn };
+}
+
+describe("plan", () => {
+  describe("parsePlanUpdate", () => {
+    it("should apply defaults to subtasks", () => {
+      const update = parsePlanUpdate({ subtasks: [{ id: "t1", title: "Build API" }] });
+
+      expect(update.subtasks[0]).toEqual({
+        id: "t1",
+        title: "Build API",
+        type: "Task",
+        tags: [],
+        dependsOn: [],
+      });
+    });
+
+    it("should reject malformed input", () => {
+      expect(() => parsePlanUpdate({ subtasks: [] })).toThrow(PlanValidationError);
+      expect(() => parsePlanUpdate({ subtasks: [{ id: "t1" }] })).toThrow(PlanValidationError);
+    });
+  });
+
+  describe("validateSubtasks", () => {
+    it("should reject duplicate ids and unknown dependencies", () => {
+      expect(() => validateSubtasks([subtask("t1"), subtask("t1")])).toThrow(
+        "Duplicate subtask id: t1"
+      );
+      expect(() => validateSubtasks([subtask("t1", ["t9"])])).toThrow(
+        "Subtask t1 depends on unknown subtask t9"
+      );
+    });
+
+    it("should reject dependency cycles", () => {
+      expect(() => validateSubtasks([subtask("t1", ["t2"]), subtask("t2", ["t1"])])).toThrow(
+        "Dependency cycle between subtasks: t1, t2"
+      );
+    });
+  });
+
+  it("should order subtasks so dependencies come first", () => {
+    const ordered = orderSubtasks([subtask("t1", ["t3"]), subtask("t2"), subtask("t3")]);
+
+    expect(ordered.map((item) => item.id)).toEqual(["t2", "t3", "t1"]);
+  });
+
+  describe("upsertPlan", () => {
+    it("should create a draft plan", () => {
+      const plan = upsertPlan(undefined, { subtasks: [subtask("t1")] });
+
+      expect(plan.status).toBe("draft");
+      expect(plan.id).toBeDefined();
+    });
+
+    it("should send an edited approved plan back to draft", () => {
+      const approved = approvePlan(
+        upsertPlan(undefined, { summary: "v1", subtasks: [subtask("t1")] })
+      );
+
+      const edited = upsertPlan(approved, { subtasks: [subtask("t1"), subtask("t2")] });
+
+      expect(edited.id).toBe(approved.id);
+      expect(edited.status).toBe("draft");
+      expect(edited.summary).toBe("v1");
+      expect(edited.approvedAt).toBeUndefined();
+    });
+
+    it("should not edit a plan that is executing", () => {
+      const plan = {
+        ...upsertPlan(undefined, { subtasks: [subtask("t1")] }),
+        status: "executing" as const,
+      };
+
+      expect(() => upsertPlan(plan, { subtasks: [subtask("t2")] })).toThrow(PlanStateError);
+    });
+
+    it("should replace a completed plan with a new draft", () => {
+      const completed = {
+        ...upsertPlan(undefined, { summary: "v1", subtasks: [subtask("t1")] }),
+        status: "completed" as const,
+      };
+
+      const next = upsertPlan(completed, { subtasks: [subtask("t2")] });
+
+      expect(next.id).not.toBe(completed.id);
+      expect(next.status).toBe("draft");
+      expect(next.summary).toBeUndefined();
+      expect(next.execution).toBeUndefined();
+    });
+  });
+
+  describe("approvePlan", () => {
+    it("should approve a draft plan once", () => {
+      const approved = approvePlan(upsertPlan(undefined, { subtasks: [subtask("t1")] }));
+
+      expect(approved.status).toBe("approved");
+      expect(approved.approvedAt).toBeInstanceOf(Date);
+      expect(() => approvePlan(approved)).toThrow(PlanStateError);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { nanoid } from "nanoid";
+import { z } from "zod";
+import type { Plan, PlanSubtask, PlanUpdateRequest } from "@azure-boards-ai/shared";
+
+export const planSubtaskSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  description: z.string().optional(),
+  type: z.string().min(1).default("Task"),
+  tags: z.array(z.string()).default([]),
+  estimate: z.number().nonnegative().optional(),
+  dependsOn: z.array(z.string()).default([]),
+});
+
+export const planUpdateSchema = z.object({
+  summary: z.string().optional(),
+  subtasks: z.array(planSubtaskSchema).min(1),
+});
+
+export class PlanValidationError extends Error {
+  readonly statusCode = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "PlanValidationError";
+  }
+}
+
+export class PlanStateError extends Error {
+  readonly statusCode = 409;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "PlanStateError";
+  }
+}
+
+// Plans can only be edited before execution starts
+const EDITABLE_STATUSES: ReadonlySet<Plan["status"]> = new Set(["draft", "approved"]);
+
+export function parsePlanUpdate(input: unknown): PlanUpdateRequest {
+  const parsed = planUpdateSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new PlanValidationError(parsed.error.message);
+  }
+  validateSubtasks(parsed.data.subtasks);
+  return parsed.data;
+}
+
+/**
+ * Check subtask keys are unique, dependencies exist and there are no
+ * dependency cycles, so the plan can be created in order.
+ */
+export function validateSubtasks(subtasks: PlanSubtask[]): void {
+  const ids = new Set<string>();
+  for (const subtask of subtasks) {
+    if (ids.has(subtask.id)) {
+      throw new PlanValidationError(`Duplicate subtask id: ${subtask.id}`);
+    }
+    ids.add(subtask.id);
+  }
+
+  for (const subtask of subtasks) {
+    const missing = subtask.dependsOn.find((id) => !ids.has(id));
+    if (missing) {
+      throw new PlanValidationError(`Subtask ${subtask.id} depends on unknown subtask ${missing}`);
+    }
+  }
+
+  orderSubtasks(subtasks);
+}
+
+/**
+ * Topologically sort subtasks so dependencies come first, keeping the
+ * original order otherwise. Throws on cycles.
+ */
+export function orderSubtasks(subtasks: PlanSubtask[]): PlanSubtask[] {
+  const ordered: PlanSubtask[] = [];
+  const done = new Set<string>();
+  let remaining = subtasks;
+
+  while (remaining.length > 0) {
+    const ready = remaining.filter((subtask) => subtask.dependsOn.every((id) => done.has(id)));
+    if (ready.length === 0) {
+      throw new PlanValidationError(
+        `Dependency cycle between subtasks: ${remaining.map((subtask) => subtask.id).join(", ")}`
+      );
+    }
+
+    for (const subtask of ready) {
+      ordered.push(subtask);
+      done.add(subtask.id);
+    }
+    remaining = remaining.filter((subtask) => !done.has(subtask.id));
+  }
+
+  return ordered;
+}
+
+/**
+ * Create a new draft plan, or replace the subtasks of an editable one.
+ * Editing an approved plan sends it back to draft for re-approval, and a
+ * completed plan is replaced by a fresh draft.
+ */
+export function upsertPlan(existing: Plan | undefined, update: PlanUpdateRequest): Plan {
+  if (existing?.status === "completed") {
+    return upsertPlan(undefined, update);
+  }
+  if (existing && !EDITABLE_STATUSES.has(existing.status)) {
+    throw new PlanStateError(`Plan is ${existing.status} and can no longer be edited`);
+  }
+
+  const now = new Date();
+  return {
+    id: existing?.id ?? nanoid(),
+    status: "draft",
+    summary: update.summary ?? existing?.summary,
+    subtasks: update.subtasks,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+}
+
+export function approvePlan(plan: Plan): Plan {
+  if (plan.status !== "draft") {
+    throw new PlanStateError(`Only draft plans can be approved; plan is ${plan.status}`);
+  }
+
+  const now = new Date();
+  return { ...plan, status: "approved", approvedAt: now, updatedAt: now };
+}
@@ -0,0 +1,494 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { FastifyInstance } from "fastify";
+import type { StreamChunk } from "@azure-boards-ai/shared";
+import { buildApp } from "../app.js";
+import { InMemoryWorkItemClient } from "../services/in-memory-devops.js";
+import { AuthenticationError } from "../auth/authenticator.js";
+
+const TEST_ORG_URL = "https://dev.azure.com/test";
+const CHAT_WS_URL = "/api/chat/ws";
+
+async function createSession(app: FastifyInstance): Promise<string> {
+  const response = await app.inject({
+    method: "POST",
+    url: "/api/sessions",
+    payload: { workItemId: 123, projectId: "TestProject", organizationUrl: TEST_ORG_URL },
+  });
+  return response.json().id;
+}
+
+describe("chatRoutes", () => {
+  let app: FastifyInstance;
+  let sessionId: string;
+
+  beforeEach(async () => {
+    const claude = {
+      chat: vi.fn().mockImplementation(async function* () {
+        yield { type: "text", text: "Hello" };
+        yield { type: "done", stopReason: "end_turn" };
+      }),
+    };
+    app = await buildApp({
+      logger: false,
+      auth: false,
+      llm: claude as never,
+      devOps: () => undefined,
+    });
+    await app.ready();
+
+    sessionId = await createSession(app);
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it("should chat in a session created through the sessions API", async () => {
+    const response = await app.inject({
+      method: "POST",
+      url: "/api/chat",
+      payload: { sessionId, message: "Hi" },
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = JSON.parse(response.body);
+    expect(body.chunks.map((chunk: StreamChunk) => chunk.type)).toEqual(["text", "done"]);
+
+    const session = await app.sessions.get(sessionId);
+    expect(session?.transcript.map((message) => message.content)).toEqual(["Hi", "Hello"]);
+  });
+
+  it("should classify model errors in the error chunk", async () => {
+    const failingApp = await buildApp({
+      logger: false,
+      auth: false,
+      llm: {
+        chat: vi.fn(() => {
+          throw Object.assign(new Error("Rate limit exceeded"), { status: 429 });
+        }),
+      } as never,
+      devOps: () => undefined,
+    });
+    const failingSessionId = await createSession(failingApp);
+
+    const response = await failingApp.inject({
+      method: "POST",
+      url: "/api/chat",
+      payload: { sessionId: failingSessionId, message: "Hi" },
+    });
+    await failingApp.close();
+
+    expect(response.json().chunks).toEqual([
+      { type: "error", error: "Rate limit exceeded", errorCode: "rate_limited", seq: 1 },
+    ]);
+  });
+
+  it("should load and save the session while holding it", async () => {
+    const get = app.sessions.get.bind(app.sessions);
+    const save = app.sessions.save.bind(app.sessions);
+    const busyWhileLoading: boolean[] = [];
+    const busyWhileSaving: boolean[] = [];
+    vi.spyOn(app.sessions, "get").mockImplementation(async (id) => {
+      busyWhileLoading.push(app.streams.get(sessionId).busy);
+      return get(id);
+    });
+    vi.spyOn(app.sessions, "save").mockImplementation(async (session) => {
+      busyWhileSaving.push(app.streams.get(sessionId).busy);
+      await save(session);
+    });
+
+    const response = await app.inject({
+      method: "POST",
+      url: "/api/chat",
+      payload: { sessionId, message: "Hi" },
+    });
+
+    expect(response.statusCode).toBe(200);
+    // Checked for access first, then loaded again for the run
+    expect(busyWhileLoading).toEqual([false, true]);
+    expect(busyWhileSaving).toEqual([true]);
+    expect(app.streams.get(sessionId).busy).toBe(false);
+  });
+
+  it("should return 404 for an unknown session", async () => {
+    const response = await app.inject({
+      method: "POST",
+      url: "/api/chat",
+      payload: { sessionId: "unknown", message: "Hi" },
+    });
+
+    expect(response.statusCode).toBe(404);
+  });
+
+  it("should stream chunks over the WebSocket", async () => {
+    const ws = await app.injectWS(CHAT_WS_URL);
+    const chunks: StreamChunk[] = [];
+    const done = new Promise<void>((resolve) => {
+      ws.on("message", (data: Buffer) => {
+        const chunk = JSON.parse(data.toString()) as StreamChunk;
+        chunks.push(chunk);
+        if (chunk.type === "done" || chunk.type === "error") {
+          resolve();
+        }
+      });
+    });
+
+    ws.send(JSON.stringify({ sessionId, message: "Hi" }));
+    await done;
+    ws.terminate();
+
+    expect(chunks.map((chunk) => chunk.type)).toEqual(["text", "done"]);
+  });
+
+  it("should not offer or run mutating tools over REST, which cannot ask for approval", async () => {
+    const client = new InMemoryWorkItemClient({
+      organizationUrl: TEST_ORG_URL,
+      items: [{ id: 123, fields: { "System.Title": "Checkout" } }],
+    });
+    const claude = {
+      chat: vi
+        .fn()
+        .mockImplementationOnce(async function* () {
+          yield {
+            type: "tool_use",
+            toolUse: {
+              id: "tool_1",
+              name: "create_work_item",
+              input: { type: "Task", title: "API" },
+            },
+          };
+          yield { type: "done", stopReason: "tool_use" };
+        })
+        .mockImplementationOnce(async function* () {
+          yield { type: "done", stopReason: "end_turn" };
+        }),
+    };
+    const devOpsApp = await buildApp({
+      logger: false,
+      auth: false,
+      llm: claude as never,
+      devOps: () => client,
+    });
+    const devOpsSessionId = await createSession(devOpsApp);
+
+    const response = await devOpsApp.inject({
+      method: "POST",
+      url: "/api/chat",
+      payload: { sessionId: devOpsSessionId, message: "Create the API task" },
+    });
+    await devOpsApp.close();
+
+    const tools = claude.chat.mock.calls[0][0].tools.map(({ name }: { name: string }) => name);
+    expect(tools).toContain("read_work_item");
+    expect(tools).not.toContain("create_work_item");
+    const result = response
+      .json()
+      .chunks.find((chunk: StreamChunk) => chunk.type === "tool_result");
+    expect(result.toolResult).toMatchObject({
+      isError: true,
+      content: "Unknown tool: create_work_item",
+    });
+    expect(await client.getWorkItem(124)).toBeUndefined();
+  });
+
+  it("should wait for approval before running mutating tools", async () => {
+    const client = new InMemoryWorkItemClient({
+      organizationUrl: TEST_ORG_URL,
+      items: [{ id: 123, fields: { "System.Title": "Checkout" } }],
+    });
+    const claude = {
+      chat: vi
+        .fn()
+        .mockImplementationOnce(async function* () {
+          yield {
+            type: "tool_use",
+            toolUse: {
+              id: "tool_1",
+              name: "create_work_item",
+              input: { type: "Task", title: "Build API", parentId: 123 },
+            },
+          };
+          yield { type: "done", stopReason: "tool_use" };
+        })
+        .mockImplementationOnce(async function* () {
+          yield { type: "text", text: "Created" };
+          yield { type: "done", stopReason: "end_turn" };
+        }),
+    };
+    const devOpsApp = await buildApp({
+      logger: false,
+      auth: false,
+      llm: claude as never,
+      devOps: () => client,
+    });
+    await devOpsApp.ready();
+    const devOpsSessionId = await createSession(devOpsApp);
+
+    const ws = await devOpsApp.injectWS(CHAT_WS_URL);
+    const chunks: StreamChunk[] = [];
+    const done = new Promise<void>((resolve) => {
+      ws.on("message", (data: Buffer) => {
+        const chunk = JSON.parse(data.toString()) as StreamChunk;
+        chunks.push(chunk);
+        if (chunk.type === "confirmation_required") {
+          ws.send(
+            JSON.stringify({
+              type: "approve",
+              sessionId: devOpsSessionId,
+              toolCallId: chunk.confirmation?.toolCallId,
+            })
+          );
+        }
+        if (chunk.type === "done" || chunk.type === "error") {
+          resolve();
+        }
+      });
+    });
+
+    ws.send(JSON.stringify({ sessionId: devOpsSessionId, message: "Create the API task" }));
+    await done;
+    ws.terminate();
+    await devOpsApp.close();
+
+    expect(chunks.map((chunk) => chunk.type)).toEqual([
+      "tool_call",
+      "confirmation_required",
+      "tool_result",
+      "text",
+      "done",
+    ]);
+    expect(chunks[1].confirmation).toMatchObject({
+      summary: 'Create Task "Build API" under #123',
+      changes: [{ field: "System.Title", to: "Build API" }],
+    });
+    expect(await client.getWorkItem(124)).toBeDefined();
+  });
+
+  it("should cancel a run in progress", async () => {
+    const claude = {
+      chat: vi.fn().mockImplementation(async function* ({ signal }: { signal: AbortSignal }) {
+        yield { type: "text", text: "Thinking" };
+        await new Promise((resolve) => signal.addEventListener("abort", resolve));
+        throw new Error("Request was aborted.");
+      }),
+    };
+    const slowApp = await buildApp({
+      logger: false,
+      auth: false,
+      llm: claude as never,
+      devOps: () => undefined,
+    });
+    await slowApp.ready();
+    const slowSessionId = await createSession(slowApp);
+
+    const ws = await slowApp.injectWS(CHAT_WS_URL);
+    const chunks: StreamChunk[] = [];
+    const cancelled = new Promise<void>((resolve) => {
+      ws.on("message", (data: Buffer) => {
+        const chunk = JSON.parse(data.toString()) as StreamChunk;
+        chunks.push(chunk);
+        if (chunk.type === "text") {
+          ws.send(JSON.stringify({ type: "cancel", sessionId: slowSessionId }));
+        }
+        if (chunk.type === "cancelled" || chunk.type === "error") {
+          resolve();
+        }
+      });
+    });
+
+    ws.send(JSON.stringify({ sessionId: slowSessionId, message: "Hi" }));
+    await cancelled;
+    ws.terminate();
+
+    expect(chunks.map((chunk) => chunk.type)).toEqual(["text", "cancelled"]);
+    const session = await slowApp.sessions.get(slowSessionId);
+    expect(session?.transcript.at(-1)).toMatchObject({ content: "Thinking", interrupted: true });
+    await slowApp.close();
+  });
+
+  it("should replay missed chunks to a client that resumes", async () => {
+    let release: () => void = () => undefined;
+    const released = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const claude = {
+      chat: vi.fn().mockImplementation(async function* () {
+        yield { type: "text", text: "Hello" };
+        await released;
+        yield { type: "text", text: " again" };
+        yield { type: "done", stopReason: "end_turn" };
+      }),
+    };
+    const resumableApp = await buildApp({
+      logger: false,
+      auth: false,
+      llm: claude as never,
+      devOps: () => undefined,
+    });
+    await resumableApp.ready();
+    const resumableSessionId = await createSession(resumableApp);
+
+    const first = await resumableApp.injectWS(CHAT_WS_URL);
+    const firstChunk = new Promise<StreamChunk>((resolve) => {
+      first.on("message", (data: Buffer) => resolve(JSON.parse(data.toString())));
+    });
+    first.send(JSON.stringify({ sessionId: resumableSessionId, message: "Hi" }));
+    expect(await firstChunk).toMatchObject({ type: "text", seq: 1 });
+    first.terminate();
+
+    // The run continues while nobody is connected
+    release();
+    await vi.waitFor(async () => {
+      const session = await resumableApp.sessions.get(resumableSessionId);
+      expect(session?.transcript).toHaveLength(2);
+    });
+
+    const second = await resumableApp.injectWS(CHAT_WS_URL);
+    const replayed: StreamChunk[] = [];
+    const done = new Promise<void>((resolve) => {
+      second.on("message", (data: Buffer) => {
+        const chunk = JSON.parse(data.toString()) as StreamChunk;
+        replayed.push(chunk);
+        if (chunk.type === "done") {
+          resolve();
+        }
+      });
+    });
+    second.send(JSON.stringify({ type: "resume", sessionId: resumableSessionId, lastSeq: 1 }));
+    await done;
+    second.terminate();
+    await resumableApp.close();
+
+    expect(replayed).toEqual([
+      { type: "text", content: " again", seq: 2 },
+      { type: "done", seq: 3 },
+    ]);
+  });
+
+  it("should run one agent per session and broadcast it to subscribers", async () => {
+    let release: () => void = () => undefined;
+    const released = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const claude = {
+      chat: vi.fn().mockImplementation(async function* () {
+        yield { type: "text", text: "Working" };
+        await released;
+        yield { type: "done", stopReason: "end_turn" };
+      }),
+    };
+    const busyApp = await buildApp({
+      logger: false,
+      auth: false,
+      llm: claude as never,
+      devOps: () => undefined,
+    });
+    await busyApp.ready();
+    const busySessionId = await createSession(busyApp);
+
+    const watcher = await busyApp.injectWS(CHAT_WS_URL);
+    const watched: StreamChunk[] = [];
+    const watcherDone = new Promise<void>((resolve) => {
+      watcher.on("message", (data: Buffer) => {
+        const chunk = JSON.parse(data.toString()) as StreamChunk;
+        watched.push(chunk);
+        if (chunk.type === "done") {
+          resolve();
+        }
+      });
+    });
+    watcher.send(JSON.stringify({ type: "subscribe", sessionId: busySessionId }));
+
+    const runner = await busyApp.injectWS(CHAT_WS_URL);
+    const started = new Promise<void>((resolve) => {
+      runner.on("message", (data: Buffer) => {
+        if (JSON.parse(data.toString()).type === "text") {
+          resolve();
+        }
+      });
+    });
+    runner.send(JSON.stringify({ sessionId: busySessionId, message: "First" }));
+    await started;
+
+    const second = await busyApp.inject({
+      method: "POST",
+      url: "/api/chat",
+      payload: { sessionId: busySessionId, message: "Second" },
+    });
+    expect(second.statusCode).toBe(409);
+    expect(second.json().error).toContain("busy");
+
+    // The run saves the session when it ends, so other changes must wait for it
+    const sessionUrl = `/api/sessions/${busySessionId}`;
+    const patch = await busyApp.inject({
+      method: "PATCH",
+      url: sessionUrl,
+      payload: { state: "plan" },
+    });
+    expect(patch.statusCode).toBe(409);
+    const plan = await busyApp.inject({
+      method: "PUT",
+      url: `${sessionUrl}/plan`,
+      payload: { subtasks: [{ id: "t1", title: "Build API", type: "Task" }] },
+    });
+    expect(plan.statusCode).toBe(409);
+
+    release();
+    await watcherDone;
+    watcher.terminate();
+    runner.terminate();
+
+    expect(watched.map((chunk) => chunk.type)).toEqual(["text", "done"]);
+    const session = await busyApp.sessions.get(busySessionId);
+    expect(session?.transcript.map((message) => message.content)).toEqual(["First", "Working"]);
+    const idle = await busyApp.inject({
+      method: "PATCH",
+      url: sessionUrl,
+      payload: { state: "plan" },
+    });
+    expect(idle.statusCode).toBe(200);
+    await busyApp.close();
+  });
+
+  it("should report failed authentication on the socket", async () => {
+    const securedApp = await buildApp({
+      logger: false,
+      llm: {} as never,
+      devOps: () => undefined,
+      auth: {
+        authenticate: async () => {
+          throw new AuthenticationError("Azure DevOps rejected the token");
+        },
+      },
+    });
+    await securedApp.ready();
+
+    // The server answers right away, so listen before the upgrade completes
+    let closed!: Promise<{ chunk: StreamChunk; code: number }>;
+    await securedApp.injectWS(
+      `${CHAT_WS_URL}?access_token=expired`,
+      {},
+      {
+        onInit(ws) {
+          closed = new Promise((resolve) => {
+            let chunk: StreamChunk;
+            ws.on("message", (data: Buffer) => {
+              chunk = JSON.parse(data.toString());
+            });
+            ws.on("close", (code: number) => resolve({ chunk, code }));
+          });
+        },
+      }
+    );
+
+    const { chunk, code } = await closed;
+    await securedApp.close();
+
+    expect(chunk).toEqual({
+      type: "error",
+      error: "Azure DevOps rejected the token",
+      errorCode: "auth",
+    });
+    expect(code).toBe(1008);
+  });
+});
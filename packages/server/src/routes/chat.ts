@@ -1,66 +1,205 @@
 import type { FastifyInstance } from "fastify";
 import type { WebSocket } from "@fastify/websocket";
 import { Agent } from "../agent/agent.js";
-import { SessionManager } from "../sessions/session-manager.js";
-import type { ChatRequest, StreamChunk } from "@azure-boards-ai/shared";
+import type { ConfirmationGate } from "../agent/confirmation.js";
+import { assertSessionAccess } from "../auth/access.js";
+import type { AuthUser } from "../auth/authenticator.js";
+import { toErrorChunk } from "../services/errors.js";
+import { cacheHitRate } from "../usage/usage.js";
+import { createToolRegistry } from "../tools/index.js";
+import { journaled } from "../operations/journal.js";
+import { SessionNotFoundError } from "../sessions/session-manager.js";
+import type {
+  ChatMessageRequest,
+  ChatRequest,
+  ConfirmationResponse,
+  ResumeRequest,
+  StreamChunk,
+  SubscribeRequest,
+  WorkItemSession,
+} from "@azure-boards-ai/shared";
 
-const sessionManager = new SessionManager();
+const SESSION_NOT_FOUND = "Session not found";
+
+// WebSocket close code for a connection that failed authentication
+const POLICY_VIOLATION = 1008;
 
 export async function chatRoutes(app: FastifyInstance) {
+  const sessionManager = app.sessions;
+
+  // Tools act with the permissions of the user who sent the message; their changes are journaled.
+  // Without a gate to ask for approval, mutating tools are not offered at all.
+  function createAgent(
+    session: WorkItemSession,
+    user: AuthUser | undefined,
+    confirmations?: ConfirmationGate
+  ): Agent {
+    const client = journaled(app.devOps(session.organizationUrl, user), session);
+    const tools = createToolRegistry(client, {
+      persist: (updated) => sessionManager.save(updated),
+      similarity: app.similarity,
+      estimation: app.estimation,
+    });
+    return new Agent(session, app.llm, confirmations ? tools : tools.readOnly(), {
+      confirmations,
+    });
+  }
+
+  // Chunk streams of the sessions' runs, shared by the sockets following them
+  const streams = app.streams;
+
+  /**
+   * Run the agent on a session, publishing its chunks to everyone following
+   * the session. The session is loaded under its lock, so the run continues
+   * the latest transcript. Throws SessionBusyError while the session is held.
+   */
+  function runAgent(
+    sessionId: string,
+    message: string,
+    options: { user?: AuthUser; confirm?: boolean } = {}
+  ): Promise<void> {
+    return streams.withRunLock(sessionId, async (stream) => {
+      const session = await sessionManager.get(sessionId);
+      if (!session) {
+        throw new SessionNotFoundError(sessionId);
+      }
+      const agent = createAgent(
+        session,
+        options.user,
+        options.confirm ? stream.confirmations : undefined
+      );
+      const signal = stream.startRun();
+
+      // Persist the transcript even if the run fails
+      try {
+        for await (const chunk of agent.chat(message, { signal })) {
+          if (chunk.usage) {
+            app.log.info(
+              { sessionId, ...chunk.usage, cacheHitRate: cacheHitRate(chunk.usage) },
+              "Agent run usage"
+            );
+          }
+          stream.publish(chunk);
+        }
+      } catch (error) {
+        stream.publish(toErrorChunk(error));
+      } finally {
+        stream.endRun();
+        await sessionManager.save(session);
+      }
+    });
+  }
+
   // WebSocket endpoint for streaming chat
-  app.get("/ws", { websocket: true }, (socket: WebSocket) => {
-    console.log("Client connected");
+  app.get("/ws", { websocket: true }, (socket: WebSocket, request) => {
+    // Failed authentication is reported on the socket, since browsers cannot
+    // read the status of a rejected upgrade
+    if (request.authError) {
+      sendChunk(socket, toErrorChunk(request.authError));
+      socket.close(POLICY_VIOLATION, "Unauthorized");
+      return;
+    }
+    const user = request.user;
+    request.log.debug("Client connected");
+
+    // Sessions this socket follows, with the function that stops following each
+    const subscriptions = new Map<string, () => void>();
+
+    function follow(sessionId: string, afterSeq?: number): void {
+      subscriptions.get(sessionId)?.();
+      const unsubscribe = streams
+        .get(sessionId)
+        .subscribe((chunk) => socket.send(JSON.stringify(chunk)), afterSeq);
+      subscriptions.set(sessionId, unsubscribe);
+    }
+
+    async function runChat(sessionId: string, message: string): Promise<void> {
+      if (!subscriptions.has(sessionId)) {
+        follow(sessionId);
+      }
+      await runAgent(sessionId, message, { user, confirm: true });
+    }
+
+    // Follow a session, replaying what was missed after lastSeq when resuming,
+    // or the run in progress when subscribing
+    function subscribe(request: ResumeRequest | SubscribeRequest): void {
+      const afterSeq =
+        request.type === "resume" ? request.lastSeq : streams.get(request.sessionId).runStartSeq;
+      follow(request.sessionId, afterSeq);
+    }
 
     socket.on("message", async (data: Buffer) => {
       try {
         const request: ChatRequest = JSON.parse(data.toString());
-        const session = await sessionManager.get(request.sessionId);
 
+        // Every request acts on a session, which must be the caller's
+        const session = await sessionManager.get(request.sessionId);
         if (!session) {
-          const errorChunk: StreamChunk = {
-            type: "error",
-            error: "Session not found",
-          };
-          socket.send(JSON.stringify(errorChunk));
+          sendChunk(socket, { type: "error", error: SESSION_NOT_FOUND, errorCode: "not_found" });
           return;
         }
+        assertSessionAccess(session, user);
 
-        const agent = new Agent(session);
-
-        // Stream response
-        for await (const chunk of agent.chat(request.message)) {
-          socket.send(JSON.stringify(chunk));
+        if (isConfirmationResponse(request)) {
+          const confirmations = streams.find(request.sessionId)?.confirmations;
+          if (!confirmations?.resolve(request.toolCallId, request.type === "approve")) {
+            sendError(socket, `No pending confirmation for tool call ${request.toolCallId}`);
+          }
+        } else if (request.type === "cancel") {
+          if (!streams.find(request.sessionId)?.cancel()) {
+            sendError(socket, `No run in progress for session ${request.sessionId}`);
+          }
+        } else if (request.type === "resume" || request.type === "subscribe") {
+          subscribe(request);
+        } else {
+          await runChat(session.id, request.message);
         }
       } catch (error) {
-        const errorChunk: StreamChunk = {
-          type: "error",
-          error: error instanceof Error ? error.message : "Unknown error",
-        };
-        socket.send(JSON.stringify(errorChunk));
+        sendChunk(socket, toErrorChunk(error));
       }
     });
 
     socket.on("close", () => {
-      console.log("Client disconnected");
+      request.log.debug("Client disconnected");
+      // Runs keep going for a while so the client can reconnect and resume
+      for (const unsubscribe of subscriptions.values()) {
+        unsubscribe();
+      }
     });
   });
 
-  // REST endpoint for non-streaming chat (fallback)
-  app.post<{ Body: ChatRequest }>("/", async (request, reply) => {
+  // REST endpoint for non-streaming chat (fallback). It cannot ask for
+  // confirmation, so only read-only tools are offered here.
+  app.post<{ Body: ChatMessageRequest }>("/", async (request, reply) => {
     const { sessionId, message } = request.body;
     const session = await sessionManager.get(sessionId);
 
     if (!session) {
-      return reply.status(404).send({ error: "Session not found" });
+      return reply.status(404).send({ error: SESSION_NOT_FOUND });
     }
+    assertSessionAccess(session, request.user);
 
-    const agent = new Agent(session);
     const chunks: StreamChunk[] = [];
+    const unsubscribe = streams.get(session.id).subscribe((chunk) => chunks.push(chunk));
 
-    for await (const chunk of agent.chat(message)) {
-      chunks.push(chunk);
+    try {
+      await runAgent(session.id, message, { user: request.user });
+    } finally {
+      unsubscribe();
     }
 
     return { sessionId, chunks };
   });
 }
+
+function isConfirmationResponse(request: ChatRequest): request is ConfirmationResponse {
+  return request.type === "approve" || request.type === "reject";
+}
+
+function sendError(socket: WebSocket, error: string): void {
+  sendChunk(socket, { type: "error", error });
+}
+
+function sendChunk(socket: WebSocket, chunk: StreamChunk): void {
+  socket.send(JSON.stringify(chunk));
+}
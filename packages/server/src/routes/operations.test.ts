@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import type { FastifyInstance } from "fastify";
+import { buildApp } from "../app.js";
+import { InMemoryWorkItemClient } from "../services/in-memory-devops.js";
+
+const TEST_ORG_URL = "https://dev.azure.com/test";
+
+describe("operationRoutes", () => {
+  let app: FastifyInstance;
+  let client: InMemoryWorkItemClient;
+  let sessionUrl: string;
+
+  beforeEach(async () => {
+    client = new InMemoryWorkItemClient({
+      items: [{ id: 123, fields: { "System.Title": "Checkout" } }],
+    });
+    app = await buildApp({ logger: false, auth: false, llm: {} as never, devOps: () => client });
+    const response = await app.inject({
+      method: "POST",
+      url: "/api/sessions",
+      payload: { workItemId: 123, projectId: "TestProject", organizationUrl: TEST_ORG_URL },
+    });
+    sessionUrl = `/api/sessions/${response.json().id}`;
+  });
+
+  it("should journal an applied spec and revert it", async () => {
+    await app.inject({
+      method: "PUT",
+      url: `${sessionUrl}/spec`,
+      payload: { description: "Pay with saved cards" },
+    });
+    await app.inject({ method: "POST", url: `${sessionUrl}/spec/approve` });
+    await app.inject({ method: "POST", url: `${sessionUrl}/spec/apply` });
+
+    const list = await app.inject({ method: "GET", url: `${sessionUrl}/operations` });
+    const [operation] = list.json().operations;
+    expect(operation).toMatchObject({
+      kind: "update",
+      workItemId: 123,
+      changes: [{ field: "System.Description", to: "<p>Pay with saved cards</p>" }],
+    });
+
+    const reverted = await app.inject({
+      method: "POST",
+      url: `${sessionUrl}/operations/${operation.id}/revert`,
+    });
+    expect(reverted.statusCode).toBe(200);
+    expect(reverted.json().revertedAt).toBeDefined();
+    expect((await client.getWorkItem(123))?.fields["System.Description"]).toBeUndefined();
+  });
+
+  it("should hold the session while reverting", async () => {
+    await app.inject({
+      method: "PUT",
+      url: `${sessionUrl}/spec`,
+      payload: { description: "Pay with saved cards" },
+    });
+    await app.inject({ method: "POST", url: `${sessionUrl}/spec/approve` });
+    await app.inject({ method: "POST", url: `${sessionUrl}/spec/apply` });
+    const [operation] = (
+      await app.inject({ method: "GET", url: `${sessionUrl}/operations` })
+    ).json().operations;
+
+    const sessionId = sessionUrl.split("/").pop() as string;
+    const update = client.updateWorkItem.bind(client);
+    let busyWhileReverting = false;
+    vi.spyOn(client, "updateWorkItem").mockImplementation(async (id, patch) => {
+      busyWhileReverting = app.streams.get(sessionId).busy;
+      return update(id, patch);
+    });
+
+    const reverted = await app.inject({
+      method: "POST",
+      url: `${sessionUrl}/operations/${operation.id}/revert`,
+    });
+    expect(reverted.statusCode).toBe(200);
+    expect(busyWhileReverting).toBe(true);
+    expect(app.streams.get(sessionId).busy).toBe(false);
+  });
+
+  it("should return 404 for unknown operations", async () => {
+    const response = await app.inject({
+      method: "POST",
+      url: `${sessionUrl}/operations/missing/revert`,
+    });
+
+    expect(response.statusCode).toBe(404);
+  });
+});
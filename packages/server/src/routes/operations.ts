@@ -0,0 +1,50 @@
+import type { FastifyInstance } from "fastify";
+import type { OperationListResponse } from "@azure-boards-ai/shared";
+import { revertOperation } from "../operations/revert.js";
+import { assertSessionAccess } from "../auth/access.js";
+
+const SESSION_NOT_FOUND = "Session not found";
+
+type SessionParams = { Params: { id: string } };
+
+export async function operationRoutes(app: FastifyInstance) {
+  const sessionManager = app.sessions;
+
+  // The Azure DevOps changes made in the session, oldest first
+  app.get<SessionParams>("/:id/operations", async (request, reply) => {
+    const session = await sessionManager.get(request.params.id);
+    if (!session) {
+      return reply.status(404).send({ error: SESSION_NOT_FOUND });
+    }
+    assertSessionAccess(session, request.user);
+
+    const response: OperationListResponse = {
+      sessionId: session.id,
+      operations: session.operations ?? [],
+    };
+    return response;
+  });
+
+  // Undo one change: restore the previous field values, remove added links or remove a created item
+  app.post<{ Params: { id: string; opId: string } }>(
+    "/:id/operations/:opId/revert",
+    async (request, reply) =>
+      app.streams.withRunLock(request.params.id, async () => {
+        const session = await sessionManager.get(request.params.id);
+        if (!session) {
+          return reply.status(404).send({ error: SESSION_NOT_FOUND });
+        }
+        assertSessionAccess(session, request.user);
+
+        const client = app.devOps(session.organizationUrl, request.user);
+        if (!client) {
+          return reply.status(503).send({ error: "Azure DevOps is not configured" });
+        }
+
+        // Saved under the lock, so a run cannot save over the revert and have it reverted again
+        const operation = await revertOperation(client, session, request.params.opId);
+        await sessionManager.save(session);
+        return operation;
+      })
+  );
+}
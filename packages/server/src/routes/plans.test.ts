@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import type { FastifyInstance } from "fastify";
+import { buildApp } from "../app.js";
+import { InMemoryWorkItemClient } from "../services/in-memory-devops.js";
+
+const TEST_ORG_URL = "https://dev.azure.com/test";
+const SESSIONS_URL = "/api/sessions";
+
+const SUBTASKS = [
+  { id: "t1", title: "Build API", type: "Task" },
+  { id: "t2", title: "Build UI", type: "Task", dependsOn: ["t1"] },
+];
+
+describe("planRoutes", () => {
+  let app: FastifyInstance;
+  let planUrl: string;
+
+  beforeEach(async () => {
+    app = await buildApp({
+      logger: false,
+      auth: false,
+      llm: {} as never,
+      devOps: () => undefined,
+    });
+    const response = await app.inject({
+      method: "POST",
+      url: SESSIONS_URL,
+      payload: { workItemId: 123, projectId: "TestProject", organizationUrl: TEST_ORG_URL },
+    });
+    planUrl = `/api/sessions/${JSON.parse(response.body).id}/plan`;
+  });
+
+  it("should return 404 when the session has no plan", async () => {
+    const response = await app.inject({ method: "GET", url: planUrl });
+
+    expect(response.statusCode).toBe(404);
+  });
+
+  it("should save, read and approve a plan", async () => {
+    const putResponse = await app.inject({
+      method: "PUT",
+      url: planUrl,
+      payload: { summary: "API first", subtasks: SUBTASKS },
+    });
+    expect(putResponse.statusCode).toBe(200);
+    expect(putResponse.json().status).toBe("draft");
+
+    const getResponse = await app.inject({ method: "GET", url: planUrl });
+    expect(getResponse.json().subtasks[1]).toMatchObject({ id: "t2", dependsOn: ["t1"] });
+
+    const approveResponse = await app.inject({ method: "POST", url: `${planUrl}/approve` });
+    expect(approveResponse.statusCode).toBe(200);
+    expect(approveResponse.json().status).toBe("approved");
+
+    const reapproveResponse = await app.inject({ method: "POST", url: `${planUrl}/approve` });
+    expect(reapproveResponse.statusCode).toBe(409);
+  });
+
+  it("should reject invalid plans", async () => {
+    const response = await app.inject({
+      method: "PUT",
+      url: planUrl,
+      payload: { subtasks: [{ id: "t1", title: "A", dependsOn: ["missing"] }] },
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json().error).toContain("unknown subtask missing");
+  });
+
+  it("should return 404 for an unknown session", async () => {
+    const response = await app.inject({ method: "GET", url: "/api/sessions/unknown/plan" });
+
+    expect(response.statusCode).toBe(404);
+  });
+
+  it("should return 503 when executing without Azure DevOps", async () => {
+    await app.inject({ method: "PUT", url: planUrl, payload: { subtasks: SUBTASKS } });
+    await app.inject({ method: "POST", url: `${planUrl}/approve` });
+
+    const response = await app.inject({ method: "POST", url: `${planUrl}/execute` });
+
+    expect(response.statusCode).toBe(503);
+  });
+
+  it("should preview and execute an approved plan", async () => {
+    const client = new InMemoryWorkItemClient({
+      organizationUrl: TEST_ORG_URL,
+      items: [{ id: 123, fields: { "System.Title": "Checkout" } }],
+    });
+    const devOpsApp = await buildApp({
+      logger: false,
+      auth: false,
+      llm: {} as never,
+      devOps: () => client,
+    });
+    const created = await devOpsApp.inject({
+      method: "POST",
+      url: SESSIONS_URL,
+      payload: { workItemId: 123, projectId: "TestProject", organizationUrl: TEST_ORG_URL },
+    });
+    const url = `/api/sessions/${created.json().id}/plan`;
+    await devOpsApp.inject({ method: "PUT", url, payload: { subtasks: SUBTASKS } });
+
+    const draftRun = await devOpsApp.inject({ method: "POST", url: `${url}/execute` });
+    expect(draftRun.statusCode).toBe(409);
+
+    const preview = await devOpsApp.inject({
+      method: "POST",
+      url: `${url}/execute`,
+      payload: { dryRun: true },
+    });
+    expect(preview.json().result.documents).toHaveLength(2);
+
+    await devOpsApp.inject({ method: "POST", url: `${url}/approve` });
+    const execution = await devOpsApp.inject({ method: "POST", url: `${url}/execute` });
+
+    expect(execution.statusCode).toBe(200);
+    expect(execution.json().result.created).toHaveLength(2);
+    expect(execution.json().chunks.at(-1)).toMatchObject({ type: "state_changed" });
+
+    const plan = await devOpsApp.inject({ method: "GET", url });
+    expect(plan.json()).toMatchObject({ status: "completed" });
+    expect(plan.json().subtasks[0].workItemId).toBe(124);
+
+    const operations = await devOpsApp.inject({
+      method: "GET",
+      url: `/api/sessions/${created.json().id}/operations`,
+    });
+    const creates = operations
+      .json()
+      .operations.filter(({ kind }: { kind: string }) => kind === "create");
+    expect(creates.map(({ workItemId }: { workItemId: number }) => workItemId)).toEqual([124, 125]);
+
+    const next = await devOpsApp.inject({ method: "PUT", url, payload: { subtasks: SUBTASKS } });
+    expect(next.statusCode).toBe(200);
+    expect(next.json()).toMatchObject({ status: "draft" });
+    expect(next.json().id).not.toBe(plan.json().id);
+  });
+
+  it("should not start a second execution while one is running", async () => {
+    let release: () => void = () => undefined;
+    const released = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const client = new InMemoryWorkItemClient({
+      organizationUrl: TEST_ORG_URL,
+      items: [{ id: 123, fields: { "System.Title": "Checkout" } }],
+    });
+    const createWorkItem = client.createWorkItem.bind(client);
+    client.createWorkItem = async (...args) => {
+      await released;
+      return createWorkItem(...args);
+    };
+    const devOpsApp = await buildApp({
+      logger: false,
+      auth: false,
+      llm: {} as never,
+      devOps: () => client,
+    });
+    const created = await devOpsApp.inject({
+      method: "POST",
+      url: SESSIONS_URL,
+      payload: { workItemId: 123, projectId: "TestProject", organizationUrl: TEST_ORG_URL },
+    });
+    const url = `/api/sessions/${created.json().id}/plan`;
+    await devOpsApp.inject({ method: "PUT", url, payload: { subtasks: SUBTASKS } });
+    await devOpsApp.inject({ method: "POST", url: `${url}/approve` });
+
+    const first = devOpsApp.inject({ method: "POST", url: `${url}/execute` });
+    await vi.waitFor(() => expect(devOpsApp.streams.find(created.json().id)?.running).toBe(true));
+    const second = await devOpsApp.inject({ method: "POST", url: `${url}/execute` });
+    expect(second.statusCode).toBe(409);
+
+    release();
+    expect((await first).json().result.created).toHaveLength(2);
+    expect(devOpsApp.streams.find(created.json().id)?.running).toBe(false);
+  });
+});
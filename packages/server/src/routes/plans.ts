@@ -0,0 +1,139 @@
+import type { FastifyInstance } from "fastify";
+import type { PlanUpdateRequest, StreamChunk, WorkItemSession } from "@azure-boards-ai/shared";
+import { approvePlan, parsePlanUpdate, upsertPlan } from "../plans/plan.js";
+import { PlanExecutor } from "../plans/executor.js";
+import { JournalingWorkItemClient } from "../operations/journal.js";
+import { assertSessionAccess } from "../auth/access.js";
+import type { AuthUser } from "../auth/authenticator.js";
+
+const SESSION_NOT_FOUND = "Session not found";
+const DEVOPS_NOT_CONFIGURED = "Azure DevOps is not configured";
+
+type SessionParams = { Params: { id: string } };
+
+export async function planRoutes(app: FastifyInstance) {
+  const sessionManager = app.sessions;
+
+  // Executor acting with the caller's permissions; its changes are journaled
+  function createExecutor(
+    session: WorkItemSession,
+    user: AuthUser | undefined
+  ): PlanExecutor | undefined {
+    const client = app.devOps(session.organizationUrl, user);
+    return (
+      client &&
+      new PlanExecutor(new JournalingWorkItemClient(client, session), {
+        persist: (updated) => sessionManager.save(updated),
+      })
+    );
+  }
+
+  // Get the pending plan
+  app.get<SessionParams>("/:id/plan", async (request, reply) => {
+    const session = await sessionManager.get(request.params.id);
+    if (!session) {
+      return reply.status(404).send({ error: SESSION_NOT_FOUND });
+    }
+    assertSessionAccess(session, request.user);
+    if (!session.plan) {
+      return reply.status(404).send({ error: "Session has no plan" });
+    }
+    return session.plan;
+  });
+
+  // Replace the plan's subtasks, e.g. after the user edited the breakdown
+  app.put<SessionParams & { Body: PlanUpdateRequest }>("/:id/plan", async (request, reply) =>
+    app.streams.withRunLock(request.params.id, async () => {
+      const session = await sessionManager.get(request.params.id);
+      if (!session) {
+        return reply.status(404).send({ error: SESSION_NOT_FOUND });
+      }
+      assertSessionAccess(session, request.user);
+
+      session.plan = upsertPlan(session.plan, parsePlanUpdate(request.body));
+      await sessionManager.save(session);
+      return session.plan;
+    })
+  );
+
+  // Approve the plan for execution
+  app.post<SessionParams>("/:id/plan/approve", async (request, reply) =>
+    app.streams.withRunLock(request.params.id, async () => {
+      const session = await sessionManager.get(request.params.id);
+      if (!session) {
+        return reply.status(404).send({ error: SESSION_NOT_FOUND });
+      }
+      assertSessionAccess(session, request.user);
+      if (!session.plan) {
+        return reply.status(404).send({ error: "Session has no plan" });
+      }
+
+      session.plan = approvePlan(session.plan);
+      await sessionManager.save(session);
+      return session.plan;
+    })
+  );
+
+  // Create the plan's subtasks in Azure DevOps, or preview them with dryRun
+  app.post<SessionParams & { Body: { dryRun?: boolean } | undefined }>(
+    "/:id/plan/execute",
+    async (request, reply) => {
+      const dryRun = request.body?.dryRun === true;
+      if (dryRun) {
+        const session = await sessionManager.get(request.params.id);
+        if (!session) {
+          return reply.status(404).send({ error: SESSION_NOT_FOUND });
+        }
+        assertSessionAccess(session, request.user);
+        const executor = createExecutor(session, request.user);
+        if (!executor) {
+          return reply.status(503).send({ error: DEVOPS_NOT_CONFIGURED });
+        }
+        return { sessionId: session.id, ...(await collect(executor.execute(session, { dryRun }))) };
+      }
+
+      // A real run holds the session, so it cannot overlap an agent run or another execution,
+      // and is published to everyone following the session
+      return app.streams.withRunLock(request.params.id, async (stream) => {
+        const session = await sessionManager.get(request.params.id);
+        if (!session) {
+          return reply.status(404).send({ error: SESSION_NOT_FOUND });
+        }
+        assertSessionAccess(session, request.user);
+        const executor = createExecutor(session, request.user);
+        if (!executor) {
+          return reply.status(503).send({ error: DEVOPS_NOT_CONFIGURED });
+        }
+
+        const signal = stream.startRun();
+        // Followed here, so the run is not cancelled as left without listeners
+        const unsubscribe = stream.subscribe(() => undefined);
+        try {
+          const run = executor.execute(session, { signal });
+          return {
+            sessionId: session.id,
+            ...(await collect(run, (chunk) => stream.publish(chunk))),
+          };
+        } finally {
+          unsubscribe();
+          stream.endRun();
+        }
+      });
+    }
+  );
+}
+
+// The chunks and result of an execution, each chunk passed through publish
+async function collect<T>(
+  run: AsyncGenerator<StreamChunk, T>,
+  publish: (chunk: StreamChunk) => StreamChunk = (chunk) => chunk
+): Promise<{ result: T; chunks: StreamChunk[] }> {
+  const chunks: StreamChunk[] = [];
+  for (;;) {
+    const next = await run.next();
+    if (next.done) {
+      return { result: next.value, chunks };
+    }
+    chunks.push(publish(next.value));
+  }
+}
@@ -1,17 +1,22 @@
-import { describe, it, expect, beforeEach } from "vitest";
-import Fastify from "fastify";
-import { sessionRoutes } from "./sessions.js";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import type { FastifyInstance } from "fastify";
+import type { StreamChunk } from "@azure-boards-ai/shared";
+import { buildApp } from "../app.js";
+import { InMemoryWorkItemClient } from "../services/in-memory-devops.js";
+import { AuthenticationError } from "../auth/authenticator.js";
+import type { AuthUser } from "../auth/authenticator.js";
 
 const API_SESSIONS_PREFIX = "/api/sessions";
 const TEST_ORG_URL = "https://dev.azure.com/test";
 const TEST_PROJECT = "TestProject";
 
 describe("sessionRoutes", () => {
-  let app: ReturnType<typeof Fastify>;
+  let app: FastifyInstance;
+  let devOps: InMemoryWorkItemClient | undefined;
 
   beforeEach(async () => {
-    app = Fastify();
-    await app.register(sessionRoutes, { prefix: API_SESSIONS_PREFIX });
+    devOps = undefined;
+    app = await buildApp({ logger: false, auth: false, llm: {} as never, devOps: () => devOps });
   });
 
   it("should create a session", async () => {
@@ -31,6 +36,16 @@ describe("sessionRoutes", () => {
     expect(body.state).toBe("idle");
   });
 
+  it("should reject an invalid session", async () => {
+    const response = await app.inject({
+      method: "POST",
+      url: API_SESSIONS_PREFIX,
+      payload: { workItemId: "123", projectId: TEST_PROJECT, organizationUrl: "dev.azure.com" },
+    });
+
+    expect(response.statusCode).toBe(400);
+  });
+
   it("should get session by id", async () => {
     const createResponse = await app.inject({
       method: "POST",
@@ -136,6 +151,207 @@ describe("sessionRoutes", () => {
     expect(sessions.length).toBeGreaterThanOrEqual(2);
   });
 
+  it("should hydrate the work item context on create", async () => {
+    devOps = new InMemoryWorkItemClient({
+      items: [{ id: 321, fields: { "System.Title": "Checkout page" } }],
+    });
+
+    const response = await app.inject({
+      method: "POST",
+      url: API_SESSIONS_PREFIX,
+      payload: { workItemId: 321, projectId: TEST_PROJECT, organizationUrl: TEST_ORG_URL },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body).context.workItem.fields["System.Title"]).toBe("Checkout page");
+  });
+
+  it("should return 404 when the work item does not exist", async () => {
+    devOps = new InMemoryWorkItemClient();
+
+    const response = await app.inject({
+      method: "POST",
+      url: API_SESSIONS_PREFIX,
+      payload: { workItemId: 404, projectId: TEST_PROJECT, organizationUrl: TEST_ORG_URL },
+    });
+
+    expect(response.statusCode).toBe(404);
+  });
+
+  it("should refresh the work item context", async () => {
+    devOps = new InMemoryWorkItemClient({
+      items: [{ id: 321, fields: { "System.State": "New" } }],
+    });
+    const createResponse = await app.inject({
+      method: "POST",
+      url: API_SESSIONS_PREFIX,
+      payload: { workItemId: 321, projectId: TEST_PROJECT, organizationUrl: TEST_ORG_URL },
+    });
+    const session = JSON.parse(createResponse.body);
+
+    await devOps.updateWorkItem(321, [
+      { op: "replace", path: "/fields/System.State", value: "Resolved" },
+    ]);
+    const response = await app.inject({
+      method: "POST",
+      url: `${API_SESSIONS_PREFIX}/${session.id}/refresh`,
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body).context.workItem.fields["System.State"]).toBe("Resolved");
+  });
+
+  it("should hold the session while refreshing, keeping the last run for replay", async () => {
+    const client = new InMemoryWorkItemClient({
+      items: [{ id: 321, fields: { "System.State": "New" } }],
+    });
+    devOps = client;
+    const createResponse = await app.inject({
+      method: "POST",
+      url: API_SESSIONS_PREFIX,
+      payload: { workItemId: 321, projectId: TEST_PROJECT, organizationUrl: TEST_ORG_URL },
+    });
+    const session = JSON.parse(createResponse.body);
+
+    const stream = app.streams.get(session.id);
+    stream.startRun();
+    stream.publish({ type: "done" });
+    stream.endRun();
+
+    const getWorkItem = client.getWorkItem.bind(client);
+    let busyWhileLoading = false;
+    vi.spyOn(client, "getWorkItem").mockImplementation(async (id) => {
+      busyWhileLoading = app.streams.get(session.id).busy;
+      return getWorkItem(id);
+    });
+    const response = await app.inject({
+      method: "POST",
+      url: `${API_SESSIONS_PREFIX}/${session.id}/refresh`,
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(busyWhileLoading).toBe(true);
+    expect(stream.busy).toBe(false);
+    const replayed: StreamChunk[] = [];
+    stream.subscribe((chunk) => replayed.push(chunk), 0);
+    expect(replayed.map((chunk) => chunk.type)).toEqual(["done"]);
+  });
+
+  it("should list work items similar to the session's", async () => {
+    const project = { "System.TeamProject": TEST_PROJECT };
+    devOps = new InMemoryWorkItemClient({
+      items: [
+        { id: 1, fields: { ...project, "System.Title": "Checkout fails with saved cards" } },
+        { id: 2, fields: { ...project, "System.Title": "Saved cards fail at checkout" } },
+        { id: 3, fields: { ...project, "System.Title": "Update the privacy policy" } },
+      ],
+    });
+    const createResponse = await app.inject({
+      method: "POST",
+      url: API_SESSIONS_PREFIX,
+      payload: { workItemId: 1, projectId: TEST_PROJECT, organizationUrl: TEST_ORG_URL },
+    });
+    const session = JSON.parse(createResponse.body);
+
+    const response = await app.inject({
+      method: "GET",
+      url: `${API_SESSIONS_PREFIX}/${session.id}/similar?top=3`,
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = response.json();
+    expect(body.workItemId).toBe(1);
+    expect(body.items).toEqual([expect.objectContaining({ id: 2, likelyDuplicate: true })]);
+  });
+
+  it("should reject an invalid number of similar items", async () => {
+    const response = await app.inject({
+      method: "GET",
+      url: `${API_SESSIONS_PREFIX}/any/similar?top=0`,
+    });
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  it("should return 404 when refreshing a non-existent session", async () => {
+    const response = await app.inject({
+      method: "POST",
+      url: `${API_SESSIONS_PREFIX}/non-existent/refresh`,
+    });
+
+    expect(response.statusCode).toBe(404);
+  });
+
+  it("should update the session state", async () => {
+    const createResponse = await app.inject({
+      method: "POST",
+      url: API_SESSIONS_PREFIX,
+      payload: { workItemId: 555, projectId: TEST_PROJECT, organizationUrl: TEST_ORG_URL },
+    });
+    const session = JSON.parse(createResponse.body);
+    const chunks: StreamChunk[] = [];
+    app.streams.get(session.id).subscribe((chunk) => chunks.push(chunk));
+
+    const patchResponse = await app.inject({
+      method: "PATCH",
+      url: `${API_SESSIONS_PREFIX}/${session.id}`,
+      payload: { state: "specify" },
+    });
+
+    expect(patchResponse.statusCode).toBe(200);
+    expect(JSON.parse(patchResponse.body).state).toBe("specify");
+    expect(chunks).toEqual([
+      {
+        type: "state_changed",
+        stateChange: { from: session.state, to: "specify" },
+        seq: expect.any(Number),
+      },
+    ]);
+
+    const invalidResponse = await app.inject({
+      method: "PATCH",
+      url: `${API_SESSIONS_PREFIX}/${session.id}`,
+      payload: { state: "execute" },
+    });
+
+    expect(invalidResponse.statusCode).toBe(409);
+
+    const badRequestResponse = await app.inject({
+      method: "PATCH",
+      url: `${API_SESSIONS_PREFIX}/${session.id}`,
+      payload: { state: "done" },
+    });
+
+    expect(badRequestResponse.statusCode).toBe(400);
+  });
+
+  it("should update the session's model settings", async () => {
+    const createResponse = await app.inject({
+      method: "POST",
+      url: API_SESSIONS_PREFIX,
+      payload: { workItemId: 556, projectId: TEST_PROJECT, organizationUrl: TEST_ORG_URL },
+    });
+    const session = JSON.parse(createResponse.body);
+    const modelSettings = { model: "claude-haiku-4-5", temperature: 0.2, maxTokens: 1024 };
+
+    const patchResponse = await app.inject({
+      method: "PATCH",
+      url: `${API_SESSIONS_PREFIX}/${session.id}`,
+      payload: { modelSettings },
+    });
+
+    expect(patchResponse.statusCode).toBe(200);
+    expect(JSON.parse(patchResponse.body).modelSettings).toEqual(modelSettings);
+
+    const invalidResponse = await app.inject({
+      method: "PATCH",
+      url: `${API_SESSIONS_PREFIX}/${session.id}`,
+      payload: { modelSettings: { temperature: 3 } },
+    });
+
+    expect(invalidResponse.statusCode).toBe(400);
+  });
+
   it("should delete a session", async () => {
     const createResponse = await app.inject({
       method: "POST",
@@ -148,6 +364,7 @@ describe("sessionRoutes", () => {
     });
 
     const session = JSON.parse(createResponse.body);
+    app.streams.get(session.id);
 
     const deleteResponse = await app.inject({
       method: "DELETE",
@@ -157,6 +374,7 @@ describe("sessionRoutes", () => {
     expect(deleteResponse.statusCode).toBe(200);
     const body = JSON.parse(deleteResponse.body);
     expect(body.success).toBe(true);
+    expect(app.streams.find(session.id)).toBeUndefined();
 
     // Verify session is deleted
     const getResponse = await app.inject({
@@ -166,4 +384,99 @@ describe("sessionRoutes", () => {
 
     expect(getResponse.statusCode).toBe(404);
   });
+
+  describe("with authentication", () => {
+    const users: Record<string, AuthUser> = {
+      alice: {
+        id: "alice-id",
+        displayName: "Alice",
+        credentials: { scheme: "bearer", token: "alice" },
+      },
+      bob: { id: "bob-id", displayName: "Bob", credentials: { scheme: "bearer", token: "bob" } },
+    };
+    const auth = {
+      async authenticate({ token }: { token: string }) {
+        const user = users[token];
+        if (!user) {
+          throw new AuthenticationError("Azure DevOps rejected the token");
+        }
+        return user;
+      },
+    };
+    const BOB = { authorization: "Bearer bob" };
+    let devOpsUsers: Array<AuthUser | undefined>;
+
+    beforeEach(async () => {
+      devOpsUsers = [];
+      app = await buildApp({
+        logger: false,
+        auth,
+        llm: {} as never,
+        devOps: (_url, user) => {
+          devOpsUsers.push(user);
+          return undefined;
+        },
+      });
+    });
+
+    function createAs(token: string) {
+      return app.inject({
+        method: "POST",
+        url: API_SESSIONS_PREFIX,
+        headers: { authorization: `Bearer ${token}` },
+        payload: { workItemId: 123, projectId: TEST_PROJECT, organizationUrl: TEST_ORG_URL },
+      });
+    }
+
+    it("should require a valid token", async () => {
+      const missing = await app.inject({ method: "GET", url: API_SESSIONS_PREFIX });
+      const invalid = await createAs("mallory");
+
+      expect(missing.statusCode).toBe(401);
+      expect(invalid.statusCode).toBe(401);
+      expect(invalid.json().error).toBe("Azure DevOps rejected the token");
+    });
+
+    it("should bind sessions to their owner", async () => {
+      const created = await createAs("alice");
+      const session = created.json();
+
+      expect(session.ownerId).toBe("alice-id");
+      expect(devOpsUsers).toEqual([users.alice]);
+
+      const asOwner = await app.inject({
+        method: "GET",
+        url: `${API_SESSIONS_PREFIX}/${session.id}`,
+        headers: { authorization: "Bearer alice" },
+      });
+      const asOther = await app.inject({
+        method: "GET",
+        url: `${API_SESSIONS_PREFIX}/${session.id}`,
+        headers: BOB,
+      });
+
+      expect(asOwner.statusCode).toBe(200);
+      expect(asOther.statusCode).toBe(403);
+
+      const bobs = await createAs("bob");
+      expect(bobs.statusCode).toBe(200);
+      expect(bobs.json()).toMatchObject({ ownerId: "bob-id", workItemId: session.workItemId });
+      expect(bobs.json().id).not.toBe(session.id);
+
+      const lookup = await app.inject({
+        method: "GET",
+        url: `${API_SESSIONS_PREFIX}/by-work-item`,
+        headers: BOB,
+        query: { workItemId: "123", organizationUrl: TEST_ORG_URL },
+      });
+      expect(lookup.json().id).toBe(bobs.json().id);
+
+      const list = await app.inject({
+        method: "GET",
+        url: API_SESSIONS_PREFIX,
+        headers: BOB,
+      });
+      expect(list.json().map(({ id }: { id: string }) => id)).toEqual([bobs.json().id]);
+    });
+  });
 });
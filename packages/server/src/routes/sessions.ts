@@ -1,13 +1,52 @@
 import type { FastifyInstance } from "fastify";
-import { SessionManager } from "../sessions/session-manager.js";
-import type { SessionCreateRequest } from "@azure-boards-ai/shared";
+import { z } from "zod";
+import { SESSION_STATES } from "../agent/flow.js";
+import { assertSessionAccess, canAccessSession } from "../auth/access.js";
+import type {
+  SessionCreateRequest,
+  SessionUpdateRequest,
+  SimilarWorkItemsResponse,
+} from "@azure-boards-ai/shared";
 
-const sessionManager = new SessionManager();
+const SESSION_NOT_FOUND = "Session not found";
+const DEVOPS_NOT_CONFIGURED = "Azure DevOps is not configured";
+
+const modelSettingsSchema = z
+  .object({
+    model: z.string().min(1).optional(),
+    temperature: z.number().min(0).max(1).optional(),
+    maxTokens: z.number().int().positive().optional(),
+  })
+  .strict();
+
+const similarQuerySchema = z.object({
+  top: z.coerce.number().int().min(1).max(20).default(5),
+});
+
+const sessionCreateSchema = z.object({
+  workItemId: z.number().int().positive(),
+  projectId: z.string().min(1),
+  organizationUrl: z.string().url(),
+});
+
+const sessionUpdateSchema = z.object({
+  state: z.enum(SESSION_STATES).optional(),
+  modelSettings: modelSettingsSchema.optional(),
+});
 
 export async function sessionRoutes(app: FastifyInstance) {
+  const sessionManager = app.sessions;
+
   // Create new session
-  app.post<{ Body: SessionCreateRequest }>("/", async (request) => {
-    const session = await sessionManager.create(request.body);
+  app.post<{ Body: SessionCreateRequest }>("/", async (request, reply) => {
+    const parsed = sessionCreateSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: parsed.error.message });
+    }
+
+    const client = app.devOps(parsed.data.organizationUrl, request.user);
+    const session = await sessionManager.create(parsed.data, client, request.user?.id);
+    assertSessionAccess(session, request.user);
     return session;
   });
 
@@ -15,29 +54,129 @@ export async function sessionRoutes(app: FastifyInstance) {
   app.get<{ Params: { id: string } }>("/:id", async (request, reply) => {
     const session = await sessionManager.get(request.params.id);
     if (!session) {
-      return reply.status(404).send({ error: "Session not found" });
+      return reply.status(404).send({ error: SESSION_NOT_FOUND });
     }
+    assertSessionAccess(session, request.user);
     return session;
   });
 
-  // Get session by work item ID
+  // Update session, e.g. move it to another flow state or pick another model
+  app.patch<{ Params: { id: string }; Body: SessionUpdateRequest }>(
+    "/:id",
+    async (request, reply) => {
+      const parsed = sessionUpdateSchema.safeParse(request.body);
+      if (!parsed.success) {
+        return reply.status(400).send({ error: parsed.error.message });
+      }
+
+      return app.streams.withRunLock(request.params.id, async (stream) => {
+        const session = await sessionManager.get(request.params.id);
+        if (!session) {
+          return reply.status(404).send({ error: SESSION_NOT_FOUND });
+        }
+        assertSessionAccess(session, request.user);
+
+        const { state, modelSettings } = parsed.data;
+        const updated = modelSettings
+          ? await sessionManager.update(session.id, { modelSettings })
+          : session;
+        if (!state) {
+          return updated;
+        }
+
+        const from = session.state;
+        const moved = await sessionManager.setState(session.id, state);
+        // Followers see the move the same way as one the agent makes during a run
+        if (moved && moved.state !== from) {
+          stream.publish({ type: "state_changed", stateChange: { from, to: moved.state } });
+        }
+        return moved;
+      });
+    }
+  );
+
+  // Re-fetch work item context from Azure DevOps
+  app.post<{ Params: { id: string } }>("/:id/refresh", async (request, reply) =>
+    app.streams.withRunLock(request.params.id, async () => {
+      const session = await sessionManager.get(request.params.id);
+      if (!session) {
+        return reply.status(404).send({ error: SESSION_NOT_FOUND });
+      }
+      assertSessionAccess(session, request.user);
+
+      const client = app.devOps(session.organizationUrl, request.user);
+      if (!client) {
+        return reply.status(503).send({ error: DEVOPS_NOT_CONFIGURED });
+      }
+
+      return sessionManager.refresh(session.id, client);
+    })
+  );
+
+  // Work items in the project that are similar to the session's, flagging likely duplicates
+  app.get<{ Params: { id: string }; Querystring: { top?: string } }>(
+    "/:id/similar",
+    async (request, reply) => {
+      const parsed = similarQuerySchema.safeParse(request.query);
+      if (!parsed.success) {
+        return reply.status(400).send({ error: parsed.error.message });
+      }
+
+      const session = await sessionManager.get(request.params.id);
+      if (!session) {
+        return reply.status(404).send({ error: SESSION_NOT_FOUND });
+      }
+      assertSessionAccess(session, request.user);
+
+      const client = app.devOps(session.organizationUrl, request.user);
+      if (!client) {
+        return reply.status(503).send({ error: DEVOPS_NOT_CONFIGURED });
+      }
+
+      const items = await app.similarity.findSimilarTo(
+        client,
+        session.context.workItem,
+        session,
+        parsed.data.top
+      );
+      const response: SimilarWorkItemsResponse = { workItemId: session.workItemId, items };
+      return response;
+    }
+  );
+
+  // Get the caller's session for a work item
   app.get<{ Querystring: { workItemId: string; organizationUrl: string } }>(
     "/by-work-item",
     async (request) => {
       const { workItemId, organizationUrl } = request.query;
-      const session = await sessionManager.getByWorkItem(parseInt(workItemId), organizationUrl);
+      const session = await sessionManager.getByWorkItem(
+        parseInt(workItemId),
+        organizationUrl,
+        request.user?.id
+      );
       return session || null;
     }
   );
 
-  // List sessions
-  app.get("/", async () => {
-    return sessionManager.list();
+  // List the caller's sessions
+  app.get("/", async (request) => {
+    const sessions = await sessionManager.list();
+    return sessions.filter((session) => canAccessSession(session, request.user));
   });
 
   // Delete session
   app.delete<{ Params: { id: string } }>("/:id", async (request) => {
-    await sessionManager.delete(request.params.id);
+    const deleted = await app.streams.withRunLock(request.params.id, async () => {
+      const session = await sessionManager.get(request.params.id);
+      if (session) {
+        assertSessionAccess(session, request.user);
+        await sessionManager.delete(session.id);
+      }
+      return session !== undefined;
+    });
+    if (deleted) {
+      app.streams.delete(request.params.id);
+    }
     return { success: true };
   });
 }
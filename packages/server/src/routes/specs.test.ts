@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import type { FastifyInstance } from "fastify";
+import { buildApp } from "../app.js";
+import { InMemoryWorkItemClient } from "../services/in-memory-devops.js";
+
+const TEST_ORG_URL = "https://dev.azure.com/test";
+
+const SPEC = {
+  description: "Pay with saved cards",
+  acceptanceCriteria: [{ given: "a saved card", when: "the user pays", then: "it is charged" }],
+};
+
+describe("specRoutes", () => {
+  let app: FastifyInstance;
+  let client: InMemoryWorkItemClient;
+  let specUrl: string;
+
+  beforeEach(async () => {
+    client = new InMemoryWorkItemClient({
+      items: [{ id: 123, fields: { "System.Title": "Checkout" } }],
+    });
+    app = await buildApp({ logger: false, auth: false, llm: {} as never, devOps: () => client });
+    const response = await app.inject({
+      method: "POST",
+      url: "/api/sessions",
+      payload: { workItemId: 123, projectId: "TestProject", organizationUrl: TEST_ORG_URL },
+    });
+    specUrl = `/api/sessions/${response.json().id}/spec`;
+  });
+
+  it("should return 404 when the session has no spec", async () => {
+    const response = await app.inject({ method: "GET", url: specUrl });
+
+    expect(response.statusCode).toBe(404);
+  });
+
+  it("should reject invalid specs", async () => {
+    const response = await app.inject({
+      method: "PUT",
+      url: specUrl,
+      payload: { description: "" },
+    });
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  it("should review, approve and apply a spec", async () => {
+    await app.inject({ method: "PUT", url: specUrl, payload: SPEC });
+
+    const draftApply = await app.inject({ method: "POST", url: `${specUrl}/apply` });
+    expect(draftApply.statusCode).toBe(409);
+
+    const preview = await app.inject({
+      method: "POST",
+      url: `${specUrl}/apply`,
+      payload: { dryRun: true },
+    });
+    expect(preview.json().changes).toHaveLength(2);
+
+    const approved = await app.inject({ method: "POST", url: `${specUrl}/approve` });
+    expect(approved.json().status).toBe("approved");
+
+    const applied = await app.inject({ method: "POST", url: `${specUrl}/apply` });
+    expect(applied.statusCode).toBe(200);
+    expect(applied.json()).toMatchObject({ workItemId: 123, dryRun: false });
+
+    const item = await client.getWorkItem(123);
+    expect(item?.fields["System.Description"]).toBe("<p>Pay with saved cards</p>");
+    const spec = await app.inject({ method: "GET", url: specUrl });
+    expect(spec.json().status).toBe("applied");
+  });
+
+  it("should hold the session while applying", async () => {
+    await app.inject({ method: "PUT", url: specUrl, payload: SPEC });
+    await app.inject({ method: "POST", url: `${specUrl}/approve` });
+
+    const sessionId = specUrl.split("/")[3];
+    const update = client.updateWorkItem.bind(client);
+    let busyWhileApplying = false;
+    vi.spyOn(client, "updateWorkItem").mockImplementation(async (id, patch) => {
+      busyWhileApplying = app.streams.get(sessionId).busy;
+      return update(id, patch);
+    });
+
+    const applied = await app.inject({ method: "POST", url: `${specUrl}/apply` });
+    expect(applied.statusCode).toBe(200);
+    expect(busyWhileApplying).toBe(true);
+    expect(app.streams.get(sessionId).busy).toBe(false);
+  });
+
+  it("should reject a pending spec", async () => {
+    await app.inject({ method: "PUT", url: specUrl, payload: SPEC });
+
+    const rejected = await app.inject({ method: "POST", url: `${specUrl}/reject` });
+    const again = await app.inject({ method: "POST", url: `${specUrl}/reject` });
+
+    expect(rejected.json().status).toBe("rejected");
+    expect(again.statusCode).toBe(409);
+  });
+});
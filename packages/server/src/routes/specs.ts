@@ -0,0 +1,117 @@
+import type { FastifyInstance } from "fastify";
+import type { SpecApplyResponse, SpecUpdateRequest } from "@azure-boards-ai/shared";
+import { approveSpec, parseSpecUpdate, rejectSpec, upsertSpec } from "../specs/spec.js";
+import { applySpec } from "../specs/apply.js";
+import { JournalingWorkItemClient } from "../operations/journal.js";
+import { assertSessionAccess } from "../auth/access.js";
+
+const SESSION_NOT_FOUND = "Session not found";
+const NO_SPEC = "Session has no spec";
+
+type SessionParams = { Params: { id: string } };
+
+export async function specRoutes(app: FastifyInstance) {
+  const sessionManager = app.sessions;
+
+  // Get the pending spec
+  app.get<SessionParams>("/:id/spec", async (request, reply) => {
+    const session = await sessionManager.get(request.params.id);
+    if (!session) {
+      return reply.status(404).send({ error: SESSION_NOT_FOUND });
+    }
+    assertSessionAccess(session, request.user);
+    if (!session.spec) {
+      return reply.status(404).send({ error: NO_SPEC });
+    }
+    return session.spec;
+  });
+
+  // Replace the spec, e.g. after the user edited the proposal
+  app.put<SessionParams & { Body: SpecUpdateRequest }>("/:id/spec", async (request, reply) =>
+    app.streams.withRunLock(request.params.id, async () => {
+      const session = await sessionManager.get(request.params.id);
+      if (!session) {
+        return reply.status(404).send({ error: SESSION_NOT_FOUND });
+      }
+      assertSessionAccess(session, request.user);
+
+      session.spec = upsertSpec(session.spec, parseSpecUpdate(request.body));
+      await sessionManager.save(session);
+      return session.spec;
+    })
+  );
+
+  // Approve the spec so it can be applied
+  app.post<SessionParams>("/:id/spec/approve", async (request, reply) =>
+    app.streams.withRunLock(request.params.id, async () => {
+      const session = await sessionManager.get(request.params.id);
+      if (!session) {
+        return reply.status(404).send({ error: SESSION_NOT_FOUND });
+      }
+      assertSessionAccess(session, request.user);
+      if (!session.spec) {
+        return reply.status(404).send({ error: NO_SPEC });
+      }
+
+      session.spec = approveSpec(session.spec);
+      await sessionManager.save(session);
+      return session.spec;
+    })
+  );
+
+  // Reject the spec; the agent can propose a new one
+  app.post<SessionParams>("/:id/spec/reject", async (request, reply) =>
+    app.streams.withRunLock(request.params.id, async () => {
+      const session = await sessionManager.get(request.params.id);
+      if (!session) {
+        return reply.status(404).send({ error: SESSION_NOT_FOUND });
+      }
+      assertSessionAccess(session, request.user);
+      if (!session.spec) {
+        return reply.status(404).send({ error: NO_SPEC });
+      }
+
+      session.spec = rejectSpec(session.spec);
+      await sessionManager.save(session);
+      return session.spec;
+    })
+  );
+
+  // Write the approved spec to the work item, or preview the field changes with dryRun
+  app.post<SessionParams & { Body: { dryRun?: boolean } | undefined }>(
+    "/:id/spec/apply",
+    async (request, reply) => {
+      const dryRun = request.body?.dryRun === true;
+
+      const apply = async () => {
+        const session = await sessionManager.get(request.params.id);
+        if (!session) {
+          return reply.status(404).send({ error: SESSION_NOT_FOUND });
+        }
+        assertSessionAccess(session, request.user);
+
+        const client = app.devOps(session.organizationUrl, request.user);
+        if (!client) {
+          return reply.status(503).send({ error: "Azure DevOps is not configured" });
+        }
+
+        const result = await applySpec(new JournalingWorkItemClient(client, session), session, {
+          dryRun,
+        });
+        if (!result.dryRun) {
+          await sessionManager.save(session);
+        }
+        const response: SpecApplyResponse = {
+          sessionId: session.id,
+          workItemId: session.workItemId,
+          ...result,
+        };
+        return response;
+      };
+
+      // A real apply holds the session, so a run cannot save over the applied spec and its
+      // journaled operation; a preview changes nothing
+      return dryRun ? apply() : app.streams.withRunLock(request.params.id, apply);
+    }
+  );
+}
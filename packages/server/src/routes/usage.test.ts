@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import type { FastifyInstance } from "fastify";
+import { buildApp } from "../app.js";
+import type { AuthUser } from "../auth/authenticator.js";
+import { recordUsage } from "../usage/usage.js";
+
+const TEST_ORG_URL = "https://dev.azure.com/test";
+const USAGE_URL = "/api/usage";
+
+async function createSessionWithUsage(app: FastifyInstance, ownerId?: string): Promise<void> {
+  const session = await app.sessions.create(
+    { workItemId: 123, projectId: "TestProject", organizationUrl: TEST_ORG_URL },
+    undefined,
+    ownerId
+  );
+  recordUsage(
+    session,
+    {
+      inputTokens: 1000,
+      outputTokens: 100,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 0,
+    },
+    "claude-sonnet-4-5-20250929",
+    new Date("2025-03-01T12:00:00Z")
+  );
+  await app.sessions.save(session);
+}
+
+describe("usageRoutes", () => {
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    app = await buildApp({
+      logger: false,
+      auth: false,
+      llm: {} as never,
+      devOps: () => undefined,
+    });
+    await createSessionWithUsage(app);
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it("should report usage per organization and project", async () => {
+    const response = await app.inject({
+      method: "GET",
+      url: `${USAGE_URL}?organizationUrl=${encodeURIComponent(TEST_ORG_URL)}`,
+    });
+
+    expect(response.statusCode).toBe(200);
+    const report = response.json();
+    expect(report.total).toMatchObject({ inputTokens: 1000, outputTokens: 100, requests: 1 });
+    expect(report.projects).toEqual([
+      expect.objectContaining({ projectId: "TestProject", sessions: 1, costUsd: 0.0045 }),
+    ]);
+  });
+
+  it("should leave out days outside the range", async () => {
+    const response = await app.inject({
+      method: "GET",
+      url: `${USAGE_URL}?from=2025-03-02&to=2025-03-31`,
+    });
+
+    expect(response.json().total.requests).toBe(0);
+    expect(response.json().organizations).toEqual([]);
+  });
+
+  it("should reject invalid dates", async () => {
+    const invalid = await app.inject({ method: "GET", url: `${USAGE_URL}?from=yesterday` });
+    const reversed = await app.inject({
+      method: "GET",
+      url: `${USAGE_URL}?from=2025-03-02&to=2025-03-01`,
+    });
+
+    expect(invalid.statusCode).toBe(400);
+    expect(reversed.statusCode).toBe(400);
+  });
+
+  it("should only report the caller's sessions", async () => {
+    const users: Record<string, AuthUser> = {
+      alice: {
+        id: "alice-id",
+        displayName: "Alice",
+        credentials: { scheme: "bearer", token: "alice" },
+      },
+      bob: { id: "bob-id", displayName: "Bob", credentials: { scheme: "bearer", token: "bob" } },
+    };
+    const securedApp = await buildApp({
+      logger: false,
+      auth: { authenticate: async ({ token }) => users[token] },
+      llm: {} as never,
+      devOps: () => undefined,
+    });
+    await createSessionWithUsage(securedApp, "alice-id");
+
+    const reportFor = async (token: string) => {
+      const response = await securedApp.inject({
+        method: "GET",
+        url: USAGE_URL,
+        headers: { authorization: `Bearer ${token}` },
+      });
+      return response.json().total.requests;
+    };
+
+    expect(await reportFor("alice")).toBe(1);
+    expect(await reportFor("bob")).toBe(0);
+    await securedApp.close();
+  });
+});
@@ -0,0 +1,31 @@
+import type { FastifyInstance } from "fastify";
+import { z } from "zod";
+import type { UsageReportQuery } from "@azure-boards-ai/shared";
+import { canAccessSession } from "../auth/access.js";
+import { buildUsageReport } from "../usage/usage.js";
+
+const usageQuerySchema = z
+  .object({
+    organizationUrl: z.string().url().optional(),
+    from: z.string().date().optional(),
+    to: z.string().date().optional(),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: "from must not be after to",
+  });
+
+export async function usageRoutes(app: FastifyInstance) {
+  // Token and cost totals per organization and project of the caller's sessions, for chargeback
+  app.get<{ Querystring: UsageReportQuery }>("/", async (request, reply) => {
+    const parsed = usageQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: parsed.error.message });
+    }
+
+    const sessions = await app.sessions.list();
+    return buildUsageReport(
+      sessions.filter((session) => canAccessSession(session, request.user)),
+      parsed.data
+    );
+  });
+}
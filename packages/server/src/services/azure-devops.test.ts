@@ -0,0 +1,374 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  AzureDevOpsService,
+  OrganizationAccessError,
+  OrganizationNotAllowedError,
+  createCallerWorkItemClient,
+  createServerWorkItemClient,
+  createWorkItemClient,
+  isAllowedOrganizationUrl,
+  toJsonPatch,
+  toWorkItem,
+  workItemIdFromUrl,
+  workItemUrl,
+} from "./azure-devops.js";
+import {
+  FieldType,
+  WorkItemErrorPolicy,
+} from "azure-devops-node-api/interfaces/WorkItemTrackingInterfaces.js";
+import { RetryPolicy } from "./retry.js";
+
+const TEST_ORG_URL = "https://dev.azure.com/test";
+const OTHER_ORG_URL = "https://dev.azure.com/other";
+const AUTHOR = "Dana Smith";
+const TITLE = "System.Title";
+const ASSIGNED_TO = "System.AssignedTo";
+const PRIORITY = "Microsoft.VSTS.Common.Priority";
+
+const witApi = {
+  getWorkItem: vi.fn(),
+  getWorkItems: vi.fn(),
+  getComments: vi.fn(),
+  getUpdates: vi.fn(),
+  queryByWiql: vi.fn(),
+  getWorkItemTypes: vi.fn(),
+  getFields: vi.fn(),
+  getWorkItemTypeFieldsWithReferences: vi.fn(),
+  createWorkItem: vi.fn(),
+  updateWorkItem: vi.fn(),
+};
+
+vi.mock("azure-devops-node-api", () => ({
+  getPersonalAccessTokenHandler: vi.fn(),
+  WebApi: vi.fn().mockImplementation(function () {
+    return { getWorkItemTrackingApi: vi.fn().mockResolvedValue(witApi) };
+  }),
+}));
+
+describe("azure-devops helpers", () => {
+  it("should build and parse work item URLs", () => {
+    const url = workItemUrl(`${TEST_ORG_URL}/`, 42);
+
+    expect(url).toBe(`${TEST_ORG_URL}/_apis/wit/workItems/42`);
+    expect(workItemIdFromUrl(url)).toBe(42);
+    expect(workItemIdFromUrl("https://example.com/other")).toBeUndefined();
+  });
+
+  it("should map patch operations to Azure DevOps operations", () => {
+    expect(
+      toJsonPatch([
+        { op: "add", path: "/fields/System.Title", value: "Title" },
+        { op: "remove", path: "/fields/System.Tags" },
+      ])
+    ).toEqual([
+      { op: 0, path: "/fields/System.Title", value: "Title" },
+      { op: 1, path: "/fields/System.Tags", value: undefined },
+    ]);
+  });
+
+  it("should normalize work item fields and relations", () => {
+    const item = toWorkItem({
+      id: 1,
+      rev: 3,
+      fields: {
+        "System.Title": "Title",
+        "System.AssignedTo": { displayName: AUTHOR, uniqueName: "dana@example.com" },
+        "Microsoft.VSTS.Scheduling.StoryPoints": 5,
+        "System.BoardColumnDone": false,
+      },
+      relations: [{ rel: "System.LinkTypes.Related", url: workItemUrl(TEST_ORG_URL, 2) }],
+    });
+
+    expect(item.fields).toEqual({
+      "System.Title": "Title",
+      "System.AssignedTo": AUTHOR,
+      "Microsoft.VSTS.Scheduling.StoryPoints": 5,
+      "System.BoardColumnDone": "false",
+    });
+    expect(item.relations).toEqual([
+      { rel: "System.LinkTypes.Related", url: workItemUrl(TEST_ORG_URL, 2), attributes: undefined },
+    ]);
+  });
+
+  it("should only create a client when a token is available", () => {
+    expect(createWorkItemClient(TEST_ORG_URL, "")).toBeUndefined();
+    expect(createWorkItemClient(TEST_ORG_URL, "pat")).toBeInstanceOf(AzureDevOpsService);
+  });
+
+  it("should only send the server's PAT to its own organization", () => {
+    const config = { organizationUrl: TEST_ORG_URL, pat: "pat" };
+
+    expect(createServerWorkItemClient(`${TEST_ORG_URL.toUpperCase()}/`, config)).toBeInstanceOf(
+      AzureDevOpsService
+    );
+    expect(() => createServerWorkItemClient(OTHER_ORG_URL, config)).toThrow(
+      OrganizationAccessError
+    );
+    expect(createServerWorkItemClient(OTHER_ORG_URL, {})).toBeUndefined();
+  });
+
+  it("should only allow Azure DevOps organizations for callers' tokens", () => {
+    expect(isAllowedOrganizationUrl("https://dev.azure.com/contoso/", {})).toBe(true);
+    expect(isAllowedOrganizationUrl("https://contoso.visualstudio.com", {})).toBe(true);
+    expect(isAllowedOrganizationUrl("https://contoso.visualstudio.com/DefaultCollection", {})).toBe(
+      true
+    );
+
+    expect(isAllowedOrganizationUrl(TEST_ORG_URL.replace("https:", "http:"), {})).toBe(false);
+    expect(isAllowedOrganizationUrl("https://dev.azure.com", {})).toBe(false);
+    expect(isAllowedOrganizationUrl("https://dev.azure.com/contoso/project", {})).toBe(false);
+    expect(isAllowedOrganizationUrl("https://dev.azure.com.evil.test/contoso", {})).toBe(false);
+    expect(isAllowedOrganizationUrl("https://dev.azure.com:8443/contoso", {})).toBe(false);
+    expect(isAllowedOrganizationUrl("https://evil.test@dev.azure.com/contoso", {})).toBe(false);
+    expect(isAllowedOrganizationUrl("https://app.vssps.visualstudio.com", {})).toBe(false);
+    expect(isAllowedOrganizationUrl("not a url", {})).toBe(false);
+  });
+
+  it("should only allow the configured organizations when there is an allowlist", () => {
+    const config = {
+      organizationUrl: "https://tfs.contoso.test/DefaultCollection",
+      allowedOrganizationUrls: [TEST_ORG_URL],
+    };
+
+    expect(isAllowedOrganizationUrl(`${TEST_ORG_URL.toUpperCase()}/`, config)).toBe(true);
+    expect(isAllowedOrganizationUrl("https://tfs.contoso.test/DefaultCollection", config)).toBe(
+      true
+    );
+    expect(isAllowedOrganizationUrl(OTHER_ORG_URL, config)).toBe(false);
+    expect(() =>
+      createCallerWorkItemClient(OTHER_ORG_URL, { scheme: "bearer", token: "token" }, config)
+    ).toThrow(OrganizationNotAllowedError);
+  });
+});
+
+describe("AzureDevOpsService", () => {
+  let service: AzureDevOpsService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new AzureDevOpsService(TEST_ORG_URL, "pat");
+  });
+
+  it("should return undefined when a work item is not found", async () => {
+    witApi.getWorkItem.mockRejectedValueOnce(
+      Object.assign(new Error("missing"), { statusCode: 404 })
+    );
+
+    await expect(service.getWorkItem(404)).resolves.toBeUndefined();
+  });
+
+  it("should rethrow other errors", async () => {
+    witApi.getWorkItem.mockRejectedValueOnce(
+      Object.assign(new Error("denied"), { statusCode: 401 })
+    );
+
+    await expect(service.getWorkItem(1)).rejects.toThrow("denied");
+  });
+
+  it("should retry reads that failed upstream", async () => {
+    const retrying = new AzureDevOpsService(TEST_ORG_URL, "pat", {
+      retry: new RetryPolicy({ random: () => 0 }),
+    });
+    witApi.getWorkItem
+      .mockRejectedValueOnce(Object.assign(new Error("unavailable"), { statusCode: 503 }))
+      .mockResolvedValueOnce({ id: 7, fields: {} });
+
+    await expect(retrying.getWorkItem(7)).resolves.toMatchObject({ id: 7 });
+    expect(witApi.getWorkItem).toHaveBeenCalledTimes(2);
+  });
+
+  it("should only retry writes that were rate limited", async () => {
+    const retrying = new AzureDevOpsService(TEST_ORG_URL, "pat", {
+      retry: new RetryPolicy({ random: () => 0 }),
+    });
+    witApi.updateWorkItem
+      .mockRejectedValueOnce(Object.assign(new Error("throttled"), { statusCode: 429 }))
+      .mockRejectedValueOnce(Object.assign(new Error("unavailable"), { statusCode: 503 }));
+
+    await expect(retrying.updateWorkItem(7, [])).rejects.toThrow("unavailable");
+    expect(witApi.updateWorkItem).toHaveBeenCalledTimes(2);
+  });
+
+  it("should fetch work items in batches of 200", async () => {
+    witApi.getWorkItems.mockImplementation(async (ids: number[]) =>
+      ids.map((id) => ({ id, fields: {} }))
+    );
+
+    const ids = Array.from({ length: 250 }, (_, i) => i + 1);
+    const items = await service.getWorkItems(ids);
+
+    expect(items).toHaveLength(250);
+    expect(witApi.getWorkItems).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not expand relations when fetching selected fields", async () => {
+    witApi.getWorkItems.mockResolvedValueOnce([{ id: 1, fields: { "System.Title": "Title" } }]);
+
+    await service.getWorkItems([1], [TITLE]);
+
+    expect(witApi.getWorkItems).toHaveBeenCalledWith(
+      [1],
+      [TITLE],
+      undefined,
+      undefined,
+      WorkItemErrorPolicy.Omit
+    );
+  });
+
+  it("should return work item IDs from a WIQL query", async () => {
+    witApi.queryByWiql.mockResolvedValueOnce({ workItems: [{ id: 1 }, { id: 2 }] });
+
+    const ids = await service.queryByWiql("SELECT [System.Id] FROM WorkItems", "Project", 10);
+
+    expect(ids).toEqual([1, 2]);
+    expect(witApi.queryByWiql).toHaveBeenCalledWith(
+      { query: "SELECT [System.Id] FROM WorkItems" },
+      { project: "Project" },
+      undefined,
+      10
+    );
+  });
+
+  it("should return the latest comments oldest first, as markdown", async () => {
+    witApi.getComments.mockResolvedValueOnce({
+      totalCount: 12,
+      comments: [
+        {
+          id: 2,
+          text: "<p>Ship it <b>today</b></p>",
+          createdBy: { displayName: AUTHOR },
+          createdDate: new Date("2025-03-02T10:00:00Z"),
+        },
+        { id: 1, text: "First" },
+      ],
+    });
+
+    const page = await service.getComments("Project", 7, 2);
+
+    expect(page).toEqual({
+      totalCount: 12,
+      comments: [
+        { id: 1, text: "First", author: undefined, createdAt: undefined },
+        {
+          id: 2,
+          text: "Ship it **today**",
+          author: AUTHOR,
+          createdAt: "2025-03-02T10:00:00.000Z",
+        },
+      ],
+    });
+    expect(witApi.getComments).toHaveBeenCalledWith(
+      "Project",
+      7,
+      2,
+      undefined,
+      false,
+      undefined,
+      2
+    );
+  });
+
+  it("should page through revisions and drop bookkeeping changes", async () => {
+    const page = Array.from({ length: 200 }, (_, i) => ({
+      rev: i + 1,
+      fields: { "System.Rev": { oldValue: i, newValue: i + 1 } },
+    }));
+    witApi.getUpdates.mockResolvedValueOnce(page).mockResolvedValueOnce([
+      {
+        rev: 201,
+        revisedBy: { displayName: AUTHOR },
+        fields: {
+          "System.State": { oldValue: "New", newValue: "Active" },
+          "System.ChangedDate": { newValue: "2025-03-02T10:00:00Z" },
+        },
+      },
+    ]);
+
+    const revisions = await service.getRevisions(7);
+
+    expect(revisions).toEqual([
+      {
+        rev: 201,
+        changedBy: AUTHOR,
+        changedAt: "2025-03-02T10:00:00.000Z",
+        changes: [{ field: "System.State", from: "New", to: "Active" }],
+      },
+    ]);
+    expect(witApi.getUpdates).toHaveBeenLastCalledWith(7, 200, 200);
+  });
+
+  it("should skip the updates up to a given revision", async () => {
+    witApi.getUpdates.mockResolvedValueOnce([]);
+
+    await service.getRevisions(7, 180);
+
+    expect(witApi.getUpdates).toHaveBeenCalledOnce();
+    expect(witApi.getUpdates).toHaveBeenCalledWith(7, 200, 180);
+  });
+
+  it("should load enabled work item types with their states, fields and picklists", async () => {
+    witApi.getWorkItemTypes.mockResolvedValueOnce([
+      {
+        name: "Task",
+        states: [
+          { name: "New", category: "Proposed" },
+          { name: "Done", category: "Completed" },
+          { name: "Cut", category: "Removed" },
+        ],
+      },
+      { name: "Retired", isDisabled: true },
+    ]);
+    witApi.getFields.mockResolvedValueOnce([
+      { referenceName: TITLE, type: FieldType.String },
+      { referenceName: "System.Id", type: FieldType.Integer, readOnly: true },
+      { referenceName: ASSIGNED_TO, type: FieldType.String, isIdentity: true },
+      { referenceName: PRIORITY, type: FieldType.PicklistInteger },
+    ]);
+    witApi.getWorkItemTypeFieldsWithReferences.mockResolvedValueOnce([
+      { referenceName: TITLE, name: "Title", alwaysRequired: true },
+      { referenceName: "System.Id", name: "ID" },
+      { referenceName: ASSIGNED_TO, name: "Assigned To" },
+      {
+        referenceName: PRIORITY,
+        name: "Priority",
+        allowedValues: [1, 2],
+        defaultValue: 2,
+      },
+    ]);
+
+    const types = await service.getWorkItemTypes("Shop");
+
+    expect(types).toEqual([
+      {
+        name: "Task",
+        states: ["New", "Done", "Cut"],
+        removedState: "Cut",
+        fields: [
+          { referenceName: TITLE, name: "Title", type: "string", required: true },
+          {
+            referenceName: "System.Id",
+            name: "ID",
+            type: "integer",
+            required: false,
+            readOnly: true,
+          },
+          {
+            referenceName: ASSIGNED_TO,
+            name: "Assigned To",
+            type: "identity",
+            required: false,
+          },
+          {
+            referenceName: PRIORITY,
+            name: "Priority",
+            type: "integer",
+            required: false,
+            allowedValues: ["1", "2"],
+            defaultValue: "2",
+          },
+        ],
+      },
+    ]);
+    expect(witApi.getWorkItemTypeFieldsWithReferences).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,578 @@
+import * as azdev from "azure-devops-node-api";
+import type { IWorkItemTrackingApi } from "azure-devops-node-api/WorkItemTrackingApi.js";
+import { Operation } from "azure-devops-node-api/interfaces/common/VSSInterfaces.js";
+import type { JsonPatchDocument } from "azure-devops-node-api/interfaces/common/VSSInterfaces.js";
+import {
+  CommentSortOrder,
+  FieldType,
+  WorkItemErrorPolicy,
+  WorkItemExpand,
+  WorkItemTypeFieldsExpandLevel,
+} from "azure-devops-node-api/interfaces/WorkItemTrackingInterfaces.js";
+import type * as WitInterfaces from "azure-devops-node-api/interfaces/WorkItemTrackingInterfaces.js";
+import type {
+  FieldChange,
+  WorkItem,
+  WorkItemComment,
+  WorkItemRelation,
+  WorkItemFieldMetadata,
+  WorkItemFieldType,
+  WorkItemRevision,
+  WorkItemTypeMetadata,
+} from "@azure-boards-ai/shared";
+import { classifyError } from "./errors.js";
+import { htmlToMarkdown } from "./markdown.js";
+import { RetryPolicy } from "./retry.js";
+
+// Reference names of the fields the server reads and writes directly
+export const WorkItemFields = {
+  Id: "System.Id",
+  Title: "System.Title",
+  WorkItemType: "System.WorkItemType",
+  State: "System.State",
+  Description: "System.Description",
+  AcceptanceCriteria: "Microsoft.VSTS.Common.AcceptanceCriteria",
+  AssignedTo: "System.AssignedTo",
+  AreaPath: "System.AreaPath",
+  IterationPath: "System.IterationPath",
+  Tags: "System.Tags",
+  TeamProject: "System.TeamProject",
+  ChangedDate: "System.ChangedDate",
+  History: "System.History",
+} as const;
+
+// Fields Azure DevOps sets on every revision, left out of the change history
+const BOOKKEEPING_FIELDS = new Set<string>([
+  WorkItemFields.Id,
+  "System.Rev",
+  "System.Watermark",
+  "System.ChangedBy",
+  "System.AuthorizedDate",
+  "System.AuthorizedAs",
+  "System.RevisedDate",
+  "System.PersonId",
+  "System.CommentCount",
+  "System.AreaId",
+  "System.IterationId",
+  "System.NodeName",
+  "Microsoft.VSTS.Common.StateChangeDate",
+  WorkItemFields.ChangedDate,
+  // Comments are read through getComments
+  WorkItemFields.History,
+]);
+
+export const LinkTypes = {
+  parent: "System.LinkTypes.Hierarchy-Reverse",
+  child: "System.LinkTypes.Hierarchy-Forward",
+  related: "System.LinkTypes.Related",
+  predecessor: "System.LinkTypes.Dependency-Reverse",
+  successor: "System.LinkTypes.Dependency-Forward",
+} as const;
+
+export type LinkType = keyof typeof LinkTypes;
+
+// A user's own token, or a PAT when given as a plain string
+export interface DevOpsCredentials {
+  scheme: "bearer" | "pat";
+  token: string;
+}
+
+// The server's own PAT, used for requests made without a signed-in user
+export interface DevOpsConfig {
+  organizationUrl?: string;
+  pat?: string;
+  // Organizations callers may work in; any Azure DevOps Services organization when unset
+  allowedOrganizationUrls?: string[];
+}
+
+// The most recent comments on a work item, oldest first
+export interface WorkItemCommentPage {
+  comments: WorkItemComment[];
+  totalCount: number;
+}
+
+export interface PatchOperation {
+  op: "add" | "replace" | "remove" | "test";
+  path: string;
+  value?: unknown;
+}
+
+/**
+ * The subset of the Work Item Tracking API the server depends on. Kept narrow
+ * so tests can substitute an in-memory implementation.
+ */
+export interface WorkItemTrackingClient {
+  getWorkItem(id: number): Promise<WorkItem | undefined>;
+  // Items that do not exist or cannot be read are left out. Only the given
+  // fields and no relations are returned when `fields` is set.
+  getWorkItems(ids: number[], fields?: string[]): Promise<WorkItem[]>;
+  // Up to `top` of the latest discussion comments
+  getComments(project: string, id: number, top?: number): Promise<WorkItemCommentPage>;
+  // Every revision after `since` (all by default) that changed a field other than the
+  // bookkeeping ones, oldest first
+  getRevisions(id: number, since?: number): Promise<WorkItemRevision[]>;
+  queryByWiql(query: string, project: string, top?: number): Promise<number[]>;
+  // The enabled work item types of the project with their states and fields
+  getWorkItemTypes(project: string): Promise<WorkItemTypeMetadata[]>;
+  createWorkItem(project: string, type: string, patch: PatchOperation[]): Promise<WorkItem>;
+  updateWorkItem(id: number, patch: PatchOperation[]): Promise<WorkItem>;
+}
+
+const OPERATIONS: Record<PatchOperation["op"], Operation> = {
+  add: Operation.Add,
+  replace: Operation.Replace,
+  remove: Operation.Remove,
+  test: Operation.Test,
+};
+
+// The state category Azure DevOps hides from boards and backlogs
+const REMOVED_CATEGORY = "Removed";
+
+// getWorkItems accepts at most 200 ids per request
+const WORK_ITEMS_BATCH_SIZE = 200;
+
+// getComments and getUpdates return at most 200 entries per request
+const COMMENTS_PAGE_SIZE = 200;
+const UPDATES_PAGE_SIZE = 200;
+
+const FIELD_TYPES: Record<FieldType, WorkItemFieldType> = {
+  [FieldType.String]: "string",
+  [FieldType.Integer]: "integer",
+  [FieldType.DateTime]: "dateTime",
+  [FieldType.PlainText]: "plainText",
+  [FieldType.Html]: "html",
+  [FieldType.TreePath]: "treePath",
+  [FieldType.History]: "html",
+  [FieldType.Double]: "double",
+  [FieldType.Guid]: "string",
+  [FieldType.Boolean]: "boolean",
+  [FieldType.Identity]: "identity",
+  [FieldType.PicklistString]: "string",
+  [FieldType.PicklistInteger]: "integer",
+  [FieldType.PicklistDouble]: "double",
+};
+
+// A rate-limited write was not applied; other failures may have been, so they are not retried
+const WRITE_RETRY = { retryOn: (error: unknown) => classifyError(error) === "rate_limited" };
+
+export interface AzureDevOpsServiceOptions {
+  retry?: RetryPolicy;
+}
+
+export class AzureDevOpsService implements WorkItemTrackingClient {
+  private connection: azdev.WebApi;
+  private witApi?: Promise<IWorkItemTrackingApi>;
+  private retry: RetryPolicy;
+
+  constructor(
+    organizationUrl: string,
+    credentials: DevOpsCredentials | string,
+    options: AzureDevOpsServiceOptions = {}
+  ) {
+    this.connection = new azdev.WebApi(organizationUrl, requestHandler(credentials));
+    this.retry = options.retry ?? new RetryPolicy();
+  }
+
+  async getWorkItem(id: number): Promise<WorkItem | undefined> {
+    const api = await this.getApi();
+    try {
+      const item = await this.retry.run(() =>
+        api.getWorkItem(id, undefined, undefined, WorkItemExpand.Relations)
+      );
+      return item ? toWorkItem(item) : undefined;
+    } catch (error) {
+      if (isNotFound(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async getWorkItems(ids: number[], fields?: string[]): Promise<WorkItem[]> {
+    const api = await this.getApi();
+    const items: WorkItem[] = [];
+
+    for (let i = 0; i < ids.length; i += WORK_ITEMS_BATCH_SIZE) {
+      const batch = await this.retry.run(() =>
+        api.getWorkItems(
+          ids.slice(i, i + WORK_ITEMS_BATCH_SIZE),
+          fields,
+          undefined,
+          // The API rejects requests that set both fields and expand
+          fields ? undefined : WorkItemExpand.Relations,
+          // Items that were deleted or cannot be read come back as null instead of failing the batch
+          WorkItemErrorPolicy.Omit
+        )
+      );
+      items.push(...batch.filter(Boolean).map(toWorkItem));
+    }
+
+    return items;
+  }
+
+  async getComments(
+    project: string,
+    id: number,
+    top = COMMENTS_PAGE_SIZE
+  ): Promise<WorkItemCommentPage> {
+    const api = await this.getApi();
+    const list = await this.retry.run(() =>
+      api.getComments(
+        project,
+        id,
+        Math.min(top, COMMENTS_PAGE_SIZE),
+        undefined,
+        false,
+        undefined,
+        CommentSortOrder.Desc
+      )
+    );
+    const comments = (list.comments ?? []).map(toWorkItemComment).reverse();
+    return { comments, totalCount: list.totalCount ?? comments.length };
+  }
+
+  async getRevisions(id: number, since = 0): Promise<WorkItemRevision[]> {
+    const api = await this.getApi();
+    const revisions: WorkItemRevision[] = [];
+
+    // Each revision is one update, so the first `since` are skipped. Pages are requested
+    // until one comes back short
+    for (let skip = since; ; skip += UPDATES_PAGE_SIZE) {
+      const offset = skip;
+      const page = await this.retry.run(() => api.getUpdates(id, UPDATES_PAGE_SIZE, offset));
+      revisions.push(...page.flatMap(toWorkItemRevision));
+      if (page.length < UPDATES_PAGE_SIZE) {
+        break;
+      }
+    }
+    return revisions;
+  }
+
+  async queryByWiql(query: string, project: string, top?: number): Promise<number[]> {
+    const api = await this.getApi();
+    const result = await this.retry.run(() =>
+      api.queryByWiql({ query }, { project }, undefined, top)
+    );
+    return (result.workItems ?? []).flatMap((ref) => (ref.id === undefined ? [] : [ref.id]));
+  }
+
+  async getWorkItemTypes(project: string): Promise<WorkItemTypeMetadata[]> {
+    const api = await this.getApi();
+    const [types, fields] = await Promise.all([
+      this.retry.run(() => api.getWorkItemTypes(project)),
+      this.retry.run(() => api.getFields(project)),
+    ]);
+    const definitions = new Map(fields.map((field) => [field.referenceName, field]));
+
+    // Picklist values are only returned by the per-type fields request
+    return Promise.all(
+      types.flatMap(({ name, isDisabled, states }) =>
+        name && !isDisabled
+          ? [
+              this.retry
+                .run(() =>
+                  api.getWorkItemTypeFieldsWithReferences(
+                    project,
+                    name,
+                    WorkItemTypeFieldsExpandLevel.AllowedValues
+                  )
+                )
+                .then((typeFields) => ({
+                  name,
+                  states: (states ?? []).flatMap((state) => (state.name ? [state.name] : [])),
+                  removedState: states?.find((state) => state.category === REMOVED_CATEGORY)?.name,
+                  fields: typeFields.flatMap((field) =>
+                    toFieldMetadata(field, definitions.get(field.referenceName))
+                  ),
+                })),
+            ]
+          : []
+      )
+    );
+  }
+
+  async createWorkItem(project: string, type: string, patch: PatchOperation[]): Promise<WorkItem> {
+    const api = await this.getApi();
+    const item = await this.retry.run(
+      () => api.createWorkItem(undefined, toJsonPatch(patch), project, type),
+      WRITE_RETRY
+    );
+    return toWorkItem(item);
+  }
+
+  async updateWorkItem(id: number, patch: PatchOperation[]): Promise<WorkItem> {
+    const api = await this.getApi();
+    const item = await this.retry.run(
+      () => api.updateWorkItem(undefined, toJsonPatch(patch), id),
+      WRITE_RETRY
+    );
+    return toWorkItem(item);
+  }
+
+  private getApi(): Promise<IWorkItemTrackingApi> {
+    this.witApi ??= this.connection.getWorkItemTrackingApi();
+    return this.witApi;
+  }
+}
+
+export class OrganizationAccessError extends Error {
+  readonly statusCode = 403;
+
+  constructor(organizationUrl: string) {
+    super(`The server's Azure DevOps token is not configured for ${organizationUrl}`);
+    this.name = "OrganizationAccessError";
+  }
+}
+
+export class OrganizationNotAllowedError extends Error {
+  readonly statusCode = 403;
+
+  constructor(organizationUrl: string) {
+    super(`${organizationUrl} is not an allowed Azure DevOps organization`);
+    this.name = "OrganizationNotAllowedError";
+  }
+}
+
+/**
+ * Create a client for an organization using the given credentials, either a
+ * caller's or the server's PAT. Returns undefined when no token is available.
+ */
+export function createWorkItemClient(
+  organizationUrl: string,
+  credentials: DevOpsCredentials | string | undefined
+): WorkItemTrackingClient | undefined {
+  const token = typeof credentials === "string" ? credentials : credentials?.token;
+  return token && credentials ? new AzureDevOpsService(organizationUrl, credentials) : undefined;
+}
+
+export function requestHandler(credentials: DevOpsCredentials | string) {
+  if (typeof credentials === "string") {
+    return azdev.getPersonalAccessTokenHandler(credentials);
+  }
+  return credentials.scheme === "bearer"
+    ? azdev.getBearerHandler(credentials.token)
+    : azdev.getPersonalAccessTokenHandler(credentials.token);
+}
+
+export function workItemUrl(organizationUrl: string, id: number): string {
+  let baseUrl = organizationUrl;
+  while (baseUrl.endsWith("/")) {
+    baseUrl = baseUrl.slice(0, -1);
+  }
+  return `${baseUrl}/_apis/wit/workItems/${id}`;
+}
+
+export function workItemIdFromUrl(url: string): number | undefined {
+  const match = /\/workItems\/(\d+)$/i.exec(url);
+  return match ? Number(match[1]) : undefined;
+}
+
+// IDs of the work items linked from `item` with the given relation type
+export function linkedWorkItemIds(item: WorkItem, rel: string): number[] {
+  return (item.relations ?? []).flatMap((relation) => {
+    const id = relation.rel === rel ? workItemIdFromUrl(relation.url) : undefined;
+    return id === undefined ? [] : [id];
+  });
+}
+
+export function toJsonPatch(patch: PatchOperation[]): JsonPatchDocument {
+  return patch.map(({ op, path, value }) => ({ op: OPERATIONS[op], path, value }));
+}
+
+export function toWorkItem(item: WitInterfaces.WorkItem): WorkItem {
+  const fields: WorkItem["fields"] = {};
+  for (const [name, value] of Object.entries(item.fields ?? {})) {
+    fields[name] = normalizeFieldValue(value);
+  }
+
+  return {
+    id: item.id ?? 0,
+    rev: item.rev,
+    url: item.url,
+    fields,
+    relations: (item.relations ?? []).map(
+      (relation): WorkItemRelation => ({
+        rel: relation.rel ?? "",
+        url: relation.url ?? "",
+        attributes: relation.attributes,
+      })
+    ),
+  };
+}
+
+function toWorkItemComment(comment: WitInterfaces.Comment): WorkItemComment {
+  return {
+    id: comment.id ?? 0,
+    text: htmlToMarkdown(comment.text ?? ""),
+    author: comment.createdBy?.displayName,
+    createdAt: comment.createdDate ? new Date(comment.createdDate).toISOString() : undefined,
+  };
+}
+
+function toFieldMetadata(
+  field: WitInterfaces.WorkItemTypeFieldWithReferences,
+  definition: WitInterfaces.WorkItemField | undefined
+): WorkItemFieldMetadata[] {
+  if (!field.referenceName) {
+    return [];
+  }
+  const allowedValues = (field.allowedValues ?? []).map(String);
+  return [
+    {
+      referenceName: field.referenceName,
+      name: field.name ?? field.referenceName,
+      type: fieldType(definition),
+      required: field.alwaysRequired ?? false,
+      ...(definition?.readOnly && { readOnly: true }),
+      ...(allowedValues.length > 0 && { allowedValues }),
+      ...(field.defaultValue !== undefined &&
+        field.defaultValue !== null && { defaultValue: String(field.defaultValue) }),
+    },
+  ];
+}
+
+function fieldType(definition: WitInterfaces.WorkItemField | undefined): WorkItemFieldType {
+  if (definition?.isIdentity) {
+    return "identity";
+  }
+  return definition?.type === undefined ? "other" : (FIELD_TYPES[definition.type] ?? "other");
+}
+
+// Revisions that only touched bookkeeping fields, links or comments are dropped
+function toWorkItemRevision(update: WitInterfaces.WorkItemUpdate): WorkItemRevision[] {
+  const fields = update.fields ?? {};
+  const changes = Object.entries(fields).flatMap(([field, change]): FieldChange[] =>
+    BOOKKEEPING_FIELDS.has(field)
+      ? []
+      : [
+          {
+            field,
+            from: normalizeFieldValue(change.oldValue),
+            to: normalizeFieldValue(change.newValue),
+          },
+        ]
+  );
+  if (changes.length === 0) {
+    return [];
+  }
+
+  const changedAt = normalizeFieldValue(fields[WorkItemFields.ChangedDate]?.newValue);
+  return [
+    {
+      rev: update.rev ?? 0,
+      changedBy: update.revisedBy?.displayName,
+      changedAt: changedAt === undefined ? undefined : new Date(changedAt).toISOString(),
+      changes,
+    },
+  ];
+}
+
+// Identity fields come back as objects; everything else is flattened to string or number
+function normalizeFieldValue(value: unknown): string | number | undefined {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  if (typeof value === "number" || typeof value === "string") {
+    return value;
+  }
+  if (typeof value === "object" && "displayName" in value) {
+    return String((value as { displayName: unknown }).displayName);
+  }
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+// HTTP status of a failed Azure DevOps request, if the error carries one
+export function errorStatusCode(error: unknown): number | undefined {
+  if (typeof error !== "object" || error === null) {
+    return undefined;
+  }
+  const statusCode = (error as { statusCode?: unknown }).statusCode;
+  return typeof statusCode === "number" ? statusCode : undefined;
+}
+
+function isNotFound(error: unknown): boolean {
+  return errorStatusCode(error) === 404;
+}
+
+// Organization URLs that differ only by case or a trailing slash name the same organization
+function organizationKey(organizationUrl: string): string {
+  const url = organizationUrl.toLowerCase();
+  return url.endsWith("/") ? url.slice(0, -1) : url;
+}
+
+// An organization path segment, e.g. /contoso or a collection such as /DefaultCollection
+const ORGANIZATION_PATH = /^\/[\w.-]+$/;
+const VISUALSTUDIO_HOST = /^[a-z0-9][a-z0-9-]*\.visualstudio\.com$/;
+
+// https://dev.azure.com/<org> or https://<org>.visualstudio.com, with nothing else in the URL
+function isAzureDevOpsServicesUrl(organizationUrl: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(organizationUrl);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== "https:" || url.port || url.username || url.password) {
+    return false;
+  }
+  if (url.search || url.hash) {
+    return false;
+  }
+  const path = url.pathname.replace(/\/$/, "");
+  if (url.hostname === "dev.azure.com") {
+    return ORGANIZATION_PATH.test(path);
+  }
+  return VISUALSTUDIO_HOST.test(url.hostname) && (path === "" || ORGANIZATION_PATH.test(path));
+}
+
+/**
+ * Whether callers' tokens may be sent to an organization: one on the
+ * configured allowlist, or without one any Azure DevOps Services organization.
+ * The server's own organization is always allowed.
+ */
+export function isAllowedOrganizationUrl(organizationUrl: string, config: DevOpsConfig): boolean {
+  const key = organizationKey(organizationUrl);
+  if (config.organizationUrl && key === organizationKey(config.organizationUrl)) {
+    return true;
+  }
+  if (config.allowedOrganizationUrls) {
+    return config.allowedOrganizationUrls.some((allowed) => organizationKey(allowed) === key);
+  }
+  return isAzureDevOpsServicesUrl(organizationUrl);
+}
+
+/**
+ * Create a client acting with a caller's token. Organization URLs come from
+ * the caller, so only allowed organizations are contacted; the token is never
+ * sent to any other host.
+ */
+export function createCallerWorkItemClient(
+  organizationUrl: string,
+  credentials: DevOpsCredentials,
+  config: DevOpsConfig
+): WorkItemTrackingClient | undefined {
+  if (!isAllowedOrganizationUrl(organizationUrl, config)) {
+    throw new OrganizationNotAllowedError(organizationUrl);
+  }
+  return createWorkItemClient(organizationUrl, credentials);
+}
+
+/**
+ * Create a client acting with the server's own PAT. The token is only sent to
+ * the organization it is configured for; any other organization is refused.
+ */
+export function createServerWorkItemClient(
+  organizationUrl: string,
+  config: DevOpsConfig
+): WorkItemTrackingClient | undefined {
+  if (!config.pat) {
+    return undefined;
+  }
+  if (
+    !config.organizationUrl ||
+    organizationKey(organizationUrl) !== organizationKey(config.organizationUrl)
+  ) {
+    throw new OrganizationAccessError(organizationUrl);
+  }
+  return createWorkItemClient(organizationUrl, config.pat);
+}
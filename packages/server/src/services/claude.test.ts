@@ -1,5 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { ClaudeService } from "./claude.js";
+import Anthropic from "@anthropic-ai/sdk";
+import { ClaudeService, DEFAULT_MODEL, toAnthropicMessages } from "./claude.js";
+import { RetryPolicy } from "./retry.js";
 import type { Message } from "@azure-boards-ai/shared";
 
 const TEST_SYSTEM_PROMPT = "You are helpful";
@@ -22,15 +24,19 @@ describe("ClaudeService", () => {
   let service: ClaudeService;
 
   beforeEach(() => {
-    process.env.ANTHROPIC_API_KEY = "test-key";
-    service = new ClaudeService();
+    service = new ClaudeService({ apiKey: "test-key" });
   });
 
   describe("constructor", () => {
-    it("should throw if API key is missing", () => {
-      delete process.env.ANTHROPIC_API_KEY;
+    it("should pass the API key and base URL to the client", () => {
+      const proxied = new ClaudeService({ apiKey: "test-key", baseURL: "http://localhost:8080" });
 
-      expect(() => new ClaudeService()).toThrow("ANTHROPIC_API_KEY is required");
+      expect(proxied).toBeInstanceOf(ClaudeService);
+      expect(Anthropic).toHaveBeenLastCalledWith({
+        apiKey: "test-key",
+        baseURL: "http://localhost:8080",
+        maxRetries: 0,
+      });
     });
   });
 
@@ -114,14 +120,14 @@ describe("ClaudeService", () => {
         chunks.push(chunk);
       }
 
-      expect(chunks.length).toBe(2);
+      expect(chunks.length).toBe(3);
       expect(chunks[0].type).toBe("tool_use");
       expect(chunks[0].toolUse).toEqual({
         id: "tool_123",
         name: "search",
         input: { query: "test" },
       });
-      expect(chunks[1].type).toBe("done");
+      expect(chunks[2].type).toBe("done");
     });
 
     it("should handle mixed text and tool events", async () => {
@@ -167,14 +173,80 @@ describe("ClaudeService", () => {
         chunks.push(chunk);
       }
 
-      expect(chunks.length).toBe(4);
+      expect(chunks.length).toBe(5);
       expect(chunks[0].type).toBe("text");
       expect(chunks[0].text).toBe("Let me search for that.");
       expect(chunks[1].type).toBe("tool_use");
       expect(chunks[1].toolUse?.name).toBe("read_work_item");
       expect(chunks[2].type).toBe("text");
       expect(chunks[2].text).toBe(" Found it!");
-      expect(chunks[3].type).toBe("done");
+      expect(chunks[4].type).toBe("done");
+    });
+
+    it("should stream tool input deltas, usage and the stop reason", async () => {
+      const mockStream = {
+        [Symbol.asyncIterator]: async function* () {
+          yield {
+            type: "message_start",
+            message: {
+              model: DEFAULT_MODEL,
+              usage: {
+                input_tokens: 1200,
+                output_tokens: 1,
+                cache_creation_input_tokens: null,
+                cache_read_input_tokens: 800,
+              },
+            },
+          };
+          yield {
+            type: "content_block_start",
+            index: 0,
+            content_block: { type: "tool_use", id: "tool_789", name: "read_work_item", input: {} },
+          };
+          yield {
+            type: "content_block_delta",
+            index: 0,
+            delta: { type: "input_json_delta", partial_json: '{"id": 1' },
+          };
+          yield {
+            type: "content_block_delta",
+            index: 0,
+            delta: { type: "input_json_delta", partial_json: "23}" },
+          };
+          yield {
+            type: "message_delta",
+            delta: { stop_reason: "tool_use" },
+            usage: { output_tokens: 42 },
+          };
+        },
+      };
+
+      vi.spyOn(service["client"].messages, "stream").mockResolvedValueOnce(mockStream as never);
+
+      const chunks = [];
+      for await (const chunk of service.chat({ messages: [], systemPrompt: TEST_SYSTEM_PROMPT })) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks.map((chunk) => chunk.type)).toEqual([
+        "tool_use",
+        "tool_input_delta",
+        "tool_input_delta",
+        "usage",
+        "done",
+      ]);
+      expect(chunks[1].inputDelta).toEqual({ toolUseId: "tool_789", partialJson: '{"id": 1' });
+      expect(chunks[3]).toEqual({
+        type: "usage",
+        model: DEFAULT_MODEL,
+        usage: {
+          inputTokens: 1200,
+          outputTokens: 42,
+          cacheCreationInputTokens: 0,
+          cacheReadInputTokens: 800,
+        },
+      });
+      expect(chunks[4].stopReason).toBe("tool_use");
     });
 
     it("should pass tools to Claude API", async () => {
@@ -214,13 +286,146 @@ describe("ClaudeService", () => {
         // Continue consuming
       }
 
-      expect(streamSpy).toHaveBeenCalledWith({
-        model: "claude-sonnet-4-5-20250929",
-        max_tokens: 8192,
-        system: TEST_SYSTEM_PROMPT,
-        messages: [{ role: "user", content: "Help me" }],
+      expect(streamSpy).toHaveBeenCalledWith(
+        {
+          model: DEFAULT_MODEL,
+          max_tokens: 8192,
+          system: TEST_SYSTEM_PROMPT,
+          messages: [{ role: "user", content: "Help me" }],
+          tools,
+        },
+        { signal: undefined }
+      );
+    });
+
+    it("should retry an overloaded request before anything was streamed", async () => {
+      const retrying = new ClaudeService({
+        apiKey: "test-key",
+        retry: new RetryPolicy({ random: () => 0 }),
+      });
+      const streamSpy = vi.spyOn(retrying["client"].messages, "stream");
+      streamSpy.mockRejectedValueOnce(Object.assign(new Error("Overloaded"), { status: 529 }));
+
+      const chunks = [];
+      for await (const chunk of retrying.chat({
+        messages: [{ id: "1", role: "user", content: "Hi", createdAt: new Date() }],
+        systemPrompt: TEST_SYSTEM_PROMPT,
+      })) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks[0]).toEqual({ type: "text", text: "Hello" });
+    });
+
+    it("should add cache breakpoints when prompt caching is on", async () => {
+      const streamSpy = vi.spyOn(service["client"].messages, "stream");
+      streamSpy.mockClear();
+      const tools = [
+        { name: "first", input_schema: { type: "object" as const } },
+        { name: "last", input_schema: { type: "object" as const } },
+      ];
+
+      // eslint-disable-next-line sonarjs/no-unused-vars
+      for await (const _chunk of service.chat({
+        messages: [{ id: "1", role: "user", content: "Hi", createdAt: new Date() }],
+        systemPrompt: ["Static", "Flow", "Context"],
         tools,
+        promptCache: true,
+      })) {
+        // Continue consuming
+      }
+
+      const [params] = streamSpy.mock.calls[0];
+      expect(params.system).toEqual([
+        { type: "text", text: "Static" },
+        { type: "text", text: "Flow", cache_control: { type: "ephemeral" } },
+        { type: "text", text: "Context", cache_control: { type: "ephemeral" } },
+      ]);
+      expect(params.tools).toEqual([
+        tools[0],
+        { ...tools[1], cache_control: { type: "ephemeral" } },
+      ]);
+      expect(params.messages[0].content).toEqual([
+        { type: "text", text: "Hi", cache_control: { type: "ephemeral" } },
+      ]);
+    });
+
+    it("should apply model settings over the service defaults", async () => {
+      const configured = new ClaudeService({
+        apiKey: "test-key",
+        model: "claude-haiku-4-5",
+        temperature: 0.5,
+        maxTokens: 2048,
       });
+      const streamSpy = vi.spyOn(configured["client"].messages, "stream");
+      streamSpy.mockClear();
+
+      // eslint-disable-next-line sonarjs/no-unused-vars
+      for await (const _chunk of configured.chat({
+        messages: [{ id: "1", role: "user", content: "Hi", createdAt: new Date() }],
+        systemPrompt: TEST_SYSTEM_PROMPT,
+        temperature: 0,
+        maxTokens: 512,
+      })) {
+        // Continue consuming
+      }
+
+      expect(streamSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ model: "claude-haiku-4-5", temperature: 0, max_tokens: 512 }),
+        { signal: undefined }
+      );
     });
   });
 });
+
+describe("toAnthropicMessages", () => {
+  it("should convert tool calls and results to content blocks", () => {
+    const messages: Message[] = [
+      {
+        id: "1",
+        role: "assistant",
+        content: "Checking",
+        toolCalls: [{ id: "tool_1", name: "read_work_item", input: { id: 1 } }],
+        createdAt: new Date(),
+      },
+      {
+        id: "2",
+        role: "user",
+        content: "",
+        toolResults: [{ toolCallId: "tool_1", content: "{}", isError: false }],
+        createdAt: new Date(),
+      },
+    ];
+
+    expect(toAnthropicMessages(messages)).toEqual([
+      {
+        role: "assistant",
+        content: [
+          { type: "text", text: "Checking" },
+          { type: "tool_use", id: "tool_1", name: "read_work_item", input: { id: 1 } },
+        ],
+      },
+      {
+        role: "user",
+        content: [{ type: "tool_result", tool_use_id: "tool_1", content: "{}", is_error: false }],
+      },
+    ]);
+  });
+
+  it("should mark the end of the transcript as a cache breakpoint", () => {
+    const messages: Message[] = [
+      { id: "1", role: "user", content: "First", createdAt: new Date() },
+      { id: "2", role: "assistant", content: "Answer", createdAt: new Date() },
+      { id: "3", role: "user", content: "Second", createdAt: new Date() },
+    ];
+
+    expect(toAnthropicMessages(messages, true)).toEqual([
+      { role: "user", content: "First" },
+      { role: "assistant", content: "Answer" },
+      {
+        role: "user",
+        content: [{ type: "text", text: "Second", cache_control: { type: "ephemeral" } }],
+      },
+    ]);
+  });
+});
@@ -1,59 +1,64 @@
 import Anthropic from "@anthropic-ai/sdk";
-import type { Message } from "@azure-boards-ai/shared";
+import type { Message, ModelSettings, TokenUsage } from "@azure-boards-ai/shared";
+import type { ChatChunk, ChatOptions, LlmProvider } from "./llm.js";
+import { RetryPolicy } from "./retry.js";
 
-export interface ChatOptions {
-  messages: Message[];
-  systemPrompt: string;
-  tools?: Anthropic.Tool[];
-}
+export const DEFAULT_MODEL = "claude-sonnet-4-5-20250929";
 
-export interface ChatChunk {
-  type: "text" | "tool_use" | "done";
-  text?: string;
-  toolUse?: {
-    id: string;
-    name: string;
-    input: Record<string, unknown>;
-  };
+// Output tokens reserved for each response
+export const DEFAULT_MAX_TOKENS = 8192;
+
+export interface ClaudeServiceOptions extends ModelSettings {
+  apiKey: string;
+  // A proxy or local stand-in speaking the Messages API
+  baseURL?: string;
+  retry?: RetryPolicy;
 }
 
-export class ClaudeService {
+export class ClaudeService implements LlmProvider {
   private client: Anthropic;
+  private defaults: ModelSettings;
+  private retry: RetryPolicy;
 
-  constructor() {
-    const apiKey = process.env.ANTHROPIC_API_KEY;
-    if (!apiKey) {
-      throw new Error("ANTHROPIC_API_KEY is required");
-    }
-
-    this.client = new Anthropic({
-      apiKey,
-    });
+  constructor(options: ClaudeServiceOptions) {
+    const { apiKey, baseURL, retry, ...defaults } = options;
+    // Retries are left to the policy, which knows whether output was already streamed
+    this.client = new Anthropic({ apiKey, baseURL, maxRetries: 0 });
+    this.defaults = defaults;
+    this.retry = retry ?? new RetryPolicy();
   }
 
-  async *chat(options: ChatOptions): AsyncGenerator<ChatChunk> {
-    const { messages, systemPrompt, tools } = options;
-
-    const anthropicMessages = messages.map((msg) => ({
-      role: msg.role,
-      content: msg.content,
-    }));
+  chat(options: ChatOptions): AsyncGenerator<ChatChunk> {
+    return this.retry.stream(() => this.streamOnce(options), { signal: options.signal });
+  }
 
-    const stream = await this.client.messages.stream({
-      model: "claude-sonnet-4-5-20250929",
-      max_tokens: 8192,
-      system: systemPrompt,
-      messages: anthropicMessages,
-      tools,
+  private async *streamOnce(options: ChatOptions): AsyncGenerator<ChatChunk> {
+    const stream = await this.client.messages.stream(this.toParams(options), {
+      signal: options.signal,
     });
 
+    // Tool input arrives as input_json_delta events keyed by content block index
+    const toolUseIds = new Map<number, string>();
+    let stopReason: ChatChunk["stopReason"];
+    let model: string | undefined;
+    let usage = toTokenUsage();
+
     for await (const event of stream) {
       if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
         yield {
           type: "text",
           text: event.delta.text,
         };
+      } else if (event.type === "content_block_delta" && event.delta.type === "input_json_delta") {
+        const toolUseId = toolUseIds.get(event.index);
+        if (toolUseId) {
+          yield {
+            type: "tool_input_delta",
+            inputDelta: { toolUseId, partialJson: event.delta.partial_json },
+          };
+        }
       } else if (event.type === "content_block_start" && event.content_block.type === "tool_use") {
+        toolUseIds.set(event.index, event.content_block.id);
         yield {
           type: "tool_use",
           toolUse: {
@@ -62,9 +67,121 @@ export class ClaudeService {
             input: event.content_block.input as Record<string, unknown>,
           },
         };
+      } else if (event.type === "message_start") {
+        model = event.message.model;
+        usage = toTokenUsage(event.message.usage);
+      } else if (event.type === "message_delta") {
+        stopReason = event.delta.stop_reason;
+        // The delta carries the final, cumulative output count
+        usage.outputTokens = event.usage.output_tokens;
       }
     }
 
-    yield { type: "done" };
+    yield { type: "usage", usage, model };
+    yield { type: "done", stopReason };
   }
+
+  private toParams(options: ChatOptions): Anthropic.MessageStreamParams {
+    const { messages, systemPrompt, tools, promptCache = false } = options;
+    const temperature = options.temperature ?? this.defaults.temperature;
+
+    return {
+      model: options.model ?? this.defaults.model ?? DEFAULT_MODEL,
+      max_tokens: options.maxTokens ?? this.defaults.maxTokens ?? DEFAULT_MAX_TOKENS,
+      ...(temperature !== undefined && { temperature }),
+      system: toSystemPrompt(systemPrompt, promptCache),
+      messages: toAnthropicMessages(messages, promptCache),
+      tools: tools && promptCache ? withCacheBreakpoint(tools) : tools,
+    };
+  }
+}
+
+function toTokenUsage(usage?: Anthropic.Usage): TokenUsage {
+  return {
+    inputTokens: usage?.input_tokens ?? 0,
+    outputTokens: usage?.output_tokens ?? 0,
+    cacheCreationInputTokens: usage?.cache_creation_input_tokens ?? 0,
+    cacheReadInputTokens: usage?.cache_read_input_tokens ?? 0,
+  };
+}
+
+/**
+ * The API accepts at most four cache breakpoints. One goes after the tools and
+ * one after the transcript, leaving two for the system prompt's last parts.
+ */
+const SYSTEM_CACHE_BREAKPOINTS = 2;
+
+const EPHEMERAL: Anthropic.CacheControlEphemeral = { type: "ephemeral" };
+
+function toSystemPrompt(
+  systemPrompt: string | string[],
+  promptCache: boolean
+): string | Anthropic.TextBlockParam[] {
+  if (typeof systemPrompt === "string") {
+    return systemPrompt;
+  }
+  const firstCached = systemPrompt.length - SYSTEM_CACHE_BREAKPOINTS;
+  return systemPrompt.map((text, index) => ({
+    type: "text",
+    text,
+    ...(promptCache && index >= firstCached && { cache_control: EPHEMERAL }),
+  }));
+}
+
+function withCacheBreakpoint<T extends object>(
+  items: T[]
+): Array<T & { cache_control?: Anthropic.CacheControlEphemeral }> {
+  return items.map((item, index) =>
+    index === items.length - 1 ? { ...item, cache_control: EPHEMERAL } : item
+  );
+}
+
+/**
+ * Convert transcript messages to Anthropic message params. Plain text messages
+ * are sent as strings; messages carrying tool calls or results become content
+ * blocks. With `promptCache`, the last block gets a breakpoint so the next turn
+ * reads the whole transcript so far from the cache.
+ */
+export function toAnthropicMessages(
+  messages: Message[],
+  promptCache = false
+): Anthropic.MessageParam[] {
+  const params = messages.map(toAnthropicMessage);
+  const last = params.at(-1);
+  // Empty text blocks are rejected, so an empty message gets no breakpoint
+  if (promptCache && last && last.content.length > 0) {
+    const content =
+      typeof last.content === "string"
+        ? [{ type: "text" as const, text: last.content }]
+        : last.content;
+    params[params.length - 1] = { ...last, content: withCacheBreakpoint(content) };
+  }
+  return params;
+}
+
+function toAnthropicMessage(msg: Message): Anthropic.MessageParam {
+  if (!msg.toolCalls?.length && !msg.toolResults?.length) {
+    return { role: msg.role, content: msg.content };
+  }
+
+  const content: Anthropic.ContentBlockParam[] = [];
+
+  for (const result of msg.toolResults ?? []) {
+    content.push({
+      type: "tool_result",
+      tool_use_id: result.toolCallId,
+      content: result.content,
+      is_error: result.isError,
+    });
+  }
+
+  if (msg.content) {
+    content.push({ type: "text", text: msg.content });
+  }
+
+  for (const call of msg.toolCalls ?? []) {
+    content.push({ type: "tool_use", id: call.id, name: call.name, input: call.input });
+  }
+
+  return { role: msg.role, content };
 }
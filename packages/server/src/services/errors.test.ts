@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { classifyError, isTransient, retryAfterMs, toErrorChunk } from "./errors.js";
+
+function httpError(status: number, headers?: Record<string, string>) {
+  return Object.assign(new Error(`HTTP ${status}`), { status, headers });
+}
+
+describe("classifyError", () => {
+  it("should map HTTP statuses to error codes", () => {
+    expect(classifyError(httpError(401))).toBe("auth");
+    expect(classifyError(httpError(403))).toBe("permission");
+    expect(classifyError(httpError(404))).toBe("not_found");
+    expect(classifyError(httpError(429))).toBe("rate_limited");
+    expect(classifyError(httpError(529))).toBe("upstream");
+    expect(classifyError(httpError(400))).toBeUndefined();
+  });
+
+  it("should read the statusCode of Azure DevOps and domain errors", () => {
+    expect(classifyError(Object.assign(new Error("denied"), { statusCode: 403 }))).toBe(
+      "permission"
+    );
+  });
+
+  it("should treat network failures and streamed overloads as upstream", () => {
+    const reset = Object.assign(new Error("socket hang up"), { code: "ECONNRESET" });
+    const fetchFailed = new Error("fetch failed", { cause: reset });
+    const overloaded = new Error('{"type":"error","error":{"type":"overloaded_error"}}');
+
+    expect(classifyError(fetchFailed)).toBe("upstream");
+    expect(classifyError(overloaded)).toBe("upstream");
+    expect(classifyError(new Error("Something else"))).toBeUndefined();
+  });
+
+  it("should only consider rate limits and upstream failures transient", () => {
+    expect(isTransient(httpError(429))).toBe(true);
+    expect(isTransient(httpError(503))).toBe(true);
+    expect(isTransient(httpError(401))).toBe(false);
+  });
+});
+
+describe("retryAfterMs", () => {
+  it("should read seconds, HTTP dates and milliseconds", () => {
+    const now = Date.parse("2025-01-01T00:00:00Z");
+
+    expect(retryAfterMs(httpError(429, { "retry-after": "2" }))).toBe(2000);
+    expect(
+      retryAfterMs(httpError(429, { "retry-after": "Wed, 01 Jan 2025 00:00:05 GMT" }), now)
+    ).toBe(5000);
+    expect(retryAfterMs(httpError(429, { "retry-after-ms": "150", "retry-after": "1" }))).toBe(150);
+    expect(retryAfterMs(httpError(429))).toBeUndefined();
+  });
+});
+
+describe("toErrorChunk", () => {
+  it("should carry the message and code", () => {
+    expect(toErrorChunk(httpError(429))).toEqual({
+      type: "error",
+      error: "HTTP 429",
+      errorCode: "rate_limited",
+    });
+    expect(toErrorChunk("oops")).toEqual({ type: "error", error: "Unknown error" });
+  });
+});
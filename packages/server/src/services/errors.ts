@@ -0,0 +1,100 @@
+import type { StreamChunk, StreamErrorCode } from "@azure-boards-ai/shared";
+
+const STATUS_CODES: Record<number, StreamErrorCode> = {
+  401: "auth",
+  403: "permission",
+  404: "not_found",
+  429: "rate_limited",
+};
+
+// Connection failures that never reached the service
+const NETWORK_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "ENOTFOUND",
+  "EPIPE",
+]);
+
+/**
+ * HTTP status of a failed request. The Anthropic SDK reports it as `status`,
+ * Azure DevOps and the server's own domain errors as `statusCode`.
+ */
+export function errorStatus(error: unknown): number | undefined {
+  if (typeof error !== "object" || error === null) {
+    return undefined;
+  }
+  const { status, statusCode } = error as { status?: unknown; statusCode?: unknown };
+  if (typeof status === "number") {
+    return status;
+  }
+  return typeof statusCode === "number" ? statusCode : undefined;
+}
+
+export function classifyError(error: unknown): StreamErrorCode | undefined {
+  const status = errorStatus(error);
+  if (status !== undefined) {
+    return STATUS_CODES[status] ?? (status >= 500 ? "upstream" : undefined);
+  }
+  return isConnectionFailure(error) ? "upstream" : undefined;
+}
+
+// Failures worth retrying: the request may succeed later without changes
+export function isTransient(error: unknown): boolean {
+  const code = classifyError(error);
+  return code === "rate_limited" || code === "upstream";
+}
+
+/**
+ * Delay requested by a retry-after (seconds or HTTP date) or retry-after-ms
+ * response header, if the error carries one.
+ */
+export function retryAfterMs(error: unknown, now = Date.now()): number | undefined {
+  const headers = (error as { headers?: Record<string, string | null | undefined> } | null)
+    ?.headers;
+  if (!headers) {
+    return undefined;
+  }
+
+  const milliseconds = Number(headers["retry-after-ms"]);
+  if (headers["retry-after-ms"] && Number.isFinite(milliseconds)) {
+    return Math.max(0, milliseconds);
+  }
+
+  const value = headers["retry-after"];
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+export function toErrorChunk(error: unknown): StreamChunk {
+  const errorCode = classifyError(error);
+  return {
+    type: "error",
+    error: error instanceof Error ? error.message : "Unknown error",
+    ...(errorCode && { errorCode }),
+  };
+}
+
+// Network failures that never reached the service, and server errors reported
+// mid-stream, which the Anthropic SDK raises without a status
+function isConnectionFailure(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  const { code, cause } = error as Error & { code?: unknown; cause?: unknown };
+  if (typeof code === "string" && NETWORK_ERROR_CODES.has(code)) {
+    return true;
+  }
+  if (/"type":\s*"(overloaded_error|api_error)"/.test(error.message)) {
+    return true;
+  }
+  return isConnectionFailure(cause);
+}
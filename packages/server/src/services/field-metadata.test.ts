@@ -0,0 +1,57 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { WorkItemTypeMetadata } from "@azure-boards-ai/shared";
+import { InMemoryWorkItemClient } from "./in-memory-devops.js";
+import { FieldMetadataService, findType } from "./field-metadata.js";
+
+const ORG_URL = "https://dev.azure.com/test";
+const PROJECT = "Shop";
+
+const TASK: WorkItemTypeMetadata = {
+  name: "Task",
+  states: ["New", "Active", "Closed"],
+  fields: [{ referenceName: "System.Title", name: "Title", type: "string", required: true }],
+};
+
+describe("FieldMetadataService", () => {
+  let client: InMemoryWorkItemClient;
+  let now: number;
+  let metadata: FieldMetadataService;
+
+  beforeEach(() => {
+    client = new InMemoryWorkItemClient({ workItemTypes: [TASK] });
+    now = 0;
+    metadata = new FieldMetadataService({ ttlMs: 1000, now: () => now });
+  });
+
+  it("should load a project's types once per TTL", async () => {
+    const load = vi.spyOn(client, "getWorkItemTypes");
+
+    await Promise.all([
+      metadata.getTypes(client, ORG_URL, PROJECT),
+      metadata.getTypes(client, ORG_URL, "shop"),
+    ]);
+    now = 999;
+    await expect(metadata.getTypes(client, ORG_URL, PROJECT)).resolves.toEqual([TASK]);
+    now = 1000;
+    await metadata.getTypes(client, ORG_URL, PROJECT);
+
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it("should load again after a failed load", async () => {
+    const load = vi
+      .spyOn(client, "getWorkItemTypes")
+      .mockRejectedValueOnce(new Error("unavailable"));
+
+    await expect(metadata.getTypes(client, ORG_URL, PROJECT)).rejects.toThrow("unavailable");
+    await expect(metadata.getTypes(client, ORG_URL, PROJECT)).resolves.toEqual([TASK]);
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("findType", () => {
+  it("should match type names case-insensitively", () => {
+    expect(findType([TASK], "task")).toBe(TASK);
+    expect(findType([TASK], "Bug")).toBeUndefined();
+  });
+});
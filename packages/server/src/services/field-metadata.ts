@@ -0,0 +1,60 @@
+import type { WorkItemTypeMetadata } from "@azure-boards-ai/shared";
+import type { WorkItemTrackingClient } from "./azure-devops.js";
+
+export interface FieldMetadataOptions {
+  // How long a project's types are used before they are loaded again
+  ttlMs?: number;
+  now?: () => number;
+}
+
+interface CachedTypes {
+  loadedAt: number;
+  types: Promise<WorkItemTypeMetadata[]>;
+}
+
+/**
+ * Work item types, states and fields per project. Processes rarely change, so
+ * a project's types are loaded once per TTL and shared by every session.
+ */
+export class FieldMetadataService {
+  private ttlMs: number;
+  private now: () => number;
+  private cache: Map<string, CachedTypes> = new Map();
+
+  constructor(options: FieldMetadataOptions = {}) {
+    this.ttlMs = options.ttlMs ?? 60 * 60 * 1000;
+    this.now = options.now ?? Date.now;
+  }
+
+  // Concurrent callers share one request; a failed load is not cached
+  getTypes(
+    client: WorkItemTrackingClient,
+    organizationUrl: string,
+    project: string
+  ): Promise<WorkItemTypeMetadata[]> {
+    const key = `${organizationUrl}|${project.toLowerCase()}`;
+    const cached = this.cache.get(key);
+    if (cached && this.now() - cached.loadedAt < this.ttlMs) {
+      return cached.types;
+    }
+
+    const types = client.getWorkItemTypes(project);
+    const entry = { loadedAt: this.now(), types };
+    this.cache.set(key, entry);
+    types.catch(() => {
+      if (this.cache.get(key) === entry) {
+        this.cache.delete(key);
+      }
+    });
+    return types;
+  }
+}
+
+// Type names are matched case-insensitively, like Azure DevOps does
+export function findType(
+  types: WorkItemTypeMetadata[],
+  name: string
+): WorkItemTypeMetadata | undefined {
+  const lower = name.toLowerCase();
+  return types.find((type) => type.name.toLowerCase() === lower);
+}
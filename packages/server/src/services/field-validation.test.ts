@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { WorkItemTypeMetadata } from "@azure-boards-ai/shared";
+import { InMemoryWorkItemClient } from "./in-memory-devops.js";
+import { FieldMetadataService } from "./field-metadata.js";
+import {
+  FieldValidationError,
+  ValidatingWorkItemClient,
+  patchedFields,
+  validateFields,
+} from "./field-validation.js";
+
+const PROJECT = "Shop";
+const USER_STORY = "User Story";
+const TITLE = "System.Title";
+const STATE = "System.State";
+const PRIORITY = "Microsoft.VSTS.Common.Priority";
+const ACCEPTANCE_CRITERIA = "Microsoft.VSTS.Common.AcceptanceCriteria";
+
+const STORY: WorkItemTypeMetadata = {
+  name: USER_STORY,
+  states: ["New", "Active", "Closed"],
+  fields: [
+    { referenceName: TITLE, name: "Title", type: "string", required: true },
+    { referenceName: STATE, name: "State", type: "string", required: true, defaultValue: "New" },
+    { referenceName: "System.Id", name: "ID", type: "integer", required: false, readOnly: true },
+    {
+      referenceName: PRIORITY,
+      name: "Priority",
+      type: "integer",
+      required: false,
+      allowedValues: ["1", "2", "3", "4"],
+    },
+    {
+      referenceName: ACCEPTANCE_CRITERIA,
+      name: "Acceptance Criteria",
+      type: "html",
+      required: false,
+    },
+    {
+      referenceName: "Microsoft.VSTS.Scheduling.StoryPoints",
+      name: "Story Points",
+      type: "double",
+      required: false,
+    },
+  ],
+};
+
+describe("validateFields", () => {
+  it("should accept values that match the type", () => {
+    expect(
+      validateFields(STORY, {
+        [TITLE]: "Pay with saved cards",
+        "system.state": "Active",
+        [PRIORITY]: 2,
+        "Microsoft.VSTS.Scheduling.StoryPoints": "2.5",
+      })
+    ).toEqual([]);
+  });
+
+  it("should point guessed field names at the field of the process", () => {
+    expect(
+      validateFields(STORY, {
+        "Microsoft.VSTS.Scrum.AcceptanceCriteria": "Given",
+        "Acceptance Criteria": "Given",
+        "Custom.Risk": "High",
+      })
+    ).toEqual([
+      `Microsoft.VSTS.Scrum.AcceptanceCriteria is not a field of User Story; did you mean ${ACCEPTANCE_CRITERIA}?`,
+      `Acceptance Criteria is not a field of User Story; did you mean ${ACCEPTANCE_CRITERIA}?`,
+      "Custom.Risk is not a field of User Story",
+    ]);
+  });
+
+  it("should reject values outside the states, picklists and field types", () => {
+    expect(
+      validateFields(STORY, {
+        [STATE]: "Done",
+        [PRIORITY]: 5,
+        "Microsoft.VSTS.Scheduling.StoryPoints": "a lot",
+        "System.Id": 7,
+        [TITLE]: null,
+      })
+    ).toEqual([
+      `${STATE} cannot be "Done"; use one of: New, Active, Closed`,
+      `${PRIORITY} cannot be "5"; use one of: 1, 2, 3, 4`,
+      "Microsoft.VSTS.Scheduling.StoryPoints must be a number",
+      "System.Id is read-only",
+      `${TITLE} is required and cannot be cleared`,
+    ]);
+  });
+
+  it("should require fields without a default when creating", () => {
+    expect(validateFields(STORY, { [PRIORITY]: 1 }, { create: true })).toEqual([
+      `${TITLE} is required`,
+    ]);
+  });
+});
+
+describe("patchedFields", () => {
+  it("should collect field values and removals", () => {
+    expect(
+      patchedFields([
+        { op: "add", path: `/fields/${TITLE}`, value: "Title" },
+        { op: "remove", path: `/fields/${PRIORITY}` },
+        { op: "add", path: "/relations/-", value: {} },
+      ])
+    ).toEqual({ [TITLE]: "Title", [PRIORITY]: null });
+  });
+});
+
+describe("ValidatingWorkItemClient", () => {
+  let inner: InMemoryWorkItemClient;
+  let client: ValidatingWorkItemClient;
+
+  beforeEach(() => {
+    inner = new InMemoryWorkItemClient({
+      workItemTypes: [STORY],
+      items: [
+        {
+          id: 1,
+          fields: { "System.TeamProject": PROJECT, "System.WorkItemType": USER_STORY },
+        },
+      ],
+    });
+    client = new ValidatingWorkItemClient(inner, new FieldMetadataService(), "https://test");
+  });
+
+  it("should reject invalid payloads before they are sent", async () => {
+    const create = vi.spyOn(inner, "createWorkItem");
+
+    await expect(
+      client.createWorkItem(PROJECT, USER_STORY, [
+        { op: "add", path: `/fields/${PRIORITY}`, value: 9 },
+      ])
+    ).rejects.toThrow(FieldValidationError);
+    await expect(client.createWorkItem(PROJECT, "Story", [])).rejects.toThrow(
+      "Story is not a work item type of this project; use one of: User Story"
+    );
+    await expect(
+      client.updateWorkItem(1, [{ op: "add", path: `/fields/${STATE}`, value: "Done" }])
+    ).rejects.toThrow(`${STATE} cannot be "Done"`);
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it("should send valid payloads", async () => {
+    const created = await client.createWorkItem(PROJECT, "user story", [
+      { op: "add", path: `/fields/${TITLE}`, value: "Pay" },
+    ]);
+    const updated = await client.updateWorkItem(created.id, [
+      { op: "add", path: `/fields/${STATE}`, value: "Active" },
+    ]);
+
+    expect(updated.fields[STATE]).toBe("Active");
+  });
+
+  it("should not check projects without type metadata", async () => {
+    const unchecked = new ValidatingWorkItemClient(
+      new InMemoryWorkItemClient(),
+      new FieldMetadataService(),
+      "https://test"
+    );
+
+    await expect(
+      unchecked.createWorkItem(PROJECT, "Anything", [
+        { op: "add", path: "/fields/Custom.Field", value: 1 },
+      ])
+    ).resolves.toMatchObject({ fields: { "Custom.Field": 1 } });
+  });
+});
@@ -0,0 +1,204 @@
+import type {
+  WorkItem,
+  WorkItemFieldMetadata,
+  WorkItemFieldType,
+  WorkItemRevision,
+  WorkItemTypeMetadata,
+} from "@azure-boards-ai/shared";
+import type {
+  PatchOperation,
+  WorkItemCommentPage,
+  WorkItemTrackingClient,
+} from "./azure-devops.js";
+import { WorkItemFields } from "./azure-devops.js";
+import { findType } from "./field-metadata.js";
+import type { FieldMetadataService } from "./field-metadata.js";
+
+// Allowed values listed in an error before the rest are elided
+const MAX_LISTED_VALUES = 25;
+
+const VALUE_CHECKS: Partial<
+  Record<WorkItemFieldType, { expected: string; test: (value: unknown) => boolean }>
+> = {
+  integer: { expected: "a whole number", test: (value) => Number.isInteger(Number(value)) },
+  double: { expected: "a number", test: (value) => Number.isFinite(Number(value)) },
+  boolean: {
+    expected: "true or false",
+    test: (value) => ["true", "false"].includes(String(value).toLowerCase()),
+  },
+  dateTime: {
+    expected: "an ISO 8601 date",
+    test: (value) => !Number.isNaN(Date.parse(String(value))),
+  },
+};
+
+export class FieldValidationError extends Error {
+  readonly statusCode = 400;
+
+  constructor(readonly issues: string[]) {
+    super(`The change does not match the project's process:\n- ${issues.join("\n- ")}`);
+    this.name = "FieldValidationError";
+  }
+}
+
+// Field values set by a patch, keyed by reference name; removed fields are null
+export function patchedFields(patch: PatchOperation[]): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  for (const { op, path, value } of patch) {
+    if (path.startsWith("/fields/") && op !== "test") {
+      fields[path.slice("/fields/".length)] = op === "remove" ? null : value;
+    }
+  }
+  return fields;
+}
+
+export function listValues(values: string[], max = MAX_LISTED_VALUES): string {
+  const listed = values.slice(0, max).join(", ");
+  return values.length > max ? `${listed} and ${values.length - max} more` : listed;
+}
+
+/**
+ * Problems with setting `fields` on a work item of `type`, as messages the
+ * model can act on. New work items must also set every required field that
+ * has no default.
+ */
+export function validateFields(
+  type: WorkItemTypeMetadata,
+  fields: Record<string, unknown>,
+  options: { create?: boolean } = {}
+): string[] {
+  const byName = new Map(type.fields.map((field) => [field.referenceName.toLowerCase(), field]));
+  const issues = Object.entries(fields).flatMap(([name, value]) => {
+    const field = byName.get(name.toLowerCase());
+    return field ? checkValue(type, field, value) : [unknownField(type, name)];
+  });
+
+  if (options.create) {
+    const provided = new Set(Object.keys(fields).map((name) => name.toLowerCase()));
+    const missing = type.fields.filter(
+      (field) => isRequiredInput(field) && !provided.has(field.referenceName.toLowerCase())
+    );
+    issues.push(...missing.map((field) => `${field.referenceName} is required`));
+  }
+  return issues;
+}
+
+// Required fields the caller has to set; Azure DevOps fills in the others
+export function isRequiredInput(field: WorkItemFieldMetadata): boolean {
+  return field.required && !field.readOnly && field.defaultValue === undefined;
+}
+
+function checkValue(
+  type: WorkItemTypeMetadata,
+  field: WorkItemFieldMetadata,
+  value: unknown
+): string[] {
+  const name = field.referenceName;
+  if (field.readOnly) {
+    return [`${name} is read-only`];
+  }
+  if (value === null || value === undefined || value === "") {
+    return field.required ? [`${name} is required and cannot be cleared`] : [];
+  }
+
+  const allowed = name === WorkItemFields.State ? type.states : field.allowedValues;
+  if (allowed?.length && !allowed.includes(String(value))) {
+    return [`${name} cannot be "${value}"; use one of: ${listValues(allowed)}`];
+  }
+  const check = VALUE_CHECKS[field.type];
+  return check && !check.test(value) ? [`${name} must be ${check.expected}`] : [];
+}
+
+function unknownField(type: WorkItemTypeMetadata, name: string): string {
+  // Guessed names usually get the namespace wrong, e.g. Microsoft.VSTS.Scrum.AcceptanceCriteria
+  const key = simplify(name.split(".").pop() ?? name);
+  const match = type.fields.find(
+    (field) =>
+      simplify(field.name) === key || simplify(field.referenceName.split(".").pop() ?? "") === key
+  );
+  const hint = match ? `; did you mean ${match.referenceName}?` : "";
+  return `${name} is not a field of ${type.name}${hint}`;
+}
+
+function simplify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Client that checks create and update payloads against the project's work
+ * item types before sending them, so a guessed field name or state fails with
+ * the names and values that would work. Projects without type metadata are
+ * not checked.
+ */
+export class ValidatingWorkItemClient implements WorkItemTrackingClient {
+  constructor(
+    private readonly client: WorkItemTrackingClient,
+    private readonly metadata: FieldMetadataService,
+    private readonly organizationUrl: string
+  ) {}
+
+  getWorkItem(id: number): Promise<WorkItem | undefined> {
+    return this.client.getWorkItem(id);
+  }
+
+  getWorkItems(ids: number[], fields?: string[]): Promise<WorkItem[]> {
+    return this.client.getWorkItems(ids, fields);
+  }
+
+  getComments(project: string, id: number, top?: number): Promise<WorkItemCommentPage> {
+    return this.client.getComments(project, id, top);
+  }
+
+  getRevisions(id: number, since?: number): Promise<WorkItemRevision[]> {
+    return this.client.getRevisions(id, since);
+  }
+
+  queryByWiql(query: string, project: string, top?: number): Promise<number[]> {
+    return this.client.queryByWiql(query, project, top);
+  }
+
+  getWorkItemTypes(project: string): Promise<WorkItemTypeMetadata[]> {
+    return this.metadata.getTypes(this.client, this.organizationUrl, project);
+  }
+
+  async createWorkItem(project: string, type: string, patch: PatchOperation[]): Promise<WorkItem> {
+    const types = await this.getWorkItemTypes(project);
+    if (types.length > 0) {
+      const metadata = findType(types, type);
+      const issues = metadata
+        ? validateFields(metadata, patchedFields(patch), { create: true })
+        : [`${type} is not a work item type of this project; use one of: ${listTypes(types)}`];
+      assertValid(issues);
+    }
+    return this.client.createWorkItem(project, type, patch);
+  }
+
+  async updateWorkItem(id: number, patch: PatchOperation[]): Promise<WorkItem> {
+    const fields = patchedFields(patch);
+    if (Object.keys(fields).length > 0) {
+      const [item] = await this.client.getWorkItems(
+        [id],
+        [WorkItemFields.TeamProject, WorkItemFields.WorkItemType]
+      );
+      const project = item?.fields[WorkItemFields.TeamProject]?.toString();
+      const type = item?.fields[WorkItemFields.WorkItemType]?.toString();
+      // A missing item is reported by the update itself
+      const metadata =
+        project && type ? findType(await this.getWorkItemTypes(project), type) : undefined;
+      if (metadata) {
+        assertValid(validateFields(metadata, fields));
+      }
+    }
+    return this.client.updateWorkItem(id, patch);
+  }
+}
+
+function listTypes(types: WorkItemTypeMetadata[]): string {
+  return listValues(types.map((type) => type.name));
+}
+
+function assertValid(issues: string[]): void {
+  if (issues.length > 0) {
+    throw new FieldValidationError(issues);
+  }
+}
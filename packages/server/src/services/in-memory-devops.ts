@@ -0,0 +1,178 @@
+import type {
+  FieldChange,
+  WorkItem,
+  WorkItemComment,
+  WorkItemRevision,
+  WorkItemTypeMetadata,
+} from "@azure-boards-ai/shared";
+import type {
+  PatchOperation,
+  WorkItemCommentPage,
+  WorkItemTrackingClient,
+} from "./azure-devops.js";
+import { WorkItemFields, workItemUrl } from "./azure-devops.js";
+
+const DEFAULT_ORGANIZATION_URL = "https://dev.azure.com/in-memory";
+
+export interface InMemoryWorkItemClientOptions {
+  organizationUrl?: string;
+  items?: WorkItem[];
+  // Discussion comments per work item ID, oldest first
+  comments?: Record<number, WorkItemComment[]>;
+  // The same types are returned for every project
+  workItemTypes?: WorkItemTypeMetadata[];
+  // WIQL is not interpreted; queries are answered by this resolver when provided
+  queryResolver?: (query: string, items: WorkItem[]) => number[];
+}
+
+/**
+ * WorkItemTrackingClient backed by a Map. Applies JSON Patch operations the same
+ * way Azure DevOps does for fields and relations, for tests and offline demos.
+ */
+export class InMemoryWorkItemClient implements WorkItemTrackingClient {
+  readonly queries: string[] = [];
+  private items: Map<number, WorkItem> = new Map();
+  private comments: Map<number, WorkItemComment[]>;
+  private revisions: Map<number, WorkItemRevision[]> = new Map();
+  private nextId: number;
+  private organizationUrl: string;
+  private queryResolver?: InMemoryWorkItemClientOptions["queryResolver"];
+  private workItemTypes: WorkItemTypeMetadata[];
+
+  constructor(options: InMemoryWorkItemClientOptions = {}) {
+    this.organizationUrl = options.organizationUrl ?? DEFAULT_ORGANIZATION_URL;
+    this.queryResolver = options.queryResolver;
+    this.workItemTypes = options.workItemTypes ?? [];
+    this.comments = new Map(
+      Object.entries(options.comments ?? {}).map(([id, comments]) => [Number(id), comments])
+    );
+    for (const item of options.items ?? []) {
+      this.items.set(item.id, structuredClone({ relations: [], ...item }));
+    }
+    this.nextId = Math.max(0, ...this.items.keys()) + 1;
+  }
+
+  async getWorkItem(id: number): Promise<WorkItem | undefined> {
+    const item = this.items.get(id);
+    return item ? structuredClone(item) : undefined;
+  }
+
+  async getWorkItems(ids: number[], fields?: string[]): Promise<WorkItem[]> {
+    return ids.flatMap((id) => {
+      const item = this.items.get(id);
+      if (!item) {
+        return [];
+      }
+      if (!fields) {
+        return [structuredClone(item)];
+      }
+      const selected = fields.filter((field) => item.fields[field] !== undefined);
+      return [
+        {
+          id,
+          rev: item.rev,
+          url: item.url,
+          fields: Object.fromEntries(selected.map((field) => [field, item.fields[field]])),
+        },
+      ];
+    });
+  }
+
+  async getComments(_project: string, id: number, top?: number): Promise<WorkItemCommentPage> {
+    const comments = this.comments.get(id) ?? [];
+    const latest = top === undefined ? comments : comments.slice(-top);
+    return { comments: structuredClone(latest), totalCount: comments.length };
+  }
+
+  // Revisions are recorded by updateWorkItem; items passed to the constructor start without any
+  async getRevisions(id: number, since = 0): Promise<WorkItemRevision[]> {
+    const revisions = this.revisions.get(id) ?? [];
+    return structuredClone(revisions.filter((revision) => revision.rev > since));
+  }
+
+  async queryByWiql(query: string, project: string, top?: number): Promise<number[]> {
+    this.queries.push(query);
+    const all = Array.from(this.items.values());
+    const ids = this.queryResolver
+      ? this.queryResolver(query, all)
+      : all
+          .filter((item) => item.fields[WorkItemFields.TeamProject] === project)
+          .map((item) => item.id);
+    return top === undefined ? ids : ids.slice(0, top);
+  }
+
+  async getWorkItemTypes(_project: string): Promise<WorkItemTypeMetadata[]> {
+    return structuredClone(this.workItemTypes);
+  }
+
+  async createWorkItem(project: string, type: string, patch: PatchOperation[]): Promise<WorkItem> {
+    const id = this.nextId++;
+    const item: WorkItem = {
+      id,
+      rev: 0,
+      url: workItemUrl(this.organizationUrl, id),
+      fields: {
+        [WorkItemFields.TeamProject]: project,
+        [WorkItemFields.WorkItemType]: type,
+        [WorkItemFields.State]: "New",
+      },
+      relations: [],
+    };
+    this.items.set(id, item);
+    return this.updateWorkItem(id, patch);
+  }
+
+  async updateWorkItem(id: number, patch: PatchOperation[]): Promise<WorkItem> {
+    const existing = this.items.get(id);
+    if (!existing) {
+      throw Object.assign(new Error(`Work item ${id} does not exist`), { statusCode: 404 });
+    }
+
+    const item = structuredClone(existing);
+    for (const operation of patch) {
+      applyOperation(item, operation);
+    }
+    item.rev = (item.rev ?? 0) + 1;
+
+    const changes = fieldChanges(existing, item);
+    if (changes.length > 0) {
+      const revisions = this.revisions.get(id) ?? [];
+      revisions.push({ rev: item.rev, changedAt: new Date().toISOString(), changes });
+      this.revisions.set(id, revisions);
+    }
+
+    this.items.set(id, item);
+    return structuredClone(item);
+  }
+}
+
+function applyOperation(item: WorkItem, operation: PatchOperation): void {
+  const [, target, key] = operation.path.split("/");
+
+  if (target === "fields") {
+    if (operation.op === "remove") {
+      delete item.fields[key];
+    } else if (operation.op !== "test") {
+      item.fields[key] = operation.value as string | number;
+    }
+    return;
+  }
+
+  if (target === "relations") {
+    const relations = (item.relations ??= []);
+    if (operation.op === "add") {
+      relations.push(operation.value as NonNullable<WorkItem["relations"]>[number]);
+    } else if (operation.op === "remove") {
+      relations.splice(Number(key), 1);
+    }
+  }
+}
+
+function fieldChanges(before: WorkItem, after: WorkItem): FieldChange[] {
+  const fields = new Set([...Object.keys(before.fields), ...Object.keys(after.fields)]);
+  return [...fields].flatMap((field) => {
+    const from = before.fields[field];
+    const to = after.fields[field];
+    return from === to ? [] : [{ field, from, to }];
+  });
+}
@@ -0,0 +1,62 @@
+import type Anthropic from "@anthropic-ai/sdk";
+import type { Message, ModelSettings, TokenUsage } from "@azure-boards-ai/shared";
+import { ClaudeService } from "./claude.js";
+import { ScriptedProvider } from "./scripted-provider.js";
+
+export interface ChatOptions extends ModelSettings {
+  messages: Message[];
+  // Parts are ordered from least to most likely to change between turns
+  systemPrompt: string | string[];
+  tools?: Anthropic.Tool[];
+  // Mark the tools, system prompt parts and transcript as cacheable prefixes
+  promptCache?: boolean;
+  // The conversation the request belongs to, if any
+  sessionId?: string;
+  signal?: AbortSignal;
+}
+
+export interface ChatChunk {
+  type: "text" | "tool_use" | "tool_input_delta" | "usage" | "done";
+  text?: string;
+  toolUse?: {
+    id: string;
+    name: string;
+    input: Record<string, unknown>;
+  };
+  inputDelta?: {
+    toolUseId: string;
+    partialJson: string;
+  };
+  // Sent once per response, before done
+  usage?: TokenUsage;
+  model?: string;
+  stopReason?: Anthropic.Message["stop_reason"];
+}
+
+/**
+ * A chat model the agent can talk to. Model settings left out of the options
+ * fall back to the provider's defaults.
+ */
+export interface LlmProvider {
+  chat(options: ChatOptions): AsyncGenerator<ChatChunk>;
+}
+
+export interface LlmConfig extends ModelSettings {
+  provider: "anthropic" | "scripted";
+  apiKey?: string;
+  baseURL?: string;
+  // JSON script for the scripted provider; without one it only says the script is over.
+  // Each session replays the script from its first turn.
+  scriptPath?: string;
+}
+
+export async function createLlmProvider(config: LlmConfig): Promise<LlmProvider> {
+  const { provider, apiKey, baseURL, scriptPath, ...defaults } = config;
+  if (provider === "scripted") {
+    return scriptPath ? ScriptedProvider.fromFile(scriptPath) : new ScriptedProvider();
+  }
+  if (!apiKey) {
+    throw new Error("An API key is required for the anthropic provider");
+  }
+  return new ClaudeService({ apiKey, baseURL, ...defaults });
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import { decodeEntities, htmlToMarkdown, markdownToHtml, truncate } from "./markdown.js";
+
+describe("htmlToMarkdown", () => {
+  it("should convert paragraphs, headings and emphasis", () => {
+    const html =
+      "<h2>Goal</h2><div>Let <b>shoppers</b> pay with <i>saved</i> cards.</div><p>Second<br>line</p>";
+
+    expect(htmlToMarkdown(html)).toBe(
+      "## Goal\n\nLet **shoppers** pay with *saved* cards.\n\nSecond\nline"
+    );
+  });
+
+  it("should convert nested and ordered lists", () => {
+    const html =
+      "<ol><li>Add card</li><li>Pay<ul><li>Visa</li><li>Amex</li></ul></li></ol><p>Done</p>";
+
+    expect(htmlToMarkdown(html)).toBe("1. Add card\n2. Pay\n  - Visa\n  - Amex\n\nDone");
+  });
+
+  it("should keep links, images and code", () => {
+    const html =
+      '<p>See <a href="https://example.com/spec?a=1&amp;b=2">the spec</a> <img src="mock.png" alt="Mock"></p>' +
+      "<pre><code>if (a &lt; b) {\n  pay();\n}</code></pre><p>Run <code>pnpm test</code></p>";
+
+    expect(htmlToMarkdown(html)).toBe(
+      "See [the spec](https://example.com/spec?a=1&b=2) ![Mock](mock.png)\n\n" +
+        "```\nif (a < b) {\n  pay();\n}\n```\n\nRun `pnpm test`"
+    );
+  });
+
+  it("should flatten tables and drop scripts, styles and comments", () => {
+    const html =
+      "<style>p { color: red }</style><!-- note --><table><tr><th>Card</th><th>Fee</th></tr>" +
+      "<tr><td>Visa</td><td>1%</td></tr></table><script>alert(1)</script>";
+
+    expect(htmlToMarkdown(html)).toBe("Card | Fee\nVisa | 1%");
+  });
+
+  it("should pass plain text through", () => {
+    expect(htmlToMarkdown("  Fix 2 < 3 &amp; more  ")).toBe("Fix 2 < 3 & more");
+  });
+});
+
+describe("decodeEntities", () => {
+  it("should decode named and numeric entities", () => {
+    expect(decodeEntities("&quot;a&quot;&nbsp;&#8594;&#x2713; &unknown;")).toBe('"a" →✓ &unknown;');
+  });
+
+  it("should keep numeric entities beyond Unicode as text", () => {
+    expect(decodeEntities("&#99999999; &#x110000; &#x10FFFF;")).toBe(
+      "&#99999999; &#x110000; \u{10FFFF}"
+    );
+    expect(htmlToMarkdown("<p>&#99999999;</p>")).toBe("&#99999999;");
+  });
+});
+
+describe("truncate", () => {
+  it("should cut long text and mark the cut", () => {
+    expect(truncate("short", 10)).toBe("short");
+    expect(truncate("a long sentence", 8)).toBe("a long…");
+  });
+});
+
+describe("markdownToHtml", () => {
+  it("should convert headings, lists and paragraphs", () => {
+    expect(
+      markdownToHtml(
+        "## Goal\nPay with **saved** cards\nin one step.\n\n- Visa\n- `Amex` and\n  Mastercard\n1. Pick a card"
+      )
+    ).toBe(
+      "<h2>Goal</h2><p>Pay with <strong>saved</strong> cards<br>in one step.</p>" +
+        "<ul><li>Visa</li><li><code>Amex</code> and Mastercard</li></ul><ol><li>Pick a card</li></ol>"
+    );
+  });
+
+  it("should escape HTML and keep links", () => {
+    expect(markdownToHtml("Use <b> and [docs](https://example.com/a?b=1&c=2)")).toBe(
+      '<p>Use &lt;b&gt; and <a href="https://example.com/a?b=1&amp;c=2">docs</a></p>'
+    );
+  });
+
+  it("should round-trip through htmlToMarkdown", () => {
+    const markdown = "# Title\n\nSome *text*\n- One\n- Two";
+
+    expect(htmlToMarkdown(markdownToHtml(markdown))).toBe(markdown);
+  });
+});
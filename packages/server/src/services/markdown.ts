@@ -0,0 +1,351 @@
+// Rich text fields and comment bodies are stored as HTML; the agent reads them as markdown
+
+// Markup and the text between it; a "<" that starts no tag is kept as text
+const TOKEN_PATTERN = /<[a-z/!?][^>]*>|[^<]+|</gi;
+const TAG_PATTERN = /^<(\/?)([a-z][a-z0-9]*)/i;
+
+// Elements whose content is dropped entirely
+const SKIPPED_ELEMENTS = new Set(["script", "style", "head", "title"]);
+
+const BLOCK_ELEMENTS = new Set([
+  "p",
+  "div",
+  "section",
+  "article",
+  "header",
+  "footer",
+  "table",
+  "blockquote",
+  "figure",
+]);
+
+const INLINE_MARKERS: Record<string, string> = {
+  strong: "**",
+  b: "**",
+  em: "*",
+  i: "*",
+  del: "~~",
+  s: "~~",
+  strike: "~~",
+};
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+const MAX_CODE_POINT = 0x10ffff;
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name.startsWith("#")) {
+      const code =
+        name[1] === "x" || name[1] === "X"
+          ? Number.parseInt(name.slice(2), 16)
+          : Number.parseInt(name.slice(1), 10);
+      // Code points beyond Unicode are kept as written rather than failing the whole text
+      return code >= 0 && code <= MAX_CODE_POINT ? String.fromCodePoint(code) : entity;
+    }
+    return ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+function attribute(attributes: string, name: string): string | undefined {
+  const match = new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, "i").exec(
+    attributes
+  );
+  const value = match?.[1] ?? match?.[2] ?? match?.[3];
+  return value === undefined ? undefined : decodeEntities(value);
+}
+
+/**
+ * Accumulates markdown while walking the HTML tokens. Only the structure the
+ * work item editor produces is kept: paragraphs, headings, emphasis, links,
+ * images, code and nested lists. Table rows become "|"-separated lines.
+ */
+class MarkdownWriter {
+  private output = "";
+  private lists: Array<{ ordered: boolean; count: number }> = [];
+  private links: Array<string | undefined> = [];
+  private preformatted = false;
+  private skipping?: string;
+
+  text(raw: string): void {
+    if (this.skipping) {
+      return;
+    }
+    if (this.preformatted) {
+      this.output += decodeEntities(raw);
+      return;
+    }
+    const text = decodeEntities(raw.replace(/\s+/g, " "));
+    this.output += this.atLineStart() ? text.trimStart() : text;
+  }
+
+  open(name: string, attributes: string): void {
+    if (this.skipping) {
+      return;
+    }
+    if (SKIPPED_ELEMENTS.has(name)) {
+      this.skipping = name;
+      return;
+    }
+    if (BLOCK_ELEMENTS.has(name)) {
+      this.block(name === "blockquote" ? "> " : "");
+      return;
+    }
+    if (name in INLINE_MARKERS) {
+      this.output += INLINE_MARKERS[name];
+      return;
+    }
+    this.openOther(name, attributes);
+  }
+
+  close(name: string): void {
+    if (this.skipping) {
+      this.skipping = this.skipping === name ? undefined : this.skipping;
+      return;
+    }
+    if (BLOCK_ELEMENTS.has(name) || /^h[1-6]$/.test(name)) {
+      this.block();
+      return;
+    }
+    if (name in INLINE_MARKERS) {
+      this.output += INLINE_MARKERS[name];
+      return;
+    }
+    this.closeOther(name);
+  }
+
+  toString(): string {
+    return this.output
+      .split("\n")
+      .map((line) => {
+        const trimmed = line.trimEnd();
+        return trimmed.endsWith(" |") ? trimmed.slice(0, -2) : trimmed;
+      })
+      .join("\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+  }
+
+  private openOther(name: string, attributes: string): void {
+    switch (name) {
+      case "br":
+        this.output += "\n";
+        break;
+      case "hr":
+        this.block("---");
+        this.block();
+        break;
+      case "ul":
+      case "ol":
+        this.lists.push({ ordered: name === "ol", count: 0 });
+        break;
+      case "li":
+        this.listItem();
+        break;
+      case "a":
+        this.links.push(attribute(attributes, "href"));
+        this.output += this.links.at(-1) ? "[" : "";
+        break;
+      case "img":
+        this.image(attributes);
+        break;
+      case "pre":
+        this.block("```\n");
+        this.preformatted = true;
+        break;
+      case "code":
+        this.output += this.preformatted ? "" : "`";
+        break;
+      case "tr":
+        this.output += "\n";
+        break;
+      default:
+        if (/^h[1-6]$/.test(name)) {
+          this.block(`${"#".repeat(Number(name[1]))} `);
+        }
+    }
+  }
+
+  private closeOther(name: string): void {
+    switch (name) {
+      case "ul":
+      case "ol":
+        this.lists.pop();
+        this.output += this.lists.length === 0 ? "\n\n" : "";
+        break;
+      case "a": {
+        const href = this.links.pop();
+        this.output += href ? `](${href})` : "";
+        break;
+      }
+      case "pre":
+        this.preformatted = false;
+        this.output = `${this.output.trimEnd()}\n\`\`\``;
+        this.block();
+        break;
+      case "code":
+        this.output += this.preformatted ? "" : "`";
+        break;
+      case "td":
+      case "th":
+        this.output += " | ";
+        break;
+    }
+  }
+
+  private listItem(): void {
+    const list = this.lists.at(-1);
+    const indent = "  ".repeat(Math.max(0, this.lists.length - 1));
+    const marker = list?.ordered ? `${++list.count}.` : "-";
+    this.output = `${this.output.trimEnd()}\n${indent}${marker} `;
+  }
+
+  private image(attributes: string): void {
+    const src = attribute(attributes, "src");
+    if (src) {
+      this.output += `![${attribute(attributes, "alt") ?? ""}](${src})`;
+    }
+  }
+
+  // Start a new paragraph, optionally with a prefix like a heading marker
+  private block(prefix = ""): void {
+    this.output = `${this.output.trimEnd()}\n\n${prefix}`;
+  }
+
+  private atLineStart(): boolean {
+    return this.output === "" || /\n[ \t]*$|[-.#>] $/.test(this.output);
+  }
+}
+
+function stripComments(html: string): string {
+  let result = "";
+  let position = 0;
+  for (let start = html.indexOf("<!--"); start !== -1; start = html.indexOf("<!--", position)) {
+    const end = html.indexOf("-->", start + 4);
+    result += html.slice(position, start);
+    position = end === -1 ? html.length : end + 3;
+  }
+  return result + html.slice(position);
+}
+
+/**
+ * Convert the HTML of a rich text field or comment to markdown. Plain text
+ * passes through unchanged apart from entity decoding.
+ */
+export function htmlToMarkdown(html: string): string {
+  if (!/<[a-z!/]/i.test(html)) {
+    return decodeEntities(html).trim();
+  }
+
+  const writer = new MarkdownWriter();
+  for (const [token] of stripComments(html).matchAll(TOKEN_PATTERN)) {
+    if (token.length === 1 || !token.startsWith("<")) {
+      writer.text(token);
+      continue;
+    }
+    // Declarations like <!DOCTYPE> match no tag and are dropped
+    const tag = TAG_PATTERN.exec(token);
+    if (tag?.[1]) {
+      writer.close(tag[2].toLowerCase());
+    } else if (tag) {
+      writer.open(tag[2].toLowerCase(), token.slice(tag[0].length, -1));
+    }
+  }
+  return writer.toString();
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+};
+
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"]/g, (char) => HTML_ESCAPES[char]);
+}
+
+// Links, code spans, bold and italics within one line
+function inlineHtml(text: string): string {
+  return escapeHtml(text)
+    .replace(/`([^`]+)`/g, "<code>$1</code>")
+    .replace(/\[([^[\]]+)\]\(([^()\s]+)\)/g, '<a href="$2">$1</a>')
+    .replace(/\*\*([^*]+)\*\*/g, "<strong>$1</strong>")
+    .replace(/\*([^*]+)\*/g, "<em>$1</em>");
+}
+
+type MarkdownBlock =
+  | { kind: "heading"; level: number; text: string }
+  | { kind: "ul" | "ol"; text: string };
+
+// A heading or list item line; anything else is paragraph text
+function markdownBlock(line: string): MarkdownBlock | undefined {
+  const space = line.indexOf(" ");
+  const marker = space === -1 ? "" : line.slice(0, space);
+  const text = line.slice(space + 1).trim();
+  if (/^#{1,6}$/.test(marker)) {
+    return { kind: "heading", level: marker.length, text };
+  }
+  if (marker === "-" || marker === "*" || marker === "+") {
+    return { kind: "ul", text };
+  }
+  return /^\d+[.)]$/.test(marker) ? { kind: "ol", text } : undefined;
+}
+
+/**
+ * Convert markdown written by the agent to HTML for a rich text field:
+ * headings, flat lists and paragraphs, with links, code, bold and italics.
+ */
+export function markdownToHtml(markdown: string): string {
+  const html: string[] = [];
+  let paragraph: string[] = [];
+  let list: { tag: "ul" | "ol"; items: string[] } | undefined;
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      html.push(`<p>${paragraph.map(inlineHtml).join("<br>")}</p>`);
+      paragraph = [];
+    }
+    if (list) {
+      const items = list.items.map((item) => `<li>${inlineHtml(item)}</li>`);
+      html.push(`<${list.tag}>${items.join("")}</${list.tag}>`);
+      list = undefined;
+    }
+  };
+
+  for (const line of markdown.split("\n").map((raw) => raw.trim())) {
+    const block = line ? markdownBlock(line) : undefined;
+    if (!line || block?.kind === "heading" || (block && list?.tag !== block.kind)) {
+      flush();
+    }
+
+    if (block?.kind === "heading") {
+      html.push(`<h${block.level}>${inlineHtml(block.text)}</h${block.level}>`);
+    } else if (block) {
+      list ??= { tag: block.kind, items: [] };
+      list.items.push(block.text);
+    } else if (line && list) {
+      // Continuation of the previous list item
+      list.items[list.items.length - 1] += ` ${line}`;
+    } else if (line) {
+      paragraph.push(line);
+    }
+  }
+  flush();
+  return html.join("");
+}
+
+// Shorten text to at most `maxChars`, marking the cut
+export function truncate(text: string, maxChars: number): string {
+  if (text.length <= maxChars) {
+    return text;
+  }
+  return `${text.slice(0, Math.max(0, maxChars - 1)).trimEnd()}…`;
+}
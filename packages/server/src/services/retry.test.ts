@@ -0,0 +1,112 @@
+import { describe, it, expect, vi } from "vitest";
+import { RetryPolicy } from "./retry.js";
+
+const overloaded = Object.assign(new Error("Overloaded"), { status: 529 });
+const unauthorized = Object.assign(new Error("Unauthorized"), { status: 401 });
+
+// No waiting in tests: jitter always picks zero
+const policy = new RetryPolicy({ random: () => 0 });
+
+describe("RetryPolicy", () => {
+  it("should back off exponentially with jitter up to the maximum", () => {
+    const fullJitter = new RetryPolicy({
+      maxAttempts: 10,
+      baseDelayMs: 100,
+      maxDelayMs: 1000,
+      random: () => 1,
+    });
+
+    expect(fullJitter.nextDelay(overloaded, 1)).toBe(100);
+    expect(fullJitter.nextDelay(overloaded, 3)).toBe(400);
+    expect(fullJitter.nextDelay(overloaded, 6)).toBe(1000);
+  });
+
+  it("should honor retry-after unless it exceeds the maximum delay", () => {
+    const rateLimited = (seconds: string) =>
+      Object.assign(new Error("Too many requests"), {
+        status: 429,
+        headers: { "retry-after": seconds },
+      });
+
+    expect(policy.nextDelay(rateLimited("2"), 1)).toBe(2000);
+    expect(policy.nextDelay(rateLimited("60"), 1)).toBeUndefined();
+  });
+
+  it("should retry transient failures until an attempt succeeds", async () => {
+    const operation = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(overloaded)
+      .mockResolvedValueOnce("ok");
+
+    await expect(policy.run(operation)).resolves.toBe("ok");
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it("should give up after the last attempt or on a permanent failure", async () => {
+    const failing = vi.fn<() => Promise<string>>().mockRejectedValue(overloaded);
+    const denied = vi.fn<() => Promise<string>>().mockRejectedValue(unauthorized);
+
+    await expect(policy.run(failing)).rejects.toBe(overloaded);
+    expect(failing).toHaveBeenCalledTimes(3);
+    await expect(policy.run(denied)).rejects.toBe(unauthorized);
+    expect(denied).toHaveBeenCalledTimes(1);
+  });
+
+  it("should let a call narrow what is retried", async () => {
+    const failing = vi.fn<() => Promise<string>>().mockRejectedValue(overloaded);
+
+    await expect(policy.run(failing, { retryOn: () => false })).rejects.toBe(overloaded);
+    expect(failing).toHaveBeenCalledTimes(1);
+  });
+
+  it("should retry a stream that fails before its first item", async () => {
+    let attempts = 0;
+    async function* flaky() {
+      attempts++;
+      if (attempts === 1) {
+        throw overloaded;
+      }
+      yield "Hello";
+    }
+
+    const items: string[] = [];
+    for await (const item of policy.stream(flaky)) {
+      items.push(item);
+    }
+
+    expect(items).toEqual(["Hello"]);
+    expect(attempts).toBe(2);
+  });
+
+  it("should not retry a stream after partial output", async () => {
+    let attempts = 0;
+    async function* partial() {
+      attempts++;
+      yield "Hel";
+      throw overloaded;
+    }
+
+    const items: string[] = [];
+    await expect(async () => {
+      for await (const item of policy.stream(partial)) {
+        items.push(item);
+      }
+    }).rejects.toBe(overloaded);
+
+    expect(items).toEqual(["Hel"]);
+    expect(attempts).toBe(1);
+  });
+
+  it("should stop waiting when the signal is aborted", async () => {
+    const controller = new AbortController();
+    const slow = new RetryPolicy({ baseDelayMs: 60_000, maxDelayMs: 60_000, random: () => 1 });
+    const failing = vi.fn<() => Promise<string>>().mockRejectedValue(overloaded);
+
+    const run = slow.run(failing, { signal: controller.signal });
+    await new Promise((resolve) => setImmediate(resolve));
+    controller.abort();
+
+    await expect(run).rejects.toThrow(/abort/i);
+    expect(failing).toHaveBeenCalledTimes(1);
+  });
+});
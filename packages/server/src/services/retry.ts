@@ -0,0 +1,102 @@
+import { setTimeout as sleep } from "node:timers/promises";
+import { isTransient, retryAfterMs } from "./errors.js";
+
+export interface RetryOptions {
+  // Attempts in total, including the first
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  // Upper bound on a single wait; a longer retry-after is not waited for
+  maxDelayMs?: number;
+  // Which errors are retried; defaults to rate limits and upstream failures
+  retryOn?: (error: unknown) => boolean;
+  random?: () => number;
+}
+
+export interface RunOptions {
+  signal?: AbortSignal;
+  // Overrides the policy's retryOn for one call, e.g. for non-idempotent writes
+  retryOn?: (error: unknown) => boolean;
+}
+
+/**
+ * Exponential backoff with full jitter, honoring retry-after headers. Waits
+ * end early when the signal is aborted.
+ */
+export class RetryPolicy {
+  private maxAttempts: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private retryOn: (error: unknown) => boolean;
+  private random: () => number;
+
+  constructor(options: RetryOptions = {}) {
+    this.maxAttempts = options.maxAttempts ?? 3;
+    this.baseDelayMs = options.baseDelayMs ?? 500;
+    this.maxDelayMs = options.maxDelayMs ?? 10_000;
+    this.retryOn = options.retryOn ?? isTransient;
+    this.random = options.random ?? Math.random;
+  }
+
+  /**
+   * Milliseconds to wait before the next attempt, or undefined when `error`
+   * should be thrown instead. `attempt` is the one that just failed, from 1.
+   */
+  nextDelay(
+    error: unknown,
+    attempt: number,
+    retryOn: (error: unknown) => boolean = this.retryOn
+  ): number | undefined {
+    if (attempt >= this.maxAttempts || !retryOn(error)) {
+      return undefined;
+    }
+    const requested = retryAfterMs(error);
+    if (requested !== undefined) {
+      return requested <= this.maxDelayMs ? requested : undefined;
+    }
+    const ceiling = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(this.random() * ceiling);
+  }
+
+  async run<T>(operation: () => Promise<T>, options: RunOptions = {}): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        await this.wait(error, attempt, options);
+      }
+    }
+  }
+
+  /**
+   * Retry a stream only until its first item: once something has been
+   * yielded, the consumer has seen partial output and a retry would repeat it.
+   */
+  async *stream<T>(operation: () => AsyncIterable<T>, options: RunOptions = {}): AsyncGenerator<T> {
+    for (let attempt = 1; ; attempt++) {
+      let started = false;
+      try {
+        for await (const item of operation()) {
+          started = true;
+          yield item;
+        }
+        return;
+      } catch (error) {
+        if (started) {
+          throw error;
+        }
+        await this.wait(error, attempt, options);
+      }
+    }
+  }
+
+  // Wait out the delay before another attempt, or rethrow
+  private async wait(error: unknown, attempt: number, options: RunOptions): Promise<void> {
+    const delay = options.signal?.aborted
+      ? undefined
+      : this.nextDelay(error, attempt, options.retryOn);
+    if (delay === undefined) {
+      throw error;
+    }
+    await sleep(delay, undefined, { signal: options.signal });
+  }
+}
@@ -0,0 +1,80 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it, expect } from "vitest";
+import { ScriptedProvider } from "./scripted-provider.js";
+import type { ChatChunk, ChatOptions } from "./llm.js";
+
+const REQUEST: ChatOptions = { messages: [], systemPrompt: "You are helpful" };
+
+async function collect(provider: ScriptedProvider, options = REQUEST): Promise<ChatChunk[]> {
+  const chunks: ChatChunk[] = [];
+  for await (const chunk of provider.chat(options)) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+describe("ScriptedProvider", () => {
+  it("should replay one turn per chat call", async () => {
+    const provider = new ScriptedProvider([
+      { text: "Let me look.", toolCalls: [{ name: "read_work_item", input: { id: 1 } }] },
+      { text: "Done." },
+    ]);
+
+    expect(await collect(provider)).toEqual([
+      { type: "text", text: "Let me look." },
+      {
+        type: "tool_use",
+        toolUse: { id: "scripted-1-1", name: "read_work_item", input: { id: 1 } },
+      },
+      { type: "done", stopReason: "tool_use" },
+    ]);
+    expect(await collect(provider)).toEqual([
+      { type: "text", text: "Done." },
+      { type: "done", stopReason: "end_turn" },
+    ]);
+    expect(provider.requests).toHaveLength(2);
+  });
+
+  it("should replay the script for each session", async () => {
+    const provider = new ScriptedProvider([{ text: "First" }, { text: "Second" }]);
+
+    await collect(provider, { ...REQUEST, sessionId: "a" });
+    const other = await collect(provider, { ...REQUEST, sessionId: "b" });
+    const next = await collect(provider, { ...REQUEST, sessionId: "a" });
+
+    expect(other[0].text).toBe("First");
+    expect(next[0].text).toBe("Second");
+  });
+
+  it("should only keep the latest requests", async () => {
+    const provider = new ScriptedProvider();
+
+    for (let turn = 0; turn < 60; turn++) {
+      await collect(provider, { ...REQUEST, systemPrompt: `Turn ${turn}` });
+    }
+
+    expect(provider.requests).toHaveLength(50);
+    expect(provider.requests[0].systemPrompt).toBe("Turn 10");
+  });
+
+  it("should say so once the script is over", async () => {
+    const chunks = await collect(new ScriptedProvider());
+
+    expect(chunks[0].text).toContain("no more replies");
+  });
+
+  it("should load a script from a JSON file", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "scripted-provider-"));
+    const path = join(dir, "script.json");
+    await writeFile(path, JSON.stringify([{ text: "From file" }]));
+
+    try {
+      const provider = await ScriptedProvider.fromFile(path);
+      expect((await collect(provider))[0]).toEqual({ type: "text", text: "From file" });
+    } finally {
+      await rm(dir, { recursive: true });
+    }
+  });
+});
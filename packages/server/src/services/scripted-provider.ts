@@ -0,0 +1,70 @@
+import { readFile } from "node:fs/promises";
+import type { ChatChunk, ChatOptions, LlmProvider } from "./llm.js";
+
+// Reply once the script has run out of turns
+const END_OF_SCRIPT = "(The script has no more replies.)";
+
+// Only the latest requests are kept, so a long-running demo does not grow without bound
+const MAX_RECORDED_REQUESTS = 50;
+
+export interface ScriptedTurn {
+  text?: string;
+  toolCalls?: Array<{ name: string; input?: Record<string, unknown> }>;
+}
+
+/**
+ * LlmProvider that replays a fixed list of turns, one per chat call, for tests
+ * and offline demos. Each session replays the script from its first turn;
+ * calls without a session share one position. Tool call IDs are derived from
+ * the turn's position, so the same script always produces the same transcript.
+ */
+export class ScriptedProvider implements LlmProvider {
+  // The latest requests, oldest first
+  readonly requests: ChatOptions[] = [];
+  private turns: ScriptedTurn[];
+  private positions = new Map<string | undefined, number>();
+
+  constructor(turns: ScriptedTurn[] = []) {
+    this.turns = turns;
+  }
+
+  // A JSON file holding an array of turns
+  static async fromFile(path: string): Promise<ScriptedProvider> {
+    const turns = JSON.parse(await readFile(path, "utf8")) as ScriptedTurn[];
+    if (!Array.isArray(turns)) {
+      throw new Error(`Script ${path} must contain an array of turns`);
+    }
+    return new ScriptedProvider(turns);
+  }
+
+  async *chat(options: ChatOptions): AsyncGenerator<ChatChunk> {
+    const index = this.positions.get(options.sessionId) ?? 0;
+    this.positions.set(options.sessionId, index + 1);
+    this.requests.push(options);
+    if (this.requests.length > MAX_RECORDED_REQUESTS) {
+      this.requests.shift();
+    }
+    const turn = this.turns[index] ?? { text: END_OF_SCRIPT };
+
+    if (turn.text) {
+      yield { type: "text", text: turn.text };
+    }
+
+    const toolCalls = turn.toolCalls ?? [];
+    for (const [position, call] of toolCalls.entries()) {
+      if (options.signal?.aborted) {
+        return;
+      }
+      yield {
+        type: "tool_use",
+        toolUse: {
+          id: `scripted-${index + 1}-${position + 1}`,
+          name: call.name,
+          input: call.input ?? {},
+        },
+      };
+    }
+
+    yield { type: "done", stopReason: toolCalls.length > 0 ? "tool_use" : "end_turn" };
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { WiqlError, buildWiql, fieldRef, literal, macro, where } from "./wiql.js";
+
+describe("literal", () => {
+  it("should double embedded single quotes", () => {
+    expect(literal("user's login")).toBe("'user''s login'");
+    expect(literal("''")).toBe("''''''");
+  });
+
+  it("should keep injected conditions inside the string", () => {
+    const injected = "x' OR [System.TeamProject] <> '";
+
+    expect(where.contains("System.Title", injected)).toBe(
+      "[System.Title] CONTAINS 'x'' OR [System.TeamProject] <> '''"
+    );
+  });
+
+  it("should leave brackets, semicolons and newlines quoted as they are", () => {
+    expect(literal("a]; DROP\n[b")).toBe("'a]; DROP\n[b'");
+  });
+
+  it("should write numbers and macros unquoted", () => {
+    expect(literal(42)).toBe("42");
+    expect(literal(macro("@Me"))).toBe("@Me");
+    expect(literal(macro("@Today", -7))).toBe("@Today - 7");
+    expect(literal(macro("@Today", 1))).toBe("@Today + 1");
+  });
+
+  it("should reject numbers that are not finite", () => {
+    expect(() => literal(Number.NaN)).toThrow(WiqlError);
+  });
+});
+
+describe("fieldRef", () => {
+  it("should bracket reference names", () => {
+    expect(fieldRef("Microsoft.VSTS.Common.Priority")).toBe("[Microsoft.VSTS.Common.Priority]");
+  });
+
+  it("should reject names that could break out of the brackets", () => {
+    expect(() => fieldRef("System.Title] = 'x' OR [System.Id")).toThrow(WiqlError);
+    expect(() => fieldRef("")).toThrow(WiqlError);
+  });
+});
+
+describe("where", () => {
+  const STATE = "System.State";
+
+  it("should match a single value with = and several with IN", () => {
+    expect(where.in(STATE, ["Active"])).toBe("[System.State] = 'Active'");
+    expect(where.in(STATE, ["New", "Active"])).toBe("[System.State] IN ('New', 'Active')");
+    expect(() => where.in(STATE, [])).toThrow(WiqlError);
+  });
+
+  it("should group alternatives in parentheses", () => {
+    expect(where.any(where.equals("System.Id", 1), where.equals("System.Id", 2))).toBe(
+      "([System.Id] = 1 OR [System.Id] = 2)"
+    );
+  });
+});
+
+describe("buildWiql", () => {
+  it("should build a select with conditions and ordering", () => {
+    const query = buildWiql({
+      fields: ["System.Id", "System.Title"],
+      where: [
+        where.equals("System.TeamProject", macro("@project")),
+        where.under("System.AreaPath", "Web\\Checkout"),
+      ],
+      orderBy: [{ field: "System.ChangedDate", descending: true }, { field: "System.Id" }],
+    });
+
+    expect(query).toBe(
+      "SELECT [System.Id], [System.Title] FROM WorkItems " +
+        "WHERE [System.TeamProject] = @project AND [System.AreaPath] UNDER 'Web\\Checkout' " +
+        "ORDER BY [System.ChangedDate] DESC, [System.Id]"
+    );
+  });
+});
@@ -0,0 +1,111 @@
+// Builds WIQL queries from fields and values, so user input is only ever placed in quoted literals
+
+export class WiqlError extends Error {
+  readonly statusCode = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "WiqlError";
+  }
+}
+
+// Macros like @Me or @Today - 7 are written unquoted
+export interface WiqlMacro {
+  macro: "@Me" | "@Today" | "@CurrentIteration" | "@project";
+  offset?: number;
+}
+
+export type WiqlValue = string | number | WiqlMacro;
+
+export interface WiqlOrder {
+  field: string;
+  descending?: boolean;
+}
+
+export interface WiqlSelect {
+  fields?: string[];
+  where: string[];
+  orderBy?: WiqlOrder[];
+}
+
+// Reference names like System.Title or Custom.Team_Name
+const FIELD_NAME_PATTERN = /^[A-Za-z][\w.]*$/;
+
+export function macro(name: WiqlMacro["macro"], offset?: number): WiqlMacro {
+  return { macro: name, offset };
+}
+
+export function fieldRef(name: string): string {
+  if (!FIELD_NAME_PATTERN.test(name)) {
+    throw new WiqlError(`Invalid field reference name: ${name}`);
+  }
+  return `[${name}]`;
+}
+
+/**
+ * A value as it appears in a condition. String literals are single-quoted with
+ * embedded quotes doubled, which is the only escape WIQL has.
+ */
+export function literal(value: WiqlValue): string {
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) {
+      throw new WiqlError(`Invalid number in query: ${value}`);
+    }
+    return String(value);
+  }
+  if (typeof value === "object") {
+    const { macro: name, offset } = value;
+    if (!offset) {
+      return name;
+    }
+    return offset > 0 ? `${name} + ${offset}` : `${name} - ${-offset}`;
+  }
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function compare(field: string, operator: string, value: WiqlValue): string {
+  return `${fieldRef(field)} ${operator} ${literal(value)}`;
+}
+
+// Conditions, combined into the WHERE clause with AND
+export const where = {
+  equals: (field: string, value: WiqlValue) => compare(field, "=", value),
+  notEquals: (field: string, value: WiqlValue) => compare(field, "<>", value),
+  atLeast: (field: string, value: WiqlValue) => compare(field, ">=", value),
+  atMost: (field: string, value: WiqlValue) => compare(field, "<=", value),
+  contains: (field: string, value: string) => compare(field, "CONTAINS", value),
+  // Full-text match, the only text operator long text and HTML fields support
+  containsWords: (field: string, value: string) => compare(field, "CONTAINS WORDS", value),
+  under: (field: string, path: string) => compare(field, "UNDER", path),
+
+  in(field: string, values: WiqlValue[]): string {
+    if (values.length === 0) {
+      throw new WiqlError(`No values to match ${field} against`);
+    }
+    return values.length === 1
+      ? compare(field, "=", values[0])
+      : `${fieldRef(field)} IN (${values.map(literal).join(", ")})`;
+  },
+
+  any(...conditions: string[]): string {
+    return conditions.length === 1 ? conditions[0] : `(${conditions.join(" OR ")})`;
+  },
+};
+
+export function buildWiql({
+  fields = ["System.Id"],
+  where: conditions,
+  orderBy,
+}: WiqlSelect): string {
+  let query = `SELECT ${fields.map(fieldRef).join(", ")} FROM WorkItems`;
+  if (conditions.length > 0) {
+    query += ` WHERE ${conditions.join(" AND ")}`;
+  }
+  if (orderBy?.length) {
+    const order = orderBy.map(({ field, descending }) =>
+      descending ? `${fieldRef(field)} DESC` : fieldRef(field)
+    );
+    query += ` ORDER BY ${order.join(", ")}`;
+  }
+  return query;
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi } from "vitest";
+import type { WorkItemFieldMetadata } from "@azure-boards-ai/shared";
+import { InMemoryWorkItemClient } from "../services/in-memory-devops.js";
+import { LinkTypes, workItemUrl } from "../services/azure-devops.js";
+import {
+  HISTORY_BUDGET,
+  WorkItemNotFoundError,
+  emptyContext,
+  loadWorkItemContext,
+} from "./context-loader.js";
+
+const TEST_ORG_URL = "https://dev.azure.com/test";
+
+function link(rel: string, id: number) {
+  return { rel, url: workItemUrl(TEST_ORG_URL, id) };
+}
+
+describe("loadWorkItemContext", () => {
+  it("should load the work item with parent, children and related items", async () => {
+    const client = new InMemoryWorkItemClient({
+      items: [
+        {
+          id: 1,
+          fields: { "System.Title": "Story" },
+          relations: [
+            link(LinkTypes.parent, 10),
+            link(LinkTypes.child, 2),
+            link(LinkTypes.child, 3),
+            link(LinkTypes.related, 4),
+            link("ArtifactLink", 99),
+          ],
+        },
+        { id: 2, fields: { "System.Title": "Task A" } },
+        { id: 3, fields: { "System.Title": "Task B" } },
+        { id: 4, fields: { "System.Title": "Related bug" } },
+        { id: 10, fields: { "System.Title": "Epic" } },
+      ],
+    });
+
+    const context = await loadWorkItemContext(client, 1);
+
+    expect(context.workItem.fields["System.Title"]).toBe("Story");
+    expect(context.parentItem?.id).toBe(10);
+    expect(context.childItems.map((item) => item.id)).toEqual([2, 3]);
+    expect(context.relatedItems.map((item) => item.id)).toEqual([4]);
+    expect(context.loadedAt).toBeInstanceOf(Date);
+  });
+
+  it("should skip linked items that no longer exist", async () => {
+    const client = new InMemoryWorkItemClient({
+      items: [{ id: 1, fields: {}, relations: [link(LinkTypes.child, 2)] }],
+    });
+
+    const context = await loadWorkItemContext(client, 1);
+
+    expect(context.childItems).toEqual([]);
+    expect(context.parentItem).toBeUndefined();
+  });
+
+  it("should load the latest comments and changes within the history budget", async () => {
+    const comments = Array.from({ length: HISTORY_BUDGET.comments + 2 }, (_, i) => ({
+      id: i + 1,
+      text: i === 0 ? "x".repeat(HISTORY_BUDGET.commentChars + 50) : `Comment ${i + 1}`,
+    }));
+    const client = new InMemoryWorkItemClient({
+      items: [{ id: 1, fields: { "System.TeamProject": "Web", "System.State": "New" } }],
+      comments: { 1: comments },
+    });
+    await client.updateWorkItem(1, [
+      { op: "add", path: "/fields/System.Description", value: `<p>${"y".repeat(500)}</p>` },
+    ]);
+
+    const context = await loadWorkItemContext(client, 1);
+
+    expect(context.comments).toHaveLength(HISTORY_BUDGET.comments);
+    expect(context.comments?.[0].id).toBe(3);
+    expect(context.commentCount).toBe(HISTORY_BUDGET.comments + 2);
+    expect(context.history).toHaveLength(1);
+    const [change] = context.history?.[0].changes ?? [];
+    expect(change.field).toBe("System.Description");
+    expect(String(change.to)).toHaveLength(HISTORY_BUDGET.changeChars);
+  });
+
+  it("should only request the newest revisions", async () => {
+    const client = new InMemoryWorkItemClient({ items: [{ id: 1, rev: 50, fields: {} }] });
+    const getRevisions = vi.spyOn(client, "getRevisions");
+
+    await loadWorkItemContext(client, 1);
+
+    expect(getRevisions).toHaveBeenCalledWith(1, 50 - HISTORY_BUDGET.revisions);
+  });
+
+  it("should leave out comments, history and types that fail to load", async () => {
+    const client = new InMemoryWorkItemClient({
+      items: [{ id: 1, fields: { "System.TeamProject": "Web", "System.Title": "Story" } }],
+    });
+    const failure = new Error("Service unavailable");
+    vi.spyOn(client, "getComments").mockRejectedValue(failure);
+    vi.spyOn(client, "getRevisions").mockRejectedValue(failure);
+    vi.spyOn(client, "getWorkItemTypes").mockRejectedValue(failure);
+
+    const context = await loadWorkItemContext(client, 1);
+
+    expect(context.workItem.fields["System.Title"]).toBe("Story");
+    expect(context.comments).toBeUndefined();
+    expect(context.history).toBeUndefined();
+    expect(context.workItemTypes).toBeUndefined();
+  });
+
+  it("should keep all fields of the work item's type and the required ones of others", async () => {
+    const title = { referenceName: "System.Title", name: "Title", type: "string", required: true };
+    const state = { ...title, referenceName: "System.State", name: "State", defaultValue: "New" };
+    const tags = { ...title, referenceName: "System.Tags", name: "Tags", required: false };
+    const fields = [title, state, tags] as WorkItemFieldMetadata[];
+    const client = new InMemoryWorkItemClient({
+      items: [{ id: 1, fields: { "System.TeamProject": "Web", "System.WorkItemType": "Bug" } }],
+      workItemTypes: [
+        { name: "Bug", states: ["New"], fields },
+        { name: "Task", states: ["New"], fields },
+      ],
+    });
+
+    const context = await loadWorkItemContext(client, 1);
+
+    expect(context.workItemTypes).toEqual([
+      { name: "Bug", states: ["New"], fields },
+      { name: "Task", states: ["New"], fields: [title] },
+    ]);
+  });
+
+  it("should throw when the work item does not exist", async () => {
+    const client = new InMemoryWorkItemClient();
+
+    await expect(loadWorkItemContext(client, 1)).rejects.toBeInstanceOf(WorkItemNotFoundError);
+  });
+
+  it("should build an empty placeholder context", () => {
+    expect(emptyContext(5)).toEqual({
+      workItem: { id: 5, fields: {} },
+      relatedItems: [],
+      childItems: [],
+    });
+  });
+});
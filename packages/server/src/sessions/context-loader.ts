@@ -0,0 +1,111 @@
+import type { WorkItemContext, WorkItemTypeMetadata } from "@azure-boards-ai/shared";
+import type { WorkItemTrackingClient } from "../services/azure-devops.js";
+import { LinkTypes, WorkItemFields, linkedWorkItemIds } from "../services/azure-devops.js";
+import { findType } from "../services/field-metadata.js";
+import { isRequiredInput } from "../services/field-validation.js";
+import { summarizeComment, summarizeRevision } from "../tools/get-work-item-comments.js";
+
+// How much discussion and history the context keeps; get_work_item_comments reads further back
+export const HISTORY_BUDGET = {
+  comments: 10,
+  commentChars: 1_000,
+  revisions: 20,
+  changeChars: 200,
+};
+
+export class WorkItemNotFoundError extends Error {
+  readonly statusCode = 404;
+
+  constructor(readonly workItemId: number) {
+    super(`Work item ${workItemId} not found`);
+    this.name = "WorkItemNotFoundError";
+  }
+}
+
+// Placeholder context for sessions created without Azure DevOps access
+export function emptyContext(workItemId: number): WorkItemContext {
+  return {
+    workItem: { id: workItemId, fields: {} },
+    relatedItems: [],
+    childItems: [],
+  };
+}
+
+/**
+ * The subset of the project's types the agent needs: the work item's own type
+ * in full, and the others with their states and the fields required to create them.
+ */
+export function relevantTypes(
+  types: WorkItemTypeMetadata[],
+  current: string | undefined
+): WorkItemTypeMetadata[] {
+  const own = current === undefined ? undefined : findType(types, current);
+  return types.map((type) =>
+    type === own ? type : { ...type, fields: type.fields.filter(isRequiredInput) }
+  );
+}
+
+// The value of an optional part of the context, left out when it could not be loaded
+function settled<T>(result: PromiseSettledResult<T>): T | undefined {
+  return result.status === "fulfilled" ? result.value : undefined;
+}
+
+/**
+ * Fetch the work item with its parent, children, related items, its latest
+ * comments and changes, and the project's work item types. Linked items are resolved from the work item's
+ * relations in a single batch request. Comments, changes and types are optional: the context
+ * is loaded without whichever of them fails.
+ */
+export async function loadWorkItemContext(
+  client: WorkItemTrackingClient,
+  workItemId: number
+): Promise<WorkItemContext> {
+  const workItem = await client.getWorkItem(workItemId);
+  if (!workItem) {
+    throw new WorkItemNotFoundError(workItemId);
+  }
+
+  const parentIds = linkedWorkItemIds(workItem, LinkTypes.parent);
+  const childIds = linkedWorkItemIds(workItem, LinkTypes.child);
+  const relatedIds = linkedWorkItemIds(workItem, LinkTypes.related);
+
+  const allIds = [...new Set([...parentIds, ...childIds, ...relatedIds])];
+  const project = workItem.fields[WorkItemFields.TeamProject]?.toString();
+  // Only the newest updates are requested, one per revision
+  const since =
+    workItem.rev === undefined ? undefined : Math.max(0, workItem.rev - HISTORY_BUDGET.revisions);
+  const [linkedResult, commentResult, revisionResult, typeResult] = await Promise.allSettled([
+    allIds.length > 0 ? client.getWorkItems(allIds) : [],
+    project ? client.getComments(project, workItemId, HISTORY_BUDGET.comments) : undefined,
+    client.getRevisions(workItemId, since),
+    project ? client.getWorkItemTypes(project) : [],
+  ]);
+  if (linkedResult.status === "rejected") {
+    throw linkedResult.reason;
+  }
+  const linked = linkedResult.value;
+  const commentPage = settled(commentResult);
+  const revisions = settled(revisionResult);
+  const types = settled(typeResult) ?? [];
+  const byId = new Map(linked.map((item) => [item.id, item]));
+  const resolve = (ids: number[]) => ids.flatMap((id) => byId.get(id) ?? []);
+
+  return {
+    workItem,
+    parentItem: resolve(parentIds)[0],
+    childItems: resolve(childIds),
+    relatedItems: resolve(relatedIds),
+    comments: commentPage?.comments.map((comment) =>
+      summarizeComment(comment, HISTORY_BUDGET.commentChars)
+    ),
+    commentCount: commentPage?.totalCount,
+    history: revisions
+      ?.slice(-HISTORY_BUDGET.revisions)
+      .map((revision) => summarizeRevision(revision, HISTORY_BUDGET.changeChars)),
+    workItemTypes:
+      types.length > 0
+        ? relevantTypes(types, workItem.fields[WorkItemFields.WorkItemType]?.toString())
+        : undefined,
+    loadedAt: new Date(),
+  };
+}
@@ -0,0 +1,93 @@
+import { mkdir, readFile, readdir, rename, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { nanoid } from "nanoid";
+import type { WorkItemSession } from "@azure-boards-ai/shared";
+import { deserializeSession, serializeSession } from "./serialization.js";
+import type { SessionStore } from "./store.js";
+
+const SESSION_FILE_SUFFIX = ".json";
+
+// Session IDs are nanoids; anything else could escape the directory
+const SESSION_ID = /^[\w-]+$/;
+
+/**
+ * Stores each session as `<id>.json` in a directory. Writes go through a
+ * temporary file and rename so a crash never leaves a truncated session.
+ */
+export class FileSessionStore implements SessionStore {
+  private directory: string;
+  private ready?: Promise<unknown>;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async get(id: string): Promise<WorkItemSession | undefined> {
+    // No session can be stored under an invalid id
+    if (!SESSION_ID.test(id)) {
+      return undefined;
+    }
+    await this.ensureDirectory();
+    try {
+      return deserializeSession(await readFile(this.pathFor(id), "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async getByWorkItem(
+    workItemId: number,
+    organizationUrl: string,
+    ownerId?: string
+  ): Promise<WorkItemSession | undefined> {
+    const sessions = await this.list();
+    return sessions.find(
+      (session) =>
+        session.workItemId === workItemId &&
+        session.organizationUrl === organizationUrl &&
+        session.ownerId === ownerId
+    );
+  }
+
+  async list(): Promise<WorkItemSession[]> {
+    await this.ensureDirectory();
+    const files = await readdir(this.directory);
+    const ids = files
+      .filter((file) => file.endsWith(SESSION_FILE_SUFFIX))
+      .map((file) => file.slice(0, -SESSION_FILE_SUFFIX.length));
+
+    const sessions = await Promise.all(ids.map((id) => this.get(id)));
+    return sessions.filter((session): session is WorkItemSession => session !== undefined);
+  }
+
+  async save(session: WorkItemSession): Promise<void> {
+    await this.ensureDirectory();
+    const path = this.pathFor(session.id);
+    // Each save has its own temporary file, so concurrent saves of a session cannot collide
+    const tempPath = `${path}.${nanoid()}.tmp`;
+    await writeFile(tempPath, serializeSession(session), "utf8");
+    await rename(tempPath, path);
+  }
+
+  async delete(id: string): Promise<void> {
+    if (!SESSION_ID.test(id)) {
+      return;
+    }
+    await rm(this.pathFor(id), { force: true });
+  }
+
+  private ensureDirectory(): Promise<unknown> {
+    this.ready ??= mkdir(this.directory, { recursive: true });
+    return this.ready;
+  }
+
+  private pathFor(id: string): string {
+    if (!SESSION_ID.test(id)) {
+      throw new Error(`Invalid session id: ${id}`);
+    }
+    return join(this.directory, `${id}${SESSION_FILE_SUFFIX}`);
+  }
+}
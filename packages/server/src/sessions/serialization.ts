@@ -0,0 +1,68 @@
+import type { Message, Plan, SpecProposal, WorkItemSession } from "@azure-boards-ai/shared";
+
+export function serializeSession(session: WorkItemSession): string {
+  return JSON.stringify(session);
+}
+
+/**
+ * Parse a stored session, turning the ISO strings JSON.stringify produced for
+ * Date fields back into Date instances.
+ */
+export function deserializeSession(json: string): WorkItemSession {
+  const session = JSON.parse(json) as WorkItemSession;
+
+  return {
+    ...session,
+    createdAt: new Date(session.createdAt),
+    updatedAt: new Date(session.updatedAt),
+    transcript: session.transcript.map(
+      (message): Message => ({ ...message, createdAt: new Date(message.createdAt) })
+    ),
+    context: {
+      ...session.context,
+      loadedAt: reviveOptionalDate(session.context.loadedAt),
+    },
+    plan: session.plan && revivePlan(session.plan),
+    spec: session.spec && reviveSpec(session.spec),
+    compactions: session.compactions?.map((event) => ({
+      ...event,
+      createdAt: new Date(event.createdAt),
+    })),
+    operations: session.operations?.map((operation) => ({
+      ...operation,
+      performedAt: new Date(operation.performedAt),
+      revertedAt: reviveOptionalDate(operation.revertedAt),
+    })),
+  };
+}
+
+function revivePlan(plan: Plan): Plan {
+  return {
+    ...plan,
+    createdAt: new Date(plan.createdAt),
+    updatedAt: new Date(plan.updatedAt),
+    approvedAt: reviveOptionalDate(plan.approvedAt),
+    execution: plan.execution && {
+      ...plan.execution,
+      startedAt: new Date(plan.execution.startedAt),
+      finishedAt: reviveOptionalDate(plan.execution.finishedAt),
+    },
+  };
+}
+
+function reviveSpec(spec: SpecProposal): SpecProposal {
+  return {
+    ...spec,
+    createdAt: new Date(spec.createdAt),
+    updatedAt: new Date(spec.updatedAt),
+    approvedAt: reviveOptionalDate(spec.approvedAt),
+    applied: spec.applied && {
+      ...spec.applied,
+      appliedAt: new Date(spec.applied.appliedAt),
+    },
+  };
+}
+
+function reviveOptionalDate(value: Date | string | undefined): Date | undefined {
+  return value ? new Date(value) : undefined;
+}
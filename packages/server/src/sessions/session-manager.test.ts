@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach } from "vitest";
 import { SessionManager } from "./session-manager.js";
+import { InMemoryWorkItemClient } from "../services/in-memory-devops.js";
 
 const TEST_ORG_URL = "https://dev.azure.com/test";
 
@@ -41,6 +42,71 @@ describe("SessionManager", () => {
 
       expect(session1.id).toBe(session2.id);
     });
+
+    it("should load work item context when a client is given", async () => {
+      const client = new InMemoryWorkItemClient({
+        items: [{ id: 123, fields: { "System.Title": "Checkout page" } }],
+      });
+
+      const session = await manager.create(
+        { workItemId: 123, projectId: "TestProject", organizationUrl: TEST_ORG_URL },
+        client
+      );
+
+      expect(session.context.workItem.fields["System.Title"]).toBe("Checkout page");
+    });
+  });
+
+  describe("setState", () => {
+    it("should move the session along the flow", async () => {
+      const session = await manager.create({
+        workItemId: 123,
+        projectId: "TestProject",
+        organizationUrl: TEST_ORG_URL,
+      });
+
+      const updated = await manager.setState(session.id, "plan");
+
+      expect(updated?.state).toBe("plan");
+      expect((await manager.get(session.id))?.state).toBe("plan");
+    });
+
+    it("should reject transitions the flow does not allow", async () => {
+      const session = await manager.create({
+        workItemId: 123,
+        projectId: "TestProject",
+        organizationUrl: TEST_ORG_URL,
+      });
+
+      await expect(manager.setState(session.id, "execute")).rejects.toThrow(
+        'Cannot move from "idle" to "execute"'
+      );
+    });
+  });
+
+  describe("refresh", () => {
+    it("should re-fetch the work item context", async () => {
+      const client = new InMemoryWorkItemClient({
+        items: [{ id: 123, fields: { "System.State": "New" } }],
+      });
+      const session = await manager.create(
+        { workItemId: 123, projectId: "TestProject", organizationUrl: TEST_ORG_URL },
+        client
+      );
+
+      await client.updateWorkItem(123, [
+        { op: "replace", path: "/fields/System.State", value: "Active" },
+      ]);
+      const refreshed = await manager.refresh(session.id, client);
+
+      expect(refreshed?.context.workItem.fields["System.State"]).toBe("Active");
+    });
+
+    it("should return undefined for unknown session", async () => {
+      const refreshed = await manager.refresh("unknown", new InMemoryWorkItemClient());
+
+      expect(refreshed).toBeUndefined();
+    });
   });
 
   describe("get", () => {
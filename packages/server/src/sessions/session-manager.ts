@@ -1,21 +1,42 @@
 import { nanoid } from "nanoid";
-import type { WorkItemSession, SessionCreateRequest } from "@azure-boards-ai/shared";
+import type { WorkItemSession, SessionCreateRequest, SessionState } from "@azure-boards-ai/shared";
+import { transition } from "../agent/flow.js";
+import type { WorkItemTrackingClient } from "../services/azure-devops.js";
+import { emptyContext, loadWorkItemContext } from "./context-loader.js";
+import { MemorySessionStore } from "./store.js";
+import type { SessionStore } from "./store.js";
+
+// A session that was deleted while a request waited for it
+export class SessionNotFoundError extends Error {
+  readonly statusCode = 404;
+
+  constructor(sessionId: string) {
+    super(`Session ${sessionId} not found`);
+    this.name = "SessionNotFoundError";
+  }
+}
 
 export class SessionManager {
-  private sessions: Map<string, WorkItemSession> = new Map();
-  private workItemIndex: Map<string, string> = new Map();
+  private store: SessionStore;
 
-  async create(request: SessionCreateRequest): Promise<WorkItemSession> {
-    const { workItemId, projectId, organizationUrl } = request;
+  constructor(store: SessionStore = new MemorySessionStore()) {
+    this.store = store;
+  }
 
-    const key = `${organizationUrl}:${workItemId}`;
-    const existingId = this.workItemIndex.get(key);
+  /**
+   * Create a session for a work item, or return the one `ownerId` already has.
+   * When a client is given, the work item context is loaded from Azure DevOps.
+   */
+  async create(
+    request: SessionCreateRequest,
+    client?: WorkItemTrackingClient,
+    ownerId?: string
+  ): Promise<WorkItemSession> {
+    const { workItemId, projectId, organizationUrl } = request;
 
-    if (existingId) {
-      const existing = this.sessions.get(existingId);
-      if (existing) {
-        return existing;
-      }
+    const existing = await this.store.getByWorkItem(workItemId, organizationUrl, ownerId);
+    if (existing) {
+      return existing;
     }
 
     const session: WorkItemSession = {
@@ -23,48 +44,40 @@ export class SessionManager {
       workItemId,
       projectId,
       organizationUrl,
+      ...(ownerId && { ownerId }),
       state: "idle",
       transcript: [],
-      context: {
-        workItem: {} as never,
-        relatedItems: [],
-        childItems: [],
-      },
+      context: client ? await loadWorkItemContext(client, workItemId) : emptyContext(workItemId),
       createdAt: new Date(),
       updatedAt: new Date(),
     };
 
-    this.sessions.set(session.id, session);
-    this.workItemIndex.set(key, session.id);
+    await this.store.save(session);
 
     return session;
   }
 
   async get(id: string): Promise<WorkItemSession | undefined> {
-    return this.sessions.get(id);
+    return this.store.get(id);
   }
 
   async getByWorkItem(
     workItemId: number,
-    organizationUrl: string
+    organizationUrl: string,
+    ownerId?: string
   ): Promise<WorkItemSession | undefined> {
-    const key = `${organizationUrl}:${workItemId}`;
-    const sessionId = this.workItemIndex.get(key);
-    if (!sessionId) {
-      return undefined;
-    }
-    return this.sessions.get(sessionId);
+    return this.store.getByWorkItem(workItemId, organizationUrl, ownerId);
   }
 
   async list(): Promise<WorkItemSession[]> {
-    return Array.from(this.sessions.values());
+    return this.store.list();
   }
 
   async update(
     id: string,
     updates: Partial<WorkItemSession>
   ): Promise<WorkItemSession | undefined> {
-    const session = this.sessions.get(id);
+    const session = await this.store.get(id);
     if (!session) {
       return undefined;
     }
@@ -75,16 +88,48 @@ export class SessionManager {
       updatedAt: new Date(),
     };
 
-    this.sessions.set(id, updated);
+    await this.store.save(updated);
     return updated;
   }
 
-  async delete(id: string): Promise<void> {
-    const session = this.sessions.get(id);
-    if (session) {
-      const key = `${session.organizationUrl}:${session.workItemId}`;
-      this.workItemIndex.delete(key);
-      this.sessions.delete(id);
+  /**
+   * Move a session to another flow state. Throws InvalidTransitionError when
+   * the flow does not allow it.
+   */
+  async setState(id: string, state: SessionState): Promise<WorkItemSession | undefined> {
+    const session = await this.store.get(id);
+    if (!session) {
+      return undefined;
     }
+
+    transition(session, state);
+    await this.save(session);
+    return session;
+  }
+
+  /**
+   * Persist a session that was mutated in place, e.g. by an agent run
+   * appending to its transcript
+   */
+  async save(session: WorkItemSession): Promise<void> {
+    session.updatedAt = new Date();
+    await this.store.save(session);
+  }
+
+  /**
+   * Re-fetch the work item context, e.g. after the item was edited in Boards
+   */
+  async refresh(id: string, client: WorkItemTrackingClient): Promise<WorkItemSession | undefined> {
+    const session = await this.store.get(id);
+    if (!session) {
+      return undefined;
+    }
+
+    const context = await loadWorkItemContext(client, session.workItemId);
+    return this.update(id, { context });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.store.delete(id);
   }
 }
@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { StreamChunk } from "@azure-boards-ai/shared";
+import {
+  ReplayUnavailableError,
+  SessionBusyError,
+  SessionStream,
+  SessionStreams,
+} from "./session-streams.js";
+
+describe("SessionStream", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should number chunks across runs", () => {
+    const stream = new SessionStream("session-1");
+    const received: StreamChunk[] = [];
+    stream.subscribe((chunk) => received.push(chunk));
+
+    stream.startRun();
+    stream.publish({ type: "text", content: "a" });
+    stream.publish({ type: "done" });
+    stream.endRun();
+    stream.startRun();
+    stream.publish({ type: "done" });
+
+    expect(received.map((chunk) => chunk.seq)).toEqual([1, 2, 3]);
+  });
+
+  it("should allow only one run at a time", () => {
+    const stream = new SessionStream("session-1");
+    stream.startRun();
+
+    expect(() => stream.startRun()).toThrow(SessionBusyError);
+
+    stream.endRun();
+    expect(() => stream.startRun()).not.toThrow();
+  });
+
+  it("should mark where the active run starts", () => {
+    const stream = new SessionStream("session-1");
+    stream.startRun();
+    stream.publish({ type: "done" });
+    stream.endRun();
+
+    expect(stream.runStartSeq).toBeUndefined();
+
+    stream.startRun();
+    expect(stream.runStartSeq).toBe(1);
+  });
+
+  it("should replay the chunks after lastSeq before live ones", () => {
+    const stream = new SessionStream("session-1");
+    stream.startRun();
+    stream.publish({ type: "text", content: "a" });
+    stream.publish({ type: "text", content: "b" });
+
+    const received: StreamChunk[] = [];
+    stream.subscribe((chunk) => received.push(chunk), 1);
+    stream.publish({ type: "done" });
+
+    expect(received.map((chunk) => [chunk.seq, chunk.type])).toEqual([
+      [2, "text"],
+      [3, "done"],
+    ]);
+  });
+
+  it("should refuse to replay chunks that were dropped", () => {
+    const stream = new SessionStream("session-1", { maxBufferedChunks: 2 });
+    stream.startRun();
+    stream.publish({ type: "text", content: "a" });
+    stream.publish({ type: "text", content: "b" });
+    stream.publish({ type: "text", content: "c" });
+
+    expect(() => stream.subscribe(() => undefined, 0)).toThrow(ReplayUnavailableError);
+    expect(() => stream.subscribe(() => undefined, 1)).not.toThrow();
+  });
+
+  it("should cancel a run left without listeners", () => {
+    vi.useFakeTimers();
+    const stream = new SessionStream("session-1", { detachedRunTimeoutMs: 1000 });
+    const unsubscribe = stream.subscribe(() => undefined);
+    const signal = stream.startRun();
+
+    unsubscribe();
+    vi.advanceTimersByTime(999);
+    expect(signal.aborted).toBe(false);
+
+    vi.advanceTimersByTime(1);
+    expect(signal.aborted).toBe(true);
+  });
+
+  it("should keep the run going when a client resumes in time", () => {
+    vi.useFakeTimers();
+    const stream = new SessionStream("session-1", { detachedRunTimeoutMs: 1000 });
+    const signal = stream.startRun();
+
+    vi.advanceTimersByTime(500);
+    stream.subscribe(() => undefined, 0);
+    vi.advanceTimersByTime(1000);
+
+    expect(signal.aborted).toBe(false);
+  });
+});
+
+describe("SessionStreams", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should keep one stream per session", () => {
+    const streams = new SessionStreams();
+
+    expect(streams.find("a")).toBeUndefined();
+    expect(streams.get("a")).toBe(streams.get("a"));
+    expect(streams.get("a")).not.toBe(streams.get("b"));
+  });
+
+  it("should drop a stream once its run ended and nobody follows it", () => {
+    vi.useFakeTimers();
+    const streams = new SessionStreams({ idleTimeoutMs: 1000 });
+    const stream = streams.get("a");
+    const unsubscribe = stream.subscribe(() => undefined);
+    stream.startRun();
+
+    vi.advanceTimersByTime(1000);
+    stream.endRun();
+    unsubscribe();
+    vi.advanceTimersByTime(999);
+    expect(streams.find("a")).toBe(stream);
+
+    vi.advanceTimersByTime(1);
+    expect(streams.find("a")).toBeUndefined();
+  });
+
+  it("should refuse to resume chunks sent before the stream was dropped", () => {
+    vi.useFakeTimers();
+    const streams = new SessionStreams({ idleTimeoutMs: 1000 });
+    streams.get("a").publish({ type: "text", content: "Hi" });
+    streams.get("a").publish({ type: "done" });
+    vi.advanceTimersByTime(1000);
+
+    const stream = streams.get("a");
+    expect(stream.publish({ type: "text", content: "Again" }).seq).toBe(3);
+    expect(() => stream.subscribe(() => undefined, 1)).toThrow(ReplayUnavailableError);
+  });
+
+  it("should refuse to resume from chunks it never sent", () => {
+    const stream = new SessionStreams().get("a");
+    stream.publish({ type: "done" });
+
+    expect(() => stream.subscribe(() => undefined, 5)).toThrow(ReplayUnavailableError);
+  });
+
+  it("should drop the stream of a deleted session", () => {
+    const streams = new SessionStreams();
+    streams.get("a");
+
+    streams.delete("a");
+
+    expect(streams.find("a")).toBeUndefined();
+  });
+
+  it("should let one task at a time hold a session", async () => {
+    const streams = new SessionStreams();
+    let release: () => void = () => undefined;
+    const held = streams.withRunLock("a", (stream) => {
+      expect(stream.busy).toBe(true);
+      return new Promise<void>((resolve) => {
+        release = resolve;
+      });
+    });
+
+    await expect(streams.withRunLock("a", async () => undefined)).rejects.toThrow(SessionBusyError);
+    expect(await streams.withRunLock("b", async () => "other")).toBe("other");
+    release();
+    await held;
+    expect(streams.get("a").busy).toBe(false);
+    expect(await streams.withRunLock("a", async () => "next")).toBe("next");
+  });
+
+  it("should keep the last run available for replay while a session is held", async () => {
+    const streams = new SessionStreams();
+    const stream = streams.get("a");
+    stream.startRun();
+    stream.publish({ type: "text", content: "Hi" });
+    stream.endRun();
+
+    await streams.withRunLock("a", async () => undefined);
+
+    const replayed: StreamChunk[] = [];
+    stream.subscribe((chunk) => replayed.push(chunk), 0);
+    expect(replayed.map((chunk) => chunk.seq)).toEqual([1]);
+  });
+});
@@ -0,0 +1,286 @@
+import type { StreamChunk } from "@azure-boards-ai/shared";
+import { ConfirmationGate } from "../agent/confirmation.js";
+
+// How long a run keeps going with nobody connected before it is cancelled
+export const DETACHED_RUN_TIMEOUT_MS = 60 * 1000;
+
+// How long a finished run stays available for replay once nobody follows the session
+export const IDLE_STREAM_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Oldest chunks of a long run are dropped past this; resuming before them fails
+export const MAX_BUFFERED_CHUNKS = 5000;
+
+export type ChunkListener = (chunk: StreamChunk) => void;
+
+export interface SessionStreamOptions {
+  detachedRunTimeoutMs?: number;
+  idleTimeoutMs?: number;
+  maxBufferedChunks?: number;
+}
+
+export interface SessionStreamHooks {
+  // Sequence number of an earlier stream of the session, to continue after
+  lastSeq?: number;
+  // Called once the stream has had no run and no listeners for the idle timeout
+  onIdle?: () => void;
+}
+
+export class ReplayUnavailableError extends Error {
+  readonly statusCode = 410;
+
+  constructor(lastSeq: number) {
+    super(`Chunks after ${lastSeq} are no longer available; reload the session`);
+    this.name = "ReplayUnavailableError";
+  }
+}
+
+export class SessionBusyError extends Error {
+  readonly statusCode = 409;
+
+  constructor(sessionId: string) {
+    super(`Session ${sessionId} is busy with another run`);
+    this.name = "SessionBusyError";
+  }
+}
+
+/**
+ * The chunk stream of one session's runs. Chunks get increasing sequence
+ * numbers and the latest run is buffered, so a client that reconnects can
+ * replay what it missed and keep following the live run.
+ */
+export class SessionStream {
+  readonly sessionId: string;
+  // Mutating tool calls of the session's runs wait here for approval
+  readonly confirmations = new ConfirmationGate();
+  private lastSeq = 0;
+  private buffer: StreamChunk[] = [];
+  private listeners: Set<ChunkListener> = new Set();
+  private controller?: AbortController;
+  private locked = false;
+  private runStart = 0;
+  private detachedTimer?: ReturnType<typeof setTimeout>;
+  private idleTimer?: ReturnType<typeof setTimeout>;
+  private detachedRunTimeoutMs: number;
+  private idleTimeoutMs: number;
+  private maxBufferedChunks: number;
+  private onIdle?: () => void;
+
+  constructor(
+    sessionId: string,
+    options: SessionStreamOptions = {},
+    { lastSeq = 0, onIdle }: SessionStreamHooks = {}
+  ) {
+    this.sessionId = sessionId;
+    this.lastSeq = lastSeq;
+    this.detachedRunTimeoutMs = options.detachedRunTimeoutMs ?? DETACHED_RUN_TIMEOUT_MS;
+    this.idleTimeoutMs = options.idleTimeoutMs ?? IDLE_STREAM_TIMEOUT_MS;
+    this.maxBufferedChunks = options.maxBufferedChunks ?? MAX_BUFFERED_CHUNKS;
+    this.onIdle = onIdle;
+    this.checkIdle();
+  }
+
+  get seq(): number {
+    return this.lastSeq;
+  }
+
+  get running(): boolean {
+    return this.controller !== undefined;
+  }
+
+  // Whether a run or a change to the session holds it
+  get busy(): boolean {
+    return this.locked || this.running;
+  }
+
+  // Sequence number just before the active run's first chunk
+  get runStartSeq(): number | undefined {
+    return this.running ? this.runStart : undefined;
+  }
+
+  /**
+   * Start buffering a new run. Only one run per session may be active, since
+   * runs append to the same transcript. The returned signal is aborted on
+   * cancel() or when the run has been left without listeners for too long.
+   */
+  startRun(): AbortSignal {
+    if (this.controller) {
+      throw new SessionBusyError(this.sessionId);
+    }
+    this.controller = new AbortController();
+    this.runStart = this.lastSeq;
+    this.buffer = [];
+    this.clearIdleTimer();
+    this.checkDetached();
+    return this.controller.signal;
+  }
+
+  // The buffer is kept until the next run, for clients that reconnect after the end
+  endRun(): void {
+    this.controller = undefined;
+    this.clearDetachedTimer();
+    this.checkIdle();
+  }
+
+  /**
+   * Hold the session exclusively while it is loaded, changed and saved. Unlike
+   * startRun, this leaves the buffer alone, so clients can still resume the
+   * last run afterwards.
+   */
+  lock(): void {
+    if (this.locked) {
+      throw new SessionBusyError(this.sessionId);
+    }
+    this.locked = true;
+    this.clearIdleTimer();
+  }
+
+  unlock(): void {
+    this.locked = false;
+    this.checkIdle();
+  }
+
+  cancel(): boolean {
+    if (!this.controller) {
+      return false;
+    }
+    this.controller.abort();
+    return true;
+  }
+
+  publish(chunk: StreamChunk): StreamChunk {
+    const sequenced = { ...chunk, seq: ++this.lastSeq };
+    this.buffer.push(sequenced);
+    if (this.buffer.length > this.maxBufferedChunks) {
+      this.buffer.shift();
+    }
+    for (const listener of this.listeners) {
+      listener(sequenced);
+    }
+    return sequenced;
+  }
+
+  /**
+   * Follow the stream. With `afterSeq`, buffered chunks after it are replayed
+   * first; throws when some of them have already been dropped, or when
+   * `afterSeq` is from chunks this stream never sent, e.g. before a restart.
+   */
+  subscribe(listener: ChunkListener, afterSeq?: number): () => void {
+    if (afterSeq !== undefined) {
+      const oldest = this.buffer[0]?.seq ?? this.lastSeq + 1;
+      if (afterSeq > this.lastSeq || (afterSeq < this.lastSeq && oldest > afterSeq + 1)) {
+        throw new ReplayUnavailableError(afterSeq);
+      }
+      for (const chunk of this.buffer) {
+        if ((chunk.seq ?? 0) > afterSeq) {
+          listener(chunk);
+        }
+      }
+    }
+
+    this.listeners.add(listener);
+    this.clearDetachedTimer();
+    this.clearIdleTimer();
+
+    return () => {
+      this.listeners.delete(listener);
+      this.checkDetached();
+      this.checkIdle();
+    };
+  }
+
+  // Stop the timers of a stream that is no longer used
+  dispose(): void {
+    this.clearDetachedTimer();
+    this.clearIdleTimer();
+  }
+
+  private checkDetached(): void {
+    if (this.running && this.listeners.size === 0 && !this.detachedTimer) {
+      this.detachedTimer = setTimeout(() => this.cancel(), this.detachedRunTimeoutMs);
+    }
+  }
+
+  private clearDetachedTimer(): void {
+    clearTimeout(this.detachedTimer);
+    this.detachedTimer = undefined;
+  }
+
+  private checkIdle(): void {
+    const onIdle = this.onIdle;
+    if (onIdle && !this.busy && this.listeners.size === 0 && !this.idleTimer) {
+      this.idleTimer = setTimeout(() => {
+        this.idleTimer = undefined;
+        onIdle();
+      }, this.idleTimeoutMs);
+    }
+  }
+
+  private clearIdleTimer(): void {
+    clearTimeout(this.idleTimer);
+    this.idleTimer = undefined;
+  }
+}
+
+/**
+ * The streams of the sessions in use. A stream is dropped when it has been
+ * idle for a while or its session is deleted. The sequence numbers of a
+ * dropped idle stream are continued by the session's next one, so a client
+ * resuming from before the drop is told its chunks are gone.
+ */
+export class SessionStreams {
+  private streams: Map<string, SessionStream> = new Map();
+  private lastSeqs: Map<string, number> = new Map();
+  private options: SessionStreamOptions;
+
+  constructor(options: SessionStreamOptions = {}) {
+    this.options = options;
+  }
+
+  get(sessionId: string): SessionStream {
+    let stream = this.streams.get(sessionId);
+    if (!stream) {
+      stream = new SessionStream(sessionId, this.options, {
+        lastSeq: this.lastSeqs.get(sessionId),
+        onIdle: () => this.drop(sessionId),
+      });
+      this.streams.set(sessionId, stream);
+    }
+    return stream;
+  }
+
+  find(sessionId: string): SessionStream | undefined {
+    return this.streams.get(sessionId);
+  }
+
+  // The session is gone, so nothing will resume its stream
+  delete(sessionId: string): void {
+    this.streams.get(sessionId)?.dispose();
+    this.streams.delete(sessionId);
+    this.lastSeqs.delete(sessionId);
+  }
+
+  private drop(sessionId: string): void {
+    const stream = this.streams.get(sessionId);
+    if (stream) {
+      this.lastSeqs.set(sessionId, stream.seq);
+      stream.dispose();
+      this.streams.delete(sessionId);
+    }
+  }
+
+  /**
+   * Run `task` holding the session's lock. Runs and changes save the whole
+   * session, so they take turns: the task loads the session under the lock,
+   * since a copy read before it may already be stale. Throws SessionBusyError
+   * while another run or change holds the session.
+   */
+  async withRunLock<T>(sessionId: string, task: (stream: SessionStream) => Promise<T>): Promise<T> {
+    const stream = this.get(sessionId);
+    stream.lock();
+    try {
+      return await task(stream);
+    } finally {
+      stream.unlock();
+    }
+  }
+}
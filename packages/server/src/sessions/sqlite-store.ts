@@ -0,0 +1,108 @@
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import Database from "better-sqlite3";
+import type { WorkItemSession } from "@azure-boards-ai/shared";
+import { deserializeSession, serializeSession } from "./serialization.js";
+import type { SessionStore } from "./store.js";
+
+const IN_MEMORY = ":memory:";
+
+interface SessionRow {
+  data: string;
+}
+
+/**
+ * Stores sessions in a single SQLite table, one JSON document per row, with
+ * the work item and owner columns indexed for lookups from the extension.
+ */
+export class SqliteSessionStore implements SessionStore {
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    if (filename !== IN_MEMORY) {
+      mkdirSync(dirname(filename), { recursive: true });
+    }
+    this.db = new Database(filename);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        organization_url TEXT NOT NULL,
+        work_item_id INTEGER NOT NULL,
+        owner_id TEXT NOT NULL DEFAULT '',
+        updated_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+    `);
+    this.migrateOwnerColumn();
+    this.db.exec(`
+      CREATE UNIQUE INDEX IF NOT EXISTS sessions_work_item_owner
+        ON sessions (organization_url, work_item_id, owner_id);
+    `);
+  }
+
+  // Tables from before sessions had owners get the column, filled from the stored sessions
+  private migrateOwnerColumn(): void {
+    const columns = this.db.prepare("PRAGMA table_info(sessions)").all() as { name: string }[];
+    if (columns.some(({ name }) => name === "owner_id")) {
+      return;
+    }
+    this.db.exec(`
+      DROP INDEX IF EXISTS sessions_work_item;
+      ALTER TABLE sessions ADD COLUMN owner_id TEXT NOT NULL DEFAULT '';
+      UPDATE sessions SET owner_id = COALESCE(json_extract(data, '$.ownerId'), '');
+    `);
+  }
+
+  async get(id: string): Promise<WorkItemSession | undefined> {
+    const row = this.db.prepare("SELECT data FROM sessions WHERE id = ?").get(id) as
+      | SessionRow
+      | undefined;
+    return row ? deserializeSession(row.data) : undefined;
+  }
+
+  async getByWorkItem(
+    workItemId: number,
+    organizationUrl: string,
+    ownerId?: string
+  ): Promise<WorkItemSession | undefined> {
+    const row = this.db
+      .prepare(
+        "SELECT data FROM sessions WHERE organization_url = ? AND work_item_id = ? AND owner_id = ?"
+      )
+      .get(organizationUrl, workItemId, ownerId ?? "") as SessionRow | undefined;
+    return row ? deserializeSession(row.data) : undefined;
+  }
+
+  async list(): Promise<WorkItemSession[]> {
+    const rows = this.db
+      .prepare("SELECT data FROM sessions ORDER BY updated_at DESC")
+      .all() as SessionRow[];
+    return rows.map((row) => deserializeSession(row.data));
+  }
+
+  async save(session: WorkItemSession): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO sessions (id, organization_url, work_item_id, owner_id, updated_at, data)
+         VALUES (@id, @organizationUrl, @workItemId, @ownerId, @updatedAt, @data)
+         ON CONFLICT (id) DO UPDATE SET updated_at = excluded.updated_at, data = excluded.data`
+      )
+      .run({
+        id: session.id,
+        organizationUrl: session.organizationUrl,
+        workItemId: session.workItemId,
+        ownerId: session.ownerId ?? "",
+        updatedAt: session.updatedAt.toISOString(),
+        data: serializeSession(session),
+      });
+  }
+
+  async delete(id: string): Promise<void> {
+    this.db.prepare("DELETE FROM sessions WHERE id = ?").run(id);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,27 @@
+import { FileSessionStore } from "./file-store.js";
+import { SqliteSessionStore } from "./sqlite-store.js";
+import { MemorySessionStore } from "./store.js";
+import type { SessionStore } from "./store.js";
+
+export type SessionStoreKind = "memory" | "file" | "sqlite";
+
+export interface SessionStoreConfig {
+  kind: SessionStoreKind;
+  path?: string;
+}
+
+const DEFAULT_PATHS: Record<Exclude<SessionStoreKind, "memory">, string> = {
+  file: "./data/sessions",
+  sqlite: "./data/sessions.db",
+};
+
+export function createSessionStore(config: SessionStoreConfig): SessionStore {
+  switch (config.kind) {
+    case "file":
+      return new FileSessionStore(config.path ?? DEFAULT_PATHS.file);
+    case "sqlite":
+      return new SqliteSessionStore(config.path ?? DEFAULT_PATHS.sqlite);
+    default:
+      return new MemorySessionStore();
+  }
+}
@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import Database from "better-sqlite3";
+import { join } from "node:path";
+import type { WorkItemSession } from "@azure-boards-ai/shared";
+import { MemorySessionStore } from "./store.js";
+import type { SessionStore } from "./store.js";
+import { FileSessionStore } from "./file-store.js";
+import { SqliteSessionStore } from "./sqlite-store.js";
+import { createSessionStore } from "./store-config.js";
+
+const TEST_ORG_URL = "https://dev.azure.com/test";
+
+function makeSession(id: string, workItemId: number): WorkItemSession {
+  return {
+    id,
+    workItemId,
+    projectId: "TestProject",
+    organizationUrl: TEST_ORG_URL,
+    state: "idle",
+    transcript: [
+      { id: "m1", role: "user", content: "Hello", createdAt: new Date("2026-01-01T10:00:00Z") },
+    ],
+    context: {
+      workItem: { id: workItemId, fields: { "System.Title": "Story" } },
+      relatedItems: [],
+      childItems: [],
+      loadedAt: new Date("2026-01-01T09:00:00Z"),
+    },
+    plan: {
+      id: "p1",
+      status: "approved",
+      subtasks: [{ id: "t1", title: "Task", type: "Task", tags: [], dependsOn: [] }],
+      createdAt: new Date("2026-01-01T09:30:00Z"),
+      updatedAt: new Date("2026-01-01T09:45:00Z"),
+      approvedAt: new Date("2026-01-01T09:45:00Z"),
+    },
+    spec: {
+      id: "s1",
+      status: "applied",
+      description: "Pay with saved cards",
+      acceptanceCriteria: [{ given: "a saved card", when: "paying", then: "it is charged" }],
+      openQuestions: [],
+      risks: [],
+      createdAt: new Date("2026-01-01T09:10:00Z"),
+      updatedAt: new Date("2026-01-01T09:20:00Z"),
+      applied: { appliedAt: new Date("2026-01-01T09:20:00Z"), rev: 4, changes: [] },
+    },
+    operations: [
+      {
+        id: "op1",
+        kind: "update",
+        workItemId,
+        changes: [{ field: "System.State", from: "New", to: "Active" }],
+        addedLinks: [],
+        performedAt: new Date("2026-01-01T09:25:00Z"),
+        revertedAt: new Date("2026-01-01T09:30:00Z"),
+      },
+    ],
+    createdAt: new Date("2026-01-01T09:00:00Z"),
+    updatedAt: new Date("2026-01-01T10:00:00Z"),
+  };
+}
+
+const backends: Array<[string, (dir: string) => SessionStore]> = [
+  ["MemorySessionStore", () => new MemorySessionStore()],
+  ["FileSessionStore", (dir) => new FileSessionStore(join(dir, "sessions"))],
+  ["SqliteSessionStore", (dir) => new SqliteSessionStore(join(dir, "sessions.db"))],
+];
+
+describe.each(backends)("%s", (_name, createStore) => {
+  let dir: string;
+  let store: SessionStore;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "sessions-"));
+    store = createStore(dir);
+  });
+
+  afterEach(async () => {
+    (store as Partial<SqliteSessionStore>).close?.();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should save and load a session with dates revived", async () => {
+    const session = makeSession("s1", 1);
+    await store.save(session);
+
+    const loaded = await store.get("s1");
+
+    expect(loaded).toEqual(session);
+    expect(loaded?.updatedAt).toBeInstanceOf(Date);
+    expect(loaded?.transcript[0].createdAt).toBeInstanceOf(Date);
+    expect(loaded?.context.loadedAt).toBeInstanceOf(Date);
+    expect(loaded?.plan?.approvedAt).toBeInstanceOf(Date);
+    expect(loaded?.spec?.applied?.appliedAt).toBeInstanceOf(Date);
+    expect(loaded?.operations?.[0].revertedAt).toBeInstanceOf(Date);
+  });
+
+  it("should find a session by work item", async () => {
+    await store.save(makeSession("s1", 1));
+    await store.save(makeSession("s2", 2));
+
+    const found = await store.getByWorkItem(2, TEST_ORG_URL);
+
+    expect(found?.id).toBe("s2");
+    expect(await store.getByWorkItem(3, TEST_ORG_URL)).toBeUndefined();
+  });
+
+  it("should keep a session per owner of a work item", async () => {
+    await store.save({ ...makeSession("s1", 1), ownerId: "alice-id" });
+    await store.save({ ...makeSession("s2", 1), ownerId: "bob-id" });
+    await store.save(makeSession("s3", 1));
+
+    expect((await store.getByWorkItem(1, TEST_ORG_URL, "alice-id"))?.id).toBe("s1");
+    expect((await store.getByWorkItem(1, TEST_ORG_URL, "bob-id"))?.id).toBe("s2");
+    expect((await store.getByWorkItem(1, TEST_ORG_URL))?.id).toBe("s3");
+    expect(await store.getByWorkItem(1, TEST_ORG_URL, "carol-id")).toBeUndefined();
+  });
+
+  it("should overwrite a session on save", async () => {
+    const session = makeSession("s1", 1);
+    await store.save(session);
+
+    await store.save({ ...session, state: "plan" });
+
+    expect((await store.get("s1"))?.state).toBe("plan");
+    expect(await store.list()).toHaveLength(1);
+  });
+
+  it("should delete a session", async () => {
+    await store.save(makeSession("s1", 1));
+
+    await store.delete("s1");
+
+    expect(await store.get("s1")).toBeUndefined();
+    expect(await store.getByWorkItem(1, TEST_ORG_URL)).toBeUndefined();
+    expect(await store.list()).toEqual([]);
+  });
+});
+
+describe("FileSessionStore", () => {
+  it("should persist sessions across instances", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "sessions-"));
+    await new FileSessionStore(dir).save(makeSession("s1", 1));
+
+    const reopened = new FileSessionStore(dir);
+
+    expect((await reopened.get("s1"))?.workItemId).toBe(1);
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should not fail when a session is saved concurrently", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "sessions-"));
+    const store = new FileSessionStore(dir);
+
+    await Promise.all([store.save(makeSession("s1", 1)), store.save(makeSession("s1", 1))]);
+
+    expect(await readdir(dir)).toEqual(["s1.json"]);
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should not find or save sessions under ids that are not safe file names", async () => {
+    const store = new FileSessionStore(tmpdir());
+
+    expect(await store.get("../etc/passwd")).toBeUndefined();
+    await expect(store.save(makeSession("../etc/passwd", 1))).rejects.toThrow("Invalid session id");
+  });
+});
+
+describe("SqliteSessionStore", () => {
+  it("should give tables from before session owners an owner column", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "sessions-"));
+    const filename = join(dir, "sessions.db");
+    const db = new Database(filename);
+    db.exec(`
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        organization_url TEXT NOT NULL,
+        work_item_id INTEGER NOT NULL,
+        updated_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE UNIQUE INDEX sessions_work_item ON sessions (organization_url, work_item_id);
+    `);
+    const session = { ...makeSession("s1", 1), ownerId: "alice-id" };
+    db.prepare("INSERT INTO sessions VALUES (?, ?, ?, ?, ?)").run(
+      session.id,
+      TEST_ORG_URL,
+      1,
+      session.updatedAt.toISOString(),
+      JSON.stringify(session)
+    );
+    db.close();
+
+    const store = new SqliteSessionStore(filename);
+    await store.save({ ...makeSession("s2", 1), ownerId: "bob-id" });
+
+    expect((await store.getByWorkItem(1, TEST_ORG_URL, "alice-id"))?.id).toBe("s1");
+    expect((await store.getByWorkItem(1, TEST_ORG_URL, "bob-id"))?.id).toBe("s2");
+    store.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+});
+
+describe("createSessionStore", () => {
+  it("should default to memory", () => {
+    expect(createSessionStore({ kind: "memory" })).toBeInstanceOf(MemorySessionStore);
+  });
+});
@@ -0,0 +1,61 @@
+import type { WorkItemSession } from "@azure-boards-ai/shared";
+
+/**
+ * Persistence backend for sessions. Implementations must return sessions with
+ * Date fields revived, and keep the work item lookup consistent with save/delete.
+ * Each user has their own session per work item; unowned sessions have no ownerId.
+ */
+export interface SessionStore {
+  get(id: string): Promise<WorkItemSession | undefined>;
+  getByWorkItem(
+    workItemId: number,
+    organizationUrl: string,
+    ownerId?: string
+  ): Promise<WorkItemSession | undefined>;
+  list(): Promise<WorkItemSession[]>;
+  save(session: WorkItemSession): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export function workItemKey(organizationUrl: string, workItemId: number, ownerId = ""): string {
+  return `${organizationUrl}:${workItemId}:${ownerId}`;
+}
+
+function sessionKey(session: WorkItemSession): string {
+  return workItemKey(session.organizationUrl, session.workItemId, session.ownerId);
+}
+
+export class MemorySessionStore implements SessionStore {
+  private sessions: Map<string, WorkItemSession> = new Map();
+  private workItemIndex: Map<string, string> = new Map();
+
+  async get(id: string): Promise<WorkItemSession | undefined> {
+    return this.sessions.get(id);
+  }
+
+  async getByWorkItem(
+    workItemId: number,
+    organizationUrl: string,
+    ownerId?: string
+  ): Promise<WorkItemSession | undefined> {
+    const sessionId = this.workItemIndex.get(workItemKey(organizationUrl, workItemId, ownerId));
+    return sessionId ? this.sessions.get(sessionId) : undefined;
+  }
+
+  async list(): Promise<WorkItemSession[]> {
+    return Array.from(this.sessions.values());
+  }
+
+  async save(session: WorkItemSession): Promise<void> {
+    this.sessions.set(session.id, session);
+    this.workItemIndex.set(sessionKey(session), session.id);
+  }
+
+  async delete(id: string): Promise<void> {
+    const session = this.sessions.get(id);
+    if (session) {
+      this.workItemIndex.delete(sessionKey(session));
+      this.sessions.delete(id);
+    }
+  }
+}
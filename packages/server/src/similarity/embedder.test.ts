@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { HashingEmbedder, HttpEmbedder, createEmbedder, tokenize } from "./embedder.js";
+import { cosineSimilarity } from "./embedding-index.js";
+import { RetryPolicy } from "../services/retry.js";
+
+const EMBEDDINGS_URL = "http://localhost:11434/v1/embeddings";
+
+describe("tokenize", () => {
+  it("should drop stop words and fold plurals and verb forms", () => {
+    expect(tokenize("As a user I want saved Payments, and paying works")).toEqual([
+      "sav",
+      "payment",
+      "pay",
+      "work",
+    ]);
+  });
+});
+
+describe("HashingEmbedder", () => {
+  const embedder = new HashingEmbedder();
+
+  it("should score rewordings of the same item above unrelated items", async () => {
+    const [item, duplicate, unrelated] = await embedder.embed([
+      "Checkout fails with saved cards",
+      "Saved cards fail at checkout",
+      "Update the privacy policy page",
+    ]);
+
+    expect(cosineSimilarity(item, duplicate)).toBeGreaterThan(0.75);
+    expect(cosineSimilarity(item, unrelated)).toBeLessThan(0.2);
+  });
+
+  it("should return unit vectors, or zeros for text without words", async () => {
+    const [vector, empty] = await embedder.embed(["Export reports to CSV", "!!"]);
+
+    expect(Math.hypot(...vector)).toBeCloseTo(1);
+    expect(empty.every((value) => value === 0)).toBe(true);
+  });
+});
+
+describe("HttpEmbedder", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should post batches to an OpenAI-compatible endpoint in input order", async () => {
+    const fetchMock = vi.fn(async () =>
+      Response.json({
+        data: [
+          { index: 1, embedding: [0, 2] },
+          { index: 0, embedding: [3, 4] },
+        ],
+      })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    const embedder = new HttpEmbedder({ url: EMBEDDINGS_URL, model: "nomic", apiKey: "key" });
+
+    const vectors = await embedder.embed(["a", "b"]);
+
+    expect(vectors).toEqual([
+      [0.6, 0.8],
+      [0, 1],
+    ]);
+    expect(fetchMock).toHaveBeenCalledWith(
+      EMBEDDINGS_URL,
+      expect.objectContaining({
+        headers: expect.objectContaining({ Authorization: "Bearer key" }),
+        body: JSON.stringify({ model: "nomic", input: ["a", "b"] }),
+      })
+    );
+  });
+
+  it("should retry rate limited requests", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response("slow down", { status: 429 }))
+      .mockResolvedValueOnce(Response.json({ data: [{ index: 0, embedding: [1, 0] }] }));
+    vi.stubGlobal("fetch", fetchMock);
+    const embedder = new HttpEmbedder({
+      url: EMBEDDINGS_URL,
+      model: "nomic",
+      retry: new RetryPolicy({ random: () => 0 }),
+    });
+
+    await expect(embedder.embed(["a"])).resolves.toEqual([[1, 0]]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("createEmbedder", () => {
+  it("should fall back to the hashing embedder", () => {
+    expect(createEmbedder()).toBeInstanceOf(HashingEmbedder);
+    expect(createEmbedder({ provider: "http", url: EMBEDDINGS_URL, model: "m" })).toBeInstanceOf(
+      HttpEmbedder
+    );
+  });
+});
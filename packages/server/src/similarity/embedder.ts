@@ -0,0 +1,168 @@
+import { RetryPolicy } from "../services/retry.js";
+
+/**
+ * Turns texts into vectors whose cosine similarity reflects how alike the
+ * texts are. Vectors from different embedders are not comparable.
+ */
+export interface Embedder {
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface EmbeddingConfig {
+  provider: "hashing" | "http";
+  // OpenAI-compatible embeddings endpoint, e.g. https://api.openai.com/v1/embeddings
+  url?: string;
+  apiKey?: string;
+  model?: string;
+}
+
+export function createEmbedder(config: EmbeddingConfig = { provider: "hashing" }): Embedder {
+  if (config.provider === "hashing") {
+    return new HashingEmbedder();
+  }
+  if (!config.url || !config.model) {
+    throw new Error("An embeddings URL and model are required for the http provider");
+  }
+  return new HttpEmbedder({ url: config.url, model: config.model, apiKey: config.apiKey });
+}
+
+const DEFAULT_DIMENSIONS = 512;
+
+// Word pairs add word order, but count less than the words themselves
+const BIGRAM_WEIGHT = 0.5;
+
+// Words too common in work items to tell them apart
+const STOP_WORDS = new Set(
+  (
+    "a an and are as at be by can for from has have in is it its of on or should so that the " +
+    "this to was we when where which will with user users able want need needs"
+  ).split(" ")
+);
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+// Plural and -ing/-ed forms share a feature, e.g. "payments" and "payment"
+function stem(word: string): string {
+  if (word.length > 5 && word.endsWith("ing")) {
+    return word.slice(0, -3);
+  }
+  if (word.length > 4 && word.endsWith("ed")) {
+    return word.slice(0, -2);
+  }
+  if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss")) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+// 32-bit FNV-1a
+function hash(feature: string): number {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    value ^= feature.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+}
+
+export function normalize(vector: number[]): number[] {
+  const length = Math.hypot(...vector);
+  return length === 0 ? vector : vector.map((value) => value / length);
+}
+
+/**
+ * Local embedder for offline use: words and word pairs are hashed into a fixed
+ * number of dimensions, weighted by log term frequency. It matches shared
+ * vocabulary rather than meaning, which is enough to spot most duplicates.
+ */
+export class HashingEmbedder implements Embedder {
+  constructor(private readonly dimensions = DEFAULT_DIMENSIONS) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const words = tokenize(text);
+    const weights = new Map<string, number>();
+    const add = (feature: string, weight: number) =>
+      weights.set(feature, (weights.get(feature) ?? 0) + weight);
+    words.forEach((word, i) => {
+      add(word, 1);
+      if (i > 0) {
+        add(`${words[i - 1]} ${word}`, BIGRAM_WEIGHT);
+      }
+    });
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const [feature, weight] of weights) {
+      const featureHash = hash(feature);
+      // A sign bit keeps colliding features from only ever adding up
+      const sign = featureHash & 0x80000000 ? -1 : 1;
+      vector[featureHash % this.dimensions] += sign * Math.log1p(weight);
+    }
+    return normalize(vector);
+  }
+}
+
+export interface HttpEmbedderOptions {
+  url: string;
+  model: string;
+  apiKey?: string;
+  retry?: RetryPolicy;
+}
+
+interface EmbeddingsResponse {
+  data: Array<{ index: number; embedding: number[] }>;
+}
+
+// Texts per request, within the input limits of common embedding APIs
+const HTTP_BATCH_SIZE = 64;
+
+/**
+ * Embedder for OpenAI-compatible embeddings endpoints, including local servers
+ * such as Ollama or LiteLLM.
+ */
+export class HttpEmbedder implements Embedder {
+  private retry: RetryPolicy;
+
+  constructor(private readonly options: HttpEmbedderOptions) {
+    this.retry = options.retry ?? new RetryPolicy();
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += HTTP_BATCH_SIZE) {
+      const batch = texts.slice(i, i + HTTP_BATCH_SIZE);
+      vectors.push(...(await this.retry.run(() => this.request(batch))));
+    }
+    return vectors;
+  }
+
+  private async request(input: string[]): Promise<number[][]> {
+    const { url, model, apiKey } = this.options;
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+      },
+      body: JSON.stringify({ model, input }),
+    });
+    if (!response.ok) {
+      throw Object.assign(new Error(`Embeddings request failed with ${response.status}`), {
+        status: response.status,
+        headers: Object.fromEntries(response.headers),
+      });
+    }
+
+    const { data } = (await response.json()) as EmbeddingsResponse;
+    return [...data].sort((a, b) => a.index - b.index).map((item) => normalize(item.embedding));
+  }
+}
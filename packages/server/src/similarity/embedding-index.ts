@@ -0,0 +1,100 @@
+export interface IndexedWorkItem {
+  id: number;
+  // Revision the vector was computed from; a newer one means re-embedding
+  rev?: number;
+  title?: string;
+  type?: string;
+  state?: string;
+  vector: number[];
+  // When a refresh last listed the item
+  seenAt?: number;
+}
+
+export interface IndexMatch {
+  item: IndexedWorkItem;
+  score: number;
+}
+
+export interface IndexSearchOptions {
+  // All matches when unset
+  top?: number;
+  minScore?: number;
+  excludeIds?: number[];
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * In-memory vectors of work items, one collection per project. Searches are
+ * a linear scan, which stays fast for the few thousand items a project holds.
+ */
+export class EmbeddingIndex {
+  private projects: Map<string, Map<number, IndexedWorkItem>> = new Map();
+
+  static key(organizationUrl: string, projectId: string): string {
+    return `${organizationUrl}|${projectId}`;
+  }
+
+  get(projectKey: string, id: number): IndexedWorkItem | undefined {
+    return this.projects.get(projectKey)?.get(id);
+  }
+
+  upsert(projectKey: string, items: IndexedWorkItem[]): void {
+    const project = this.projects.get(projectKey) ?? new Map<number, IndexedWorkItem>();
+    for (const item of items) {
+      project.set(item.id, item);
+    }
+    this.projects.set(projectKey, project);
+  }
+
+  markSeen(projectKey: string, ids: number[], at: number): void {
+    for (const id of ids) {
+      const item = this.get(projectKey, id);
+      if (item) {
+        item.seenAt = at;
+      }
+    }
+  }
+
+  // Drop the project's items no refresh has listed since `before`, e.g. after they were deleted
+  pruneUnseen(projectKey: string, before: number): void {
+    const project = this.projects.get(projectKey);
+    for (const [id, item] of project ?? []) {
+      if (item.seenAt !== undefined && item.seenAt < before) {
+        project?.delete(id);
+      }
+    }
+  }
+
+  size(projectKey: string): number {
+    return this.projects.get(projectKey)?.size ?? 0;
+  }
+
+  search(projectKey: string, vector: number[], options: IndexSearchOptions): IndexMatch[] {
+    const { top, minScore = -1, excludeIds = [] } = options;
+    const excluded = new Set(excludeIds);
+    const matches: IndexMatch[] = [];
+
+    for (const item of this.projects.get(projectKey)?.values() ?? []) {
+      if (excluded.has(item.id)) {
+        continue;
+      }
+      const score = cosineSimilarity(vector, item.vector);
+      if (score >= minScore) {
+        matches.push({ item, score });
+      }
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, top);
+  }
+}
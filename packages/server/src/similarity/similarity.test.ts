@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { WorkItem } from "@azure-boards-ai/shared";
+import { InMemoryWorkItemClient } from "../services/in-memory-devops.js";
+import { HashingEmbedder } from "./embedder.js";
+import { EmbeddingIndex, cosineSimilarity } from "./embedding-index.js";
+import { SimilarityService, embeddingText } from "./similarity.js";
+
+const ORG_URL = "https://dev.azure.com/test";
+const PROJECT = "Shop";
+const TARGET = { organizationUrl: ORG_URL, projectId: PROJECT };
+const QUERY = "saved cards";
+
+function item(id: number, title: string, description?: string): WorkItem {
+  return {
+    id,
+    rev: 1,
+    fields: {
+      "System.TeamProject": PROJECT,
+      "System.WorkItemType": "Bug",
+      "System.State": "Active",
+      "System.Title": title,
+      ...(description && { "System.Description": description }),
+    },
+  };
+}
+
+describe("embeddingText", () => {
+  it("should combine the title with the description as markdown", () => {
+    expect(embeddingText(item(1, "Pay", "<p>With <b>cards</b></p>"))).toBe("Pay\n\nWith **cards**");
+    expect(embeddingText(item(1, "Pay"))).toBe("Pay");
+  });
+});
+
+describe("EmbeddingIndex", () => {
+  it("should rank items by cosine similarity within a project", () => {
+    const index = new EmbeddingIndex();
+    index.upsert("a", [
+      { id: 1, vector: [1, 0] },
+      { id: 2, vector: [0.6, 0.8] },
+      { id: 3, vector: [0, 1] },
+    ]);
+    index.upsert("b", [{ id: 4, vector: [1, 0] }]);
+
+    const matches = index.search("a", [1, 0], { top: 5, minScore: 0.5, excludeIds: [1] });
+
+    expect(matches.map(({ item: match }) => match.id)).toEqual([2]);
+    expect(cosineSimilarity([1, 0], [0, 0])).toBe(0);
+  });
+});
+
+describe("SimilarityService", () => {
+  let client: InMemoryWorkItemClient;
+  let embedder: HashingEmbedder;
+  let now: number;
+  let service: SimilarityService;
+
+  beforeEach(() => {
+    client = new InMemoryWorkItemClient({
+      items: [
+        item(1, "Checkout fails with saved cards"),
+        item(2, "Saved cards fail at checkout", "<p>Paying with a saved card shows an error</p>"),
+        item(3, "Update the privacy policy page"),
+        { id: 4, fields: { "System.TeamProject": "Other", "System.Title": "Saved cards fail" } },
+      ],
+    });
+    embedder = new HashingEmbedder();
+    now = 0;
+    service = new SimilarityService(embedder, { now: () => now });
+  });
+
+  it("should find likely duplicates of a work item in its project", async () => {
+    const target = await client.getWorkItem(1);
+
+    const items = await service.findSimilarTo(client, target!, TARGET);
+
+    expect(items).toEqual([
+      {
+        id: 2,
+        title: "Saved cards fail at checkout",
+        type: "Bug",
+        state: "Active",
+        score: expect.any(Number),
+        likelyDuplicate: true,
+      },
+    ]);
+  });
+
+  it("should only re-embed items changed since the last refresh", async () => {
+    const embed = vi.spyOn(embedder, "embed");
+    await service.findSimilar(client, { ...TARGET, text: QUERY });
+    await client.updateWorkItem(3, [
+      { op: "replace", path: "/fields/System.Title", value: "Saved card privacy" },
+    ]);
+    await service.findSimilar(client, { ...TARGET, text: QUERY });
+    now = 10 * 60 * 1000;
+    await service.findSimilar(client, { ...TARGET, text: QUERY });
+
+    // Each search embeds its text; the second ran within the refresh interval
+    // and the third only re-embedded the changed item
+    expect(embed.mock.calls.map(([texts]) => texts)).toEqual([
+      [expect.any(String), expect.any(String), expect.any(String)],
+      [QUERY],
+      [QUERY],
+      ["Saved card privacy"],
+      [QUERY],
+    ]);
+  });
+
+  it("should share one refresh between concurrent searches", async () => {
+    const query = vi.spyOn(client, "queryByWiql");
+
+    await Promise.all([
+      service.findSimilar(client, { ...TARGET, text: QUERY }),
+      service.findSimilar(client, { ...TARGET, text: "privacy" }),
+    ]);
+
+    expect(query).toHaveBeenCalledTimes(1);
+  });
+
+  it("should leave out matches the caller cannot read", async () => {
+    await service.refresh(client, ORG_URL, PROJECT);
+    const restricted = new InMemoryWorkItemClient({ items: [item(1, "Checkout")] });
+
+    const items = await service.findSimilar(restricted, { ...TARGET, text: QUERY });
+
+    expect(items.map(({ id }) => id)).toEqual([1]);
+  });
+
+  it("should keep items another caller cannot read", async () => {
+    await service.refresh(client, ORG_URL, PROJECT);
+    const restricted = new InMemoryWorkItemClient({ items: [item(1, "Checkout")] });
+    now = 10 * 60 * 1000;
+
+    const restrictedItems = await service.findSimilar(restricted, { ...TARGET, text: QUERY });
+    const items = await service.findSimilar(client, { ...TARGET, text: QUERY });
+
+    expect(restrictedItems.map(({ id }) => id)).toEqual([1]);
+    expect(items.map(({ id }) => id)).toEqual([1, 2]);
+  });
+
+  it("should drop items no refresh has listed for a day", async () => {
+    const index = new EmbeddingIndex();
+    service = new SimilarityService(embedder, { index, now: () => now });
+    const restricted = new InMemoryWorkItemClient({ items: [item(1, "Checkout")] });
+    await service.refresh(client, ORG_URL, PROJECT);
+
+    now = 10 * 60 * 1000;
+    await service.refresh(restricted, ORG_URL, PROJECT);
+    const kept = index.size(EmbeddingIndex.key(ORG_URL, PROJECT));
+    now = 25 * 60 * 60 * 1000;
+    await service.refresh(restricted, ORG_URL, PROJECT);
+
+    expect(kept).toBe(3);
+    expect(index.size(EmbeddingIndex.key(ORG_URL, PROJECT))).toBe(1);
+  });
+
+  it("should fill the top matches with items the caller can read", async () => {
+    await service.refresh(client, ORG_URL, PROJECT);
+    const all = await service.findSimilar(client, { ...TARGET, text: QUERY, top: 2 });
+    const [hidden, next] = all.map(({ id }) => id);
+    const getWorkItems = client.getWorkItems.bind(client);
+    const restricted = Object.assign(Object.create(client), {
+      getWorkItems: async (ids: number[], fields?: string[]) =>
+        (await getWorkItems(ids, fields)).filter(({ id }) => id !== hidden),
+    });
+
+    const items = await service.findSimilar(restricted, { ...TARGET, text: QUERY, top: 1 });
+
+    expect(items.map(({ id }) => id)).toEqual([next]);
+  });
+});
@@ -0,0 +1,188 @@
+import type { SimilarWorkItem, WorkItem } from "@azure-boards-ai/shared";
+import type { WorkItemTrackingClient } from "../services/azure-devops.js";
+import { WorkItemFields } from "../services/azure-devops.js";
+import { htmlToMarkdown, truncate } from "../services/markdown.js";
+import { buildWiql, macro, where } from "../services/wiql.js";
+import type { Embedder } from "./embedder.js";
+import { EmbeddingIndex } from "./embedding-index.js";
+import type { IndexMatch } from "./embedding-index.js";
+
+export interface SimilarityOptions {
+  index?: EmbeddingIndex;
+  // How long an indexed project is used before its changed items are re-read
+  refreshIntervalMs?: number;
+  // How long an indexed item is kept after the last refresh that listed it. A
+  // refresh only lists what its caller can read, so items are not dropped at once.
+  staleAfterMs?: number;
+  // The most recently changed items of a project that are indexed
+  maxItems?: number;
+  // Matches scoring lower are left out, and from duplicateScore they are flagged
+  minScore?: number;
+  duplicateScore?: number;
+  now?: () => number;
+}
+
+export interface SimilarQuery {
+  organizationUrl: string;
+  projectId: string;
+  text: string;
+  excludeIds?: number[];
+  top?: number;
+}
+
+const DEFAULT_TOP = 5;
+
+// Matches are checked for readability this many at a time, one getWorkItems request each
+const READ_CHECK_BATCH_SIZE = 200;
+
+// Long descriptions add little to an embedding beyond their opening
+const EMBEDDING_TEXT_MAX_CHARS = 2_000;
+
+const INDEX_FIELDS = [
+  WorkItemFields.Title,
+  WorkItemFields.Description,
+  WorkItemFields.WorkItemType,
+  WorkItemFields.State,
+];
+
+const INDEX_QUERY = buildWiql({
+  where: [where.equals(WorkItemFields.TeamProject, macro("@project"))],
+  orderBy: [{ field: WorkItemFields.ChangedDate, descending: true }],
+});
+
+// Title and description as markdown, the text a work item is embedded from
+export function embeddingText(item: WorkItem): string {
+  const title = item.fields[WorkItemFields.Title]?.toString() ?? "";
+  const description = htmlToMarkdown(item.fields[WorkItemFields.Description]?.toString() ?? "");
+  return truncate(description ? `${title}\n\n${description}` : title, EMBEDDING_TEXT_MAX_CHARS);
+}
+
+/**
+ * Finds work items similar to a text or another work item, such as likely
+ * duplicates of a story being refined. Projects are indexed on first use and
+ * refreshed incrementally: only items with a new revision are re-embedded.
+ */
+export class SimilarityService {
+  private index: EmbeddingIndex;
+  private refreshIntervalMs: number;
+  private staleAfterMs: number;
+  private maxItems: number;
+  private minScore: number;
+  private duplicateScore: number;
+  private now: () => number;
+  private refreshedAt: Map<string, number> = new Map();
+  private refreshing: Map<string, Promise<void>> = new Map();
+
+  constructor(
+    private readonly embedder: Embedder,
+    options: SimilarityOptions = {}
+  ) {
+    this.index = options.index ?? new EmbeddingIndex();
+    this.refreshIntervalMs = options.refreshIntervalMs ?? 5 * 60 * 1000;
+    this.staleAfterMs = options.staleAfterMs ?? 24 * 60 * 60 * 1000;
+    this.maxItems = options.maxItems ?? 2_000;
+    this.minScore = options.minScore ?? 0.3;
+    this.duplicateScore = options.duplicateScore ?? 0.7;
+    this.now = options.now ?? Date.now;
+  }
+
+  async findSimilar(
+    client: WorkItemTrackingClient,
+    query: SimilarQuery
+  ): Promise<SimilarWorkItem[]> {
+    const { organizationUrl, projectId, text, excludeIds, top = DEFAULT_TOP } = query;
+    const key = EmbeddingIndex.key(organizationUrl, projectId);
+    await this.refresh(client, organizationUrl, projectId);
+
+    const [vector] = await this.embedder.embed([text]);
+    const matches = this.index.search(key, vector, { minScore: this.minScore, excludeIds });
+
+    // The index is shared, so only matches the caller can read count towards the top ones
+    const readable: IndexMatch[] = [];
+    for (
+      let start = 0;
+      start < matches.length && readable.length < top;
+      start += READ_CHECK_BATCH_SIZE
+    ) {
+      const batch = matches.slice(start, start + READ_CHECK_BATCH_SIZE);
+      const items = await client.getWorkItems(
+        batch.map(({ item }) => item.id),
+        [WorkItemFields.Title]
+      );
+      const readableIds = new Set(items.map((item) => item.id));
+      readable.push(...batch.filter(({ item }) => readableIds.has(item.id)));
+    }
+
+    return readable.slice(0, top).map(({ item, score }) => ({
+      id: item.id,
+      title: item.title,
+      type: item.type,
+      state: item.state,
+      score: Math.round(score * 1000) / 1000,
+      likelyDuplicate: score >= this.duplicateScore,
+    }));
+  }
+
+  // Work items like `item` in the project, leaving out the item itself
+  findSimilarTo(
+    client: WorkItemTrackingClient,
+    item: WorkItem,
+    project: { organizationUrl: string; projectId: string },
+    top?: number
+  ): Promise<SimilarWorkItem[]> {
+    return this.findSimilar(client, {
+      ...project,
+      text: embeddingText(item),
+      excludeIds: [item.id],
+      top,
+    });
+  }
+
+  /**
+   * Index the project's work items unless that was done within the refresh
+   * interval. Concurrent calls for a project share one refresh.
+   */
+  refresh(
+    client: WorkItemTrackingClient,
+    organizationUrl: string,
+    projectId: string
+  ): Promise<void> {
+    const key = EmbeddingIndex.key(organizationUrl, projectId);
+    const refreshedAt = this.refreshedAt.get(key);
+    if (refreshedAt !== undefined && this.now() - refreshedAt < this.refreshIntervalMs) {
+      return Promise.resolve();
+    }
+
+    let pending = this.refreshing.get(key);
+    if (!pending) {
+      pending = this.load(client, key, projectId).finally(() => this.refreshing.delete(key));
+      this.refreshing.set(key, pending);
+    }
+    return pending;
+  }
+
+  private async load(client: WorkItemTrackingClient, key: string, projectId: string) {
+    const ids = await client.queryByWiql(INDEX_QUERY, projectId, this.maxItems);
+    const items = ids.length > 0 ? await client.getWorkItems(ids, INDEX_FIELDS) : [];
+    const changed = items.filter(
+      (item) => item.rev === undefined || this.index.get(key, item.id)?.rev !== item.rev
+    );
+
+    const vectors = changed.length > 0 ? await this.embedder.embed(changed.map(embeddingText)) : [];
+    this.index.upsert(
+      key,
+      changed.map((item, i) => ({
+        id: item.id,
+        rev: item.rev,
+        title: item.fields[WorkItemFields.Title]?.toString(),
+        type: item.fields[WorkItemFields.WorkItemType]?.toString(),
+        state: item.fields[WorkItemFields.State]?.toString(),
+        vector: vectors[i],
+      }))
+    );
+    const now = this.now();
+    this.index.markSeen(key, ids, now);
+    this.index.pruneUnseen(key, now - this.staleAfterMs);
+    this.refreshedAt.set(key, now);
+  }
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import type { SpecProposal, WorkItemSession } from "@azure-boards-ai/shared";
+import { InMemoryWorkItemClient } from "../services/in-memory-devops.js";
+import { WorkItemFields } from "../services/azure-devops.js";
+import { SpecStateError, approveSpec, upsertSpec } from "./spec.js";
+import { applySpec, specFieldValues } from "./apply.js";
+
+const CRITERIA = [{ given: "a saved card", when: "the user pays", then: "it is charged" }];
+
+function createSession(spec: SpecProposal): WorkItemSession {
+  return {
+    workItemId: 1,
+    projectId: "Shop",
+    context: { workItem: { id: 1, fields: {} }, relatedItems: [], childItems: [] },
+    spec,
+  } as Partial<WorkItemSession> as WorkItemSession;
+}
+
+describe("specFieldValues", () => {
+  const spec = upsertSpec(undefined, { description: "Pay", acceptanceCriteria: CRITERIA });
+
+  it("should append the criteria to the description of types without the field", () => {
+    const values = specFieldValues(spec, { name: "Issue", states: [], fields: [] });
+
+    expect(Object.keys(values)).toEqual([WorkItemFields.Description]);
+    expect(values[WorkItemFields.Description]).toContain(
+      "<p>Pay</p><h2>Acceptance Criteria</h2><ul>"
+    );
+  });
+
+  it("should leave the criteria alone when the spec has none", () => {
+    const values = specFieldValues({ ...spec, acceptanceCriteria: [] });
+
+    expect(values).toEqual({ [WorkItemFields.Description]: "<p>Pay</p>" });
+  });
+});
+
+describe("applySpec", () => {
+  let client: InMemoryWorkItemClient;
+
+  beforeEach(() => {
+    client = new InMemoryWorkItemClient({
+      items: [
+        {
+          id: 1,
+          rev: 3,
+          fields: {
+            [WorkItemFields.TeamProject]: "Shop",
+            [WorkItemFields.WorkItemType]: "User Story",
+            [WorkItemFields.Description]: "<div>Pay with <b>saved</b> cards</div>",
+          },
+        },
+      ],
+    });
+  });
+
+  it("should only write the fields that change, against the revision read", async () => {
+    const spec = upsertSpec(undefined, {
+      description: "Pay with **saved** cards",
+      acceptanceCriteria: CRITERIA,
+    });
+    const session = createSession(approveSpec(spec));
+    const update = vi.spyOn(client, "updateWorkItem");
+
+    const result = await applySpec(client, session);
+
+    expect(result.changes.map(({ field }) => field)).toEqual([WorkItemFields.AcceptanceCriteria]);
+    expect(update).toHaveBeenCalledWith(1, [
+      { op: "test", path: "/rev", value: 3 },
+      {
+        op: "add",
+        path: `/fields/${WorkItemFields.AcceptanceCriteria}`,
+        value: expect.stringContaining("<strong>Given</strong> a saved card"),
+      },
+    ]);
+    expect(session.spec).toMatchObject({ status: "applied", applied: { rev: 4 } });
+    expect(session.context.workItem.fields[WorkItemFields.AcceptanceCriteria]).toBeDefined();
+  });
+
+  it("should preview a draft without writing it", async () => {
+    const session = createSession(
+      upsertSpec(undefined, { description: "Checkout", acceptanceCriteria: [] })
+    );
+
+    const result = await applySpec(client, session, { dryRun: true });
+
+    expect(result.changes).toEqual([
+      {
+        field: WorkItemFields.Description,
+        from: "<div>Pay with <b>saved</b> cards</div>",
+        to: "<p>Checkout</p>",
+      },
+    ]);
+    expect(session.spec?.status).toBe("draft");
+    await expect(applySpec(client, session)).rejects.toThrow(SpecStateError);
+  });
+});
@@ -0,0 +1,128 @@
+import type {
+  FieldChange,
+  SpecProposal,
+  WorkItem,
+  WorkItemSession,
+  WorkItemTypeMetadata,
+} from "@azure-boards-ai/shared";
+import type { PatchOperation, WorkItemTrackingClient } from "../services/azure-devops.js";
+import { WorkItemFields } from "../services/azure-devops.js";
+import { findType } from "../services/field-metadata.js";
+import { htmlToMarkdown, markdownToHtml } from "../services/markdown.js";
+import { WorkItemNotFoundError } from "../sessions/context-loader.js";
+import { SpecStateError, acceptanceCriteriaHtml } from "./spec.js";
+
+export interface SpecApplyOptions {
+  // Return the changes without writing them
+  dryRun?: boolean;
+}
+
+export interface SpecApplyResult {
+  dryRun: boolean;
+  changes: FieldChange[];
+  spec: SpecProposal;
+}
+
+/**
+ * The rich text values a spec writes. Types without an acceptance criteria
+ * field, such as the Basic process' Issue, get the criteria appended to the
+ * description instead.
+ */
+export function specFieldValues(
+  spec: SpecProposal,
+  type?: WorkItemTypeMetadata
+): Record<string, string> {
+  const description = markdownToHtml(spec.description);
+  if (spec.acceptanceCriteria.length === 0) {
+    return { [WorkItemFields.Description]: description };
+  }
+
+  const criteria = acceptanceCriteriaHtml(spec.acceptanceCriteria);
+  const hasCriteriaField =
+    !type || type.fields.some((field) => field.referenceName === WorkItemFields.AcceptanceCriteria);
+  return hasCriteriaField
+    ? {
+        [WorkItemFields.Description]: description,
+        [WorkItemFields.AcceptanceCriteria]: criteria,
+      }
+    : { [WorkItemFields.Description]: `${description}<h2>Acceptance Criteria</h2>${criteria}` };
+}
+
+// Fields whose content would change; markup-only differences are ignored
+export function diffFields(item: WorkItem, values: Record<string, string>): FieldChange[] {
+  return Object.entries(values).flatMap(([field, to]) => {
+    const from = item.fields[field];
+    const unchanged = from !== undefined && htmlToMarkdown(String(from)) === htmlToMarkdown(to);
+    return unchanged ? [] : [{ field, from, to }];
+  });
+}
+
+function assertApplicable(spec: SpecProposal | undefined, dryRun: boolean): SpecProposal {
+  if (!spec) {
+    throw new SpecStateError("Session has no spec");
+  }
+  // Drafts can be previewed, but only approved specs are written
+  const allowed = dryRun ? ["draft", "approved"] : ["approved"];
+  if (!allowed.includes(spec.status)) {
+    throw new SpecStateError(
+      dryRun
+        ? `Cannot preview a ${spec.status} spec`
+        : `Spec must be approved before it is applied; spec is ${spec.status}`
+    );
+  }
+  return spec;
+}
+
+/**
+ * Write the approved spec's description and acceptance criteria back to the
+ * session's work item, changing only the fields that differ. The update is
+ * made against the revision that was read, so concurrent edits are not lost.
+ */
+export async function applySpec(
+  client: WorkItemTrackingClient,
+  session: WorkItemSession,
+  options: SpecApplyOptions = {}
+): Promise<SpecApplyResult> {
+  const dryRun = options.dryRun ?? false;
+  const spec = assertApplicable(session.spec, dryRun);
+
+  const item = await client.getWorkItem(session.workItemId);
+  if (!item) {
+    throw new WorkItemNotFoundError(session.workItemId);
+  }
+  const project = item.fields[WorkItemFields.TeamProject]?.toString() ?? session.projectId;
+  const typeName = item.fields[WorkItemFields.WorkItemType]?.toString();
+  const types = typeName ? await client.getWorkItemTypes(project) : [];
+  const changes = diffFields(item, specFieldValues(spec, findType(types, typeName ?? "")));
+
+  if (dryRun) {
+    return { dryRun, changes, spec };
+  }
+
+  let rev = item.rev;
+  if (changes.length > 0) {
+    const patch: PatchOperation[] = changes.map(({ field, to }) => ({
+      op: "add",
+      path: `/fields/${field}`,
+      value: to,
+    }));
+    if (item.rev !== undefined) {
+      patch.unshift({ op: "test", path: "/rev", value: item.rev });
+    }
+    rev = (await client.updateWorkItem(item.id, patch)).rev;
+    const { workItem } = session.context;
+    for (const { field, to } of changes) {
+      workItem.fields[field] = to;
+    }
+    workItem.rev = rev;
+  }
+
+  const now = new Date();
+  session.spec = {
+    ...spec,
+    status: "applied",
+    applied: { appliedAt: now, rev, changes },
+    updatedAt: now,
+  };
+  return { dryRun, changes, spec: session.spec };
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import {
+  SpecStateError,
+  SpecValidationError,
+  acceptanceCriteriaHtml,
+  approveSpec,
+  parseSpecUpdate,
+  rejectSpec,
+  upsertSpec,
+} from "./spec.js";
+
+const UPDATE = {
+  description: "Pay with saved cards",
+  acceptanceCriteria: [{ given: "a saved card", when: "the user pays", then: "it is charged" }],
+};
+
+describe("spec", () => {
+  describe("parseSpecUpdate", () => {
+    it("should default the review lists", () => {
+      expect(parseSpecUpdate(UPDATE)).toEqual({ ...UPDATE, openQuestions: [], risks: [] });
+    });
+
+    it("should reject criteria without a step", () => {
+      expect(() =>
+        parseSpecUpdate({ description: "Pay", acceptanceCriteria: [{ given: "x", when: "y" }] })
+      ).toThrow(SpecValidationError);
+    });
+  });
+
+  describe("upsertSpec", () => {
+    it("should send a revised spec back to draft", () => {
+      const approved = approveSpec(upsertSpec(undefined, UPDATE));
+
+      const revised = upsertSpec(approved, { ...UPDATE, risks: ["PCI scope"] });
+
+      expect(revised).toMatchObject({ id: approved.id, status: "draft", risks: ["PCI scope"] });
+      expect(revised.approvedAt).toBeUndefined();
+    });
+
+    it("should start a new spec after one was applied", () => {
+      const applied = { ...upsertSpec(undefined, UPDATE), status: "applied" as const };
+
+      expect(upsertSpec(applied, UPDATE).id).not.toBe(applied.id);
+    });
+  });
+
+  describe("approveSpec and rejectSpec", () => {
+    it("should approve a draft once and reject pending specs only", () => {
+      const approved = approveSpec(upsertSpec(undefined, UPDATE));
+      expect(approved.approvedAt).toBeInstanceOf(Date);
+      expect(() => approveSpec(approved)).toThrow(SpecStateError);
+
+      const rejected = rejectSpec(approved);
+      expect(rejected).toMatchObject({ status: "rejected", approvedAt: undefined });
+      expect(() => rejectSpec(rejected)).toThrow(SpecStateError);
+    });
+  });
+
+  describe("acceptanceCriteriaHtml", () => {
+    it("should list criteria as escaped Given/When/Then steps", () => {
+      expect(
+        acceptanceCriteriaHtml([{ scenario: "Expired card", given: "a <b>", when: "c", then: "d" }])
+      ).toBe(
+        "<ul><li><strong>Expired card</strong><br><strong>Given</strong> a &lt;b&gt;<br>" +
+          "<strong>When</strong> c<br><strong>Then</strong> d</li></ul>"
+      );
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { nanoid } from "nanoid";
+import { z } from "zod";
+import type { AcceptanceCriterion, SpecProposal, SpecUpdateRequest } from "@azure-boards-ai/shared";
+import { escapeHtml } from "../services/markdown.js";
+
+export const acceptanceCriterionSchema = z.object({
+  scenario: z.string().min(1).optional(),
+  given: z.string().min(1),
+  when: z.string().min(1),
+  then: z.string().min(1),
+});
+
+export const specUpdateSchema = z.object({
+  description: z.string().min(1),
+  acceptanceCriteria: z.array(acceptanceCriterionSchema).default([]),
+  openQuestions: z.array(z.string().min(1)).default([]),
+  risks: z.array(z.string().min(1)).default([]),
+});
+
+export class SpecValidationError extends Error {
+  readonly statusCode = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "SpecValidationError";
+  }
+}
+
+export class SpecStateError extends Error {
+  readonly statusCode = 409;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "SpecStateError";
+  }
+}
+
+export function parseSpecUpdate(input: unknown): SpecUpdateRequest {
+  const parsed = specUpdateSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new SpecValidationError(parsed.error.message);
+  }
+  return parsed.data;
+}
+
+/**
+ * Create a new draft spec, or revise the pending one. A revised spec goes
+ * back to draft for review; once a spec was applied, the next one starts over.
+ */
+export function upsertSpec(
+  existing: SpecProposal | undefined,
+  update: SpecUpdateRequest
+): SpecProposal {
+  const now = new Date();
+  const revising = existing && existing.status !== "applied";
+  return {
+    id: revising ? existing.id : nanoid(),
+    status: "draft",
+    description: update.description,
+    acceptanceCriteria: update.acceptanceCriteria,
+    openQuestions: update.openQuestions ?? [],
+    risks: update.risks ?? [],
+    createdAt: revising ? existing.createdAt : now,
+    updatedAt: now,
+  };
+}
+
+export function approveSpec(spec: SpecProposal): SpecProposal {
+  if (spec.status !== "draft") {
+    throw new SpecStateError(`Only draft specs can be approved; spec is ${spec.status}`);
+  }
+
+  const now = new Date();
+  return { ...spec, status: "approved", approvedAt: now, updatedAt: now };
+}
+
+export function rejectSpec(spec: SpecProposal): SpecProposal {
+  if (spec.status !== "draft" && spec.status !== "approved") {
+    throw new SpecStateError(`Only pending specs can be rejected; spec is ${spec.status}`);
+  }
+  return { ...spec, status: "rejected", approvedAt: undefined, updatedAt: new Date() };
+}
+
+// One list item per criterion, with the Given/When/Then keywords in bold
+export function acceptanceCriteriaHtml(criteria: AcceptanceCriterion[]): string {
+  const items = criteria.map((criterion) => {
+    const scenario = criterion.scenario
+      ? `<strong>${escapeHtml(criterion.scenario)}</strong><br>`
+      : "";
+    const steps = [
+      `<strong>Given</strong> ${escapeHtml(criterion.given)}`,
+      `<strong>When</strong> ${escapeHtml(criterion.when)}`,
+      `<strong>Then</strong> ${escapeHtml(criterion.then)}`,
+    ];
+    return `<li>${scenario}${steps.join("<br>")}</li>`;
+  });
+  return `<ul>${items.join("")}</ul>`;
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import type { WorkItemSession } from "@azure-boards-ai/shared";
+import { InMemoryWorkItemClient } from "../services/in-memory-devops.js";
+import { WorkItemFields } from "../services/azure-devops.js";
+import { approveSpec, upsertSpec } from "../specs/spec.js";
+import { createApplySpecTool } from "./apply-spec.js";
+
+function createSession(): WorkItemSession {
+  return {
+    workItemId: 1,
+    projectId: "Shop",
+    context: { workItem: { id: 1, fields: {} }, relatedItems: [], childItems: [] },
+    spec: approveSpec(upsertSpec(undefined, { description: "Checkout", acceptanceCriteria: [] })),
+  } as Partial<WorkItemSession> as WorkItemSession;
+}
+
+describe("apply_spec", () => {
+  const client = new InMemoryWorkItemClient({
+    items: [{ id: 1, fields: { [WorkItemFields.Description]: "<p>Cart</p>" } }],
+  });
+  const tool = createApplySpecTool(client);
+
+  it("should preview the field changes without writing them", async () => {
+    const session = createSession();
+
+    const preview = await tool.preview?.({ dryRun: false }, { session });
+
+    expect(preview).toEqual({
+      summary: "Apply the spec to #1",
+      changes: [{ field: WorkItemFields.Description, from: "<p>Cart</p>", to: "<p>Checkout</p>" }],
+    });
+    expect(session.spec?.status).toBe("approved");
+  });
+
+  it("should not ask for approval of a dry run", async () => {
+    expect(await tool.preview?.({ dryRun: true }, { session: createSession() })).toBeUndefined();
+  });
+});
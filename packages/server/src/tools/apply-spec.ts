@@ -0,0 +1,36 @@
+import type Anthropic from "@anthropic-ai/sdk";
+import { z } from "zod";
+import type { WorkItemTrackingClient } from "../services/azure-devops.js";
+import { applySpec } from "../specs/apply.js";
+import { defineTool } from "./registry.js";
+
+export const APPLY_SPEC_TOOL: Anthropic.Tool = {
+  name: "apply_spec",
+  description:
+    "Write the approved spec's description and acceptance criteria to the current work item. Only fields that differ are changed. Use dryRun to preview the changes.",
+  input_schema: {
+    type: "object",
+    properties: {
+      dryRun: { type: "boolean", description: "Only return the field changes" },
+    },
+  },
+};
+
+export function createApplySpecTool(client: WorkItemTrackingClient) {
+  return defineTool({
+    definition: APPLY_SPEC_TOOL,
+    schema: z.object({ dryRun: z.boolean().default(false) }),
+    mutating: true,
+    async preview({ dryRun }, { session }) {
+      if (dryRun) {
+        return undefined;
+      }
+      const { changes } = await applySpec(client, session, { dryRun: true });
+      return { summary: `Apply the spec to #${session.workItemId}`, changes };
+    },
+    async execute({ dryRun }, { session }) {
+      const { changes, spec } = await applySpec(client, session, { dryRun });
+      return { dryRun, status: spec.status, changes };
+    },
+  });
+}
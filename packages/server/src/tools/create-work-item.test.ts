@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import type { WorkItemSession } from "@azure-boards-ai/shared";
+import { InMemoryWorkItemClient } from "../services/in-memory-devops.js";
+import { LinkTypes, workItemUrl } from "../services/azure-devops.js";
+import { createCreateWorkItemTool } from "./create-work-item.js";
+
+const TEST_ORG_URL = "https://dev.azure.com/test";
+const session = { projectId: "TestProject", organizationUrl: TEST_ORG_URL } as WorkItemSession;
+
+describe("create_work_item", () => {
+  it("should create a child work item with fields and tags", async () => {
+    const client = new InMemoryWorkItemClient({ items: [{ id: 1, fields: {} }] });
+    const tool = createCreateWorkItemTool(client);
+
+    const result = await tool.execute(
+      {
+        type: "Task",
+        title: "Write tests",
+        description: "Cover the happy path",
+        parentId: 1,
+        tags: ["qa", "backend"],
+        fields: { "Microsoft.VSTS.Scheduling.RemainingWork": 4 },
+      },
+      { session }
+    );
+
+    expect(result.created).toMatchObject({ id: 2, type: "Task", title: "Write tests" });
+
+    const created = await client.getWorkItem(2);
+    expect(created?.fields).toMatchObject({
+      "System.TeamProject": "TestProject",
+      "System.Description": "Cover the happy path",
+      "System.Tags": "qa; backend",
+      "Microsoft.VSTS.Scheduling.RemainingWork": 4,
+    });
+    expect(created?.relations).toEqual([
+      { rel: LinkTypes.parent, url: workItemUrl(TEST_ORG_URL, 1) },
+    ]);
+  });
+});
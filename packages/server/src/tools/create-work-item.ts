@@ -0,0 +1,69 @@
+import type { FieldChange } from "@azure-boards-ai/shared";
+import type { PatchOperation, WorkItemTrackingClient } from "../services/azure-devops.js";
+import { LinkTypes, WorkItemFields, workItemUrl } from "../services/azure-devops.js";
+import { defineTool } from "./registry.js";
+import { summarizeWorkItem } from "./read-work-item.js";
+import { CREATE_WORK_ITEM_TOOL, createWorkItemInput } from "./schemas.js";
+import type { CreateWorkItemInput } from "./schemas.js";
+
+export function fieldPatch(name: string, value: unknown): PatchOperation {
+  return { op: "add", path: `/fields/${name}`, value };
+}
+
+export function buildCreatePatch(
+  input: CreateWorkItemInput,
+  organizationUrl: string
+): PatchOperation[] {
+  const patch = [fieldPatch(WorkItemFields.Title, input.title)];
+
+  if (input.description) {
+    patch.push(fieldPatch(WorkItemFields.Description, input.description));
+  }
+  if (input.tags?.length) {
+    patch.push(fieldPatch(WorkItemFields.Tags, input.tags.join("; ")));
+  }
+  for (const [name, value] of Object.entries(input.fields ?? {})) {
+    patch.push(fieldPatch(name, value));
+  }
+  if (input.parentId) {
+    patch.push({
+      op: "add",
+      path: "/relations/-",
+      value: { rel: LinkTypes.parent, url: workItemUrl(organizationUrl, input.parentId) },
+    });
+  }
+
+  return patch;
+}
+
+// Field values set by a patch, as changes from an empty work item
+export function patchChanges(patch: PatchOperation[]): FieldChange[] {
+  return patch.flatMap(({ path, value }) =>
+    path.startsWith("/fields/")
+      ? [{ field: path.slice("/fields/".length), to: value as string | number }]
+      : []
+  );
+}
+
+export function createCreateWorkItemTool(client: WorkItemTrackingClient) {
+  return defineTool({
+    definition: CREATE_WORK_ITEM_TOOL,
+    schema: createWorkItemInput,
+    mutating: true,
+    async preview(input, { session }) {
+      const parent = input.parentId ? ` under #${input.parentId}` : "";
+      return {
+        summary: `Create ${input.type} "${input.title}"${parent}`,
+        changes: patchChanges(buildCreatePatch(input, session.organizationUrl)),
+      };
+    },
+    async execute(input, { session }) {
+      const item = await client.createWorkItem(
+        session.projectId,
+        input.type,
+        buildCreatePatch(input, session.organizationUrl)
+      );
+      return { created: summarizeWorkItem(item), parentId: input.parentId };
+    },
+  });
+}
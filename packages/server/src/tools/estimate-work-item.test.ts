@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import type { WorkItemSession } from "@azure-boards-ai/shared";
+import { InMemoryWorkItemClient } from "../services/in-memory-devops.js";
+import { EstimationService } from "../estimation/estimation.js";
+import { createEstimateWorkItemTool } from "./estimate-work-item.js";
+
+const PAYMENTS = "Shop\\Payments";
+
+const STORY = {
+  "System.TeamProject": "Shop",
+  "System.WorkItemType": "User Story",
+  "System.AreaPath": PAYMENTS,
+  "System.Title": "Pay with saved cards",
+};
+
+describe("estimate_work_item", () => {
+  let client: InMemoryWorkItemClient;
+  let estimation: EstimationService;
+  let session: WorkItemSession;
+  let tool: ReturnType<typeof createEstimateWorkItemTool>;
+
+  beforeEach(async () => {
+    client = new InMemoryWorkItemClient({
+      items: [
+        { id: 1, fields: STORY },
+        { id: 2, fields: { ...STORY, "System.AreaPath": "Shop\\Catalog" } },
+      ],
+    });
+    session = {
+      workItemId: 1,
+      projectId: "Shop",
+      organizationUrl: "https://dev.azure.com/test",
+      context: { workItem: (await client.getWorkItem(1))!, relatedItems: [], childItems: [] },
+    } as Partial<WorkItemSession> as WorkItemSession;
+    estimation = new EstimationService();
+    tool = createEstimateWorkItemTool(client, estimation);
+  });
+
+  it("should estimate the session's work item by default", async () => {
+    const estimate = vi.spyOn(estimation, "estimate");
+
+    const result = await tool.execute(tool.schema.parse({}), { session });
+
+    expect(estimate).toHaveBeenCalledWith(client, {
+      organizationUrl: "https://dev.azure.com/test",
+      projectId: "Shop",
+      type: "User Story",
+      areaPath: PAYMENTS,
+      title: "Pay with saved cards",
+      excludeIds: [1],
+    });
+    expect(result).toMatchObject({ basis: "project", sampleSize: 1, confidence: "low" });
+  });
+
+  it("should estimate a planned subtask in the work item's area", async () => {
+    const estimate = vi.spyOn(estimation, "estimate");
+
+    await tool.execute(tool.schema.parse({ type: "Task" }), { session });
+
+    expect(estimate).toHaveBeenCalledWith(
+      client,
+      expect.objectContaining({ type: "Task", areaPath: PAYMENTS, title: undefined })
+    );
+  });
+
+  it("should estimate another work item", async () => {
+    const estimate = vi.spyOn(estimation, "estimate");
+
+    await tool.execute(tool.schema.parse({ id: 2 }), { session });
+
+    expect(estimate).toHaveBeenCalledWith(
+      client,
+      expect.objectContaining({ areaPath: "Shop\\Catalog", excludeIds: [2] })
+    );
+    await expect(tool.execute(tool.schema.parse({ id: 9 }), { session })).rejects.toThrow(
+      "Work item 9 not found"
+    );
+  });
+});
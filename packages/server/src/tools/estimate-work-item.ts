@@ -0,0 +1,41 @@
+import type { WorkItemTrackingClient } from "../services/azure-devops.js";
+import { WorkItemFields } from "../services/azure-devops.js";
+import type { EstimationService } from "../estimation/estimation.js";
+import { defineTool } from "./registry.js";
+import { ESTIMATE_WORK_ITEM_TOOL, estimateWorkItemInput } from "./schemas.js";
+
+export function createEstimateWorkItemTool(
+  client: WorkItemTrackingClient,
+  estimation: EstimationService
+) {
+  return defineTool({
+    definition: ESTIMATE_WORK_ITEM_TOOL,
+    schema: estimateWorkItemInput,
+    async execute(input, { session }) {
+      const workItemId = input.id ?? session.workItemId;
+      const item =
+        workItemId === session.workItemId
+          ? session.context.workItem
+          : await client.getWorkItem(workItemId);
+      if (!item) {
+        throw new Error(`Work item ${workItemId} not found`);
+      }
+
+      // A planned subtask only shares the area of the work item it breaks down
+      const planned = input.type !== undefined && input.id === undefined;
+      const type = input.type ?? item.fields[WorkItemFields.WorkItemType]?.toString();
+      if (!type) {
+        throw new Error(`Work item ${workItemId} has no type to estimate by`);
+      }
+
+      return estimation.estimate(client, {
+        organizationUrl: session.organizationUrl,
+        projectId: session.projectId,
+        type,
+        areaPath: input.areaPath ?? item.fields[WorkItemFields.AreaPath]?.toString(),
+        title: input.title ?? (planned ? undefined : item.fields[WorkItemFields.Title]?.toString()),
+        excludeIds: [workItemId],
+      });
+    },
+  });
+}
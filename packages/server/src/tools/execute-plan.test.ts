@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import type { WorkItemSession } from "@azure-boards-ai/shared";
+import { InMemoryWorkItemClient } from "../services/in-memory-devops.js";
+import { createExecutePlanTool } from "./execute-plan.js";
+
+function createSession(): WorkItemSession {
+  const now = new Date();
+  return {
+    id: "session-1",
+    workItemId: 1,
+    projectId: "Shop",
+    organizationUrl: "https://dev.azure.com/test",
+    state: "plan",
+    transcript: [],
+    context: { workItem: { id: 1, fields: {} }, relatedItems: [], childItems: [] },
+    plan: {
+      id: "plan-1",
+      status: "approved",
+      subtasks: [
+        { id: "t1", title: "Build API", type: "Task", tags: [], dependsOn: [] },
+        { id: "t2", title: "Build UI", type: "Task", tags: [], dependsOn: ["t1"], workItemId: 9 },
+      ],
+      createdAt: now,
+      updatedAt: now,
+    },
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+describe("execute_plan", () => {
+  it("should preview the subtasks still to be created", async () => {
+    const client = new InMemoryWorkItemClient({ items: [{ id: 1, fields: {} }] });
+    const tool = createExecutePlanTool(client);
+    const session = createSession();
+
+    const preview = await tool.preview?.({ dryRun: false }, { session });
+
+    expect(preview?.summary).toBe('Create 1 subtask of #1: "Build API"');
+    expect(preview?.changes).toContainEqual({ field: "System.Title", to: "Build API" });
+    expect(session.plan?.status).toBe("approved");
+    expect(await client.getWorkItem(2)).toBeUndefined();
+  });
+
+  it("should not ask for approval of a dry run", async () => {
+    const tool = createExecutePlanTool(new InMemoryWorkItemClient());
+
+    expect(await tool.preview?.({ dryRun: true }, { session: createSession() })).toBeUndefined();
+  });
+});
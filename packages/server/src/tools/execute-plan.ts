@@ -0,0 +1,68 @@
+import type Anthropic from "@anthropic-ai/sdk";
+import { z } from "zod";
+import type { StreamChunk } from "@azure-boards-ai/shared";
+import type { WorkItemTrackingClient } from "../services/azure-devops.js";
+import { PlanExecutor } from "../plans/executor.js";
+import type { ExecutionResult, PlanExecutorOptions } from "../plans/executor.js";
+import { patchChanges } from "./create-work-item.js";
+import { defineTool } from "./registry.js";
+
+export const EXECUTE_PLAN_TOOL: Anthropic.Tool = {
+  name: "execute_plan",
+  description:
+    "Create the subtasks of the approved plan as children of the current work item. Use dryRun to preview the changes. Re-running after a failure resumes with the subtasks not yet created.",
+  input_schema: {
+    type: "object",
+    properties: {
+      dryRun: { type: "boolean", description: "Only return what would be created" },
+    },
+  },
+};
+
+export function createExecutePlanTool(
+  client: WorkItemTrackingClient,
+  options: PlanExecutorOptions = {}
+) {
+  const executor = new PlanExecutor(client, options);
+
+  return defineTool({
+    definition: EXECUTE_PLAN_TOOL,
+    schema: z.object({ dryRun: z.boolean().default(false) }),
+    mutating: true,
+    async preview({ dryRun }, { session }) {
+      if (dryRun) {
+        return undefined;
+      }
+      const { documents } = await drain(executor.execute(session, { dryRun: true }));
+      const subtasks = session.plan?.subtasks ?? [];
+      const titles = documents
+        .map(({ subtaskId }) => `"${subtasks.find(({ id }) => id === subtaskId)?.title}"`)
+        .join(", ");
+      return {
+        summary: `Create ${subtaskCount(documents.length)} of #${session.workItemId}: ${titles}`,
+        changes: documents.flatMap(({ patch }) => patchChanges(patch)),
+      };
+    },
+    // Called from an agent run, which holds the session's run lock while it executes
+    async execute({ dryRun }, { session, emit, signal }) {
+      return drain(executor.execute(session, { dryRun, signal }), emit);
+    },
+  });
+}
+
+async function drain(
+  run: AsyncGenerator<StreamChunk, ExecutionResult>,
+  emit?: (chunk: StreamChunk) => void
+): Promise<ExecutionResult> {
+  for (;;) {
+    const next = await run.next();
+    if (next.done) {
+      return next.value;
+    }
+    emit?.(next.value);
+  }
+}
+
+function subtaskCount(count: number): string {
+  return count === 1 ? "1 subtask" : `${count} subtasks`;
+}
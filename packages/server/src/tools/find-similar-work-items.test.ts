@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { WorkItemSession } from "@azure-boards-ai/shared";
+import { InMemoryWorkItemClient } from "../services/in-memory-devops.js";
+import { HashingEmbedder } from "../similarity/embedder.js";
+import { SimilarityService } from "../similarity/similarity.js";
+import { createFindSimilarWorkItemsTool } from "./find-similar-work-items.js";
+
+const project = { "System.TeamProject": "Shop" };
+
+describe("find_similar_work_items", () => {
+  let client: InMemoryWorkItemClient;
+  let session: WorkItemSession;
+  let tool: ReturnType<typeof createFindSimilarWorkItemsTool>;
+
+  beforeEach(async () => {
+    client = new InMemoryWorkItemClient({
+      items: [
+        { id: 1, fields: { ...project, "System.Title": "Checkout fails with saved cards" } },
+        { id: 2, fields: { ...project, "System.Title": "Saved cards fail at checkout" } },
+        { id: 3, fields: { ...project, "System.Title": "Export the privacy report" } },
+        { id: 4, fields: { ...project, "System.Title": "Privacy report export" } },
+      ],
+    });
+    session = {
+      workItemId: 1,
+      projectId: "Shop",
+      organizationUrl: "https://dev.azure.com/test",
+      context: { workItem: (await client.getWorkItem(1))!, relatedItems: [], childItems: [] },
+    } as Partial<WorkItemSession> as WorkItemSession;
+    tool = createFindSimilarWorkItemsTool(client, new SimilarityService(new HashingEmbedder()));
+  });
+
+  it("should compare against the session's work item by default", async () => {
+    const result = await tool.execute(tool.schema.parse({}), { session });
+
+    expect(result.items).toEqual([expect.objectContaining({ id: 2, likelyDuplicate: true })]);
+  });
+
+  it("should compare against another work item", async () => {
+    const result = await tool.execute(tool.schema.parse({ id: 3 }), { session });
+
+    expect(result.items.map(({ id }) => id)).toEqual([4]);
+  });
+
+  it("should compare against a text", async () => {
+    const result = await tool.execute(tool.schema.parse({ text: "privacy report" }), { session });
+
+    expect(result.items.map(({ id }) => id).sort()).toEqual([3, 4]);
+  });
+
+  it("should fail for a missing work item", async () => {
+    await expect(tool.execute(tool.schema.parse({ id: 99 }), { session })).rejects.toThrow(
+      "Work item 99 not found"
+    );
+  });
+});
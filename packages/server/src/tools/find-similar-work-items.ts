@@ -0,0 +1,36 @@
+import type { WorkItemTrackingClient } from "../services/azure-devops.js";
+import type { SimilarityService } from "../similarity/similarity.js";
+import { defineTool } from "./registry.js";
+import { FIND_SIMILAR_WORK_ITEMS_TOOL, findSimilarWorkItemsInput } from "./schemas.js";
+
+export function createFindSimilarWorkItemsTool(
+  client: WorkItemTrackingClient,
+  similarity: SimilarityService
+) {
+  return defineTool({
+    definition: FIND_SIMILAR_WORK_ITEMS_TOOL,
+    schema: findSimilarWorkItemsInput,
+    async execute({ id, text, top }, { session }) {
+      const project = { organizationUrl: session.organizationUrl, projectId: session.projectId };
+
+      const workItemId = id ?? session.workItemId;
+      if (text) {
+        const excludeIds = [workItemId];
+        const items = await similarity.findSimilar(client, { ...project, text, excludeIds, top });
+        return { count: items.length, items };
+      }
+
+      // The session's work item is compared as loaded, without another request
+      const item =
+        workItemId === session.workItemId
+          ? session.context.workItem
+          : await client.getWorkItem(workItemId);
+      if (!item) {
+        throw new Error(`Work item ${workItemId} not found`);
+      }
+
+      const items = await similarity.findSimilarTo(client, item, project, top);
+      return { count: items.length, items };
+    },
+  });
+}
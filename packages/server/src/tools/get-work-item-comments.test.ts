@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import type { WorkItemSession } from "@azure-boards-ai/shared";
+import { InMemoryWorkItemClient } from "../services/in-memory-devops.js";
+import { createGetWorkItemCommentsTool, summarizeRevision } from "./get-work-item-comments.js";
+
+const session = { projectId: "TestProject" } as WorkItemSession;
+
+describe("get_work_item_comments", () => {
+  let client: InMemoryWorkItemClient;
+
+  beforeEach(() => {
+    client = new InMemoryWorkItemClient({
+      items: [{ id: 1, fields: { "System.TeamProject": "TestProject", "System.State": "New" } }],
+      comments: {
+        1: [
+          { id: 1, text: "First", author: "Dana Smith" },
+          { id: 2, text: "Second" },
+          { id: 3, text: "Third" },
+        ],
+      },
+    });
+  });
+
+  it("should return the latest comments", async () => {
+    const tool = createGetWorkItemCommentsTool(client);
+
+    const result = await tool.execute(tool.schema.parse({ id: 1, top: 2 }), { session });
+
+    expect(result).toEqual({
+      id: 1,
+      totalCount: 3,
+      comments: [
+        { id: 2, text: "Second" },
+        { id: 3, text: "Third" },
+      ],
+      history: undefined,
+    });
+  });
+
+  it("should include the change history when asked", async () => {
+    await client.updateWorkItem(1, [{ op: "add", path: "/fields/System.State", value: "Active" }]);
+    const tool = createGetWorkItemCommentsTool(client);
+
+    const result = await tool.execute(tool.schema.parse({ id: 1, includeHistory: true }), {
+      session,
+    });
+
+    expect(result.history).toEqual([
+      expect.objectContaining({
+        rev: 1,
+        changes: [{ field: "System.State", from: "New", to: "Active" }],
+      }),
+    ]);
+  });
+
+  it("should only request the newest updates", async () => {
+    for (const state of ["Active", "Resolved", "Closed"]) {
+      await client.updateWorkItem(1, [{ op: "add", path: "/fields/System.State", value: state }]);
+    }
+    const getRevisions = vi.spyOn(client, "getRevisions");
+    const tool = createGetWorkItemCommentsTool(client);
+
+    const result = await tool.execute(tool.schema.parse({ id: 1, top: 2, includeHistory: true }), {
+      session,
+    });
+
+    const { rev } = (await client.getWorkItem(1))!;
+    expect(getRevisions).toHaveBeenCalledWith(1, rev! - 2);
+    expect(result.history?.map((revision) => revision.changes[0].to)).toEqual([
+      "Resolved",
+      "Closed",
+    ]);
+  });
+
+  it("should fail for a missing work item", async () => {
+    const tool = createGetWorkItemCommentsTool(client);
+
+    await expect(tool.execute(tool.schema.parse({ id: 99 }), { session })).rejects.toThrow(
+      "Work item 99 not found"
+    );
+  });
+});
+
+describe("summarizeRevision", () => {
+  it("should convert rich text changes to markdown and truncate them", () => {
+    const revision = summarizeRevision(
+      {
+        rev: 4,
+        changes: [
+          { field: "System.Description", from: "<p>Old <b>text</b></p>", to: "<p>Much longer</p>" },
+          { field: "Microsoft.VSTS.Scheduling.StoryPoints", from: 3, to: 5 },
+        ],
+      },
+      8
+    );
+
+    expect(revision.changes).toEqual([
+      { field: "System.Description", from: "Old **t…", to: "Much lo…" },
+      { field: "Microsoft.VSTS.Scheduling.StoryPoints", from: 3, to: 5 },
+    ]);
+  });
+});
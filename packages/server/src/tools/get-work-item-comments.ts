@@ -0,0 +1,60 @@
+import type { WorkItemComment, WorkItemRevision } from "@azure-boards-ai/shared";
+import type { WorkItemTrackingClient } from "../services/azure-devops.js";
+import { WorkItemFields } from "../services/azure-devops.js";
+import { htmlToMarkdown, truncate } from "../services/markdown.js";
+import { defineTool } from "./registry.js";
+import { GET_WORK_ITEM_COMMENTS_TOOL, getWorkItemCommentsInput } from "./schemas.js";
+
+// Tool results go back into the transcript, so they are bounded too
+const COMMENT_MAX_CHARS = 4_000;
+const CHANGE_MAX_CHARS = 1_000;
+
+export function summarizeComment(comment: WorkItemComment, maxChars: number): WorkItemComment {
+  return { ...comment, text: truncate(comment.text, maxChars) };
+}
+
+// Rich text values like a changed description are converted to markdown before truncating
+export function summarizeRevision(revision: WorkItemRevision, maxChars: number): WorkItemRevision {
+  const summarize = (value: string | number | undefined) =>
+    typeof value === "string" ? truncate(htmlToMarkdown(value), maxChars) : value;
+
+  return {
+    ...revision,
+    changes: revision.changes.map((change) => ({
+      field: change.field,
+      from: summarize(change.from),
+      to: summarize(change.to),
+    })),
+  };
+}
+
+export function createGetWorkItemCommentsTool(client: WorkItemTrackingClient) {
+  return defineTool({
+    definition: GET_WORK_ITEM_COMMENTS_TOOL,
+    schema: getWorkItemCommentsInput,
+    async execute({ id, top, includeHistory }, { session }) {
+      const item = await client.getWorkItem(id);
+      if (!item) {
+        throw new Error(`Work item ${id} not found`);
+      }
+
+      // Comments are addressed through the project the work item belongs to
+      const project = item.fields[WorkItemFields.TeamProject]?.toString() ?? session.projectId;
+      // Only the newest updates are requested, one per revision
+      const since = item.rev === undefined ? undefined : Math.max(0, item.rev - top);
+      const [page, revisions] = await Promise.all([
+        client.getComments(project, id, top),
+        includeHistory ? client.getRevisions(id, since) : undefined,
+      ]);
+
+      return {
+        id,
+        totalCount: page.totalCount,
+        comments: page.comments.map((comment) => summarizeComment(comment, COMMENT_MAX_CHARS)),
+        history: revisions
+          ?.slice(-top)
+          .map((revision) => summarizeRevision(revision, CHANGE_MAX_CHARS)),
+      };
+    },
+  });
+}
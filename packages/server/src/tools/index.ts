@@ -0,0 +1,59 @@
+import type { WorkItemTrackingClient } from "../services/azure-devops.js";
+import type { PlanExecutorOptions } from "../plans/executor.js";
+import type { SimilarityService } from "../similarity/similarity.js";
+import { EstimationService } from "../estimation/estimation.js";
+import { createApplySpecTool } from "./apply-spec.js";
+import { createCreateWorkItemTool } from "./create-work-item.js";
+import { createEstimateWorkItemTool } from "./estimate-work-item.js";
+import { createExecutePlanTool } from "./execute-plan.js";
+import { createFindSimilarWorkItemsTool } from "./find-similar-work-items.js";
+import { createGetWorkItemCommentsTool } from "./get-work-item-comments.js";
+import { createLinkWorkItemsTool } from "./link-work-items.js";
+import { createProposePlanTool } from "./propose-plan.js";
+import { createProposeSpecTool } from "./propose-spec.js";
+import { createReadWorkItemTool } from "./read-work-item.js";
+import { ToolRegistry } from "./registry.js";
+import type { ToolHandler } from "./registry.js";
+import { createSearchWorkItemsTool } from "./search-work-items.js";
+import { createSetFlowStateTool } from "./set-flow-state.js";
+import { createUpdateWorkItemTool } from "./update-work-item.js";
+
+export { ToolRegistry } from "./registry.js";
+export type { ToolContext, ToolHandler } from "./registry.js";
+
+export interface ToolOptions extends PlanExecutorOptions {
+  // find_similar_work_items is only offered with a similarity service
+  similarity?: SimilarityService;
+  // Shared so the history it reads is cached across runs
+  estimation?: EstimationService;
+}
+
+export function createWorkItemTools(
+  client: WorkItemTrackingClient,
+  options: ToolOptions = {}
+): ToolHandler[] {
+  return [
+    createReadWorkItemTool(client),
+    createGetWorkItemCommentsTool(client),
+    createSearchWorkItemsTool(client),
+    ...(options.similarity ? [createFindSimilarWorkItemsTool(client, options.similarity)] : []),
+    createEstimateWorkItemTool(client, options.estimation ?? new EstimationService()),
+    createCreateWorkItemTool(client),
+    createUpdateWorkItemTool(client),
+    createLinkWorkItemsTool(client),
+    createApplySpecTool(client),
+    createExecutePlanTool(client, options),
+  ];
+}
+
+export function createToolRegistry(
+  client?: WorkItemTrackingClient,
+  options: ToolOptions = {}
+): ToolRegistry {
+  return new ToolRegistry([
+    createSetFlowStateTool(),
+    createProposeSpecTool(),
+    createProposePlanTool(),
+    ...(client ? createWorkItemTools(client, options) : []),
+  ]);
+}
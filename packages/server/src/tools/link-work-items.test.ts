@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import type { WorkItemSession } from "@azure-boards-ai/shared";
+import { InMemoryWorkItemClient } from "../services/in-memory-devops.js";
+import { LinkTypes, workItemUrl } from "../services/azure-devops.js";
+import { createLinkWorkItemsTool } from "./link-work-items.js";
+
+const TEST_ORG_URL = "https://dev.azure.com/test";
+const session = { projectId: "TestProject", organizationUrl: TEST_ORG_URL } as WorkItemSession;
+
+describe("link_work_items", () => {
+  it("should add a relation to the source work item", async () => {
+    const client = new InMemoryWorkItemClient({
+      items: [
+        { id: 1, fields: {} },
+        { id: 2, fields: {} },
+      ],
+    });
+    const tool = createLinkWorkItemsTool(client);
+
+    await tool.execute(
+      { sourceId: 2, targetId: 1, linkType: "predecessor", comment: "Blocked by API" },
+      { session }
+    );
+
+    const source = await client.getWorkItem(2);
+    expect(source?.relations).toEqual([
+      {
+        rel: LinkTypes.predecessor,
+        url: workItemUrl(TEST_ORG_URL, 1),
+        attributes: { comment: "Blocked by API" },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,29 @@
+import type { WorkItemTrackingClient } from "../services/azure-devops.js";
+import { LinkTypes, workItemUrl } from "../services/azure-devops.js";
+import { defineTool } from "./registry.js";
+import { LINK_WORK_ITEMS_TOOL, linkWorkItemsInput } from "./schemas.js";
+
+export function createLinkWorkItemsTool(client: WorkItemTrackingClient) {
+  return defineTool({
+    definition: LINK_WORK_ITEMS_TOOL,
+    schema: linkWorkItemsInput,
+    mutating: true,
+    async preview({ sourceId, targetId, linkType }) {
+      return { summary: `Link #${sourceId} to #${targetId} as ${linkType}`, changes: [] };
+    },
+    async execute({ sourceId, targetId, linkType, comment }, { session }) {
+      await client.updateWorkItem(sourceId, [
+        {
+          op: "add",
+          path: "/relations/-",
+          value: {
+            rel: LinkTypes[linkType],
+            url: workItemUrl(session.organizationUrl, targetId),
+            ...(comment && { attributes: { comment } }),
+          },
+        },
+      ]);
+      return { linked: true, sourceId, targetId, linkType };
+    },
+  });
+}
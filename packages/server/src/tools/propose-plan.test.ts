@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import type { WorkItemSession } from "@azure-boards-ai/shared";
+import { createProposePlanTool } from "./propose-plan.js";
+
+describe("propose_plan", () => {
+  it("should store a draft plan and move the session to plan", async () => {
+    const session = { state: "specify" } as WorkItemSession;
+    const tool = createProposePlanTool();
+
+    const result = await tool.execute(
+      {
+        summary: "API first",
+        subtasks: [
+          { id: "t1", title: "Build API", type: "Task", tags: [], dependsOn: [] },
+          { id: "t2", title: "Build UI", type: "Task", tags: ["ui"], dependsOn: ["t1"] },
+        ],
+      },
+      { session }
+    );
+
+    expect(result).toMatchObject({ status: "draft", subtasks: 2 });
+    expect(session.plan?.summary).toBe("API first");
+    expect(session.state).toBe("plan");
+  });
+
+  it("should reject plans with dependency cycles", async () => {
+    const session = { state: "plan" } as WorkItemSession;
+    const tool = createProposePlanTool();
+
+    await expect(
+      tool.execute(
+        {
+          subtasks: [
+            { id: "t1", title: "A", type: "Task", tags: [], dependsOn: ["t2"] },
+            { id: "t2", title: "B", type: "Task", tags: [], dependsOn: ["t1"] },
+          ],
+        },
+        { session }
+      )
+    ).rejects.toThrow("Dependency cycle");
+    expect(session.plan).toBeUndefined();
+  });
+});
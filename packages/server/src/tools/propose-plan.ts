@@ -0,0 +1,62 @@
+import type Anthropic from "@anthropic-ai/sdk";
+import { canTransition, transition } from "../agent/flow.js";
+import { planUpdateSchema, upsertPlan, validateSubtasks } from "../plans/plan.js";
+import { defineTool } from "./registry.js";
+
+export const PROPOSE_PLAN_TOOL: Anthropic.Tool = {
+  name: "propose_plan",
+  description:
+    "Store a breakdown of the current work item into subtasks as the pending plan for the user to review and approve. Replaces any previous draft.",
+  input_schema: {
+    type: "object",
+    properties: {
+      summary: { type: "string", description: "One or two sentences describing the approach" },
+      subtasks: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            id: { type: "string", description: "Short key such as t1, referenced by dependsOn" },
+            title: { type: "string" },
+            description: { type: "string" },
+            type: { type: "string", description: "Work item type, e.g. Task or Bug" },
+            tags: { type: "array", items: { type: "string" } },
+            estimate: {
+              type: "number",
+              description: "Estimated effort in hours, e.g. from estimate_work_item",
+            },
+            dependsOn: {
+              type: "array",
+              items: { type: "string" },
+              description: "Keys of subtasks that must be done first",
+            },
+          },
+          required: ["id", "title", "type"],
+        },
+      },
+    },
+    required: ["subtasks"],
+  },
+};
+
+export function createProposePlanTool() {
+  return defineTool({
+    definition: PROPOSE_PLAN_TOOL,
+    schema: planUpdateSchema,
+    async execute(input, { session }) {
+      validateSubtasks(input.subtasks);
+      session.plan = upsertPlan(session.plan, input);
+
+      if (canTransition(session.state, "plan")) {
+        transition(session, "plan");
+      }
+
+      return {
+        planId: session.plan.id,
+        status: session.plan.status,
+        subtasks: session.plan.subtasks.length,
+        next: "Present the plan and ask the user to review and approve it",
+      };
+    },
+  });
+}
@@ -0,0 +1,23 @@
+import { describe, it, expect } from "vitest";
+import type { WorkItemSession } from "@azure-boards-ai/shared";
+import { createProposeSpecTool } from "./propose-spec.js";
+
+describe("propose_spec", () => {
+  it("should store a draft spec for review", async () => {
+    const session = { state: "specify" } as WorkItemSession;
+    const tool = createProposeSpecTool();
+
+    const result = await tool.execute(
+      tool.schema.parse({
+        description: "Pay with saved cards",
+        acceptanceCriteria: [{ given: "a saved card", when: "paying", then: "it is charged" }],
+        openQuestions: ["Which card brands?"],
+      }),
+      { session }
+    );
+
+    expect(result).toMatchObject({ status: "draft", acceptanceCriteria: 1 });
+    expect(session.spec).toMatchObject({ openQuestions: ["Which card brands?"], risks: [] });
+    expect(session.state).toBe("specify");
+  });
+});
@@ -0,0 +1,55 @@
+import type Anthropic from "@anthropic-ai/sdk";
+import { specUpdateSchema, upsertSpec } from "../specs/spec.js";
+import { defineTool } from "./registry.js";
+
+export const PROPOSE_SPEC_TOOL: Anthropic.Tool = {
+  name: "propose_spec",
+  description:
+    "Store a structured specification of the current work item for the user to review. Replaces any pending spec. Once approved it can be written back with apply_spec.",
+  input_schema: {
+    type: "object",
+    properties: {
+      description: {
+        type: "string",
+        description: "Complete revised description as markdown, replacing the current one",
+      },
+      acceptanceCriteria: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            scenario: { type: "string", description: "Short scenario name" },
+            given: { type: "string" },
+            when: { type: "string" },
+            then: { type: "string" },
+          },
+          required: ["given", "when", "then"],
+        },
+      },
+      openQuestions: {
+        type: "array",
+        items: { type: "string" },
+        description: "Questions the user still has to answer",
+      },
+      risks: { type: "array", items: { type: "string" } },
+    },
+    required: ["description", "acceptanceCriteria"],
+  },
+};
+
+export function createProposeSpecTool() {
+  return defineTool({
+    definition: PROPOSE_SPEC_TOOL,
+    schema: specUpdateSchema,
+    async execute(input, { session }) {
+      session.spec = upsertSpec(session.spec, input);
+
+      return {
+        specId: session.spec.id,
+        status: session.spec.status,
+        acceptanceCriteria: session.spec.acceptanceCriteria.length,
+        next: "Present the spec and ask the user to review and approve it",
+      };
+    },
+  });
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { WorkItemSession } from "@azure-boards-ai/shared";
+import { InMemoryWorkItemClient } from "../services/in-memory-devops.js";
+import { LinkTypes, workItemUrl } from "../services/azure-devops.js";
+import { createReadWorkItemTool, parseTags } from "./read-work-item.js";
+
+const TEST_ORG_URL = "https://dev.azure.com/test";
+const session = { projectId: "TestProject", organizationUrl: TEST_ORG_URL } as WorkItemSession;
+
+describe("read_work_item", () => {
+  let client: InMemoryWorkItemClient;
+
+  beforeEach(() => {
+    client = new InMemoryWorkItemClient({
+      organizationUrl: TEST_ORG_URL,
+      items: [
+        {
+          id: 1,
+          fields: {
+            "System.Title": "Checkout page",
+            "System.WorkItemType": "User Story",
+            "System.State": "Active",
+            "System.Tags": "web; payments",
+          },
+          relations: [
+            { rel: LinkTypes.parent, url: workItemUrl(TEST_ORG_URL, 10) },
+            { rel: LinkTypes.child, url: workItemUrl(TEST_ORG_URL, 2) },
+            { rel: LinkTypes.child, url: workItemUrl(TEST_ORG_URL, 3) },
+            { rel: LinkTypes.related, url: workItemUrl(TEST_ORG_URL, 4) },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("should return work item details with linked IDs", async () => {
+    const tool = createReadWorkItemTool(client);
+
+    const details = await tool.execute({ id: 1 }, { session });
+
+    expect(details).toMatchObject({
+      id: 1,
+      title: "Checkout page",
+      type: "User Story",
+      state: "Active",
+      tags: ["web", "payments"],
+      parentId: 10,
+      childIds: [2, 3],
+      relatedIds: [4],
+    });
+  });
+
+  it("should throw when the work item does not exist", async () => {
+    const tool = createReadWorkItemTool(client);
+
+    await expect(tool.execute({ id: 99 }, { session })).rejects.toThrow("Work item 99 not found");
+  });
+
+  it("should parse semicolon-separated tags", () => {
+    expect(parseTags(" a ;b;; c ")).toEqual(["a", "b", "c"]);
+    expect(parseTags(undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,77 @@
+import type { WorkItem } from "@azure-boards-ai/shared";
+import type { WorkItemTrackingClient } from "../services/azure-devops.js";
+import { LinkTypes, WorkItemFields, linkedWorkItemIds } from "../services/azure-devops.js";
+import { defineTool } from "./registry.js";
+import { READ_WORK_ITEM_TOOL, readWorkItemInput } from "./schemas.js";
+
+export interface WorkItemSummary {
+  id: number;
+  type?: string;
+  title?: string;
+  state?: string;
+  assignedTo?: string;
+  areaPath?: string;
+  iterationPath?: string;
+  tags: string[];
+}
+
+export interface WorkItemDetails extends WorkItemSummary {
+  description?: string;
+  acceptanceCriteria?: string;
+  fields: WorkItem["fields"];
+  parentId?: number;
+  childIds: number[];
+  relatedIds: number[];
+}
+
+export function summarizeWorkItem(item: WorkItem): WorkItemSummary {
+  const field = (name: string) => {
+    const value = item.fields[name];
+    return value === undefined ? undefined : String(value);
+  };
+
+  return {
+    id: item.id,
+    type: field(WorkItemFields.WorkItemType),
+    title: field(WorkItemFields.Title),
+    state: field(WorkItemFields.State),
+    assignedTo: field(WorkItemFields.AssignedTo),
+    areaPath: field(WorkItemFields.AreaPath),
+    iterationPath: field(WorkItemFields.IterationPath),
+    tags: parseTags(field(WorkItemFields.Tags)),
+  };
+}
+
+export function describeWorkItem(item: WorkItem): WorkItemDetails {
+  return {
+    ...summarizeWorkItem(item),
+    description: item.fields[WorkItemFields.Description]?.toString(),
+    acceptanceCriteria: item.fields[WorkItemFields.AcceptanceCriteria]?.toString(),
+    fields: item.fields,
+    parentId: linkedWorkItemIds(item, LinkTypes.parent)[0],
+    childIds: linkedWorkItemIds(item, LinkTypes.child),
+    relatedIds: linkedWorkItemIds(item, LinkTypes.related),
+  };
+}
+
+// System.Tags is a single "; "-separated string
+export function parseTags(tags: string | undefined): string[] {
+  return (tags ?? "")
+    .split(";")
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
+
+export function createReadWorkItemTool(client: WorkItemTrackingClient) {
+  return defineTool({
+    definition: READ_WORK_ITEM_TOOL,
+    schema: readWorkItemInput,
+    async execute({ id }) {
+      const item = await client.getWorkItem(id);
+      if (!item) {
+        throw new Error(`Work item ${id} not found`);
+      }
+      return describeWorkItem(item);
+    },
+  });
+}
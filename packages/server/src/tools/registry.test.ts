@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { z } from "zod";
+import { ToolRegistry, defineTool } from "./registry.js";
+import type { ToolContext } from "./registry.js";
+
+const context = { session: { id: "test-session" } } as unknown as ToolContext;
+
+const echoTool = defineTool({
+  definition: {
+    name: "echo",
+    description: "Echo the input",
+    input_schema: {
+      type: "object",
+      properties: { text: { type: "string" } },
+      required: ["text"],
+    },
+  },
+  schema: z.object({ text: z.string() }),
+  execute: async ({ text }) => ({ echoed: text }),
+});
+
+describe("ToolRegistry", () => {
+  let registry: ToolRegistry;
+
+  beforeEach(() => {
+    registry = new ToolRegistry([echoTool]);
+  });
+
+  it("should expose tool definitions", () => {
+    expect(registry.definitions()).toEqual([echoTool.definition]);
+    expect(registry.get("echo")).toBe(echoTool);
+  });
+
+  it("should leave out mutating tools when read-only", () => {
+    registry.register({
+      ...echoTool,
+      definition: { ...echoTool.definition, name: "write" },
+      mutating: true,
+    });
+
+    expect(registry.readOnly().definitions()).toEqual([echoTool.definition]);
+    expect(registry.get("write")).toBeDefined();
+  });
+
+  it("should execute a tool and serialize its output", async () => {
+    const result = await registry.execute(
+      { id: "call_1", name: "echo", input: { text: "hi" } },
+      context
+    );
+
+    expect(result.toolCallId).toBe("call_1");
+    expect(result.isError).toBeUndefined();
+    expect(JSON.parse(result.content)).toEqual({ echoed: "hi" });
+  });
+
+  it("should return an error result for unknown tools", async () => {
+    const result = await registry.execute({ id: "call_2", name: "missing", input: {} }, context);
+
+    expect(result).toEqual({
+      toolCallId: "call_2",
+      content: "Unknown tool: missing",
+      isError: true,
+    });
+  });
+
+  it("should return an error result for invalid input", async () => {
+    const result = await registry.execute({ id: "call_3", name: "echo", input: {} }, context);
+
+    expect(result.isError).toBe(true);
+    expect(result.content).toContain("Invalid input for echo");
+  });
+
+  it("should return an error result when the tool throws", async () => {
+    registry.register({
+      ...echoTool,
+      execute: vi.fn().mockRejectedValue(new Error("boom")),
+    });
+
+    const result = await registry.execute(
+      { id: "call_4", name: "echo", input: { text: "hi" } },
+      context
+    );
+
+    expect(result).toEqual({ toolCallId: "call_4", content: "boom", isError: true });
+  });
+
+  it("should explain Azure DevOps permission errors", async () => {
+    registry.register({
+      ...echoTool,
+      execute: vi
+        .fn()
+        .mockRejectedValue(Object.assign(new Error("Access denied"), { statusCode: 403 })),
+    });
+
+    const result = await registry.execute(
+      { id: "call_5", name: "echo", input: { text: "hi" } },
+      context
+    );
+
+    expect(result.isError).toBe(true);
+    expect(result.content).toBe(
+      "The user does not have permission for this in Azure DevOps (403): Access denied"
+    );
+  });
+});
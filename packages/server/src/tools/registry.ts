@@ -0,0 +1,142 @@
+import type Anthropic from "@anthropic-ai/sdk";
+import type {
+  FieldChange,
+  StreamChunk,
+  ToolCall,
+  ToolResult,
+  WorkItemSession,
+} from "@azure-boards-ai/shared";
+import type { z } from "zod";
+import { errorStatusCode } from "../services/azure-devops.js";
+
+export interface ToolContext {
+  session: WorkItemSession;
+  // Stream progress to the client while the tool is still running
+  emit?: (chunk: StreamChunk) => void;
+  // Aborted when the user cancels the run
+  signal?: AbortSignal;
+}
+
+// What a mutating tool call is about to change, shown to the user for approval
+export interface ToolPreview {
+  summary: string;
+  changes: FieldChange[];
+}
+
+export interface ToolHandler<TInput = unknown, TOutput = unknown> {
+  definition: Anthropic.Tool;
+  schema: z.ZodType<TInput, z.ZodTypeDef, unknown>;
+  // Mutating tools change Azure DevOps and need the user's approval to run
+  mutating?: boolean;
+  // Undefined when this call changes nothing, e.g. a dry run, so it needs no approval
+  preview?(input: TInput, context: ToolContext): Promise<ToolPreview | undefined>;
+  execute(input: TInput, context: ToolContext): Promise<TOutput>;
+}
+
+/**
+ * Identity helper that keeps the input type of a handler inferred from its schema
+ */
+export function defineTool<TInput, TOutput>(
+  handler: ToolHandler<TInput, TOutput>
+): ToolHandler<TInput, TOutput> {
+  return handler;
+}
+
+export class ToolRegistry {
+  private handlers: Map<string, ToolHandler> = new Map();
+
+  constructor(handlers: ToolHandler[] = []) {
+    for (const handler of handlers) {
+      this.register(handler);
+    }
+  }
+
+  register(handler: ToolHandler): void {
+    this.handlers.set(handler.definition.name, handler);
+  }
+
+  get(name: string): ToolHandler | undefined {
+    return this.handlers.get(name);
+  }
+
+  // The same tools without the mutating ones, for runs that cannot ask for approval
+  readOnly(): ToolRegistry {
+    return new ToolRegistry([...this.handlers.values()].filter((handler) => !handler.mutating));
+  }
+
+  definitions(): Anthropic.Tool[] {
+    return Array.from(this.handlers.values(), (handler) => handler.definition);
+  }
+
+  /**
+   * Describe what a mutating tool call would change. Returns undefined for
+   * read-only tools, for calls that change nothing and for invalid input,
+   * which execute reports instead.
+   */
+  async preview(call: ToolCall, context: ToolContext): Promise<ToolPreview | undefined> {
+    const handler = this.handlers.get(call.name);
+    if (!handler?.mutating) {
+      return undefined;
+    }
+
+    const parsed = handler.schema.safeParse(call.input);
+    if (!parsed.success) {
+      return undefined;
+    }
+
+    const fallback = { summary: `Run ${call.name}`, changes: [] };
+    try {
+      return handler.preview ? await handler.preview(parsed.data, context) : fallback;
+    } catch {
+      // A preview that cannot be built must not skip the confirmation
+      return fallback;
+    }
+  }
+
+  /**
+   * Validate and run a tool call. Failures are returned as error results so the
+   * model can see what went wrong and recover, rather than aborting the run.
+   */
+  async execute(call: ToolCall, context: ToolContext): Promise<ToolResult> {
+    const handler = this.handlers.get(call.name);
+    if (!handler) {
+      return { toolCallId: call.id, content: `Unknown tool: ${call.name}`, isError: true };
+    }
+
+    const parsed = handler.schema.safeParse(call.input);
+    if (!parsed.success) {
+      return {
+        toolCallId: call.id,
+        content: `Invalid input for ${call.name}: ${parsed.error.message}`,
+        isError: true,
+      };
+    }
+
+    try {
+      const output = await handler.execute(parsed.data, context);
+      return { toolCallId: call.id, content: serializeOutput(output) };
+    } catch (error) {
+      return { toolCallId: call.id, content: describeError(error), isError: true };
+    }
+  }
+}
+
+// Azure DevOps auth failures are spelled out so the model can explain them to the user
+function describeError(error: unknown): string {
+  const message = error instanceof Error ? error.message : "Tool execution failed";
+  switch (errorStatusCode(error)) {
+    case 401:
+      return `Azure DevOps rejected the user's credentials (401): ${message}`;
+    case 403:
+      return `The user does not have permission for this in Azure DevOps (403): ${message}`;
+    default:
+      return message;
+  }
+}
+
+function serializeOutput(output: unknown): string {
+  if (typeof output === "string") {
+    return output;
+  }
+  return JSON.stringify(output ?? null, null, 2);
+}
@@ -0,0 +1,253 @@
+import type Anthropic from "@anthropic-ai/sdk";
+import { z } from "zod";
+import { LinkTypes } from "../services/azure-devops.js";
+import type { LinkType } from "../services/azure-devops.js";
+
+const workItemId = z.number().int().positive();
+const fieldValues = z.record(z.union([z.string(), z.number()]));
+const linkTypes = Object.keys(LinkTypes) as [LinkType, ...LinkType[]];
+
+// Input validation
+
+export const readWorkItemInput = z.object({
+  id: workItemId,
+});
+
+export const getWorkItemCommentsInput = z.object({
+  id: workItemId,
+  top: z.number().int().min(1).max(200).default(50),
+  includeHistory: z.boolean().default(false),
+});
+
+const oneOrMany = z
+  .union([z.string().min(1), z.array(z.string().min(1)).min(1)])
+  .transform((value) => (Array.isArray(value) ? value : [value]));
+
+export const findSimilarWorkItemsInput = z.object({
+  id: workItemId.optional(),
+  text: z.string().min(1).optional(),
+  top: z.number().int().min(1).max(20).default(5),
+});
+
+export const searchWorkItemsInput = z.object({
+  text: z.string().optional(),
+  type: oneOrMany.optional(),
+  state: oneOrMany.optional(),
+  tags: z.array(z.string().min(1)).optional(),
+  assignedTo: z.string().min(1).optional(),
+  areaPath: z.string().min(1).optional(),
+  iterationPath: z.string().min(1).optional(),
+  changedWithinDays: z.number().int().positive().optional(),
+  excludeIds: z.array(workItemId).optional(),
+  top: z.number().int().min(1).max(100).default(20),
+});
+
+export const estimateWorkItemInput = z.object({
+  id: workItemId.optional(),
+  type: z.string().min(1).optional(),
+  title: z.string().min(1).optional(),
+  areaPath: z.string().min(1).optional(),
+});
+
+export const createWorkItemInput = z.object({
+  type: z.string().min(1),
+  title: z.string().min(1),
+  description: z.string().optional(),
+  parentId: workItemId.optional(),
+  tags: z.array(z.string()).optional(),
+  fields: fieldValues.optional(),
+});
+
+export const updateWorkItemInput = z.object({
+  id: workItemId,
+  fields: z
+    .record(z.union([z.string(), z.number(), z.null()]))
+    .refine((fields) => Object.keys(fields).length > 0, {
+      message: "At least one field must be updated",
+    }),
+});
+
+export const linkWorkItemsInput = z.object({
+  sourceId: workItemId,
+  targetId: workItemId,
+  linkType: z.enum(linkTypes),
+  comment: z.string().optional(),
+});
+
+export type ReadWorkItemInput = z.infer<typeof readWorkItemInput>;
+export type GetWorkItemCommentsInput = z.infer<typeof getWorkItemCommentsInput>;
+export type FindSimilarWorkItemsInput = z.infer<typeof findSimilarWorkItemsInput>;
+export type SearchWorkItemsInput = z.infer<typeof searchWorkItemsInput>;
+export type EstimateWorkItemInput = z.infer<typeof estimateWorkItemInput>;
+export type CreateWorkItemInput = z.infer<typeof createWorkItemInput>;
+export type UpdateWorkItemInput = z.infer<typeof updateWorkItemInput>;
+export type LinkWorkItemsInput = z.infer<typeof linkWorkItemsInput>;
+
+// JSON schemas sent to Claude
+
+const WORK_ITEM_ID = { type: "integer", description: "Work item ID" };
+
+const FIELDS_DESCRIPTION =
+  "Additional fields keyed by reference name as listed under Process in the context, e.g. Microsoft.VSTS.Scheduling.StoryPoints";
+
+export const READ_WORK_ITEM_TOOL: Anthropic.Tool = {
+  name: "read_work_item",
+  description:
+    "Get the details of a work item by ID, including its fields and the IDs of its parent, children and related items.",
+  input_schema: {
+    type: "object",
+    properties: {
+      id: WORK_ITEM_ID,
+    },
+    required: ["id"],
+  },
+};
+
+export const GET_WORK_ITEM_COMMENTS_TOOL: Anthropic.Tool = {
+  name: "get_work_item_comments",
+  description:
+    "Get the latest discussion comments on a work item, and optionally its field change history. Use it when the comments and changes in the context are not enough.",
+  input_schema: {
+    type: "object",
+    properties: {
+      id: WORK_ITEM_ID,
+      top: {
+        type: "integer",
+        description: "Maximum number of comments and revisions (default 50)",
+      },
+      includeHistory: {
+        type: "boolean",
+        description: "Also return the fields changed by each recent revision",
+      },
+    },
+    required: ["id"],
+  },
+};
+
+export const SEARCH_WORK_ITEMS_TOOL: Anthropic.Tool = {
+  name: "search_work_items",
+  description:
+    "Find work items in the current project. Filters are combined with AND; list filters match any of their values. Returns a table of ID, type, state, title, assignee and tags, most recently changed first.",
+  input_schema: {
+    type: "object",
+    properties: {
+      text: {
+        type: "string",
+        description: "Words that must each appear in the title or description",
+      },
+      type: {
+        type: "array",
+        items: { type: "string" },
+        description: "Work item types, e.g. Bug or User Story",
+      },
+      state: { type: "array", items: { type: "string" }, description: "States, e.g. Active" },
+      tags: { type: "array", items: { type: "string" }, description: "Tags that must all be set" },
+      assignedTo: {
+        type: "string",
+        description: 'Part of the assignee\'s name or email, "me" or "unassigned"',
+      },
+      areaPath: { type: "string", description: "Area path, including its sub-areas" },
+      iterationPath: {
+        type: "string",
+        description: 'Iteration path including its children, or "current" for the current sprint',
+      },
+      changedWithinDays: { type: "integer", description: "Only items changed in the last N days" },
+      excludeIds: { type: "array", items: { type: "integer" }, description: "IDs to leave out" },
+      top: { type: "integer", description: "Maximum number of results (default 20)" },
+    },
+  },
+};
+
+export const FIND_SIMILAR_WORK_ITEMS_TOOL: Anthropic.Tool = {
+  name: "find_similar_work_items",
+  description:
+    "Find work items in the current project that are similar to a work item or a text, ranked by similarity of title and description. Items flagged likelyDuplicate probably describe the same work. Defaults to the current work item.",
+  input_schema: {
+    type: "object",
+    properties: {
+      id: { type: "integer", description: "Work item to compare against" },
+      text: { type: "string", description: "Text to compare against instead of a work item" },
+      top: { type: "integer", description: "Maximum number of results (default 5)" },
+    },
+  },
+};
+
+export const ESTIMATE_WORK_ITEM_TOOL: Anthropic.Tool = {
+  name: "estimate_work_item",
+  description:
+    "Estimate the effort of a work item or a planned subtask from completed items of the same type in the team's area. Returns the likely range of hours, story points and cycle time in days, a confidence and comparable past items. Defaults to the current work item; a type and title describe work that does not exist yet.",
+  input_schema: {
+    type: "object",
+    properties: {
+      id: { type: "integer", description: "Work item to estimate" },
+      type: { type: "string", description: "Work item type, e.g. Task" },
+      title: { type: "string", description: "Title to find comparable items by" },
+      areaPath: {
+        type: "string",
+        description: "The team's area path; defaults to the work item's",
+      },
+    },
+  },
+};
+
+export const CREATE_WORK_ITEM_TOOL: Anthropic.Tool = {
+  name: "create_work_item",
+  description:
+    "Create a work item in the current project, optionally as a child of an existing work item.",
+  input_schema: {
+    type: "object",
+    properties: {
+      type: { type: "string", description: "Work item type, e.g. Task" },
+      title: { type: "string" },
+      description: { type: "string", description: "HTML or plain text description" },
+      parentId: { type: "integer", description: "ID of the parent work item" },
+      tags: { type: "array", items: { type: "string" } },
+      fields: { type: "object", description: FIELDS_DESCRIPTION },
+    },
+    required: ["type", "title"],
+  },
+};
+
+export const UPDATE_WORK_ITEM_TOOL: Anthropic.Tool = {
+  name: "update_work_item",
+  description: "Update fields of a work item. Set a field to null to clear it.",
+  input_schema: {
+    type: "object",
+    properties: {
+      id: WORK_ITEM_ID,
+      fields: {
+        type: "object",
+        description: `${FIELDS_DESCRIPTION}. Use System.State to change state.`,
+        minProperties: 1,
+      },
+    },
+    required: ["id", "fields"],
+  },
+};
+
+export const LINK_WORK_ITEMS_TOOL: Anthropic.Tool = {
+  name: "link_work_items",
+  description:
+    "Create a relationship from the source work item to the target, e.g. linkType parent makes the target the parent of the source.",
+  input_schema: {
+    type: "object",
+    properties: {
+      sourceId: { type: "integer" },
+      targetId: { type: "integer" },
+      linkType: { type: "string", enum: linkTypes },
+      comment: { type: "string" },
+    },
+    required: ["sourceId", "targetId", "linkType"],
+  },
+};
+
+export const WORK_ITEM_TOOL_SCHEMAS: Anthropic.Tool[] = [
+  READ_WORK_ITEM_TOOL,
+  GET_WORK_ITEM_COMMENTS_TOOL,
+  SEARCH_WORK_ITEMS_TOOL,
+  FIND_SIMILAR_WORK_ITEMS_TOOL,
+  ESTIMATE_WORK_ITEM_TOOL,
+  CREATE_WORK_ITEM_TOOL,
+  UPDATE_WORK_ITEM_TOOL,
+  LINK_WORK_ITEMS_TOOL,
+];
@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import type { WorkItemSession } from "@azure-boards-ai/shared";
+import { InMemoryWorkItemClient } from "../services/in-memory-devops.js";
+import { buildSearchQuery, createSearchWorkItemsTool } from "./search-work-items.js";
+import { searchWorkItemsInput } from "./schemas.js";
+
+const session = { projectId: "TestProject" } as WorkItemSession;
+
+describe("search_work_items", () => {
+  it("should build a project-scoped query with escaped literals", () => {
+    const query = buildSearchQuery(
+      searchWorkItemsInput.parse({ text: "user's login", type: "Bug", state: ["New", "Active"] })
+    );
+
+    expect(query).toContain("[System.TeamProject] = @project");
+    expect(query).toContain(
+      "([System.Title] CONTAINS 'user''s' OR [System.Description] CONTAINS WORDS 'user''s')"
+    );
+    expect(query).toContain("[System.Title] CONTAINS 'login'");
+    expect(query).toContain("[System.WorkItemType] = 'Bug'");
+    expect(query).toContain("[System.State] IN ('New', 'Active')");
+    expect(query).toMatch(/ORDER BY \[System.ChangedDate\] DESC$/);
+  });
+
+  it("should compile tag, assignee, path and date filters", () => {
+    const query = buildSearchQuery(
+      searchWorkItemsInput.parse({
+        tags: ["web", "pay'ments"],
+        assignedTo: "me",
+        areaPath: "Shop\\Checkout",
+        iterationPath: "current",
+        changedWithinDays: 14,
+        excludeIds: [7],
+      })
+    );
+
+    expect(query).toContain("[System.Tags] CONTAINS 'web' AND [System.Tags] CONTAINS 'pay''ments'");
+    expect(query).toContain("[System.AssignedTo] = @Me");
+    expect(query).toContain("[System.AreaPath] UNDER 'Shop\\Checkout'");
+    expect(query).toContain("[System.IterationPath] = @CurrentIteration");
+    expect(query).toContain("[System.ChangedDate] >= @Today - 14");
+    expect(query).toContain("[System.Id] <> 7");
+  });
+
+  it("should match unassigned items and assignees by name", () => {
+    expect(buildSearchQuery({ assignedTo: "Unassigned" })).toContain("[System.AssignedTo] = ''");
+    expect(buildSearchQuery({ assignedTo: "O'Brien" })).toContain(
+      "[System.AssignedTo] CONTAINS 'O''Brien'"
+    );
+  });
+
+  it("should return a table of matching work items", async () => {
+    const client = new InMemoryWorkItemClient({
+      items: [
+        {
+          id: 1,
+          fields: {
+            "System.TeamProject": "TestProject",
+            "System.WorkItemType": "Bug",
+            "System.State": "Active",
+            "System.Title": "Login | signup bug",
+            "System.Tags": "web; auth",
+            "System.Description": "Not in the table",
+          },
+        },
+        { id: 2, fields: { "System.TeamProject": "TestProject", "System.Title": "Logout bug" } },
+        { id: 3, fields: { "System.TeamProject": "Other", "System.Title": "Elsewhere" } },
+      ],
+    });
+    const tool = createSearchWorkItemsTool(client);
+
+    const result = await tool.execute(searchWorkItemsInput.parse({ text: "bug", top: 1 }), {
+      session,
+    });
+
+    expect(result).toEqual({
+      count: 1,
+      table:
+        "| ID | Type | State | Title | Assigned To | Tags |\n" +
+        "| --- | --- | --- | --- | --- | --- |\n" +
+        "| 1 | Bug | Active | Login \\| signup bug |  | web, auth |",
+    });
+    expect(client.queries).toHaveLength(1);
+  });
+
+  it("should say when nothing matches", async () => {
+    const tool = createSearchWorkItemsTool(new InMemoryWorkItemClient());
+
+    const result = await tool.execute(searchWorkItemsInput.parse({ state: "Closed" }), {
+      session,
+    });
+
+    expect(result.count).toBe(0);
+  });
+});
@@ -0,0 +1,135 @@
+import type { WorkItem } from "@azure-boards-ai/shared";
+import type { WorkItemTrackingClient } from "../services/azure-devops.js";
+import { WorkItemFields } from "../services/azure-devops.js";
+import { buildWiql, macro, where } from "../services/wiql.js";
+import { defineTool } from "./registry.js";
+import { parseTags } from "./read-work-item.js";
+import { SEARCH_WORK_ITEMS_TOOL, searchWorkItemsInput } from "./schemas.js";
+import type { SearchWorkItemsInput } from "./schemas.js";
+
+// Free text is matched word by word; longer inputs are cut to keep the query small
+const MAX_TEXT_WORDS = 8;
+
+// The columns of the result table, fetched without relations
+const RESULT_FIELDS = [
+  WorkItemFields.WorkItemType,
+  WorkItemFields.State,
+  WorkItemFields.Title,
+  WorkItemFields.AssignedTo,
+  WorkItemFields.Tags,
+];
+
+function textConditions(text: string): string[] {
+  const words = text
+    .split(/\s+/)
+    .filter((word) => word.length > 1)
+    .slice(0, MAX_TEXT_WORDS);
+  return words.map((word) =>
+    where.any(
+      where.contains(WorkItemFields.Title, word),
+      where.containsWords(WorkItemFields.Description, word)
+    )
+  );
+}
+
+function assigneeCondition(assignedTo: string): string {
+  switch (assignedTo.toLowerCase()) {
+    case "me":
+      return where.equals(WorkItemFields.AssignedTo, macro("@Me"));
+    case "unassigned":
+      return where.equals(WorkItemFields.AssignedTo, "");
+    default:
+      return where.contains(WorkItemFields.AssignedTo, assignedTo);
+  }
+}
+
+function iterationCondition(iterationPath: string): string {
+  return iterationPath.toLowerCase() === "current"
+    ? where.equals(WorkItemFields.IterationPath, macro("@CurrentIteration"))
+    : where.under(WorkItemFields.IterationPath, iterationPath);
+}
+
+/**
+ * Compile the search filters to a WIQL query over the session's project. Every
+ * value is passed through the WIQL builder, which quotes and escapes it.
+ */
+export function buildSearchQuery(input: Omit<SearchWorkItemsInput, "top">): string {
+  const conditions = [where.equals(WorkItemFields.TeamProject, macro("@project"))];
+
+  if (input.text) {
+    conditions.push(...textConditions(input.text));
+  }
+  if (input.type) {
+    conditions.push(where.in(WorkItemFields.WorkItemType, input.type));
+  }
+  if (input.state) {
+    conditions.push(where.in(WorkItemFields.State, input.state));
+  }
+  for (const tag of input.tags ?? []) {
+    conditions.push(where.contains(WorkItemFields.Tags, tag));
+  }
+  if (input.assignedTo) {
+    conditions.push(assigneeCondition(input.assignedTo));
+  }
+  if (input.areaPath) {
+    conditions.push(where.under(WorkItemFields.AreaPath, input.areaPath));
+  }
+  if (input.iterationPath) {
+    conditions.push(iterationCondition(input.iterationPath));
+  }
+  if (input.changedWithinDays) {
+    conditions.push(
+      where.atLeast(WorkItemFields.ChangedDate, macro("@Today", -input.changedWithinDays))
+    );
+  }
+  for (const id of input.excludeIds ?? []) {
+    conditions.push(where.notEquals(WorkItemFields.Id, id));
+  }
+
+  return buildWiql({
+    where: conditions,
+    orderBy: [{ field: WorkItemFields.ChangedDate, descending: true }],
+  });
+}
+
+// Cell values are kept on one line and cannot break out of their column
+function cell(value: string | number | undefined): string {
+  return String(value ?? "")
+    .replace(/\s+/g, " ")
+    .replace(/\|/g, "\\|");
+}
+
+export function formatResultTable(items: WorkItem[]): string {
+  const rows = items.map((item) => {
+    const tags = parseTags(item.fields[WorkItemFields.Tags]?.toString()).join(", ");
+    const cells = [
+      item.id,
+      item.fields[WorkItemFields.WorkItemType],
+      item.fields[WorkItemFields.State],
+      item.fields[WorkItemFields.Title],
+      item.fields[WorkItemFields.AssignedTo],
+      tags,
+    ];
+    return `| ${cells.map(cell).join(" | ")} |`;
+  });
+  return [
+    "| ID | Type | State | Title | Assigned To | Tags |",
+    "| --- | --- | --- | --- | --- | --- |",
+    ...rows,
+  ].join("\n");
+}
+
+export function createSearchWorkItemsTool(client: WorkItemTrackingClient) {
+  return defineTool({
+    definition: SEARCH_WORK_ITEMS_TOOL,
+    schema: searchWorkItemsInput,
+    async execute(input, { session }) {
+      const ids = await client.queryByWiql(buildSearchQuery(input), session.projectId, input.top);
+      const items = await client.getWorkItems(ids.slice(0, input.top), RESULT_FIELDS);
+      if (items.length === 0) {
+        return { count: 0, table: "No work items match the search." };
+      }
+      return { count: items.length, table: formatResultTable(items) };
+    },
+  });
+}
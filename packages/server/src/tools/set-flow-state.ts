@@ -0,0 +1,28 @@
+import type Anthropic from "@anthropic-ai/sdk";
+import { z } from "zod";
+import { SESSION_STATES, transition } from "../agent/flow.js";
+import { defineTool } from "./registry.js";
+
+export const SET_FLOW_STATE_TOOL: Anthropic.Tool = {
+  name: "set_flow_state",
+  description:
+    "Move the session to another stage: specify (clarify requirements), plan (break down into subtasks), execute (create approved subtasks) or idle.",
+  input_schema: {
+    type: "object",
+    properties: {
+      state: { type: "string", enum: SESSION_STATES },
+    },
+    required: ["state"],
+  },
+};
+
+export function createSetFlowStateTool() {
+  return defineTool({
+    definition: SET_FLOW_STATE_TOOL,
+    schema: z.object({ state: z.enum(SESSION_STATES) }),
+    async execute({ state }, { session }) {
+      const change = transition(session, state);
+      return change ?? { unchanged: true, state };
+    },
+  });
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import type { WorkItemSession } from "@azure-boards-ai/shared";
+import { InMemoryWorkItemClient } from "../services/in-memory-devops.js";
+import { buildUpdatePatch, createUpdateWorkItemTool } from "./update-work-item.js";
+
+const session = { projectId: "TestProject" } as WorkItemSession;
+
+describe("update_work_item", () => {
+  it("should build add and remove operations", () => {
+    expect(buildUpdatePatch({ "System.State": "Active", "System.Tags": null })).toEqual([
+      { op: "add", path: "/fields/System.State", value: "Active" },
+      { op: "remove", path: "/fields/System.Tags" },
+    ]);
+  });
+
+  it("should reject an update without fields", () => {
+    const tool = createUpdateWorkItemTool(new InMemoryWorkItemClient());
+
+    expect(() => tool.schema.parse({ id: 1, fields: {} })).toThrow(
+      "At least one field must be updated"
+    );
+  });
+
+  it("should update and clear fields", async () => {
+    const client = new InMemoryWorkItemClient({
+      items: [{ id: 1, fields: { "System.State": "New", "System.Tags": "old" } }],
+    });
+    const tool = createUpdateWorkItemTool(client);
+
+    const result = await tool.execute(
+      { id: 1, fields: { "System.State": "Active", "System.Tags": null } },
+      { session }
+    );
+
+    expect(result.updated.state).toBe("Active");
+    const updated = await client.getWorkItem(1);
+    expect(updated?.fields).toEqual({ "System.State": "Active" });
+  });
+
+  it("should preview changes against the current field values", async () => {
+    const client = new InMemoryWorkItemClient({
+      items: [{ id: 1, fields: { "System.Title": "Login", "System.State": "New" } }],
+    });
+    const tool = createUpdateWorkItemTool(client);
+
+    const preview = await tool.preview?.(
+      { id: 1, fields: { "System.State": "Active", "System.Tags": null } },
+      { session }
+    );
+
+    expect(preview).toEqual({
+      summary: 'Update #1 "Login"',
+      changes: [
+        { field: "System.State", from: "New", to: "Active" },
+        { field: "System.Tags", from: undefined, to: undefined },
+      ],
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import type { PatchOperation, WorkItemTrackingClient } from "../services/azure-devops.js";
+import { WorkItemFields } from "../services/azure-devops.js";
+import { defineTool } from "./registry.js";
+import { summarizeWorkItem } from "./read-work-item.js";
+import { UPDATE_WORK_ITEM_TOOL, updateWorkItemInput } from "./schemas.js";
+import type { UpdateWorkItemInput } from "./schemas.js";
+
+export function buildUpdatePatch(fields: UpdateWorkItemInput["fields"]): PatchOperation[] {
+  return Object.entries(fields).map(([name, value]) =>
+    value === null
+      ? { op: "remove", path: `/fields/${name}` }
+      : { op: "add", path: `/fields/${name}`, value }
+  );
+}
+
+export function createUpdateWorkItemTool(client: WorkItemTrackingClient) {
+  return defineTool({
+    definition: UPDATE_WORK_ITEM_TOOL,
+    schema: updateWorkItemInput,
+    mutating: true,
+    async preview({ id, fields }) {
+      const current = await client.getWorkItem(id);
+      const title = current?.fields[WorkItemFields.Title];
+      return {
+        summary: title === undefined ? `Update #${id}` : `Update #${id} "${title}"`,
+        changes: Object.entries(fields).map(([field, value]) => ({
+          field,
+          from: current?.fields[field],
+          to: value ?? undefined,
+        })),
+      };
+    },
+    async execute({ id, fields }) {
+      const item = await client.updateWorkItem(id, buildUpdatePatch(fields));
+      return { updated: summarizeWorkItem(item), fields: Object.keys(fields) };
+    },
+  });
+}
@@ -0,0 +1,41 @@
+import type { TokenUsage } from "@azure-boards-ai/shared";
+
+// List prices in USD per million tokens
+interface ModelPrice {
+  input: number;
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
+}
+
+// Matched against the model ID by prefix, most specific first
+const MODEL_PRICES: Array<[prefix: string, price: ModelPrice]> = [
+  ["claude-opus-4-5", { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 }],
+  ["claude-opus-4", { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 }],
+  ["claude-sonnet-4", { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 }],
+  ["claude-3-7-sonnet", { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 }],
+  ["claude-haiku-4-5", { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 }],
+  ["claude-3-5-haiku", { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 }],
+];
+
+/**
+ * Estimated cost of one model call. Returns 0 for models without a known
+ * price, such as a scripted provider or a proxy's own model names.
+ */
+export function estimateCostUsd(model: string | undefined, usage: TokenUsage): number {
+  const price = MODEL_PRICES.find(([prefix]) => model?.startsWith(prefix))?.[1];
+  if (!price) {
+    return 0;
+  }
+  const cost =
+    usage.inputTokens * price.input +
+    usage.outputTokens * price.output +
+    usage.cacheCreationInputTokens * price.cacheWrite +
+    usage.cacheReadInputTokens * price.cacheRead;
+  return roundCost(cost / 1_000_000);
+}
+
+// Sub-cent precision without floating point noise in reports
+export function roundCost(costUsd: number): number {
+  return Math.round(costUsd * 1_000_000) / 1_000_000;
+}
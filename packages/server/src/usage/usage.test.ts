@@ -0,0 +1,150 @@
+import { describe, it, expect } from "vitest";
+import type { TokenUsage, WorkItemSession } from "@azure-boards-ai/shared";
+import { estimateCostUsd } from "./pricing.js";
+import { buildUsageReport, cacheHitRate, meterUsage, recordUsage } from "./usage.js";
+import { ScriptedProvider } from "../services/scripted-provider.js";
+
+const SONNET = "claude-sonnet-4-5-20250929";
+const ORG_A = "https://dev.azure.com/a";
+const ORG_B = "https://dev.azure.com/b";
+
+const USAGE: TokenUsage = {
+  inputTokens: 1_000_000,
+  outputTokens: 100_000,
+  cacheCreationInputTokens: 0,
+  cacheReadInputTokens: 0,
+};
+
+function session(id: string, organizationUrl: string, projectId: string): WorkItemSession {
+  return {
+    id,
+    workItemId: 1,
+    projectId,
+    organizationUrl,
+    state: "idle",
+    transcript: [],
+    context: { workItem: { id: 1, fields: {} }, relatedItems: [], childItems: [] },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+describe("estimateCostUsd", () => {
+  it("should price tokens by model family", () => {
+    expect(estimateCostUsd(SONNET, USAGE)).toBe(4.5);
+    expect(
+      estimateCostUsd("claude-haiku-4-5", {
+        inputTokens: 0,
+        outputTokens: 0,
+        cacheCreationInputTokens: 1_000_000,
+        cacheReadInputTokens: 1_000_000,
+      })
+    ).toBe(1.35);
+  });
+
+  it("should count unknown models as free", () => {
+    expect(estimateCostUsd("local-model", USAGE)).toBe(0);
+    expect(estimateCostUsd(undefined, USAGE)).toBe(0);
+  });
+});
+
+describe("cacheHitRate", () => {
+  it("should report the share of the prompt read from the cache", () => {
+    expect(
+      cacheHitRate({
+        inputTokens: 100,
+        outputTokens: 50,
+        cacheCreationInputTokens: 100,
+        cacheReadInputTokens: 600,
+      })
+    ).toBe(0.75);
+    expect(cacheHitRate({ ...USAGE, inputTokens: 0 })).toBe(0);
+  });
+});
+
+describe("recordUsage", () => {
+  it("should add calls to the session total and their day", () => {
+    const target = session("s1", ORG_A, "Web");
+
+    recordUsage(target, USAGE, SONNET, new Date("2025-03-01T23:00:00Z"));
+    recordUsage(target, USAGE, SONNET, new Date("2025-03-02T01:00:00Z"));
+    const call = recordUsage(target, USAGE, SONNET, new Date("2025-03-02T02:00:00Z"));
+
+    expect(call).toMatchObject({ inputTokens: 1_000_000, costUsd: 4.5, requests: 1 });
+    expect(target.usage?.total).toMatchObject({ inputTokens: 3_000_000, requests: 3 });
+    expect(target.usage?.daily["2025-03-01"].requests).toBe(1);
+    expect(target.usage?.daily["2025-03-02"]).toMatchObject({ costUsd: 9, requests: 2 });
+  });
+});
+
+describe("buildUsageReport", () => {
+  const web = session("s1", ORG_A, "Web");
+  const webToo = session("s2", ORG_A, "Web");
+  const mobile = session("s3", ORG_B, "Mobile");
+  recordUsage(web, USAGE, SONNET, new Date("2025-03-01T12:00:00Z"));
+  recordUsage(webToo, USAGE, SONNET, new Date("2025-03-05T12:00:00Z"));
+  recordUsage(mobile, USAGE, SONNET, new Date("2025-03-05T12:00:00Z"));
+  const unused = session("s4", ORG_A, "Idle");
+
+  it("should total usage per organization and project", () => {
+    const report = buildUsageReport([web, webToo, mobile, unused]);
+
+    expect(report.total).toMatchObject({ costUsd: 13.5, requests: 3 });
+    expect(report.organizations).toEqual([
+      expect.objectContaining({ organizationUrl: ORG_A, sessions: 2, costUsd: 9 }),
+      expect.objectContaining({ organizationUrl: ORG_B, sessions: 1, costUsd: 4.5 }),
+    ]);
+    expect(report.projects).toEqual([
+      expect.objectContaining({ organizationUrl: ORG_A, projectId: "Web", sessions: 2 }),
+      expect.objectContaining({ organizationUrl: ORG_B, projectId: "Mobile", sessions: 1 }),
+    ]);
+  });
+
+  it("should filter by organization and date range", () => {
+    const report = buildUsageReport([web, webToo, mobile], {
+      organizationUrl: ORG_A,
+      from: "2025-03-02",
+      to: "2025-03-31",
+    });
+
+    expect(report).toMatchObject({ organizationUrl: ORG_A, from: "2025-03-02", to: "2025-03-31" });
+    expect(report.total.requests).toBe(1);
+    expect(report.projects).toEqual([expect.objectContaining({ projectId: "Web", sessions: 1 })]);
+  });
+});
+
+describe("meterUsage", () => {
+  it("should report usage chunks and pass every chunk through", async () => {
+    const reported: Array<string | undefined> = [];
+    const provider = {
+      async *chat() {
+        yield { type: "text" as const, text: "Hi" };
+        yield { type: "usage" as const, usage: USAGE, model: SONNET };
+        yield { type: "done" as const };
+      },
+    };
+
+    const metered = meterUsage(provider, (_usage, model) => reported.push(model));
+    const types = [];
+    for await (const chunk of metered.chat({ messages: [], systemPrompt: "" })) {
+      types.push(chunk.type);
+    }
+
+    expect(types).toEqual(["text", "usage", "done"]);
+    expect(reported).toEqual([SONNET]);
+  });
+
+  it("should leave providers without usage reports alone", async () => {
+    const reported: unknown[] = [];
+    const metered = meterUsage(new ScriptedProvider([{ text: "Hi" }]), (usage) =>
+      reported.push(usage)
+    );
+
+    // eslint-disable-next-line sonarjs/no-unused-vars
+    for await (const _chunk of metered.chat({ messages: [], systemPrompt: "" })) {
+      // Continue consuming
+    }
+
+    expect(reported).toEqual([]);
+  });
+});
@@ -0,0 +1,146 @@
+import type {
+  OrganizationUsage,
+  ProjectUsage,
+  TokenUsage,
+  UsageReport,
+  UsageReportQuery,
+  UsageTotals,
+  WorkItemSession,
+} from "@azure-boards-ai/shared";
+import type { LlmProvider } from "../services/llm.js";
+import { estimateCostUsd, roundCost } from "./pricing.js";
+
+export function emptyTotals(): UsageTotals {
+  return {
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 0,
+    costUsd: 0,
+    requests: 0,
+  };
+}
+
+export function addTotals(target: UsageTotals, totals: UsageTotals): UsageTotals {
+  target.inputTokens += totals.inputTokens;
+  target.outputTokens += totals.outputTokens;
+  target.cacheCreationInputTokens += totals.cacheCreationInputTokens;
+  target.cacheReadInputTokens += totals.cacheReadInputTokens;
+  target.costUsd = roundCost(target.costUsd + totals.costUsd);
+  target.requests += totals.requests;
+  return target;
+}
+
+// Totals of a single model call
+export function callTotals(usage: TokenUsage, model: string | undefined): UsageTotals {
+  return { ...usage, costUsd: estimateCostUsd(model, usage), requests: 1 };
+}
+
+// Share of the prompt read from the cache, from 0 to 1
+export function cacheHitRate(usage: TokenUsage): number {
+  const prompt = usage.inputTokens + usage.cacheCreationInputTokens + usage.cacheReadInputTokens;
+  return prompt === 0 ? 0 : Math.round((usage.cacheReadInputTokens / prompt) * 1000) / 1000;
+}
+
+/**
+ * Add a model call to the session's running totals, under the UTC day it was
+ * made. Returns the call's own totals.
+ */
+export function recordUsage(
+  session: WorkItemSession,
+  usage: TokenUsage,
+  model: string | undefined,
+  at = new Date()
+): UsageTotals {
+  const totals = callTotals(usage, model);
+  const day = at.toISOString().slice(0, 10);
+
+  session.usage ??= { total: emptyTotals(), daily: {} };
+  addTotals(session.usage.total, totals);
+  session.usage.daily[day] = addTotals(session.usage.daily[day] ?? emptyTotals(), totals);
+  return totals;
+}
+
+/**
+ * Usage of the sessions matching the query, in total and per organization and
+ * project. Days outside the from/to range are left out.
+ */
+export function buildUsageReport(
+  sessions: WorkItemSession[],
+  query: UsageReportQuery = {}
+): UsageReport {
+  const total = emptyTotals();
+  const organizations = new Map<string, OrganizationUsage>();
+  const projects = new Map<string, ProjectUsage>();
+
+  for (const session of sessions) {
+    if (query.organizationUrl && session.organizationUrl !== query.organizationUrl) {
+      continue;
+    }
+    const usage = sessionTotals(session, query);
+    if (usage.requests === 0) {
+      continue;
+    }
+
+    const { organizationUrl, projectId } = session;
+    addTotals(total, usage);
+
+    const organization = organizations.get(organizationUrl) ?? {
+      ...emptyTotals(),
+      organizationUrl,
+      sessions: 0,
+    };
+    addTotals(organization, usage);
+    organization.sessions++;
+    organizations.set(organizationUrl, organization);
+
+    const projectKey = `${organizationUrl}|${projectId}`;
+    const project = projects.get(projectKey) ?? {
+      ...emptyTotals(),
+      organizationUrl,
+      projectId,
+      sessions: 0,
+    };
+    addTotals(project, usage);
+    project.sessions++;
+    projects.set(projectKey, project);
+  }
+
+  return {
+    ...query,
+    total,
+    organizations: [...organizations.values()],
+    projects: [...projects.values()],
+  };
+}
+
+function sessionTotals(session: WorkItemSession, query: UsageReportQuery): UsageTotals {
+  const totals = emptyTotals();
+  for (const [day, usage] of Object.entries(session.usage?.daily ?? {})) {
+    const inRange = (!query.from || day >= query.from) && (!query.to || day <= query.to);
+    if (inRange) {
+      addTotals(totals, usage);
+    }
+  }
+  return totals;
+}
+
+/**
+ * Wrap a provider so every usage report it streams is passed to `onUsage`,
+ * including those of calls made on the agent's behalf, like compaction.
+ */
+export function meterUsage(
+  llm: LlmProvider,
+  onUsage: (usage: TokenUsage, model: string | undefined) => void
+): LlmProvider {
+  return {
+    async *chat(options) {
+      for await (const chunk of llm.chat(options)) {
+        if (chunk.type === "usage" && chunk.usage) {
+          onUsage(chunk.usage, chunk.model);
+        }
+        yield chunk;
+      }
+    },
+  };
+}
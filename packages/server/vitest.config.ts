@@ -2,6 +2,8 @@ import { defineConfig } from "vitest/config";
 
 export default defineConfig({
   test: {
+    // Services a test does not pass in are built from the config; never call a real model
+    env: { LLM_PROVIDER: "scripted" },
     coverage: {
       provider: "v8",
       reporter: ["text", "json", "html"],
@@ -3,26 +3,121 @@ export interface Message {
   id: string;
   role: "user" | "assistant";
   content: string;
+  toolCalls?: ToolCall[];
+  toolResults?: ToolResult[];
+  // Set on assistant text cut short by a cancelled run
+  interrupted?: boolean;
+  // Set on the pinned message that summarizes compacted turns
+  summary?: boolean;
+  // Tokens the model call behind an assistant message consumed
+  usage?: TokenUsage;
+  model?: string;
   createdAt: Date;
 }
 
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+}
+
+export interface UsageTotals extends TokenUsage {
+  // Estimated from list prices; models without a known price count as 0
+  costUsd: number;
+  // Model calls, including those made to compact the transcript
+  requests: number;
+}
+
+// Kept per UTC day (YYYY-MM-DD) so reports can cover a date range after compaction
+export interface SessionUsage {
+  total: UsageTotals;
+  daily: Record<string, UsageTotals>;
+}
+
+// Tool types
+export interface ToolCall {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export interface ToolResult {
+  toolCallId: string;
+  content: string;
+  isError?: boolean;
+}
+
 // Session types
+export type SessionState = "idle" | "specify" | "plan" | "execute";
+
 export interface WorkItemSession {
   id: string;
   workItemId: number;
   projectId: string;
   organizationUrl: string;
-  state: "idle" | "specify" | "plan" | "execute";
+  // Azure DevOps user ID of the creator; only they can use the session
+  ownerId?: string;
+  state: SessionState;
   transcript: Message[];
-  context: {
-    workItem: WorkItem;
-    relatedItems: WorkItem[];
-    childItems: WorkItem[];
-  };
+  context: WorkItemContext;
+  plan?: Plan;
+  spec?: SpecProposal;
+  modelSettings?: ModelSettings;
+  usage?: SessionUsage;
+  // Older turns summarized to keep the transcript within the context window
+  compactions?: CompactionEvent[];
+  // Changes made to Azure DevOps on behalf of the session, oldest first
+  operations?: WorkItemOperation[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Per-session model options; unset values fall back to the server's defaults
+export interface ModelSettings {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface CompactionEvent {
+  // Summary message that replaced the compacted turns
+  summaryMessageId: string;
+  compactedMessages: number;
+  tokensBefore: number;
+  tokensAfter: number;
+  createdAt: Date;
+}
+
+export interface WorkItemContext {
+  workItem: WorkItem;
+  parentItem?: WorkItem;
+  relatedItems: WorkItem[];
+  childItems: WorkItem[];
+  // Most recent discussion comments and field changes, oldest first
+  comments?: WorkItemComment[];
+  commentCount?: number;
+  history?: WorkItemRevision[];
+  // The work item's type in full, other types of the project with their states and required fields
+  workItemTypes?: WorkItemTypeMetadata[];
+  loadedAt?: Date;
+}
+
+export interface StateChange {
+  from: SessionState;
+  to: SessionState;
+}
+
+export interface ExecutionProgress {
+  subtaskId: string;
+  title: string;
+  status: "planned" | "created" | "skipped" | "failed";
+  workItemId?: number;
+  error?: string;
+  completed: number;
+  total: number;
+}
+
 export interface SessionCreateRequest {
   workItemId: number;
   projectId: string;
@@ -30,28 +125,340 @@ export interface SessionCreateRequest {
 }
 
 export interface SessionUpdateRequest {
-  state?: "idle" | "specify" | "plan" | "execute";
+  state?: SessionState;
+  // Replaces the session's model settings; {} restores the defaults
+  modelSettings?: ModelSettings;
+}
+
+// Plan types
+export type PlanStatus = "draft" | "approved" | "executing" | "completed" | "failed";
+
+export interface PlanSubtask {
+  // Key unique within the plan, referenced by dependsOn
+  id: string;
+  title: string;
+  description?: string;
+  type: string;
+  tags: string[];
+  // Estimated effort in hours
+  estimate?: number;
+  dependsOn: string[];
+  // Set once the subtask has been created in Azure DevOps
+  workItemId?: number;
+}
+
+export interface Plan {
+  id: string;
+  status: PlanStatus;
+  summary?: string;
+  subtasks: PlanSubtask[];
+  createdAt: Date;
+  updatedAt: Date;
+  approvedAt?: Date;
+  execution?: PlanExecution;
+}
+
+export interface PlanExecution {
+  startedAt: Date;
+  finishedAt?: Date;
+  error?: string;
+}
+
+export interface PlanUpdateRequest {
+  summary?: string;
+  subtasks: PlanSubtask[];
+}
+
+// Specification types
+export type SpecStatus = "draft" | "approved" | "rejected" | "applied";
+
+export interface AcceptanceCriterion {
+  // Optional scenario name, e.g. "Expired card"
+  scenario?: string;
+  given: string;
+  when: string;
+  then: string;
+}
+
+// A structured specification proposed in the Specify flow for the user to review
+export interface SpecProposal {
+  id: string;
+  status: SpecStatus;
+  // Revised description as markdown; replaces the work item's description when applied
+  description: string;
+  acceptanceCriteria: AcceptanceCriterion[];
+  // For the review only; not written back to the work item
+  openQuestions: string[];
+  risks: string[];
+  createdAt: Date;
+  updatedAt: Date;
+  approvedAt?: Date;
+  applied?: SpecApplication;
+}
+
+export interface SpecApplication {
+  appliedAt: Date;
+  // Revision of the work item the changes created
+  rev?: number;
+  changes: FieldChange[];
+}
+
+export interface SpecUpdateRequest {
+  description: string;
+  acceptanceCriteria: AcceptanceCriterion[];
+  openQuestions?: string[];
+  risks?: string[];
+}
+
+export interface SpecApplyResponse {
+  sessionId: string;
+  workItemId: number;
+  dryRun: boolean;
+  // Only the fields whose value differs from the work item's
+  changes: FieldChange[];
+  spec: SpecProposal;
 }
 
 // Work item types
 export interface WorkItem {
   id: number;
+  rev?: number;
+  url?: string;
   fields: Record<string, string | number | undefined>;
+  relations?: WorkItemRelation[];
+}
+
+export interface WorkItemRelation {
+  rel: string;
+  url: string;
+  attributes?: Record<string, unknown>;
+}
+
+// A discussion comment, with its body converted to markdown
+export interface WorkItemComment {
+  id: number;
+  text: string;
+  author?: string;
+  // ISO 8601
+  createdAt?: string;
+}
+
+// The fields changed by one revision of a work item
+export interface WorkItemRevision {
+  rev: number;
+  changedBy?: string;
+  // ISO 8601
+  changedAt?: string;
+  changes: FieldChange[];
+}
+
+// A work item type as defined by the project's process (Agile, Scrum, CMMI or custom)
+export interface WorkItemTypeMetadata {
+  name: string;
+  states: string[];
+  // The state of the Removed category, which hides items from boards and backlogs
+  removedState?: string;
+  fields: WorkItemFieldMetadata[];
+}
+
+export type WorkItemFieldType =
+  | "string"
+  | "integer"
+  | "double"
+  | "boolean"
+  | "dateTime"
+  | "html"
+  | "plainText"
+  | "treePath"
+  | "identity"
+  | "other";
+
+export interface WorkItemFieldMetadata {
+  referenceName: string;
+  name: string;
+  type: WorkItemFieldType;
+  required: boolean;
+  readOnly?: boolean;
+  // Picklist values; any value of the field's type is accepted when unset
+  allowedValues?: string[];
+  defaultValue?: string;
 }
 
 // Chat types
-export interface ChatRequest {
+export interface ChatMessageRequest {
+  type?: "message";
   sessionId: string;
   message: string;
 }
 
+// Answer to a confirmation_required chunk for a mutating tool call
+export interface ConfirmationResponse {
+  type: "approve" | "reject";
+  sessionId: string;
+  toolCallId: string;
+}
+
+// Stop the run in progress for the session
+export interface CancelRequest {
+  type: "cancel";
+  sessionId: string;
+}
+
+// Replay the chunks after lastSeq, then keep following the session's run
+export interface ResumeRequest {
+  type: "resume";
+  sessionId: string;
+  lastSeq: number;
+}
+
+// Follow the session's runs, including ones started from other connections
+export interface SubscribeRequest {
+  type: "subscribe";
+  sessionId: string;
+}
+
+export type ChatRequest =
+  | ChatMessageRequest
+  | ConfirmationResponse
+  | CancelRequest
+  | ResumeRequest
+  | SubscribeRequest;
+
+export interface FieldChange {
+  field: string;
+  from?: string | number;
+  to?: string | number;
+}
+
+export interface ConfirmationRequest {
+  toolCallId: string;
+  name: string;
+  input: unknown;
+  summary: string;
+  changes: FieldChange[];
+  // The call is rejected when no answer arrives by then
+  expiresAt: Date;
+}
+
 export interface StreamChunk {
-  type: "text" | "tool_call" | "done" | "error";
+  type:
+    | "text"
+    | "tool_call"
+    | "tool_result"
+    | "state_changed"
+    | "execution_progress"
+    | "confirmation_required"
+    | "cancelled"
+    | "done"
+    | "usage"
+    | "error";
+  // Per-session sequence number of chunks sent over the WebSocket
+  seq?: number;
   content?: string;
-  toolCall?: {
-    id: string;
-    name: string;
-    input: Record<string, unknown>;
-  };
+  toolCall?: ToolCall;
+  toolResult?: ToolResult & { name: string };
+  stateChange?: StateChange;
+  progress?: ExecutionProgress;
+  confirmation?: ConfirmationRequest;
+  // Tokens used by the run, sent just before done
+  usage?: UsageTotals;
   error?: string;
+  // Set on errors the client can act on, e.g. by signing in again or waiting
+  errorCode?: StreamErrorCode;
+}
+
+export type StreamErrorCode = "rate_limited" | "auth" | "permission" | "not_found" | "upstream";
+
+// Usage report types
+export interface UsageReportQuery {
+  organizationUrl?: string;
+  // Inclusive UTC days, YYYY-MM-DD
+  from?: string;
+  to?: string;
+}
+
+export interface OrganizationUsage extends UsageTotals {
+  organizationUrl: string;
+  sessions: number;
+}
+
+export interface ProjectUsage extends OrganizationUsage {
+  projectId: string;
+}
+
+export interface UsageReport extends UsageReportQuery {
+  total: UsageTotals;
+  organizations: OrganizationUsage[];
+  projects: ProjectUsage[];
+}
+
+// Similar work items
+export interface SimilarWorkItem {
+  id: number;
+  title?: string;
+  type?: string;
+  state?: string;
+  // Cosine similarity of the embeddings, from -1 to 1
+  score: number;
+  likelyDuplicate: boolean;
+}
+
+export interface SimilarWorkItemsResponse {
+  workItemId: number;
+  items: SimilarWorkItem[];
+}
+
+// Effort estimates from the team's completed work items
+export type EstimateConfidence = "low" | "medium" | "high";
+
+export interface EstimateRange {
+  // The middle half of the past values
+  low: number;
+  median: number;
+  high: number;
+  sampleSize: number;
+}
+
+export interface ComparableWorkItem {
+  id: number;
+  title?: string;
+  areaPath?: string;
+  storyPoints?: number;
+  originalEstimate?: number;
+  completedWork?: number;
+  cycleTimeDays?: number;
+}
+
+export interface WorkItemEstimate {
+  type: string;
+  areaPath?: string;
+  // "team" when the area has enough completed items of its own, otherwise the whole project
+  basis: "team" | "project";
+  sampleSize: number;
+  confidence: EstimateConfidence;
+  // From the hours actually spent, or the original estimates where those are not tracked
+  hours?: EstimateRange;
+  hoursFrom?: "completedWork" | "originalEstimate";
+  storyPoints?: EstimateRange;
+  cycleTimeDays?: EstimateRange;
+  comparableItems: ComparableWorkItem[];
+}
+
+// Operation journal
+export interface WorkItemOperation {
+  id: string;
+  kind: "create" | "update";
+  // The created or updated work item
+  workItemId: number;
+  title?: string;
+  // Field values before and after the operation
+  changes: FieldChange[];
+  addedLinks: WorkItemRelation[];
+  performedAt: Date;
+  revertedAt?: Date;
+}
+
+export interface OperationListResponse {
+  sessionId: string;
+  operations: WorkItemOperation[];
 }